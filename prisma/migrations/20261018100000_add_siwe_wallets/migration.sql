@@ -0,0 +1,46 @@
+-- AlterTable
+ALTER TABLE "users" ALTER COLUMN "email" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN "owner_wallet_address" TEXT;
+
+-- CreateTable
+CREATE TABLE "user_wallets" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "address" TEXT NOT NULL,
+    "chain_id" INTEGER NOT NULL,
+    "is_primary" BOOLEAN NOT NULL DEFAULT false,
+    "verified_at" TIMESTAMP(3) NOT NULL,
+    "last_used_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "user_wallets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "siwe_nonces" (
+    "id" TEXT NOT NULL,
+    "nonce" TEXT NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "consumed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "siwe_nonces_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_wallets_address_key" ON "user_wallets"("address");
+
+-- CreateIndex
+CREATE INDEX "user_wallets_user_id_idx" ON "user_wallets"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "siwe_nonces_nonce_key" ON "siwe_nonces"("nonce");
+
+-- CreateIndex
+CREATE INDEX "siwe_nonces_expires_at_idx" ON "siwe_nonces"("expires_at");
+
+-- AddForeignKey
+ALTER TABLE "user_wallets" ADD CONSTRAINT "user_wallets_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
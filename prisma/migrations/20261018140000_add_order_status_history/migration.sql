@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "OrderActorType" AS ENUM ('USER', 'SYSTEM', 'PAYMENT_PROVIDER', 'BLOCKCHAIN');
+
+-- CreateTable
+CREATE TABLE "order_status_history" (
+    "id" TEXT NOT NULL,
+    "order_id" TEXT NOT NULL,
+    "from_status" "OrderStatus",
+    "to_status" "OrderStatus" NOT NULL,
+    "actor_type" "OrderActorType" NOT NULL,
+    "actor_id" TEXT,
+    "reason" TEXT,
+    "metadata" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "order_status_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "order_status_history_order_id_created_at_idx" ON "order_status_history"("order_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "order_status_history" ADD CONSTRAINT "order_status_history_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill one entry per existing order with its current status
+INSERT INTO "order_status_history" ("id", "order_id", "from_status", "to_status", "actor_type", "reason", "created_at")
+SELECT gen_random_uuid()::text, "id", NULL, "status", 'SYSTEM', 'Backfilled from existing order', "updated_at"
+FROM "orders";
@@ -0,0 +1,24 @@
+-- AlterEnum
+ALTER TYPE "OrderStatus" ADD VALUE 'EXPIRED';
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "released_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "order_reminders" (
+    "id" TEXT NOT NULL,
+    "order_id" TEXT NOT NULL,
+    "days_before" INTEGER NOT NULL,
+    "sent_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "order_reminders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "orders_expires_at_idx" ON "orders"("expires_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "order_reminders_order_id_days_before_key" ON "order_reminders"("order_id", "days_before");
+
+-- AddForeignKey
+ALTER TABLE "order_reminders" ADD CONSTRAINT "order_reminders_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
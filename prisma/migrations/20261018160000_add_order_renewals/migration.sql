@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "PaymentPurpose" AS ENUM ('ORDER', 'RENEWAL');
+
+-- CreateEnum
+CREATE TYPE "RenewalStatus" AS ENUM ('PENDING_PAYMENT', 'PAID', 'COMPLETED', 'FAILED', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN     "purpose" "PaymentPurpose" NOT NULL DEFAULT 'ORDER',
+ADD COLUMN     "renewal_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "order_renewals" (
+    "id" TEXT NOT NULL,
+    "order_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "plan_id" TEXT NOT NULL,
+    "duration_days" INTEGER NOT NULL,
+    "price_usd_cents" INTEGER NOT NULL,
+    "status" "RenewalStatus" NOT NULL DEFAULT 'PENDING_PAYMENT',
+    "status_message" TEXT,
+    "previous_expires_at" TIMESTAMP(3),
+    "new_expires_at" TIMESTAMP(3),
+    "paid_at" TIMESTAMP(3),
+    "completed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "order_renewals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payments_renewal_id_idx" ON "payments"("renewal_id");
+
+-- CreateIndex
+CREATE INDEX "order_renewals_order_id_idx" ON "order_renewals"("order_id");
+
+-- CreateIndex
+CREATE INDEX "order_renewals_status_idx" ON "order_renewals"("status");
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_renewal_id_fkey" FOREIGN KEY ("renewal_id") REFERENCES "order_renewals"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_renewals" ADD CONSTRAINT "order_renewals_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_renewals" ADD CONSTRAINT "order_renewals_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_renewals" ADD CONSTRAINT "order_renewals_plan_id_fkey" FOREIGN KEY ("plan_id") REFERENCES "storage_plans"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
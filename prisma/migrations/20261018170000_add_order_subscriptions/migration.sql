@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "SubscriptionStatus" AS ENUM ('ACTIVE', 'PAST_DUE', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN     "stripe_invoice_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "order_subscriptions" (
+    "id" TEXT NOT NULL,
+    "order_id" TEXT NOT NULL,
+    "stripe_subscription_id" TEXT NOT NULL,
+    "status" "SubscriptionStatus" NOT NULL DEFAULT 'ACTIVE',
+    "duration_days" INTEGER NOT NULL,
+    "price_usd_cents" INTEGER NOT NULL,
+    "current_period_end" TIMESTAMP(3),
+    "cancel_at_period_end" BOOLEAN NOT NULL DEFAULT false,
+    "failed_payment_count" INTEGER NOT NULL DEFAULT 0,
+    "last_payment_error" TEXT,
+    "cancelled_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "order_subscriptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payments_stripe_invoice_id_key" ON "payments"("stripe_invoice_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "order_subscriptions_order_id_key" ON "order_subscriptions"("order_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "order_subscriptions_stripe_subscription_id_key" ON "order_subscriptions"("stripe_subscription_id");
+
+-- CreateIndex
+CREATE INDEX "order_subscriptions_status_idx" ON "order_subscriptions"("status");
+
+-- AddForeignKey
+ALTER TABLE "order_subscriptions" ADD CONSTRAINT "order_subscriptions_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
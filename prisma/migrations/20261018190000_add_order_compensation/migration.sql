@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "RefundSource" ADD VALUE 'SYSTEM';
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "allow_provider_fallback" BOOLEAN NOT NULL DEFAULT false;
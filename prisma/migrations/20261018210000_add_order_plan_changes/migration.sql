@@ -0,0 +1,53 @@
+-- AlterEnum
+ALTER TYPE "PaymentPurpose" ADD VALUE 'PLAN_CHANGE';
+
+-- CreateEnum
+CREATE TYPE "PlanChangeStatus" AS ENUM ('PENDING_PAYMENT', 'PAID', 'COMPLETED', 'FAILED', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN     "plan_change_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "order_plan_changes" (
+    "id" TEXT NOT NULL,
+    "order_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "from_plan_id" TEXT NOT NULL,
+    "to_plan_id" TEXT NOT NULL,
+    "remaining_days" INTEGER NOT NULL,
+    "credit_cents" INTEGER NOT NULL,
+    "new_cost_cents" INTEGER NOT NULL,
+    "difference_cents" INTEGER NOT NULL,
+    "status" "PlanChangeStatus" NOT NULL DEFAULT 'PENDING_PAYMENT',
+    "status_message" TEXT,
+    "paid_at" TIMESTAMP(3),
+    "completed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "order_plan_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payments_plan_change_id_idx" ON "payments"("plan_change_id");
+
+-- CreateIndex
+CREATE INDEX "order_plan_changes_order_id_idx" ON "order_plan_changes"("order_id");
+
+-- CreateIndex
+CREATE INDEX "order_plan_changes_status_idx" ON "order_plan_changes"("status");
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_plan_change_id_fkey" FOREIGN KEY ("plan_change_id") REFERENCES "order_plan_changes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_plan_changes" ADD CONSTRAINT "order_plan_changes_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_plan_changes" ADD CONSTRAINT "order_plan_changes_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_plan_changes" ADD CONSTRAINT "order_plan_changes_from_plan_id_fkey" FOREIGN KEY ("from_plan_id") REFERENCES "storage_plans"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_plan_changes" ADD CONSTRAINT "order_plan_changes_to_plan_id_fkey" FOREIGN KEY ("to_plan_id") REFERENCES "storage_plans"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
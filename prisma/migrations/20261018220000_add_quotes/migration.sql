@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "quotes" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "plan_id" TEXT NOT NULL,
+    "plan_version" INTEGER NOT NULL,
+    "price_usd_cents" INTEGER NOT NULL,
+    "price_native" TEXT,
+    "native_currency" TEXT,
+    "fx_rate" TEXT,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "order_id" TEXT,
+    "used_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "quotes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "quotes_order_id_key" ON "quotes"("order_id");
+
+-- CreateIndex
+CREATE INDEX "quotes_user_id_idx" ON "quotes"("user_id");
+
+-- CreateIndex
+CREATE INDEX "quotes_expires_at_idx" ON "quotes"("expires_at");
+
+-- AddForeignKey
+ALTER TABLE "quotes" ADD CONSTRAINT "quotes_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quotes" ADD CONSTRAINT "quotes_plan_id_fkey" FOREIGN KEY ("plan_id") REFERENCES "storage_plans"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quotes" ADD CONSTRAINT "quotes_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "orders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,58 @@
+-- CreateTable
+CREATE TABLE "invoices" (
+    "id" TEXT NOT NULL,
+    "invoice_number" TEXT NOT NULL,
+    "order_id" TEXT NOT NULL,
+    "payment_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "organization_id" TEXT,
+    "currency" TEXT NOT NULL,
+    "subtotal_cents" INTEGER NOT NULL,
+    "tax_cents" INTEGER NOT NULL,
+    "total_cents" INTEGER NOT NULL,
+    "tax_rate_percent" DOUBLE PRECISION NOT NULL,
+    "line_items" JSONB NOT NULL,
+    "seller" JSONB NOT NULL,
+    "bill_to" JSONB NOT NULL,
+    "payment_reference" TEXT,
+    "tx_hash" TEXT,
+    "explorer_url" TEXT,
+    "file_path" TEXT,
+    "issued_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "invoices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "invoice_sequences" (
+    "year" INTEGER NOT NULL,
+    "last_number" INTEGER NOT NULL DEFAULT 0,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "invoice_sequences_pkey" PRIMARY KEY ("year")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_invoice_number_key" ON "invoices"("invoice_number");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_payment_id_key" ON "invoices"("payment_id");
+
+-- CreateIndex
+CREATE INDEX "invoices_order_id_idx" ON "invoices"("order_id");
+
+-- CreateIndex
+CREATE INDEX "invoices_user_id_idx" ON "invoices"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_payment_id_fkey" FOREIGN KEY ("payment_id") REFERENCES "payments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "provider_rate_cards" (
+    "id" TEXT NOT NULL,
+    "provider_id" TEXT NOT NULL,
+    "price_per_gb_month_cents" DOUBLE PRECISION NOT NULL,
+    "price_per_gb_month_native" TEXT,
+    "native_currency" TEXT,
+    "min_price_usd_cents" INTEGER NOT NULL DEFAULT 0,
+    "min_size_gb" DOUBLE PRECISION NOT NULL,
+    "max_size_gb" DOUBLE PRECISION NOT NULL,
+    "min_duration_days" INTEGER NOT NULL,
+    "max_duration_days" INTEGER NOT NULL,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "provider_rate_cards_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "provider_rate_cards_provider_id_key" ON "provider_rate_cards"("provider_id");
+
+-- AlterTable
+ALTER TABLE "orders" ALTER COLUMN "plan_id" DROP NOT NULL,
+ADD COLUMN "rate_card_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "order_renewals" ALTER COLUMN "plan_id" DROP NOT NULL,
+ADD COLUMN "rate_card_id" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "provider_rate_cards" ADD CONSTRAINT "provider_rate_cards_provider_id_fkey" FOREIGN KEY ("provider_id") REFERENCES "providers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "orders" ADD CONSTRAINT "orders_rate_card_id_fkey" FOREIGN KEY ("rate_card_id") REFERENCES "provider_rate_cards"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_renewals" ADD CONSTRAINT "order_renewals_rate_card_id_fkey" FOREIGN KEY ("rate_card_id") REFERENCES "provider_rate_cards"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
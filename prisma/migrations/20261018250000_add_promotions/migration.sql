@@ -0,0 +1,86 @@
+-- CreateEnum
+CREATE TYPE "CouponDiscountType" AS ENUM ('PERCENT', 'FIXED');
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN "discount_cents" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "coupons" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "description" TEXT,
+    "discount_type" "CouponDiscountType" NOT NULL,
+    "percent_off" DOUBLE PRECISION,
+    "amount_off_cents" INTEGER,
+    "max_redemptions" INTEGER,
+    "redemption_count" INTEGER NOT NULL DEFAULT 0,
+    "max_redemptions_per_user" INTEGER,
+    "starts_at" TIMESTAMP(3),
+    "expires_at" TIMESTAMP(3),
+    "plan_ids" TEXT[],
+    "provider_ids" TEXT[],
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "coupons_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "gift_vouchers" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "initial_amount_cents" INTEGER NOT NULL,
+    "balance_cents" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'usd',
+    "expires_at" TIMESTAMP(3),
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "gift_vouchers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "promotion_redemptions" (
+    "id" TEXT NOT NULL,
+    "order_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "coupon_id" TEXT,
+    "voucher_id" TEXT,
+    "amount_cents" INTEGER NOT NULL,
+    "released_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "promotion_redemptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "coupons_code_key" ON "coupons"("code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "gift_vouchers_code_key" ON "gift_vouchers"("code");
+
+-- CreateIndex
+CREATE INDEX "promotion_redemptions_order_id_idx" ON "promotion_redemptions"("order_id");
+
+-- CreateIndex
+CREATE INDEX "promotion_redemptions_user_id_idx" ON "promotion_redemptions"("user_id");
+
+-- CreateIndex
+CREATE INDEX "promotion_redemptions_coupon_id_idx" ON "promotion_redemptions"("coupon_id");
+
+-- CreateIndex
+CREATE INDEX "promotion_redemptions_voucher_id_idx" ON "promotion_redemptions"("voucher_id");
+
+-- AddForeignKey
+ALTER TABLE "promotion_redemptions" ADD CONSTRAINT "promotion_redemptions_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "promotion_redemptions" ADD CONSTRAINT "promotion_redemptions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "promotion_redemptions" ADD CONSTRAINT "promotion_redemptions_coupon_id_fkey" FOREIGN KEY ("coupon_id") REFERENCES "coupons"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "promotion_redemptions" ADD CONSTRAINT "promotion_redemptions_voucher_id_fkey" FOREIGN KEY ("voucher_id") REFERENCES "gift_vouchers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,57 @@
+-- CreateEnum
+CREATE TYPE "DisputeStatus" AS ENUM ('WARNING_NEEDS_RESPONSE', 'WARNING_UNDER_REVIEW', 'WARNING_CLOSED', 'NEEDS_RESPONSE', 'UNDER_REVIEW', 'WON', 'LOST');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "flagged_at" TIMESTAMP(3),
+ADD COLUMN "flag_reason" TEXT;
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN "dispute_id" TEXT,
+ADD COLUMN "suspended_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "disputes" (
+    "id" TEXT NOT NULL,
+    "stripe_dispute_id" TEXT NOT NULL,
+    "stripe_charge_id" TEXT NOT NULL,
+    "payment_id" TEXT,
+    "purchase_id" TEXT,
+    "user_id" TEXT NOT NULL,
+    "amount_cents" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "status" "DisputeStatus" NOT NULL,
+    "evidence_due_by" TIMESTAMP(3),
+    "closed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "disputes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "disputes_stripe_dispute_id_key" ON "disputes"("stripe_dispute_id");
+
+-- CreateIndex
+CREATE INDEX "disputes_payment_id_idx" ON "disputes"("payment_id");
+
+-- CreateIndex
+CREATE INDEX "disputes_purchase_id_idx" ON "disputes"("purchase_id");
+
+-- CreateIndex
+CREATE INDEX "disputes_user_id_idx" ON "disputes"("user_id");
+
+-- CreateIndex
+CREATE INDEX "disputes_status_idx" ON "disputes"("status");
+
+-- AddForeignKey
+ALTER TABLE "orders" ADD CONSTRAINT "orders_dispute_id_fkey" FOREIGN KEY ("dispute_id") REFERENCES "disputes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "disputes" ADD CONSTRAINT "disputes_payment_id_fkey" FOREIGN KEY ("payment_id") REFERENCES "payments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "disputes" ADD CONSTRAINT "disputes_purchase_id_fkey" FOREIGN KEY ("purchase_id") REFERENCES "purchases"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "disputes" ADD CONSTRAINT "disputes_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "PaymentMethod" AS ENUM ('STRIPE', 'CRYPTO');
+
+-- CreateEnum
+CREATE TYPE "CryptoAsset" AS ENUM ('USDC', 'NATIVE');
+
+-- CreateEnum
+CREATE TYPE "CryptoPaymentStatus" AS ENUM ('AWAITING_PAYMENT', 'CONFIRMING', 'CONFIRMED', 'UNDERPAID', 'EXPIRED');
+
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN "method" "PaymentMethod" NOT NULL DEFAULT 'STRIPE';
+
+-- CreateTable
+CREATE TABLE "crypto_payments" (
+    "id" TEXT NOT NULL,
+    "payment_id" TEXT NOT NULL,
+    "asset" "CryptoAsset" NOT NULL,
+    "chain_id" TEXT NOT NULL,
+    "derivation_index" SERIAL NOT NULL,
+    "deposit_address" TEXT,
+    "expected_amount" TEXT NOT NULL,
+    "received_amount" TEXT NOT NULL DEFAULT '0',
+    "usd_rate" TEXT NOT NULL,
+    "status" "CryptoPaymentStatus" NOT NULL DEFAULT 'AWAITING_PAYMENT',
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "confirmed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "crypto_payments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "crypto_payments_payment_id_key" ON "crypto_payments"("payment_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "crypto_payments_derivation_index_key" ON "crypto_payments"("derivation_index");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "crypto_payments_deposit_address_key" ON "crypto_payments"("deposit_address");
+
+-- CreateIndex
+CREATE INDEX "crypto_payments_status_idx" ON "crypto_payments"("status");
+
+-- AddForeignKey
+ALTER TABLE "crypto_payments" ADD CONSTRAINT "crypto_payments_payment_id_fkey" FOREIGN KEY ("payment_id") REFERENCES "payments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,110 @@
+-- AlterEnum
+ALTER TYPE "PaymentMethod" ADD VALUE 'CREDIT';
+
+-- CreateEnum
+CREATE TYPE "CreditEntryType" AS ENUM ('TOP_UP', 'ORDER_PAYMENT', 'REFUND', 'ADJUSTMENT');
+
+-- CreateEnum
+CREATE TYPE "CreditTopUpStatus" AS ENUM ('PENDING_PAYMENT', 'PAID', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "credit_balance_cents" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "organizations" ADD COLUMN "credit_balance_cents" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "refunds" ADD COLUMN "to_credit" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "credit_top_ups" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "organization_id" TEXT,
+    "amount_cents" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'usd',
+    "status" "CreditTopUpStatus" NOT NULL DEFAULT 'PENDING_PAYMENT',
+    "stripe_session_id" TEXT,
+    "stripe_payment_intent_id" TEXT,
+    "paid_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "credit_top_ups_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "credit_ledger_entries" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT,
+    "organization_id" TEXT,
+    "type" "CreditEntryType" NOT NULL,
+    "amount_cents" INTEGER NOT NULL,
+    "balance_after_cents" INTEGER NOT NULL,
+    "description" TEXT,
+    "top_up_id" TEXT,
+    "payment_id" TEXT,
+    "order_id" TEXT,
+    "refund_id" TEXT,
+    "created_by_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "credit_ledger_entries_pkey" PRIMARY KEY ("id"),
+    -- Every entry belongs to exactly one balance
+    CONSTRAINT "credit_ledger_entries_account_check" CHECK (("user_id" IS NULL) <> ("organization_id" IS NULL))
+);
+
+-- Balances never go negative
+ALTER TABLE "users" ADD CONSTRAINT "users_credit_balance_cents_check" CHECK ("credit_balance_cents" >= 0);
+ALTER TABLE "organizations" ADD CONSTRAINT "organizations_credit_balance_cents_check" CHECK ("credit_balance_cents" >= 0);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "credit_top_ups_stripe_session_id_key" ON "credit_top_ups"("stripe_session_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "credit_top_ups_stripe_payment_intent_id_key" ON "credit_top_ups"("stripe_payment_intent_id");
+
+-- CreateIndex
+CREATE INDEX "credit_top_ups_user_id_idx" ON "credit_top_ups"("user_id");
+
+-- CreateIndex
+CREATE INDEX "credit_top_ups_organization_id_idx" ON "credit_top_ups"("organization_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "credit_ledger_entries_top_up_id_key" ON "credit_ledger_entries"("top_up_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "credit_ledger_entries_refund_id_key" ON "credit_ledger_entries"("refund_id");
+
+-- CreateIndex
+CREATE INDEX "credit_ledger_entries_user_id_created_at_idx" ON "credit_ledger_entries"("user_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "credit_ledger_entries_organization_id_created_at_idx" ON "credit_ledger_entries"("organization_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "credit_ledger_entries_payment_id_idx" ON "credit_ledger_entries"("payment_id");
+
+-- AddForeignKey
+ALTER TABLE "credit_top_ups" ADD CONSTRAINT "credit_top_ups_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_top_ups" ADD CONSTRAINT "credit_top_ups_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_ledger_entries" ADD CONSTRAINT "credit_ledger_entries_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_ledger_entries" ADD CONSTRAINT "credit_ledger_entries_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_ledger_entries" ADD CONSTRAINT "credit_ledger_entries_top_up_id_fkey" FOREIGN KEY ("top_up_id") REFERENCES "credit_top_ups"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_ledger_entries" ADD CONSTRAINT "credit_ledger_entries_payment_id_fkey" FOREIGN KEY ("payment_id") REFERENCES "payments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_ledger_entries" ADD CONSTRAINT "credit_ledger_entries_refund_id_fkey" FOREIGN KEY ("refund_id") REFERENCES "refunds"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_ledger_entries" ADD CONSTRAINT "credit_ledger_entries_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN "currency" TEXT NOT NULL DEFAULT 'usd',
+ADD COLUMN "fx_rate" TEXT NOT NULL DEFAULT '1';
+
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN "fx_rate" TEXT NOT NULL DEFAULT '1';
+
+-- CreateTable
+CREATE TABLE "fx_rates" (
+    "currency" TEXT NOT NULL,
+    "rate" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "fetched_at" TIMESTAMP(3) NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "fx_rates_pkey" PRIMARY KEY ("currency")
+);
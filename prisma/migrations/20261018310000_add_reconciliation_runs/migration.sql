@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "ReconciliationRunStatus" AS ENUM ('RUNNING', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "reconciliation_runs" (
+    "id" TEXT NOT NULL,
+    "status" "ReconciliationRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "triggered_by_id" TEXT,
+    "checked_count" INTEGER NOT NULL DEFAULT 0,
+    "repaired_count" INTEGER NOT NULL DEFAULT 0,
+    "unresolved_count" INTEGER NOT NULL DEFAULT 0,
+    "findings" JSONB NOT NULL DEFAULT '[]',
+    "error" TEXT,
+    "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finished_at" TIMESTAMP(3),
+
+    CONSTRAINT "reconciliation_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "reconciliation_runs_started_at_idx" ON "reconciliation_runs"("started_at");
+
+-- AddForeignKey
+ALTER TABLE "reconciliation_runs" ADD CONSTRAINT "reconciliation_runs_triggered_by_id_fkey" FOREIGN KEY ("triggered_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN "billing_country" TEXT,
+ADD COLUMN "billing_region" TEXT,
+ADD COLUMN "vat_id" TEXT,
+ADD COLUMN "reverse_charge" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "tax_rate_percent" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN "tax_cents" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN "tax_cents" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "tax_rate_percent" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN "reverse_charge" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "invoices" ADD COLUMN "reverse_charge" BOOLEAN NOT NULL DEFAULT false;
@@ -1,4 +1,4 @@
-import { PrismaClient, NetworkType, ProviderStatus, PlanStatus } from '@prisma/client';
+import { PrismaClient, NetworkType, ProviderStatus, PlanStatus, UserRole } from '@prisma/client';
 
 const prisma = new PrismaClient();
 
@@ -23,6 +23,15 @@ async function main() {
         name: 'Test User',
       },
     }),
+    prisma.user.upsert({
+      where: { email: 'admin@depin.storage' },
+      update: { role: UserRole.ADMIN },
+      create: {
+        email: 'admin@depin.storage',
+        name: 'Admin User',
+        role: UserRole.ADMIN,
+      },
+    }),
   ]);
 
   console.log(`✅ Created ${users.length} users`);
@@ -286,6 +295,31 @@ async function main() {
 
   console.log(`✅ Created ${plans.length} storage plans`);
 
+  // Per-GB rate cards for custom-size orders
+  const rateCards = [
+    {
+      providerId: createdProviders['storj'].id,
+      pricePerGbMonthCents: 0.4,
+      pricePerGbMonthNative: '0.01',
+      nativeCurrency: 'STORJ',
+      minPriceUsdCents: 50,
+      minSizeGb: 1,
+      maxSizeGb: 10240,
+      minDurationDays: 30,
+      maxDurationDays: 365,
+    },
+  ];
+
+  for (const rateCard of rateCards) {
+    await prisma.providerRateCard.upsert({
+      where: { providerId: rateCard.providerId },
+      update: { ...rateCard, isActive: true },
+      create: rateCard,
+    });
+  }
+
+  console.log(`✅ Created ${rateCards.length} rate cards`);
+
   console.log('🎉 Database seeding completed!');
 }
 
@@ -1,20 +1,32 @@
-import express, { Express, Request, Response } from 'express';
+import express, { Express, Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import compression from 'compression';
 import morgan from 'morgan';
 import rateLimit from 'express-rate-limit';
+import cookieParser from 'cookie-parser';
 import path from 'path';
 
 import { config } from './config';
 import { logger } from './common/utils';
 import { errorHandler, notFoundHandler } from './middleware/error.middleware';
+import { authenticate, hasPermission } from './middleware/auth.middleware';
+import { ForbiddenError } from './common/utils/errors';
+import { Permissions } from './modules/auth/permissions';
 
 // Controllers
 import { providerController, storagePlansController } from './modules/providers';
-import { paymentController } from './modules/payments';
+import { paymentController, fakeGatewayController, paymentGateway } from './modules/payments';
 import { orderController } from './modules/orders';
 import { userController } from './modules/users';
+import { authController } from './modules/auth';
+import { apiKeyController } from './modules/api-keys';
+import { organizationController } from './modules/organizations';
+import { cartController } from './modules/cart';
+import { quoteController } from './modules/quotes';
+import { promotionController } from './modules/promotions';
+import { disputeController } from './modules/disputes';
+import { creditController } from './modules/credits';
 
 // ============================================
 // Express Application
@@ -48,26 +60,13 @@ export function createApp(): Express {
     },
   }));
 
-  // Rate limiting
-  const limiter = rateLimit({
-    windowMs: config.rateLimit.windowMs,
-    max: config.rateLimit.maxRequests,
-    message: {
-      success: false,
-      error: {
-        code: 'RATE_LIMIT_EXCEEDED',
-        message: 'Too many requests, please try again later',
-      },
-    },
-  });
-  app.use('/api', limiter);
-
   // Body parsing
   // Raw body for Stripe webhooks
   app.use('/api/payments/webhook', express.raw({ type: 'application/json' }));
   // JSON body for other routes
   app.use(express.json());
   app.use(express.urlencoded({ extended: true }));
+  app.use(cookieParser());
 
   // Static files for UI
   app.use(express.static(path.join(__dirname, '../public')));
@@ -76,6 +75,24 @@ export function createApp(): Express {
   app.set('view engine', 'ejs');
   app.set('views', path.join(__dirname, '../views'));
 
+  // Resolve the session or API key (if any) for API and UI routes
+  app.use(authenticate);
+
+  // Rate limiting - each API key has its own budget, other traffic is limited per IP
+  const limiter = rateLimit({
+    windowMs: config.rateLimit.windowMs,
+    max: (req: Request) => req.apiKey ? config.rateLimit.apiKeyMaxRequests : config.rateLimit.maxRequests,
+    keyGenerator: (req: Request) => req.apiKey ? `api-key:${req.apiKey.id}` : req.ip || 'unknown',
+    message: {
+      success: false,
+      error: {
+        code: 'RATE_LIMIT_EXCEEDED',
+        message: 'Too many requests, please try again later',
+      },
+    },
+  });
+  app.use('/api', limiter);
+
   // ============================================
   // API Routes
   // ============================================
@@ -93,11 +110,19 @@ export function createApp(): Express {
   });
 
   // API routes
+  app.use('/api/auth', authController);
   app.use('/api/providers', providerController);
   app.use('/api/storage', storagePlansController);
   app.use('/api/payments', paymentController);
   app.use('/api/orders', orderController);
   app.use('/api/users', userController);
+  app.use('/api/api-keys', apiKeyController);
+  app.use('/api/organizations', organizationController);
+  app.use('/api/cart', cartController);
+  app.use('/api/quotes', quoteController);
+  app.use('/api/promotions', promotionController);
+  app.use('/api/disputes', disputeController);
+  app.use('/api/credits', creditController);
 
   // ============================================
   // UI Routes
@@ -107,7 +132,7 @@ export function createApp(): Express {
   app.get('/', async (req: Request, res: Response) => {
     res.render('index', {
       title: 'DePIN Storage Aggregator',
-      stripePublishableKey: config.stripe.publishableKey,
+      stripePublishableKey: paymentGateway.publishableKey,
     });
   });
 
@@ -115,7 +140,31 @@ export function createApp(): Express {
   app.get('/orders', (req: Request, res: Response) => {
     res.render('orders', {
       title: 'My Orders - DePIN Storage',
-      stripePublishableKey: config.stripe.publishableKey,
+      stripePublishableKey: paymentGateway.publishableKey,
+    });
+  });
+
+  // Admin dashboard - staff only
+  app.get('/admin', (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      res.redirect('/?redirectTo=%2Fadmin');
+      return;
+    }
+    if (!hasPermission(req, Permissions.ADMIN_DASHBOARD)) {
+      next(new ForbiddenError('You do not have access to the admin dashboard'));
+      return;
+    }
+    res.render('admin', {
+      title: 'Admin - DePIN Storage',
+      canSyncProviders: hasPermission(req, Permissions.PROVIDERS_SYNC),
+      canReconcilePayments: hasPermission(req, Permissions.PAYMENTS_RECONCILE),
+    });
+  });
+
+  // Magic link landing page
+  app.get('/auth/verify', (req: Request, res: Response) => {
+    res.render('auth-verify', {
+      title: 'Signing in - DePIN Storage',
     });
   });
 
@@ -127,6 +176,11 @@ export function createApp(): Express {
     });
   });
 
+  // Hosted checkout of the fake payment gateway
+  if (config.payments.gateway === 'fake') {
+    app.use('/fake-gateway', fakeGatewayController);
+  }
+
   // Order cancel page
   app.get('/orders/cancel', (req: Request, res: Response) => {
     res.render('order-cancel', {
@@ -1,4 +1,5 @@
-import { NetworkType, TransactionStatus } from '@prisma/client';
+import Stripe from 'stripe';
+import { CryptoAsset, NetworkType, TransactionStatus, UserRole } from '@prisma/client';
 
 // ============================================
 // Provider Adapter Interfaces
@@ -36,6 +37,21 @@ export interface IStoragePlan {
   features: string[];
 }
 
+/**
+ * Per-GB pricing a provider offers for custom-size storage
+ */
+export interface IRateCard {
+  // Price of 1GB for 30 days, may be a fraction of a cent
+  pricePerGbMonthCents: number;
+  pricePerGbMonthNative?: string;
+  nativeCurrency?: string;
+  minPriceUsdCents?: number;
+  minSizeGb: number;
+  maxSizeGb: number;
+  minDurationDays: number;
+  maxDurationDays: number;
+}
+
 /**
  * Result of syncing plans from a provider
  */
@@ -53,12 +69,90 @@ export interface ISyncResult {
  */
 export interface IStorageTransactionParams {
   orderId: string;
-  planId: string;
+  // One of planId and rateCardId is set, depending on how the order was bought
+  planId?: string;
+  rateCardId?: string;
   storageSizeBytes: bigint;
   durationDays: number;
   userWalletAddress?: string;
 }
 
+/**
+ * Parameters for releasing the storage of an expired order
+ */
+export interface IReleaseStorageParams {
+  orderId: string;
+  storageId: string | null;
+  storageMetadata: Record<string, unknown> | null;
+}
+
+/**
+ * Result of releasing storage
+ */
+export interface IReleaseStorageResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Parameters for extending the storage of an order
+ */
+export interface IExtendStorageParams {
+  orderId: string;
+  storageId: string;
+  storageMetadata: Record<string, unknown> | null;
+  durationDays: number;
+  expiresAt: Date;
+}
+
+/**
+ * Result of extending storage
+ */
+export interface IExtendStorageResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Parameters for resizing storage to a different plan
+ */
+export interface IResizeStorageParams {
+  orderId: string;
+  storageId: string;
+  storageMetadata: Record<string, unknown> | null;
+  storageSizeBytes: bigint;
+  expiresAt: Date;
+}
+
+/**
+ * Result of resizing storage.
+ * Providers that cannot resize in place return the new allocation they migrated to.
+ */
+export interface IResizeStorageResult {
+  success: boolean;
+  error?: string;
+  storageId?: string;
+  storageEndpoint?: string;
+  storageMetadata?: Record<string, unknown>;
+}
+
+/**
+ * Parameters for suspending or resuming access to the storage of an order
+ */
+export interface ISuspendStorageParams {
+  orderId: string;
+  storageId: string;
+  storageMetadata: Record<string, unknown> | null;
+}
+
+/**
+ * Result of suspending or resuming storage
+ */
+export interface ISuspendStorageResult {
+  success: boolean;
+  error?: string;
+}
+
 /**
  * Result of a blockchain transaction
  */
@@ -128,6 +222,12 @@ export interface IStorageProviderAdapter {
    */
   syncPlans(): Promise<ISyncResult>;
 
+  /**
+   * Get the per-GB rate card of the provider (if applicable).
+   * Only providers with one accept custom-size orders.
+   */
+  getRateCard?(): Promise<IRateCard>;
+
   /**
    * Execute a storage purchase transaction
    */
@@ -147,6 +247,35 @@ export interface IStorageProviderAdapter {
    * Estimate gas for a transaction (if applicable)
    */
   estimateGas?(params: IStorageTransactionParams): Promise<string>;
+
+  /**
+   * Release the storage of an expired order (if applicable).
+   * Providers without it let storage lapse on their own.
+   */
+  releaseStorage?(params: IReleaseStorageParams): Promise<IReleaseStorageResult>;
+
+  /**
+   * Extend the storage of an order in place (if applicable).
+   * Orders of providers without it cannot be renewed.
+   */
+  extendStorage?(params: IExtendStorageParams): Promise<IExtendStorageResult>;
+
+  /**
+   * Resize the storage of an order to a different plan (if applicable).
+   * Orders of providers without it cannot change plans.
+   */
+  resizeStorage?(params: IResizeStorageParams): Promise<IResizeStorageResult>;
+
+  /**
+   * Suspend access to the storage of an order while its payment is disputed (if applicable).
+   * Storage of providers without it stays accessible.
+   */
+  suspendStorage?(params: ISuspendStorageParams): Promise<ISuspendStorageResult>;
+
+  /**
+   * Restore access to storage suspended by suspendStorage
+   */
+  resumeStorage?(params: ISuspendStorageParams): Promise<ISuspendStorageResult>;
 }
 
 // ============================================
@@ -186,6 +315,12 @@ export interface IStoragePlanResponse {
   durationDays: number;
   priceUsdCents: number;
   priceUsd: string;
+  // Price in the requested currency (USD by default), in its minor units
+  currency: string;
+  priceCents: number;
+  price: string;
+  // Units of the currency per US dollar
+  fxRate: string;
   priceNative: string | null;
   nativeCurrency: string | null;
   network: NetworkType;
@@ -193,27 +328,75 @@ export interface IStoragePlanResponse {
   isAvailable: boolean;
 }
 
+export interface IRateCardResponse {
+  id: string;
+  providerId: string;
+  providerName: string;
+  providerSlug: string;
+  pricePerGbMonthCents: number;
+  pricePerGbMonthNative: string | null;
+  nativeCurrency: string | null;
+  minPriceUsdCents: number;
+  minSizeGb: number;
+  maxSizeGb: number;
+  minDurationDays: number;
+  maxDurationDays: number;
+  network: NetworkType;
+}
+
+export interface ICustomStoragePrice {
+  rateCardId: string;
+  providerId: string;
+  providerSlug: string;
+  storageSizeGb: number;
+  storageSizeBytes: bigint;
+  durationDays: number;
+  priceUsdCents: number;
+}
+
 export interface IOrderResponse {
   id: string;
   orderNumber: string;
   userId: string;
+  organizationId: string | null;
+  // Cart purchase the order was bought in
+  purchaseId: string | null;
   provider: {
     id: string;
     name: string;
     slug: string;
   };
+  // Null for custom-size orders priced from a rate card
   plan: {
     id: string;
     name: string;
     storageSizeGb: number;
     durationDays: number;
-  };
+  } | null;
+  rateCardId: string | null;
   storageSizeGb: number;
   durationDays: number;
   priceUsdCents: number;
   priceUsd: string;
+  // Taken off the price by coupons and gift vouchers
+  discountCents: number;
+  // Currency the order is charged in, and its units per US dollar when ordered
+  currency: string;
+  fxRate: string;
+  billingCountry: string | null;
+  billingRegion: string | null;
+  vatId: string | null;
+  // No tax charged; the customer accounts for it
+  reverseCharge: boolean;
+  taxRatePercent: number;
+  // Tax included in the first charge, in the order's currency
+  taxCents: number;
   status: string;
   statusMessage: string | null;
+  // Set while the payment is disputed; suspended storage is inaccessible until it is won
+  disputeId: string | null;
+  suspendedAt: Date | null;
+  allowProviderFallback: boolean;
   storage: {
     id: string | null;
     endpoint: string | null;
@@ -223,6 +406,12 @@ export interface IOrderResponse {
     status: string;
     processedAt: Date | null;
   } | null;
+  // Auto-renewal, when the order was bought with it
+  subscription: {
+    status: string;
+    currentPeriodEnd: Date | null;
+    cancelAtPeriodEnd: boolean;
+  } | null;
   blockchain: {
     txHash: string | null;
     status: string;
@@ -237,16 +426,60 @@ export interface IOrderResponse {
   updatedAt: Date;
 }
 
+export interface IOrderTimelineEntry {
+  id: string;
+  fromStatus: string | null;
+  toStatus: string;
+  actor: {
+    type: string;
+    id: string | null;
+  };
+  reason: string | null;
+  metadata: Record<string, unknown> | null;
+  createdAt: Date;
+}
+
 // ============================================
 // Stripe Interfaces
 // ============================================
 
+// Billing details given at checkout, which decide how the order is taxed
+export interface IBillingDetailsInput {
+  // ISO 3166-1 alpha-2 code
+  country?: string;
+  // Subdivision where its tax differs, e.g. "ON" for Ontario
+  region?: string;
+  // VAT ID of a business customer; EU ones include their country prefix, e.g. "DE123456789"
+  vatId?: string;
+}
+
 export interface ICreateCheckoutParams {
   userId: string;
-  planId: string;
+  // Optional with a quote, which determines the plan
+  planId?: string;
+  // Charge the price locked by this quote instead of the plan's current price
+  quoteId?: string;
+  // Custom size instead of a plan, priced from the provider's rate card
+  custom?: {
+    providerSlug: string;
+    storageSizeGb: number;
+    durationDays: number;
+  };
+  // Coupon and gift voucher taken off the price
+  couponCode?: string;
+  voucherCode?: string;
   successUrl: string;
   cancelUrl: string;
   idempotencyKey?: string;
+  autoRenew?: boolean;
+  allowProviderFallback?: boolean;
+  walletAddress?: string;
+  organizationId?: string;
+  // Pay from the account's credit balance first
+  useCredit?: boolean;
+  // Currency to charge in; defaults to USD
+  currency?: string;
+  billing?: IBillingDetailsInput;
 }
 
 export interface ICheckoutResult {
@@ -256,6 +489,93 @@ export interface ICheckoutResult {
   paymentId: string;
 }
 
+// Orders paid from credit alone have no session; sessionUrl is then the success page
+export interface IOrderCheckoutResult extends Omit<ICheckoutResult, 'sessionId'> {
+  sessionId: string | null;
+}
+
+export interface ICreateRenewalCheckoutParams {
+  userId: string;
+  orderId: string;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface IRenewalCheckoutResult extends ICheckoutResult {
+  renewalId: string;
+  priceUsdCents: number;
+  durationDays: number;
+  newExpiresAt: Date;
+}
+
+export interface ICreatePlanChangeCheckoutParams {
+  userId: string;
+  orderId: string;
+  planId: string;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface IPlanChangeCheckoutResult extends ICheckoutResult {
+  planChangeId: string;
+  differenceCents: number;
+}
+
+export interface ICreateCartCheckoutParams {
+  userId: string;
+  successUrl: string;
+  cancelUrl: string;
+  idempotencyKey?: string;
+  allowProviderFallback?: boolean;
+  walletAddress?: string;
+  organizationId?: string;
+  billing?: IBillingDetailsInput;
+}
+
+export interface ICartCheckoutResult {
+  sessionId: string;
+  sessionUrl: string;
+  purchaseId: string;
+  orderIds: string[];
+  totalCents: number;
+}
+
+// Same purchase as a card checkout, paid on-chain to a deposit address instead
+export interface ICreateCryptoCheckoutParams
+  extends Omit<ICreateCheckoutParams, 'successUrl' | 'cancelUrl' | 'autoRenew'> {
+  asset: CryptoAsset;
+}
+
+export interface ICryptoCheckoutResult {
+  orderId: string;
+  paymentId: string;
+  asset: CryptoAsset;
+  symbol: string;
+  chainId: string;
+  // ERC-20 contract to transfer; null for the chain's native token
+  tokenAddress: string | null;
+  depositAddress: string;
+  // Amount due in whole tokens and in the token's base units
+  amount: string;
+  amountBaseUnits: string;
+  expiresAt: Date;
+}
+
+export interface ICreateTopUpCheckoutParams {
+  userId: string;
+  // Tops up the organization's balance instead of the user's
+  organizationId?: string;
+  amountCents: number;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface ITopUpCheckoutResult {
+  sessionId: string;
+  sessionUrl: string;
+  topUpId: string;
+}
+
 export interface IWebhookEvent {
   type: string;
   data: {
@@ -263,6 +583,137 @@ export interface IWebhookEvent {
   };
 }
 
+// ============================================
+// Payment Gateway Interfaces
+// ============================================
+
+/**
+ * Interface for payment gateways. Gateways use Stripe's object and webhook
+ * formats, so the payment flows run unchanged against any of them.
+ */
+export interface IPaymentGateway {
+  /** Gateway name, as configured by PAYMENT_GATEWAY */
+  readonly name: string;
+
+  /** Key the browser uses with the gateway, or null when it needs none */
+  readonly publishableKey: string | null;
+
+  /**
+   * Create a customer to bill checkouts to
+   */
+  createCustomer(params: Stripe.CustomerCreateParams): Promise<{ id: string }>;
+
+  /**
+   * Create a single-use coupon to discount a checkout
+   */
+  createCoupon(params: Stripe.CouponCreateParams): Promise<{ id: string }>;
+
+  /**
+   * Create a tax rate to apply to checkout line items
+   */
+  createTaxRate(params: Stripe.TaxRateCreateParams): Promise<{ id: string }>;
+
+  /**
+   * Create a hosted checkout session
+   */
+  createCheckoutSession(params: Stripe.Checkout.SessionCreateParams): Promise<Stripe.Checkout.Session>;
+
+  /**
+   * Get a checkout session
+   */
+  retrieveCheckoutSession(sessionId: string): Promise<Stripe.Checkout.Session>;
+
+  /**
+   * Expire an open checkout session so it can no longer be paid
+   */
+  expireCheckoutSession(sessionId: string): Promise<Stripe.Checkout.Session>;
+
+  /**
+   * Get a subscription
+   */
+  retrieveSubscription(subscriptionId: string): Promise<Stripe.Subscription>;
+
+  /**
+   * Update a subscription, e.g. to cancel it at the end of its period
+   */
+  updateSubscription(subscriptionId: string, params: Stripe.SubscriptionUpdateParams): Promise<Stripe.Subscription>;
+
+  /**
+   * Cancel a subscription immediately
+   */
+  cancelSubscription(subscriptionId: string): Promise<Stripe.Subscription>;
+
+  /**
+   * Get an invoice
+   */
+  retrieveInvoice(invoiceId: string): Promise<Stripe.Invoice>;
+
+  /**
+   * Get a charge
+   */
+  retrieveCharge(chargeId: string): Promise<Stripe.Charge>;
+
+  /**
+   * Get a payment intent
+   */
+  retrievePaymentIntent(paymentIntentId: string): Promise<Stripe.PaymentIntent>;
+
+  /**
+   * Refund (part of) a payment. Retries with the same key do not refund twice.
+   */
+  createRefund(params: Stripe.RefundCreateParams, idempotencyKey: string): Promise<Stripe.Refund>;
+
+  /**
+   * Get the refunds of a charge
+   */
+  listRefunds(chargeId: string): Promise<Stripe.Refund[]>;
+
+  /**
+   * Verify the signature of a webhook payload and parse its event. Throws when
+   * the signature is invalid.
+   */
+  constructWebhookEvent(payload: string | Buffer, signature: string): Stripe.Event;
+}
+
+// ============================================
+// Auth Interfaces
+// ============================================
+
+/**
+ * The authenticated principal attached to a request
+ */
+export interface IAuthUser {
+  id: string;
+  email: string | null;
+  name: string | null;
+  walletAddress: string | null;
+  role: UserRole;
+}
+
+/**
+ * Claims carried by a signed session token
+ */
+export interface ISessionTokenPayload {
+  sub: string;
+  sid: string;
+}
+
+/**
+ * The API key used to authenticate a request
+ */
+export interface IApiKeyPrincipal {
+  id: string;
+  name: string;
+  scopes: string[];
+  organizationId: string | null;
+}
+
+export interface IAuthSession {
+  token: string;
+  expiresAt: Date;
+  user: IAuthUser;
+}
+
 // ============================================
 // Service Result Types
 // ============================================
@@ -89,6 +89,18 @@ export class ExternalServiceError extends AppError {
   }
 }
 
+export class InvalidStateTransitionError extends AppError {
+  constructor(resource: string, from: string, to: string) {
+    super(
+      'INVALID_STATE_TRANSITION',
+      `${resource} cannot move from ${from} to ${to}`,
+      409,
+      true,
+      { from, to }
+    );
+  }
+}
+
 // Error code constants
 export const ErrorCodes = {
   VALIDATION_ERROR: 'VALIDATION_ERROR',
@@ -108,6 +120,7 @@ export const ErrorCodes = {
   INSUFFICIENT_FUNDS: 'INSUFFICIENT_FUNDS',
   PROVIDER_UNAVAILABLE: 'PROVIDER_UNAVAILABLE',
   PLAN_UNAVAILABLE: 'PLAN_UNAVAILABLE',
+  INVALID_STATE_TRANSITION: 'INVALID_STATE_TRANSITION',
 } as const;
 
 export type ErrorCode = typeof ErrorCodes[keyof typeof ErrorCodes];
\ No newline at end of file
@@ -1,4 +1,6 @@
 import { v4 as uuidv4 } from 'uuid';
+import { IPaginationParams } from '../interfaces';
+import { ValidationError } from './errors';
 
 // ============================================
 // ID Generation
@@ -14,6 +16,12 @@ export function generateOrderNumber(): string {
   return `ORD-${timestamp}-${random}`;
 }
 
+export function generatePurchaseNumber(): string {
+  const timestamp = Date.now().toString(36).toUpperCase();
+  const random = Math.random().toString(36).substring(2, 8).toUpperCase();
+  return `PUR-${timestamp}-${random}`;
+}
+
 export function generateIdempotencyKey(): string {
   return `idem_${uuidv4().replace(/-/g, '')}`;
 }
@@ -60,7 +68,9 @@ export function formatPrice(cents: number, currency: string = 'USD'): string {
     style: 'currency',
     currency,
   });
-  return formatter.format(cents / 100);
+  // Amounts are in the currency's minor unit, which is not always a hundredth
+  const { maximumFractionDigits } = formatter.resolvedOptions();
+  return formatter.format(cents / 10 ** (maximumFractionDigits ?? 2));
 }
 
 // ============================================
@@ -82,6 +92,19 @@ export function formatDate(date: Date): string {
   return date.toISOString();
 }
 
+// ============================================
+// String Utilities
+// ============================================
+
+export function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 48);
+}
+
 // ============================================
 // Async Utilities
 // ============================================
@@ -187,4 +210,26 @@ export function safeJsonStringify(obj: unknown): string {
   } catch {
     return '{}';
   }
-}
\ No newline at end of file
+}
+
+// ============================================
+// Pagination
+// ============================================
+
+/**
+ * Read page and pageSize from the query string of a list request
+ */
+export function parsePagination(query: { page?: unknown; pageSize?: unknown }): IPaginationParams {
+  const page = parseInt(String(query.page ?? '1'), 10);
+  const pageSize = parseInt(String(query.pageSize ?? '20'), 10);
+
+  if (isNaN(page) || page < 1) {
+    throw new ValidationError('Invalid page number');
+  }
+
+  if (isNaN(pageSize) || pageSize < 1 || pageSize > 100) {
+    throw new ValidationError('Invalid page size');
+  }
+
+  return { page, pageSize };
+}
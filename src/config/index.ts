@@ -18,10 +18,26 @@ const envSchema = z.object({
   // Database
   DATABASE_URL: z.string().url(),
 
-  // Stripe
-  STRIPE_SECRET_KEY: z.string().startsWith('sk_'),
-  STRIPE_PUBLISHABLE_KEY: z.string().startsWith('pk_'),
-  STRIPE_WEBHOOK_SECRET: z.string().startsWith('whsec_'),
+  // Payment gateway
+  PAYMENT_GATEWAY: z.enum(['stripe', 'fake']).default('stripe'),
+  FAKE_GATEWAY_WEBHOOK_SECRET: z.string().default('whsec_fake_gateway'),
+  FAKE_GATEWAY_WEBHOOK_URL: z.string().url().optional(),
+
+  // Stripe (required by the stripe gateway)
+  STRIPE_SECRET_KEY: z.string().startsWith('sk_').optional(),
+  STRIPE_PUBLISHABLE_KEY: z.string().startsWith('pk_').optional(),
+  STRIPE_WEBHOOK_SECRET: z.string().startsWith('whsec_').optional(),
+
+  // Crypto payments (enabled with a deposit xpub)
+  CRYPTO_DEPOSIT_XPUB: z.string().optional(),
+  CRYPTO_RPC_URL: z.string().url().optional(),
+  CRYPTO_CHAIN_ID: z.string().optional(),
+  CRYPTO_NATIVE_SYMBOL: z.string().default('tFIL'),
+  CRYPTO_NATIVE_USD_PRICE: z.string().transform(Number).optional(),
+  CRYPTO_USDC_ADDRESS: z.string().optional(),
+  CRYPTO_CONFIRMATIONS: z.string().transform(Number).default('5'),
+  CRYPTO_PAYMENT_TTL_MINUTES: z.string().transform(Number).default('60'),
+  CRYPTO_UNDERPAYMENT_TOLERANCE_PERCENT: z.string().transform(Number).default('1'),
 
   // Platform Wallet
   PLATFORM_WALLET_PRIVATE_KEY: z.string().optional(),
@@ -58,15 +74,91 @@ const envSchema = z.object({
   // Rate Limiting
   RATE_LIMIT_WINDOW_MS: z.string().transform(Number).default('900000'),
   RATE_LIMIT_MAX_REQUESTS: z.string().transform(Number).default('100'),
+  RATE_LIMIT_API_KEY_MAX_REQUESTS: z.string().transform(Number).default('1000'),
 
   // Cron
   ENABLE_CRON_JOBS: z.string().transform(v => v === 'true').default('true'),
   PROVIDER_SYNC_CRON: z.string().default('0 */6 * * *'),
   TX_CONFIRMATION_CRON: z.string().default('*/2 * * * *'),
+  ORDER_EXPIRY_CRON: z.string().default('0 * * * *'),
+  ORDER_COMPENSATION_CRON: z.string().default('*/5 * * * *'),
+  CRYPTO_PAYMENT_CRON: z.string().default('* * * * *'),
+  FX_RATES_CRON: z.string().default('0 */6 * * *'),
+  PAYMENT_RECONCILIATION_CRON: z.string().default('*/30 * * * *'),
+
+  // Order expiry
+  ORDER_EXPIRY_REMINDER_DAYS: z.string().default('7,1'),
+  SUBSCRIPTION_GRACE_PERIOD_DAYS: z.string().transform(Number).default('7'),
+
+  // Refund policy
+  REFUND_FULL_REFUND_DAYS: z.string().transform(Number).default('3'),
+  REFUND_MAX_USED_PERCENT: z.string().transform(Number).default('50'),
+
+  // Payment disputes
+  DISPUTE_SUSPEND_STORAGE: z.string().transform(v => v === 'true').default('false'),
+
+  // Account credit
+  CREDIT_TOP_UP_MIN_CENTS: z.string().transform(Number).default('500'),
+  CREDIT_TOP_UP_MAX_CENTS: z.string().transform(Number).default('1000000'),
+
+  // Currencies
+  FX_RATES_SOURCE: z.enum(['file', 'http']).default('file'),
+  FX_RATES_FILE: z.string().default('data/fx-rates.json'),
+  FX_RATES_URL: z.string().url().default('https://api.frankfurter.app/latest?from=USD'),
+  FX_RATES_MAX_AGE_HOURS: z.string().transform(Number).default('48'),
+
+  // Payment reconciliation
+  PAYMENT_RECONCILIATION_STALE_MINUTES: z.string().transform(Number).default('60'),
+  PAYMENT_RECONCILIATION_BATCH_SIZE: z.string().transform(Number).default('200'),
+
+  // Tax
+  TAX_RATES_FILE: z.string().default('data/tax-rates.json'),
+  TAX_SELLER_COUNTRY: z.string().length(2).transform(v => v.toUpperCase()).optional(),
+  TAX_REQUIRE_BILLING_COUNTRY: z.string().transform(v => v === 'true').default('false'),
+
+  // Price quotes
+  QUOTE_TTL_MINUTES: z.string().transform(Number).default('15'),
+
+  // Invoices
+  INVOICE_STORAGE_DIR: z.string().default('storage/invoices'),
+  INVOICE_TAX_RATE_PERCENT: z.string().transform(Number).default('0'),
+  INVOICE_COMPANY_NAME: z.string().default('DePIN Storage'),
+  INVOICE_COMPANY_ADDRESS: z.string().default(''),
+  INVOICE_COMPANY_EMAIL: z.string().default('billing@depin.storage'),
+  INVOICE_COMPANY_TAX_ID: z.string().default(''),
 
   // Security
   CORS_ORIGINS: z.string().default('http://localhost:3000'),
   SESSION_SECRET: z.string().min(32),
+
+  // Authentication
+  AUTH_SESSION_TTL_HOURS: z.string().transform(Number).default('168'),
+  AUTH_MAGIC_LINK_TTL_MINUTES: z.string().transform(Number).default('15'),
+  AUTH_COOKIE_NAME: z.string().default('depin_session'),
+  SIWE_DOMAIN: z.string().optional(),
+  SIWE_NONCE_TTL_MINUTES: z.string().transform(Number).default('10'),
+
+  // Mail
+  MAIL_TRANSPORT: z.enum(['file', 'smtp']).default('file'),
+  MAIL_FROM: z.string().default('DePIN Storage <no-reply@depin.storage>'),
+  MAIL_SINK_DIR: z.string().default('tmp/mail'),
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.string().transform(Number).default('587'),
+  SMTP_SECURE: z.string().transform(v => v === 'true').default('false'),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASSWORD: z.string().optional(),
+}).superRefine((env, ctx) => {
+  if (env.PAYMENT_GATEWAY === 'stripe') {
+    for (const key of ['STRIPE_SECRET_KEY', 'STRIPE_PUBLISHABLE_KEY', 'STRIPE_WEBHOOK_SECRET'] as const) {
+      if (!env[key]) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: 'Required by the stripe payment gateway' });
+      }
+    }
+  }
+
+  if (env.PAYMENT_GATEWAY === 'fake' && env.NODE_ENV === 'production') {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['PAYMENT_GATEWAY'], message: 'The fake gateway cannot be used in production' });
+  }
 });
 
 // Parse and validate environment
@@ -105,12 +197,40 @@ export const config = {
     url: env.DATABASE_URL,
   },
 
+  payments: {
+    gateway: env.PAYMENT_GATEWAY,
+    fake: {
+      webhookSecret: env.FAKE_GATEWAY_WEBHOOK_SECRET,
+      // Where the fake gateway delivers its signed webhooks
+      webhookUrl: env.FAKE_GATEWAY_WEBHOOK_URL || `${env.API_BASE_URL}/api/payments/webhook`,
+    },
+  },
+
   stripe: {
     secretKey: env.STRIPE_SECRET_KEY,
     publishableKey: env.STRIPE_PUBLISHABLE_KEY,
     webhookSecret: env.STRIPE_WEBHOOK_SECRET,
   },
 
+  crypto: {
+    enabled: !!env.CRYPTO_DEPOSIT_XPUB,
+    // Extended public key each order's deposit address is derived from; the
+    // matching private key is kept offline and used to sweep the deposits
+    depositXpub: env.CRYPTO_DEPOSIT_XPUB,
+    // Payments are made on the Filecoin network unless configured otherwise
+    rpcUrl: env.CRYPTO_RPC_URL || env.FILECOIN_RPC_URL || 'https://api.calibration.node.glif.io/rpc/v1',
+    chainId: env.CRYPTO_CHAIN_ID || env.FILECOIN_CHAIN_ID || '314159',
+    nativeSymbol: env.CRYPTO_NATIVE_SYMBOL,
+    // Native token payments are offered when its USD price is set
+    nativeUsdPrice: env.CRYPTO_NATIVE_USD_PRICE,
+    // USDC payments are offered when its token contract is set
+    usdcAddress: env.CRYPTO_USDC_ADDRESS,
+    confirmations: env.CRYPTO_CONFIRMATIONS,
+    ttlMinutes: env.CRYPTO_PAYMENT_TTL_MINUTES,
+    // Payments short by at most this share of the amount are accepted
+    underpaymentTolerancePercent: env.CRYPTO_UNDERPAYMENT_TOLERANCE_PERCENT,
+  },
+
   wallet: {
     privateKey: env.PLATFORM_WALLET_PRIVATE_KEY,
     address: env.PLATFORM_WALLET_ADDRESS,
@@ -151,18 +271,119 @@ export const config = {
   rateLimit: {
     windowMs: env.RATE_LIMIT_WINDOW_MS,
     maxRequests: env.RATE_LIMIT_MAX_REQUESTS,
+    // Budget per API key (keys are limited by key, everything else by IP)
+    apiKeyMaxRequests: env.RATE_LIMIT_API_KEY_MAX_REQUESTS,
   },
 
   cron: {
     enabled: env.ENABLE_CRON_JOBS,
     providerSync: env.PROVIDER_SYNC_CRON,
     txConfirmation: env.TX_CONFIRMATION_CRON,
+    orderExpiry: env.ORDER_EXPIRY_CRON,
+    orderCompensation: env.ORDER_COMPENSATION_CRON,
+    cryptoPayments: env.CRYPTO_PAYMENT_CRON,
+    fxRates: env.FX_RATES_CRON,
+    paymentReconciliation: env.PAYMENT_RECONCILIATION_CRON,
+  },
+
+  orders: {
+    // Days before expiry at which owners are reminded, e.g. "7,1"
+    expiryReminderDays: env.ORDER_EXPIRY_REMINDER_DAYS.split(',')
+      .map(s => parseInt(s.trim(), 10))
+      .filter(days => days > 0)
+      .sort((a, b) => b - a),
+    // Days an auto-renewing order is kept past its expiry while renewal payment is retried
+    subscriptionGraceDays: env.SUBSCRIPTION_GRACE_PERIOD_DAYS,
+  },
+
+  refunds: {
+    // Customers get a full refund within this many days of the storage starting
+    fullRefundDays: env.REFUND_FULL_REFUND_DAYS,
+    // After that the unused share is refunded, until this much of the term is used
+    maxUsedPercent: env.REFUND_MAX_USED_PERCENT,
+  },
+
+  disputes: {
+    // Suspend access to storage while its payment is disputed
+    suspendStorage: env.DISPUTE_SUSPEND_STORAGE,
+  },
+
+  credits: {
+    // Range of a single credit top-up
+    minTopUpCents: env.CREDIT_TOP_UP_MIN_CENTS,
+    maxTopUpCents: env.CREDIT_TOP_UP_MAX_CENTS,
+  },
+
+  currencies: {
+    // The file source reads rates from a local JSON file, for offline use
+    fxRatesSource: env.FX_RATES_SOURCE,
+    fxRatesFile: env.FX_RATES_FILE,
+    fxRatesUrl: env.FX_RATES_URL,
+    // Currencies whose rate is older than this are not offered
+    fxRatesMaxAgeHours: env.FX_RATES_MAX_AGE_HOURS,
+  },
+
+  reconciliation: {
+    // Payments still pending this long after checkout are checked against the gateway
+    staleMinutes: env.PAYMENT_RECONCILIATION_STALE_MINUTES,
+    // Most payments, top-ups and orders checked by one run, oldest first
+    batchSize: env.PAYMENT_RECONCILIATION_BATCH_SIZE,
+  },
+
+  quotes: {
+    // How long a quoted price is honoured at checkout
+    ttlMinutes: env.QUOTE_TTL_MINUTES,
+  },
+
+  tax: {
+    // Rates by country, and by region where it differs
+    ratesFile: env.TAX_RATES_FILE,
+    // Rate for customers in countries without one, or who give no country
+    defaultRatePercent: env.INVOICE_TAX_RATE_PERCENT,
+    // EU business customers in other countries are reverse charged
+    sellerCountry: env.TAX_SELLER_COUNTRY,
+    requireBillingCountry: env.TAX_REQUIRE_BILLING_COUNTRY,
+  },
+
+  invoices: {
+    storageDir: env.INVOICE_STORAGE_DIR,
+    company: {
+      name: env.INVOICE_COMPANY_NAME,
+      // Lines separated by "|"
+      address: env.INVOICE_COMPANY_ADDRESS,
+      email: env.INVOICE_COMPANY_EMAIL,
+      taxId: env.INVOICE_COMPANY_TAX_ID,
+    },
   },
 
   security: {
     corsOrigins: env.CORS_ORIGINS.split(',').map(s => s.trim()),
     sessionSecret: env.SESSION_SECRET,
   },
+
+  auth: {
+    sessionTtlHours: env.AUTH_SESSION_TTL_HOURS,
+    magicLinkTtlMinutes: env.AUTH_MAGIC_LINK_TTL_MINUTES,
+    cookieName: env.AUTH_COOKIE_NAME,
+    siwe: {
+      // EIP-4361 messages must be bound to the host serving the UI
+      domain: env.SIWE_DOMAIN || new URL(env.FRONTEND_URL).host,
+      nonceTtlMinutes: env.SIWE_NONCE_TTL_MINUTES,
+    },
+  },
+
+  mail: {
+    transport: env.MAIL_TRANSPORT,
+    from: env.MAIL_FROM,
+    sinkDir: env.MAIL_SINK_DIR,
+    smtp: {
+      host: env.SMTP_HOST,
+      port: env.SMTP_PORT,
+      secure: env.SMTP_SECURE,
+      user: env.SMTP_USER,
+      password: env.SMTP_PASSWORD,
+    },
+  },
 } as const;
 
 export type Config = typeof config;
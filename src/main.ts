@@ -5,6 +5,10 @@ import { logger } from './common/utils';
 import { getProviderRegistry } from './modules/providers';
 import cron from 'node-cron';
 import { blockchainService } from './modules/blockchain';
+import { orderExpiryService, orderCompensationService } from './modules/orders';
+import { quoteService } from './modules/quotes';
+import { cryptoPaymentService, reconciliationService } from './modules/payments';
+import { fxRateService } from './modules/currencies';
 
 // ============================================
 // Application Entry Point
@@ -25,6 +29,13 @@ async function bootstrap(): Promise<void> {
     logger.info('📦 Syncing storage providers...');
     await registry.syncAllProviders();
 
+    // Load exchange rates; the stored ones are used if the source is unavailable
+    try {
+      await fxRateService.refreshRates();
+    } catch (error) {
+      logger.warn('Could not refresh FX rates, using stored rates', { error: (error as Error).message });
+    }
+
     // Create Express app
     const app = createApp();
 
@@ -89,9 +100,67 @@ function setupCronJobs(): void {
     }
   });
 
+  // Order expiry job (reminders, expiry, storage release and stale quotes)
+  cron.schedule(config.cron.orderExpiry, async () => {
+    logger.debug('⏰ Processing order expirations...');
+    try {
+      await orderExpiryService.processExpirations();
+      await quoteService.deleteExpiredQuotes();
+    } catch (error) {
+      logger.error('Order expiry cron failed', error);
+    }
+  });
+
+  // Failed allocation job (retries, provider fallback and refunds)
+  cron.schedule(config.cron.orderCompensation, async () => {
+    logger.debug('⏰ Compensating failed orders...');
+    try {
+      await orderCompensationService.processFailedOrders();
+    } catch (error) {
+      logger.error('Order compensation cron failed', error);
+    }
+  });
+
+  // Crypto payment watcher (deposit confirmations and expiry)
+  if (cryptoPaymentService.isEnabled()) {
+    cron.schedule(config.cron.cryptoPayments, async () => {
+      logger.debug('⏰ Checking crypto payments...');
+      try {
+        await cryptoPaymentService.processPendingPayments();
+      } catch (error) {
+        logger.error('Crypto payment cron failed', error);
+      }
+    });
+  }
+
+  // Exchange rate refresh job
+  cron.schedule(config.cron.fxRates, async () => {
+    logger.debug('⏰ Refreshing FX rates...');
+    try {
+      await fxRateService.refreshRates();
+    } catch (error) {
+      logger.error('FX rate cron failed', error);
+    }
+  });
+
+  // Payment reconciliation job, for payments whose webhooks were lost
+  cron.schedule(config.cron.paymentReconciliation, async () => {
+    logger.debug('⏰ Reconciling pending payments...');
+    try {
+      await reconciliationService.runReconciliation();
+    } catch (error) {
+      logger.error('Payment reconciliation cron failed', error);
+    }
+  });
+
   logger.info('⏰ Cron jobs configured', {
     providerSync: config.cron.providerSync,
     txConfirmation: config.cron.txConfirmation,
+    orderExpiry: config.cron.orderExpiry,
+    orderCompensation: config.cron.orderCompensation,
+    cryptoPayments: cryptoPaymentService.isEnabled() ? config.cron.cryptoPayments : 'disabled',
+    fxRates: config.cron.fxRates,
+    paymentReconciliation: config.cron.paymentReconciliation,
   });
 }
 
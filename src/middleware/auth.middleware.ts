@@ -0,0 +1,150 @@
+import { Request, Response, NextFunction } from 'express';
+import { config } from '../config';
+import { IAuthUser } from '../common/interfaces';
+import { UnauthorizedError, ForbiddenError } from '../common/utils/errors';
+import { authService } from '../modules/auth/auth.service';
+import { apiKeyService } from '../modules/api-keys/api-key.service';
+import {
+  ApiKeyScope,
+  ApiKeyScopes,
+  Permission,
+  roleHasPermission,
+} from '../modules/auth/permissions';
+
+// ============================================
+// Authentication Middleware
+// ============================================
+
+/**
+ * Extract a session token or API key from the Authorization header or session cookie
+ */
+function extractToken(req: Request): string | undefined {
+  const header = req.headers.authorization;
+  if (header?.startsWith('Bearer ')) {
+    return header.slice('Bearer '.length).trim();
+  }
+
+  const cookieToken = req.cookies?.[config.auth.cookieName];
+  return typeof cookieToken === 'string' && cookieToken ? cookieToken : undefined;
+}
+
+/**
+ * Authenticate
+ * Resolves the session token or API key (if any) and attaches the user to the request.
+ * Never rejects - use requireAuth on routes that need a user.
+ */
+export async function authenticate(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const token = extractToken(req);
+
+    if (token && apiKeyService.isApiKey(token)) {
+      const result = await apiKeyService.authenticateKey(token, req.ip);
+      if (result) {
+        req.user = result.user;
+        req.apiKey = result.apiKey;
+      }
+    } else if (token) {
+      const result = await authService.authenticateToken(token);
+      if (result) {
+        req.user = result.user;
+        req.sessionId = result.sessionId;
+      }
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Require Auth
+ * Rejects the request with 401 unless a user is authenticated
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction): void {
+  if (!req.user) {
+    next(new UnauthorizedError('Authentication required'));
+    return;
+  }
+  next();
+}
+
+/**
+ * Require Session
+ * Like requireAuth, but rejects API keys for account-management routes
+ */
+export function requireSession(req: Request, res: Response, next: NextFunction): void {
+  if (req.apiKey) {
+    next(new ForbiddenError('This endpoint cannot be used with an API key'));
+    return;
+  }
+  requireAuth(req, res, next);
+}
+
+/**
+ * Require Scope
+ * Rejects API-key requests whose key lacks the scope. Sessions are not affected.
+ */
+export function requireScope(scope: ApiKeyScope) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (req.apiKey && !req.apiKey.scopes.includes(scope)) {
+      next(new ForbiddenError(`API key is missing the ${scope} scope`));
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Require Permission
+ * Rejects anonymous requests with 401 and users whose role lacks the permission with 403.
+ * API keys additionally need the admin:* scope.
+ */
+export function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      next(new UnauthorizedError('Authentication required'));
+      return;
+    }
+    if (!hasPermission(req, permission)) {
+      next(new ForbiddenError('You do not have permission to perform this action'));
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Check whether the authenticated user (and API key, if used) holds a permission
+ */
+export function hasPermission(req: Request, permission: Permission): boolean {
+  if (!req.user) {
+    return false;
+  }
+  if (req.apiKey && !req.apiKey.scopes.includes(ApiKeyScopes.ADMIN)) {
+    return false;
+  }
+  return roleHasPermission(req.user.role, permission);
+}
+
+/**
+ * Get the authenticated user, throwing if the request is anonymous
+ */
+export function getAuthUser(req: Request): IAuthUser {
+  if (!req.user) {
+    throw new UnauthorizedError('Authentication required');
+  }
+  return req.user;
+}
+
+/**
+ * Ensure a user-scoped route is only accessed by that user,
+ * unless the caller holds the optional staff permission
+ */
+export function assertSelf(req: Request, userId: string, staffPermission?: Permission): IAuthUser {
+  const user = getAuthUser(req);
+  if (user.id !== userId && !(staffPermission && hasPermission(req, staffPermission))) {
+    throw new ForbiddenError('You can only access your own account');
+  }
+  return user;
+}
@@ -0,0 +1,115 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { ApiKey } from '@prisma/client';
+import { apiKeyService } from './api-key.service';
+import { IApiResponse } from '../../common/interfaces';
+import { ValidationError } from '../../common/utils/errors';
+import { getAuthUser, requireSession } from '../../middleware/auth.middleware';
+
+// ============================================
+// API Key Controller
+// ============================================
+
+const router = Router();
+
+// Keys are managed from an interactive session, never with another key
+router.use(requireSession);
+
+function toApiKeyResponse(apiKey: ApiKey) {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    organizationId: apiKey.organizationId,
+    prefix: apiKey.prefix,
+    scopes: apiKey.scopes,
+    lastUsedAt: apiKey.lastUsedAt,
+    expiresAt: apiKey.expiresAt,
+    revokedAt: apiKey.revokedAt,
+    createdAt: apiKey.createdAt,
+  };
+}
+
+/**
+ * POST /api/api-keys
+ * Create an API key for the authenticated user
+ */
+router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getAuthUser(req);
+    const { name, scopes, expiresAt, organizationId } = req.body;
+
+    if (!Array.isArray(scopes)) {
+      throw new ValidationError('scopes must be an array');
+    }
+
+    let expiresAtDate: Date | undefined;
+    if (expiresAt) {
+      expiresAtDate = new Date(expiresAt);
+      if (isNaN(expiresAtDate.getTime())) {
+        throw new ValidationError('expiresAt must be a valid date');
+      }
+    }
+
+    const { apiKey, key } = await apiKeyService.createKey(user, {
+      name,
+      scopes,
+      expiresAt: expiresAtDate,
+      organizationId,
+    });
+
+    const response: IApiResponse = {
+      success: true,
+      data: {
+        ...toApiKeyResponse(apiKey),
+        key,
+      },
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/api-keys
+ * List the authenticated user's API keys
+ */
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getAuthUser(req);
+    const apiKeys = await apiKeyService.listKeys(user.id);
+
+    const response: IApiResponse = {
+      success: true,
+      data: apiKeys.map(toApiKeyResponse),
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/api-keys/:keyId
+ * Revoke an API key
+ */
+router.delete('/:keyId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getAuthUser(req);
+    const { keyId } = req.params;
+    const apiKey = await apiKeyService.revokeKey(user.id, keyId);
+
+    const response: IApiResponse = {
+      success: true,
+      data: toApiKeyResponse(apiKey),
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export const apiKeyController = router;
+export default apiKeyController;
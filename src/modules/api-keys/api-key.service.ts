@@ -0,0 +1,191 @@
+import crypto from 'crypto';
+import { UserRole } from '@prisma/client';
+import { prisma } from '../../common/database';
+import {
+  logger,
+  NotFoundError,
+  ValidationError,
+  ForbiddenError,
+} from '../../common/utils';
+import { IApiKeyPrincipal, IAuthUser } from '../../common/interfaces';
+import { authService } from '../auth/auth.service';
+import { API_KEY_SCOPES, ApiKeyScopes } from '../auth/permissions';
+import {
+  organizationService,
+  ORGANIZATION_MANAGER_ROLES,
+} from '../organizations/organization.service';
+
+// ============================================
+// API Key Service
+// ============================================
+
+export const API_KEY_PREFIX = 'dsa_';
+
+// Number of leading characters kept to identify a key in listings
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+
+export interface CreateApiKeyDto {
+  name: string;
+  scopes: string[];
+  expiresAt?: Date;
+  organizationId?: string;
+}
+
+export class ApiKeyService {
+  /**
+   * Create an API key. The plaintext key is only returned here.
+   */
+  async createKey(user: IAuthUser, data: CreateApiKeyDto) {
+    if (!data.name?.trim()) {
+      throw new ValidationError('name is required');
+    }
+
+    const scopes = Array.from(new Set(data.scopes));
+    if (scopes.length === 0) {
+      throw new ValidationError('At least one scope is required');
+    }
+
+    const unknown = scopes.filter(scope => !API_KEY_SCOPES.includes(scope));
+    if (unknown.length > 0) {
+      throw new ValidationError(`Unknown scopes: ${unknown.join(', ')}`, {
+        allowed: API_KEY_SCOPES,
+      });
+    }
+
+    if (scopes.includes(ApiKeyScopes.ADMIN) && user.role === UserRole.CUSTOMER) {
+      throw new ForbiddenError('Only staff can create keys with the admin:* scope');
+    }
+
+    if (data.expiresAt && data.expiresAt <= new Date()) {
+      throw new ValidationError('expiresAt must be in the future');
+    }
+
+    // Organization keys can only be created by its owners and admins
+    if (data.organizationId) {
+      await organizationService.assertRole(data.organizationId, user.id, ORGANIZATION_MANAGER_ROLES);
+    }
+
+    const key = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+
+    const apiKey = await prisma.apiKey.create({
+      data: {
+        userId: user.id,
+        name: data.name.trim(),
+        prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+        keyHash: this.hashKey(key),
+        scopes,
+        expiresAt: data.expiresAt,
+        organizationId: data.organizationId,
+      },
+    });
+
+    logger.info('API key created', {
+      userId: user.id,
+      apiKeyId: apiKey.id,
+      organizationId: data.organizationId,
+      scopes,
+    });
+
+    return { apiKey, key };
+  }
+
+  /**
+   * Get the API keys of a user
+   */
+  async listKeys(userId: string) {
+    return prisma.apiKey.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Revoke an API key of a user
+   */
+  async revokeKey(userId: string, apiKeyId: string) {
+    const apiKey = await prisma.apiKey.findFirst({
+      where: { id: apiKeyId, userId },
+    });
+
+    if (!apiKey) {
+      throw new NotFoundError('API key', apiKeyId);
+    }
+
+    if (apiKey.revokedAt) {
+      return apiKey;
+    }
+
+    const revoked = await prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { revokedAt: new Date() },
+    });
+
+    logger.info('API key revoked', { userId, apiKeyId });
+
+    return revoked;
+  }
+
+  /**
+   * Resolve an API key to its owner.
+   * Returns null for any unknown, expired or revoked key.
+   */
+  async authenticateKey(
+    key: string,
+    ipAddress?: string
+  ): Promise<{ user: IAuthUser; apiKey: IApiKeyPrincipal } | null> {
+    const apiKey = await prisma.apiKey.findUnique({
+      where: { keyHash: this.hashKey(key) },
+      include: { user: true },
+    });
+
+    if (
+      !apiKey ||
+      apiKey.revokedAt ||
+      (apiKey.expiresAt && apiKey.expiresAt < new Date()) ||
+      apiKey.user.deletedAt
+    ) {
+      return null;
+    }
+
+    // Organization keys stop working once their creator leaves the organization
+    if (apiKey.organizationId) {
+      const membership = await prisma.organizationMember.findUnique({
+        where: {
+          organizationId_userId: { organizationId: apiKey.organizationId, userId: apiKey.userId },
+        },
+      });
+      if (!membership) {
+        return null;
+      }
+    }
+
+    await prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: new Date(), lastUsedIp: ipAddress },
+    });
+
+    return {
+      user: authService.toAuthUser(apiKey.user),
+      apiKey: {
+        id: apiKey.id,
+        name: apiKey.name,
+        scopes: apiKey.scopes,
+        organizationId: apiKey.organizationId,
+      },
+    };
+  }
+
+  /**
+   * Check whether a token looks like an API key rather than a session token
+   */
+  isApiKey(token: string): boolean {
+    return token.startsWith(API_KEY_PREFIX);
+  }
+
+  private hashKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
+export default apiKeyService;
@@ -0,0 +1,2 @@
+export * from './api-key.service';
+export * from './api-key.controller';
@@ -0,0 +1,262 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import rateLimit from 'express-rate-limit';
+import { authService } from './auth.service';
+import { siweService } from './siwe.service';
+import { IApiResponse } from '../../common/interfaces';
+import { ValidationError } from '../../common/utils/errors';
+import { config } from '../../config';
+import { getAuthUser, requireAuth, requireSession } from '../../middleware/auth.middleware';
+
+// ============================================
+// Auth Controller
+// ============================================
+
+const router = Router();
+
+// Stricter limit for endpoints that send email or mint sessions
+const authLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 10,
+  message: {
+    success: false,
+    error: {
+      code: 'RATE_LIMIT_EXCEEDED',
+      message: 'Too many sign-in attempts, please try again later',
+    },
+  },
+});
+
+/**
+ * Set the session cookie used by the browser UI
+ */
+function setSessionCookie(res: Response, token: string, expiresAt: Date): void {
+  res.cookie(config.auth.cookieName, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: config.app.isProduction,
+    expires: expiresAt,
+    path: '/',
+  });
+}
+
+/**
+ * POST /api/auth/magic-link
+ * Email a sign-in link to the given address
+ */
+router.post('/magic-link', authLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { email, redirectTo } = req.body;
+
+    if (!email) {
+      throw new ValidationError('Email is required');
+    }
+
+    await authService.requestMagicLink({
+      email,
+      redirectTo,
+      requestIp: req.ip,
+    });
+
+    const response: IApiResponse = {
+      success: true,
+      data: {
+        message: 'If the address is valid, a sign-in link has been sent',
+      },
+    };
+
+    res.status(202).json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/auth/magic-link/verify
+ * Exchange a magic link token for a session
+ */
+router.post('/magic-link/verify', authLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { token } = req.body;
+
+    if (!token) {
+      throw new ValidationError('token is required');
+    }
+
+    const session = await authService.verifyMagicLink(token, {
+      userAgent: req.get('user-agent'),
+      ipAddress: req.ip,
+    });
+
+    setSessionCookie(res, session.token, session.expiresAt);
+
+    const response: IApiResponse = {
+      success: true,
+      data: {
+        token: session.token,
+        expiresAt: session.expiresAt,
+        redirectTo: session.redirectTo,
+        user: session.user,
+      },
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/auth/siwe/nonce
+ * Issue a nonce for a Sign-In With Ethereum message.
+ * Pass address (and chainId) to receive the message to sign.
+ */
+router.get('/siwe/nonce', authLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { address, chainId = '1' } = req.query;
+
+    const nonce = await siweService.issueNonce(
+      address
+        ? { address: address as string, chainId: parseInt(chainId as string, 10) || 1 }
+        : undefined
+    );
+
+    const response: IApiResponse = {
+      success: true,
+      data: nonce,
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/auth/siwe/verify
+ * Sign in with a signed SIWE message
+ */
+router.post('/siwe/verify', authLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { message, signature } = req.body;
+
+    if (!message || !signature) {
+      throw new ValidationError('message and signature are required');
+    }
+
+    const session = await siweService.loginWithWallet(message, signature, {
+      userAgent: req.get('user-agent'),
+      ipAddress: req.ip,
+    });
+
+    setSessionCookie(res, session.token, session.expiresAt);
+
+    const response: IApiResponse = {
+      success: true,
+      data: {
+        token: session.token,
+        expiresAt: session.expiresAt,
+        user: session.user,
+      },
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/auth/siwe/link
+ * Link a wallet to the current user with a signed SIWE message
+ */
+router.post('/siwe/link', requireSession, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getAuthUser(req);
+    const { message, signature } = req.body;
+
+    if (!message || !signature) {
+      throw new ValidationError('message and signature are required');
+    }
+
+    const wallet = await siweService.linkWallet(user.id, message, signature);
+
+    const response: IApiResponse = {
+      success: true,
+      data: {
+        address: wallet.address,
+        chainId: wallet.chainId,
+        isPrimary: wallet.isPrimary,
+        verifiedAt: wallet.verifiedAt,
+      },
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/auth/me
+ * Get the currently authenticated user
+ */
+router.get('/me', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const response: IApiResponse = {
+      success: true,
+      data: getAuthUser(req),
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/auth/logout
+ * Revoke the current session
+ */
+router.post('/logout', requireSession, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (req.sessionId) {
+      await authService.revokeSession(req.sessionId);
+    }
+
+    res.clearCookie(config.auth.cookieName, { path: '/' });
+
+    const response: IApiResponse = {
+      success: true,
+      data: { loggedOut: true },
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/auth/logout-all
+ * Revoke every session of the current user
+ */
+router.post('/logout-all', requireSession, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getAuthUser(req);
+    const revoked = await authService.revokeAllSessions(user.id);
+
+    res.clearCookie(config.auth.cookieName, { path: '/' });
+
+    const response: IApiResponse = {
+      success: true,
+      data: { revokedSessions: revoked },
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export const authController = router;
+export default authController;
@@ -0,0 +1,245 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { User } from '@prisma/client';
+import { prisma } from '../../common/database';
+import { config } from '../../config';
+import {
+  logger,
+  isValidEmail,
+  ValidationError,
+  UnauthorizedError,
+} from '../../common/utils';
+import { IAuthSession, IAuthUser, ISessionTokenPayload } from '../../common/interfaces';
+import { mailService } from '../mail/mail.service';
+import { userService } from '../users/user.service';
+
+// ============================================
+// Auth Service
+// ============================================
+
+const TOKEN_ISSUER = 'depin-storage-aggregator';
+
+export interface RequestMagicLinkDto {
+  email: string;
+  redirectTo?: string;
+  requestIp?: string;
+}
+
+export interface SessionContext {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export class AuthService {
+  /**
+   * Email a single-use sign-in link to the given address
+   */
+  async requestMagicLink(data: RequestMagicLinkDto): Promise<void> {
+    const email = data.email.trim().toLowerCase();
+
+    if (!isValidEmail(email)) {
+      throw new ValidationError('Invalid email format');
+    }
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + config.auth.magicLinkTtlMinutes * 60 * 1000);
+
+    await prisma.magicLinkToken.create({
+      data: {
+        email,
+        tokenHash: this.hashToken(token),
+        redirectTo: this.sanitizeRedirect(data.redirectTo),
+        expiresAt,
+        requestIp: data.requestIp,
+      },
+    });
+
+    const link = `${config.app.frontendUrl}/auth/verify?token=${token}`;
+
+    await mailService.sendMail({
+      to: email,
+      subject: 'Your DePIN Storage sign-in link',
+      text: [
+        'Click the link below to sign in to DePIN Storage Aggregator:',
+        '',
+        link,
+        '',
+        `This link expires in ${config.auth.magicLinkTtlMinutes} minutes and can only be used once.`,
+        'If you did not request it, you can safely ignore this email.',
+      ].join('\n'),
+      html: `<p>Click the link below to sign in to DePIN Storage Aggregator:</p>
+<p><a href="${link}">Sign in</a></p>
+<p>This link expires in ${config.auth.magicLinkTtlMinutes} minutes and can only be used once.
+If you did not request it, you can safely ignore this email.</p>`,
+    });
+
+    logger.info('Magic link issued', { email, expiresAt });
+  }
+
+  /**
+   * Consume a magic link token and start a session for its email
+   */
+  async verifyMagicLink(
+    token: string,
+    context: SessionContext = {}
+  ): Promise<IAuthSession & { redirectTo: string | null }> {
+    const tokenHash = this.hashToken(token);
+
+    const magicLink = await prisma.magicLinkToken.findUnique({
+      where: { tokenHash },
+    });
+
+    if (!magicLink || magicLink.consumedAt || magicLink.expiresAt < new Date()) {
+      throw new UnauthorizedError('Sign-in link is invalid or has expired');
+    }
+
+    // Consume atomically so a token cannot be replayed concurrently
+    const consumed = await prisma.magicLinkToken.updateMany({
+      where: { id: magicLink.id, consumedAt: null },
+      data: { consumedAt: new Date() },
+    });
+
+    if (consumed.count === 0) {
+      throw new UnauthorizedError('Sign-in link is invalid or has expired');
+    }
+
+    const user = await userService.getOrCreateUser({ email: magicLink.email });
+    const session = await this.createSession(user, context);
+
+    logger.info('User signed in via magic link', { userId: user.id, sessionId: session.sessionId });
+
+    return {
+      token: session.token,
+      expiresAt: session.expiresAt,
+      user: this.toAuthUser(user),
+      redirectTo: magicLink.redirectTo,
+    };
+  }
+
+  /**
+   * Create a session row and sign a token for it
+   */
+  async createSession(
+    user: User,
+    context: SessionContext = {}
+  ): Promise<{ sessionId: string; token: string; expiresAt: Date }> {
+    const expiresAt = new Date(Date.now() + config.auth.sessionTtlHours * 60 * 60 * 1000);
+
+    const session = await prisma.session.create({
+      data: {
+        userId: user.id,
+        userAgent: context.userAgent,
+        ipAddress: context.ipAddress,
+        expiresAt,
+      },
+    });
+
+    const payload: ISessionTokenPayload = { sub: user.id, sid: session.id };
+    const token = jwt.sign(payload, config.security.sessionSecret, {
+      algorithm: 'HS256',
+      issuer: TOKEN_ISSUER,
+      expiresIn: Math.floor((expiresAt.getTime() - Date.now()) / 1000),
+    });
+
+    return { sessionId: session.id, token, expiresAt };
+  }
+
+  /**
+   * Verify a session token and resolve the user it belongs to.
+   * Returns null for any invalid, expired or revoked token.
+   */
+  async authenticateToken(token: string): Promise<{ user: IAuthUser; sessionId: string } | null> {
+    let payload: ISessionTokenPayload;
+
+    try {
+      payload = jwt.verify(token, config.security.sessionSecret, {
+        algorithms: ['HS256'],
+        issuer: TOKEN_ISSUER,
+      }) as ISessionTokenPayload;
+    } catch {
+      return null;
+    }
+
+    const session = await prisma.session.findUnique({
+      where: { id: payload.sid },
+      include: { user: true },
+    });
+
+    if (
+      !session ||
+      session.userId !== payload.sub ||
+      session.revokedAt ||
+      session.expiresAt < new Date() ||
+      session.user.deletedAt
+    ) {
+      return null;
+    }
+
+    await prisma.session.update({
+      where: { id: session.id },
+      data: { lastSeenAt: new Date() },
+    });
+
+    return { user: this.toAuthUser(session.user), sessionId: session.id };
+  }
+
+  /**
+   * Revoke a session (logout)
+   */
+  async revokeSession(sessionId: string): Promise<void> {
+    await prisma.session.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  /**
+   * Revoke all sessions of a user
+   */
+  async revokeAllSessions(userId: string): Promise<number> {
+    const result = await prisma.session.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return result.count;
+  }
+
+  /**
+   * Map a user record to the principal exposed on requests
+   */
+  toAuthUser(user: User): IAuthUser {
+    return {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      walletAddress: user.walletAddress,
+      role: user.role,
+    };
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Only allow same-site relative redirects after sign-in
+   */
+  private sanitizeRedirect(redirectTo?: string): string | null {
+    // Browsers read "/\evil.com" as "//evil.com" and drop tabs and newlines
+    const unsafe = (char: string) => char === '\\' || char < ' ' || char === '\x7f';
+    if (!redirectTo || !redirectTo.startsWith('/') || [...redirectTo].some(unsafe)) {
+      return null;
+    }
+
+    const origin = new URL(config.app.frontendUrl).origin;
+    const url = new URL(redirectTo, origin);
+    if (url.origin !== origin) {
+      return null;
+    }
+
+    return `${url.pathname}${url.search}${url.hash}`;
+  }
+}
+
+export const authService = new AuthService();
+export default authService;
@@ -0,0 +1,4 @@
+export * from './auth.service';
+export * from './siwe.service';
+export * from './permissions';
+export * from './auth.controller';
\ No newline at end of file
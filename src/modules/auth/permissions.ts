@@ -0,0 +1,61 @@
+import { UserRole } from '@prisma/client';
+
+// ============================================
+// Role Permissions
+// ============================================
+
+export const Permissions = {
+  ADMIN_DASHBOARD: 'admin:dashboard',
+  PROVIDERS_SYNC: 'providers:sync',
+  USERS_READ: 'users:read',
+  USERS_MANAGE: 'users:manage',
+  ORDERS_READ_ANY: 'orders:read:any',
+  ORDERS_STATS: 'orders:stats',
+  ORDERS_REFUND: 'orders:refund',
+  PROMOTIONS_MANAGE: 'promotions:manage',
+  WEBHOOKS_MANAGE: 'webhooks:manage',
+  DISPUTES_READ: 'disputes:read',
+  CREDITS_MANAGE: 'credits:manage',
+  PAYMENTS_RECONCILE: 'payments:reconcile',
+} as const;
+
+export type Permission = (typeof Permissions)[keyof typeof Permissions];
+
+const SUPPORT_PERMISSIONS: Permission[] = [
+  Permissions.ADMIN_DASHBOARD,
+  Permissions.USERS_READ,
+  Permissions.ORDERS_READ_ANY,
+  Permissions.ORDERS_STATS,
+  Permissions.DISPUTES_READ,
+];
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  [UserRole.CUSTOMER]: [],
+  [UserRole.SUPPORT]: SUPPORT_PERMISSIONS,
+  [UserRole.ADMIN]: Object.values(Permissions),
+};
+
+/**
+ * Check whether a role grants a permission
+ */
+export function roleHasPermission(role: UserRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+// ============================================
+// API Key Scopes
+// ============================================
+
+export const ApiKeyScopes = {
+  PLANS_READ: 'plans:read',
+  ORDERS_READ: 'orders:read',
+  ORDERS_WRITE: 'orders:write',
+  PAYMENTS_READ: 'payments:read',
+  PAYMENTS_WRITE: 'payments:write',
+  // Lets the key use the owner's staff permissions
+  ADMIN: 'admin:*',
+} as const;
+
+export type ApiKeyScope = (typeof ApiKeyScopes)[keyof typeof ApiKeyScopes];
+
+export const API_KEY_SCOPES: readonly string[] = Object.values(ApiKeyScopes);
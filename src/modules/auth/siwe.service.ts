@@ -0,0 +1,228 @@
+import { ethers } from 'ethers';
+import { SiweMessage, generateNonce } from 'siwe';
+import { prisma } from '../../common/database';
+import { config } from '../../config';
+import {
+  logger,
+  ValidationError,
+  UnauthorizedError,
+  ConflictError,
+} from '../../common/utils';
+import { IAuthSession } from '../../common/interfaces';
+import { authService, SessionContext } from './auth.service';
+
+// ============================================
+// Sign-In With Ethereum (EIP-4361) Service
+// ============================================
+
+const SIWE_STATEMENT = 'Sign in to DePIN Storage Aggregator.';
+
+export interface VerifiedWallet {
+  address: string;
+  chainId: number;
+}
+
+export class SiweService {
+  /**
+   * Issue a single-use nonce for a SIWE message.
+   * When an address is given, the ready-to-sign message is prepared as well.
+   */
+  async issueNonce(wallet?: { address: string; chainId: number }): Promise<{
+    nonce: string;
+    domain: string;
+    uri: string;
+    statement: string;
+    expiresAt: Date;
+    message?: string;
+  }> {
+    if (wallet && !ethers.isAddress(wallet.address)) {
+      throw new ValidationError('Invalid wallet address');
+    }
+
+    const nonce = generateNonce();
+    const expiresAt = new Date(Date.now() + config.auth.siwe.nonceTtlMinutes * 60 * 1000);
+
+    await prisma.siweNonce.create({
+      data: { nonce, expiresAt },
+    });
+
+    const message = wallet
+      ? new SiweMessage({
+          domain: config.auth.siwe.domain,
+          address: ethers.getAddress(wallet.address),
+          statement: SIWE_STATEMENT,
+          uri: config.app.frontendUrl,
+          version: '1',
+          chainId: wallet.chainId,
+          nonce,
+          issuedAt: new Date().toISOString(),
+          expirationTime: expiresAt.toISOString(),
+        }).prepareMessage()
+      : undefined;
+
+    return {
+      nonce,
+      domain: config.auth.siwe.domain,
+      uri: config.app.frontendUrl,
+      statement: SIWE_STATEMENT,
+      expiresAt,
+      message,
+    };
+  }
+
+  /**
+   * Validate a signed EIP-4361 message and consume its nonce.
+   * Returns the checksummed address that produced the signature.
+   */
+  async verifyMessage(message: string, signature: string): Promise<VerifiedWallet> {
+    let siweMessage: SiweMessage;
+    try {
+      siweMessage = new SiweMessage(message);
+    } catch (error) {
+      throw new ValidationError('Malformed SIWE message', error instanceof Error ? error.message : undefined);
+    }
+
+    if (siweMessage.domain !== config.auth.siwe.domain) {
+      throw new UnauthorizedError('SIWE message domain mismatch');
+    }
+
+    const now = new Date();
+    if (siweMessage.expirationTime && new Date(siweMessage.expirationTime) < now) {
+      throw new UnauthorizedError('SIWE message has expired');
+    }
+    if (siweMessage.notBefore && new Date(siweMessage.notBefore) > now) {
+      throw new UnauthorizedError('SIWE message is not yet valid');
+    }
+
+    let recovered: string;
+    try {
+      recovered = ethers.verifyMessage(message, signature);
+    } catch {
+      throw new UnauthorizedError('Invalid wallet signature');
+    }
+
+    const address = ethers.getAddress(siweMessage.address);
+    if (recovered !== address) {
+      throw new UnauthorizedError('Signature does not match the SIWE message address');
+    }
+
+    // Consume the nonce atomically to prevent replay
+    const consumed = await prisma.siweNonce.updateMany({
+      where: {
+        nonce: siweMessage.nonce,
+        consumedAt: null,
+        expiresAt: { gt: now },
+      },
+      data: { consumedAt: now },
+    });
+
+    if (consumed.count === 0) {
+      throw new UnauthorizedError('SIWE nonce is invalid, expired or already used');
+    }
+
+    return { address, chainId: siweMessage.chainId };
+  }
+
+  /**
+   * Sign in with a wallet, creating a wallet-only user on first use
+   */
+  async loginWithWallet(
+    message: string,
+    signature: string,
+    context: SessionContext = {}
+  ): Promise<IAuthSession> {
+    const wallet = await this.verifyMessage(message, signature);
+
+    const existing = await prisma.userWallet.findUnique({
+      where: { address: wallet.address },
+      include: { user: true },
+    });
+
+    let user;
+    if (existing) {
+      await prisma.userWallet.update({
+        where: { id: existing.id },
+        data: { lastUsedAt: new Date() },
+      });
+      user = existing.user;
+    } else {
+      user = await prisma.user.create({
+        data: {
+          walletAddress: wallet.address,
+          wallets: {
+            create: {
+              address: wallet.address,
+              chainId: wallet.chainId,
+              isPrimary: true,
+              verifiedAt: new Date(),
+              lastUsedAt: new Date(),
+            },
+          },
+        },
+      });
+      logger.info('Created user from wallet sign-in', { userId: user.id, address: wallet.address });
+    }
+
+    if (user.deletedAt) {
+      throw new UnauthorizedError('Account is disabled');
+    }
+
+    const session = await authService.createSession(user, context);
+
+    logger.info('User signed in with wallet', { userId: user.id, address: wallet.address });
+
+    return {
+      token: session.token,
+      expiresAt: session.expiresAt,
+      user: authService.toAuthUser(user),
+    };
+  }
+
+  /**
+   * Link a verified wallet to an existing user.
+   * The first linked wallet becomes the primary one.
+   */
+  async linkWallet(userId: string, message: string, signature: string) {
+    const wallet = await this.verifyMessage(message, signature);
+
+    const existing = await prisma.userWallet.findUnique({
+      where: { address: wallet.address },
+    });
+
+    if (existing && existing.userId !== userId) {
+      throw new ConflictError('This wallet is already linked to another account');
+    }
+
+    if (existing) {
+      return prisma.userWallet.update({
+        where: { id: existing.id },
+        data: { chainId: wallet.chainId, verifiedAt: new Date() },
+      });
+    }
+
+    const walletCount = await prisma.userWallet.count({ where: { userId } });
+    const isPrimary = walletCount === 0;
+
+    const [linked] = await prisma.$transaction([
+      prisma.userWallet.create({
+        data: {
+          userId,
+          address: wallet.address,
+          chainId: wallet.chainId,
+          isPrimary,
+          verifiedAt: new Date(),
+        },
+      }),
+      ...(isPrimary
+        ? [prisma.user.update({ where: { id: userId }, data: { walletAddress: wallet.address } })]
+        : []),
+    ]);
+
+    logger.info('Wallet linked to user', { userId, address: wallet.address, isPrimary });
+
+    return linked;
+  }
+}
+
+export const siweService = new SiweService();
+export default siweService;
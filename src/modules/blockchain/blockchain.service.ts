@@ -1,9 +1,10 @@
-import { OrderStatus, TransactionStatus } from '@prisma/client';
+import { OrderActorType, OrderStatus, TransactionStatus } from '@prisma/client';
 import { prisma, withTransaction } from '../../common/database';
 import { logger } from '../../common/utils/logger';
 import { getProviderRegistry } from '../providers/provider.registry';
 import { IStorageTransactionParams, ServiceResult, successResult, errorResult } from '../../common/interfaces';
-import { addDays } from '../../common/utils/helpers';
+import { addDays, gbToBytes } from '../../common/utils/helpers';
+import { orderStateMachine } from '../orders/order-state-machine';
 
 // ============================================
 // Blockchain Service
@@ -19,8 +20,6 @@ export class BlockchainService {
         where: { id: orderId },
         include: {
           provider: true,
-          plan: true,
-          user: true,
           transactions: true,
         },
       });
@@ -29,30 +28,41 @@ export class BlockchainService {
         return errorResult('ORDER_NOT_FOUND', 'Order not found');
       }
 
-      if (order.status !== OrderStatus.PAYMENT_COMPLETED) {
-        return errorResult('INVALID_ORDER_STATUS', `Order status is ${order.status}, expected PAYMENT_COMPLETED`);
+      // Paid orders are processed for the first time, failed ones are retried
+      if (!orderStateMachine.canTransition(order.status, OrderStatus.BLOCKCHAIN_PENDING)) {
+        return errorResult(
+          'INVALID_ORDER_STATUS',
+          `Order status is ${order.status}, expected PAYMENT_COMPLETED or BLOCKCHAIN_FAILED`
+        );
       }
 
-      const existingTx = order.transactions.find(tx => tx.status !== TransactionStatus.FAILED);
+      const existingTx = order.transactions.find(
+        tx => tx.status !== TransactionStatus.FAILED && tx.status !== TransactionStatus.RETRYING
+      );
       if (existingTx) {
         logger.info('Transaction already exists for order', { orderId, txId: existingTx.id });
         return successResult({ txId: existingTx.id });
       }
 
-      await prisma.order.update({
-        where: { id: orderId },
-        data: { status: OrderStatus.BLOCKCHAIN_PENDING },
-      });
+      // Earlier attempts with this provider; fewer means the order moved to another provider
+      const previousAttempts = order.transactions.filter(tx => tx.providerId === order.providerId).length;
+      let reason = 'Allocating storage';
+      if (order.status === OrderStatus.BLOCKCHAIN_FAILED) {
+        reason = previousAttempts > 0 ? 'Retrying allocation' : `Allocating with ${order.provider.name} instead`;
+      }
 
-      const registry = getProviderRegistry();
-      const adapter = registry.getAdapter(order.provider.slug);
+      await orderStateMachine.transition(orderId, OrderStatus.BLOCKCHAIN_PENDING, {
+        actor: { type: OrderActorType.SYSTEM },
+        reason,
+      });
 
       const txParams: IStorageTransactionParams = {
         orderId: order.id,
-        planId: order.plan.id,
-        storageSizeBytes: order.plan.storageSizeBytes,
+        planId: order.planId ?? undefined,
+        rateCardId: order.rateCardId ?? undefined,
+        storageSizeBytes: gbToBytes(order.storageSizeGb),
         durationDays: order.durationDays,
-        userWalletAddress: order.user.walletAddress || undefined,
+        userWalletAddress: order.ownerWalletAddress ?? undefined,
       };
 
       logger.info('Executing blockchain transaction', {
@@ -67,12 +77,16 @@ export class BlockchainService {
           network: order.provider.network,
           chainId: order.provider.chainId,
           status: TransactionStatus.PENDING,
+          retryCount: previousAttempts,
         },
       });
 
-      await prisma.order.update({
-        where: { id: orderId },
-        data: { status: OrderStatus.BLOCKCHAIN_PROCESSING },
+      const registry = getProviderRegistry();
+      const adapter = registry.getAdapter(order.provider.slug);
+
+      await orderStateMachine.transition(orderId, OrderStatus.BLOCKCHAIN_PROCESSING, {
+        actor: { type: OrderActorType.BLOCKCHAIN, id: txRecord.id },
+        reason: 'Submitting storage transaction',
       });
 
       const result = await adapter.executeStorageTransaction(txParams);
@@ -98,7 +112,6 @@ export class BlockchainService {
         await prisma.order.update({
           where: { id: orderId },
           data: {
-            status: OrderStatus.BLOCKCHAIN_PROCESSING,
             storageId: result.storageId,
             storageEndpoint: result.storageEndpoint,
             storageMetadata: result.storageMetadata as object,
@@ -126,12 +139,11 @@ export class BlockchainService {
             },
           });
 
-          await tx.order.update({
-            where: { id: orderId },
-            data: {
-              status: OrderStatus.BLOCKCHAIN_FAILED,
-              statusMessage: result.error || 'Blockchain transaction failed',
-            },
+          await orderStateMachine.transition(orderId, OrderStatus.BLOCKCHAIN_FAILED, {
+            actor: { type: OrderActorType.BLOCKCHAIN, id: txRecord.id },
+            reason: result.error || 'Blockchain transaction failed',
+            data: { statusMessage: result.error || 'Blockchain transaction failed' },
+            tx,
           });
         });
 
@@ -139,14 +151,8 @@ export class BlockchainService {
       }
     } catch (error) {
       logger.error('Failed to process order', error, { orderId });
-      
-      await prisma.order.update({
-        where: { id: orderId },
-        data: {
-          status: OrderStatus.BLOCKCHAIN_FAILED,
-          statusMessage: error instanceof Error ? error.message : 'Unknown error',
-        },
-      });
+
+      await this.markOrderFailed(orderId, error instanceof Error ? error.message : 'Unknown error');
 
       return errorResult(
         'PROCESSING_FAILED',
@@ -155,6 +161,36 @@ export class BlockchainService {
     }
   }
 
+  /**
+   * Mark an order as failed after an unexpected processing error.
+   * Orders that never reached the blockchain stages are left as they are.
+   */
+  private async markOrderFailed(orderId: string, message: string): Promise<void> {
+    const order = await prisma.order.findUnique({ where: { id: orderId } });
+    if (!order || !orderStateMachine.canTransition(order.status, OrderStatus.BLOCKCHAIN_FAILED)) {
+      return;
+    }
+
+    try {
+      await withTransaction(async (tx) => {
+        // Attempts that never reached the provider would otherwise block retries
+        await tx.blockchainTransaction.updateMany({
+          where: { orderId, status: TransactionStatus.PENDING },
+          data: { status: TransactionStatus.FAILED, statusMessage: message },
+        });
+
+        await orderStateMachine.transition(orderId, OrderStatus.BLOCKCHAIN_FAILED, {
+          actor: { type: OrderActorType.SYSTEM },
+          reason: message,
+          data: { statusMessage: message },
+          tx,
+        });
+      });
+    } catch (error) {
+      logger.error('Failed to mark order as failed', error, { orderId });
+    }
+  }
+
   private async pollTransactionConfirmation(txId: string, providerSlug: string): Promise<void> {
     const maxAttempts = 30;
     const pollInterval = 10000;
@@ -194,13 +230,10 @@ export class BlockchainService {
         if (status.status === TransactionStatus.CONFIRMED) {
           const expiresAt = addDays(new Date(), tx.order.durationDays);
           
-          await prisma.order.update({
-            where: { id: tx.orderId },
-            data: {
-              status: OrderStatus.COMPLETED,
-              allocatedAt: new Date(),
-              expiresAt,
-            },
+          await orderStateMachine.transition(tx.orderId, OrderStatus.COMPLETED, {
+            actor: { type: OrderActorType.BLOCKCHAIN, id: txId },
+            reason: 'Transaction confirmed',
+            data: { allocatedAt: new Date(), expiresAt },
           });
 
           logger.info('Transaction confirmed', { txId, orderId: tx.orderId });
@@ -208,12 +241,10 @@ export class BlockchainService {
         }
 
         if (status.status === TransactionStatus.FAILED) {
-          await prisma.order.update({
-            where: { id: tx.orderId },
-            data: {
-              status: OrderStatus.BLOCKCHAIN_FAILED,
-              statusMessage: status.error || 'Transaction failed',
-            },
+          await orderStateMachine.transition(tx.orderId, OrderStatus.BLOCKCHAIN_FAILED, {
+            actor: { type: OrderActorType.BLOCKCHAIN, id: txId },
+            reason: status.error || 'Transaction failed',
+            data: { statusMessage: status.error || 'Transaction failed' },
           });
           return;
         }
@@ -232,7 +263,10 @@ export class BlockchainService {
     });
 
     if (!tx) return errorResult('TX_NOT_FOUND', 'Transaction not found');
-    if (tx.status !== TransactionStatus.FAILED) return errorResult('INVALID_STATUS', 'Can only retry failed transactions');
+    // A retry that failed before reaching the provider leaves the transaction RETRYING
+    if (tx.status !== TransactionStatus.FAILED && tx.status !== TransactionStatus.RETRYING) {
+      return errorResult('INVALID_STATUS', 'Can only retry failed transactions');
+    }
     if (tx.retryCount >= tx.maxRetries) return errorResult('MAX_RETRIES', 'Maximum retry attempts reached');
 
     await prisma.blockchainTransaction.update({
@@ -299,18 +333,19 @@ export class BlockchainService {
         });
 
         if (status.status === TransactionStatus.CONFIRMED) {
-          await prisma.order.update({
-            where: { id: tx.orderId },
+          await orderStateMachine.transition(tx.orderId, OrderStatus.COMPLETED, {
+            actor: { type: OrderActorType.BLOCKCHAIN, id: tx.id },
+            reason: 'Transaction confirmed',
             data: {
-              status: OrderStatus.COMPLETED,
               allocatedAt: new Date(),
               expiresAt: addDays(new Date(), tx.order.durationDays),
             },
           });
         } else if (status.status === TransactionStatus.FAILED) {
-          await prisma.order.update({
-            where: { id: tx.orderId },
-            data: { status: OrderStatus.BLOCKCHAIN_FAILED, statusMessage: status.error },
+          await orderStateMachine.transition(tx.orderId, OrderStatus.BLOCKCHAIN_FAILED, {
+            actor: { type: OrderActorType.BLOCKCHAIN, id: tx.id },
+            reason: status.error || 'Transaction failed',
+            data: { statusMessage: status.error },
           });
         }
       } catch (error) {
@@ -0,0 +1,190 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { Cart, CartItem, Provider, StoragePlan } from '@prisma/client';
+import { cartService } from './cart.service';
+import { paymentService } from '../payments/payment.service';
+import { IApiResponse } from '../../common/interfaces';
+import { ValidationError } from '../../common/utils/errors';
+import { config } from '../../config';
+import { getAuthUser, requireAuth, requireScope } from '../../middleware/auth.middleware';
+import { ApiKeyScopes } from '../auth/permissions';
+import { organizationService } from '../organizations/organization.service';
+
+// ============================================
+// Cart Controller
+// ============================================
+
+const router = Router();
+
+// The cart only exists to be checked out
+router.use(requireAuth, requireScope(ApiKeyScopes.PAYMENTS_WRITE));
+
+type CartWithItems = Cart & {
+  items: (CartItem & { plan: StoragePlan & { provider: Provider } })[];
+};
+
+function toCartResponse(cart: CartWithItems) {
+  const items = cart.items.map(item => ({
+    planId: item.planId,
+    quantity: item.quantity,
+    plan: {
+      id: item.plan.id,
+      name: item.plan.name,
+      provider: { name: item.plan.provider.name, slug: item.plan.provider.slug },
+      storageSizeGb: item.plan.storageSizeGb,
+      durationDays: item.plan.durationDays,
+      priceUsdCents: item.plan.priceUsdCents,
+      available: item.plan.status === 'AVAILABLE' && item.plan.isActive,
+    },
+    subtotalCents: item.plan.priceUsdCents * item.quantity,
+  }));
+
+  return {
+    id: cart.id,
+    items,
+    totalCents: items.reduce((sum, item) => sum + item.subtotalCents, 0),
+    updatedAt: cart.updatedAt,
+  };
+}
+
+/**
+ * GET /api/cart
+ * Get the authenticated user's cart
+ */
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getAuthUser(req);
+    const cart = await cartService.getCart(user.id);
+
+    const response: IApiResponse = {
+      success: true,
+      data: toCartResponse(cart),
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/cart/items/:planId
+ * Add a plan to the cart or change its quantity
+ */
+router.put('/items/:planId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getAuthUser(req);
+    const { planId } = req.params;
+    const quantity = req.body.quantity ?? 1;
+
+    if (typeof quantity !== 'number') {
+      throw new ValidationError('quantity must be a number');
+    }
+
+    const cart = await cartService.setItem(user.id, planId, quantity);
+
+    const response: IApiResponse = {
+      success: true,
+      data: toCartResponse(cart),
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/cart/items/:planId
+ * Remove a plan from the cart
+ */
+router.delete('/items/:planId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getAuthUser(req);
+    const cart = await cartService.removeItem(user.id, req.params.planId);
+
+    const response: IApiResponse = {
+      success: true,
+      data: toCartResponse(cart),
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/cart
+ * Empty the cart
+ */
+router.delete('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getAuthUser(req);
+    await cartService.clearCart(user.id);
+
+    const response: IApiResponse = {
+      success: true,
+      data: { message: 'Cart cleared' },
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/cart/checkout
+ * Create one Stripe checkout session for everything in the cart
+ */
+router.post('/checkout', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getAuthUser(req);
+    const { idempotencyKey, walletAddress, allowProviderFallback, billingCountry, billingRegion, vatId } = req.body;
+    // Organization keys always buy for their organization
+    const organizationId: string | undefined = req.apiKey?.organizationId || req.body.organizationId;
+
+    if (allowProviderFallback !== undefined && typeof allowProviderFallback !== 'boolean') {
+      throw new ValidationError('allowProviderFallback must be a boolean');
+    }
+
+    if ([billingCountry, billingRegion, vatId].some(value => value !== undefined && typeof value !== 'string')) {
+      throw new ValidationError('billingCountry, billingRegion and vatId must be strings');
+    }
+
+    if (organizationId) {
+      await organizationService.getMembership(organizationId, user.id);
+    }
+
+    const baseUrl = config.app.frontendUrl;
+    const result = await paymentService.createCartCheckout({
+      userId: user.id,
+      successUrl: `${baseUrl}/orders/success`,
+      cancelUrl: `${baseUrl}/orders/cancel`,
+      idempotencyKey,
+      allowProviderFallback,
+      walletAddress,
+      organizationId,
+      billing: { country: billingCountry, region: billingRegion, vatId },
+    });
+
+    if (result.success) {
+      const response: IApiResponse = {
+        success: true,
+        data: result.data,
+      };
+      res.json(response);
+    } else {
+      const response: IApiResponse = {
+        success: false,
+        error: result.error,
+      };
+      res.status(400).json(response);
+    }
+  } catch (error) {
+    next(error);
+  }
+});
+
+export const cartController = router;
+export default cartController;
@@ -0,0 +1,94 @@
+import { prisma } from '../../common/database';
+import { logger, NotFoundError, ValidationError } from '../../common/utils';
+
+// ============================================
+// Cart Service
+// ============================================
+
+// Every unit in the cart becomes its own order; Stripe allows up to 100 line items
+export const MAX_CART_ITEMS = 20;
+export const MAX_CART_ITEM_QUANTITY = 10;
+
+const cartInclude = {
+  items: {
+    include: { plan: { include: { provider: true } } },
+    orderBy: { createdAt: 'asc' as const },
+  },
+};
+
+export class CartService {
+  /**
+   * Get a user's cart, creating it on first use
+   */
+  async getCart(userId: string) {
+    return prisma.cart.upsert({
+      where: { userId },
+      create: { userId },
+      update: {},
+      include: cartInclude,
+    });
+  }
+
+  /**
+   * Set the quantity of a plan in the cart, adding the plan if it is not in it yet
+   */
+  async setItem(userId: string, planId: string, quantity: number) {
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_CART_ITEM_QUANTITY) {
+      throw new ValidationError(`quantity must be an integer between 1 and ${MAX_CART_ITEM_QUANTITY}`);
+    }
+
+    const plan = await prisma.storagePlan.findUnique({ where: { id: planId } });
+    if (!plan) {
+      throw new NotFoundError('Storage plan', planId);
+    }
+
+    if (plan.status !== 'AVAILABLE' || !plan.isActive) {
+      throw new ValidationError('This storage plan is no longer available');
+    }
+
+    const cart = await this.getCart(userId);
+
+    if (!cart.items.some(item => item.planId === planId) && cart.items.length >= MAX_CART_ITEMS) {
+      throw new ValidationError(`A cart can hold at most ${MAX_CART_ITEMS} plans`);
+    }
+
+    await prisma.cartItem.upsert({
+      where: { cartId_planId: { cartId: cart.id, planId } },
+      create: { cartId: cart.id, planId, quantity },
+      update: { quantity },
+    });
+
+    logger.debug('Cart item set', { userId, planId, quantity });
+
+    return this.getCart(userId);
+  }
+
+  /**
+   * Remove a plan from the cart
+   */
+  async removeItem(userId: string, planId: string) {
+    const cart = await this.getCart(userId);
+
+    const { count } = await prisma.cartItem.deleteMany({
+      where: { cartId: cart.id, planId },
+    });
+
+    if (count === 0) {
+      throw new NotFoundError('Cart item', planId);
+    }
+
+    return this.getCart(userId);
+  }
+
+  /**
+   * Remove everything from the cart
+   */
+  async clearCart(userId: string): Promise<void> {
+    await prisma.cartItem.deleteMany({
+      where: { cart: { userId } },
+    });
+  }
+}
+
+export const cartService = new CartService();
+export default cartService;
@@ -0,0 +1,108 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { creditService } from './credit.service';
+import { paymentService } from '../payments/payment.service';
+import { IApiResponse } from '../../common/interfaces';
+import { ValidationError } from '../../common/utils/errors';
+import { config } from '../../config';
+import {
+  getAuthUser,
+  requireAuth,
+  requirePermission,
+  requireScope,
+} from '../../middleware/auth.middleware';
+import { ApiKeyScopes, Permissions } from '../auth/permissions';
+import { organizationService } from '../organizations/organization.service';
+
+// ============================================
+// Credit Controller
+// ============================================
+
+const router = Router();
+
+/**
+ * POST /api/credits/top-ups
+ * Create a Stripe checkout session for buying credit, for the user or an organization
+ */
+router.post('/top-ups', requireAuth, requireScope(ApiKeyScopes.PAYMENTS_WRITE), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getAuthUser(req);
+    const { amountCents } = req.body;
+    // Organization keys always top up their organization
+    const organizationId: string | undefined = req.apiKey?.organizationId || req.body.organizationId;
+
+    if (typeof amountCents !== 'number') {
+      throw new ValidationError('amountCents is required');
+    }
+
+    if (organizationId) {
+      await organizationService.getMembership(organizationId, user.id);
+    }
+
+    const baseUrl = config.app.frontendUrl;
+    const result = await paymentService.createTopUpCheckout({
+      userId: user.id,
+      organizationId,
+      amountCents,
+      successUrl: `${baseUrl}/orders`,
+      cancelUrl: `${baseUrl}/orders`,
+    });
+
+    if (result.success) {
+      const response: IApiResponse = {
+        success: true,
+        data: result.data,
+      };
+      res.json(response);
+    } else {
+      const response: IApiResponse = {
+        success: false,
+        error: result.error,
+      };
+      res.status(400).json(response);
+    }
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/credits/adjustments
+ * Add credit to or remove it from a user's or organization's balance (staff only)
+ */
+router.post('/adjustments', requirePermission(Permissions.CREDITS_MANAGE), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const staff = getAuthUser(req);
+    const { userId, organizationId, amountCents, reason } = req.body;
+
+    if (!userId === !organizationId) {
+      throw new ValidationError('Exactly one of userId and organizationId is required');
+    }
+
+    if (typeof amountCents !== 'number') {
+      throw new ValidationError('amountCents is required');
+    }
+
+    if (!reason || typeof reason !== 'string') {
+      throw new ValidationError('reason is required');
+    }
+
+    const entry = await creditService.adjustBalance(
+      { userId: userId ?? staff.id, organizationId },
+      amountCents,
+      reason,
+      staff.id
+    );
+
+    const response: IApiResponse = {
+      success: true,
+      data: creditService.formatEntryResponse(entry),
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export const creditController = router;
+export default creditController;
@@ -0,0 +1,337 @@
+import {
+  CreditEntryType,
+  CreditLedgerEntry,
+  CreditTopUpStatus,
+  PaymentMethod,
+  PaymentStatus,
+  Prisma,
+} from '@prisma/client';
+import { prisma, withTransaction } from '../../common/database';
+import { IPaginationParams } from '../../common/interfaces';
+import { logger, NotFoundError, PaymentError, ValidationError } from '../../common/utils';
+
+// ============================================
+// Credit Service
+// ============================================
+
+// A credit balance: the organization's when organizationId is set, else the user's own
+export interface ICreditAccount {
+  userId: string;
+  organizationId?: string | null;
+}
+
+export interface ICreditEntryParams {
+  type: CreditEntryType;
+  // Positive to add credit, negative to spend or remove it
+  amountCents: number;
+  description?: string;
+  topUpId?: string;
+  paymentId?: string;
+  orderId?: string;
+  refundId?: string;
+  createdById?: string | null;
+}
+
+export class CreditService {
+  /**
+   * Get the credit balance of an account
+   */
+  async getBalance(account: ICreditAccount): Promise<number> {
+    if (account.organizationId) {
+      const organization = await prisma.organization.findUnique({
+        where: { id: account.organizationId },
+        select: { creditBalanceCents: true },
+      });
+      if (!organization) {
+        throw new NotFoundError('Organization', account.organizationId);
+      }
+      return organization.creditBalanceCents;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: account.userId },
+      select: { creditBalanceCents: true },
+    });
+    if (!user) {
+      throw new NotFoundError('User', account.userId);
+    }
+    return user.creditBalanceCents;
+  }
+
+  /**
+   * Get the ledger of an account, newest first
+   */
+  async listEntries(
+    account: ICreditAccount,
+    pagination?: IPaginationParams
+  ): Promise<{ entries: CreditLedgerEntry[]; total: number }> {
+    const where = this.accountWhere(account);
+
+    const [entries, total] = await Promise.all([
+      prisma.creditLedgerEntry.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: pagination ? (pagination.page - 1) * pagination.pageSize : undefined,
+        take: pagination?.pageSize,
+      }),
+      prisma.creditLedgerEntry.count({ where }),
+    ]);
+
+    return { entries, total };
+  }
+
+  /**
+   * Format a ledger entry for API responses
+   */
+  formatEntryResponse(entry: CreditLedgerEntry) {
+    return {
+      id: entry.id,
+      type: entry.type,
+      amountCents: entry.amountCents,
+      balanceAfterCents: entry.balanceAfterCents,
+      description: entry.description,
+      topUpId: entry.topUpId,
+      paymentId: entry.paymentId,
+      orderId: entry.orderId,
+      refundId: entry.refundId,
+      createdById: entry.createdById,
+      createdAt: entry.createdAt,
+    };
+  }
+
+  /**
+   * Change a balance and record the change in its ledger. Balances never go
+   * negative: spending more than the balance throws.
+   */
+  async post(
+    tx: Prisma.TransactionClient,
+    account: ICreditAccount,
+    entry: ICreditEntryParams
+  ): Promise<CreditLedgerEntry> {
+    const { amountCents } = entry;
+    // Only spending needs the balance to cover it
+    const covered = amountCents < 0 ? { creditBalanceCents: { gte: -amountCents } } : {};
+    const data = { creditBalanceCents: { increment: amountCents } };
+
+    let balanceAfterCents: number | undefined;
+    if (account.organizationId) {
+      const { count } = await tx.organization.updateMany({
+        where: { id: account.organizationId, ...covered },
+        data,
+      });
+      if (count > 0) {
+        const organization = await tx.organization.findUniqueOrThrow({ where: { id: account.organizationId } });
+        balanceAfterCents = organization.creditBalanceCents;
+      }
+    } else {
+      const { count } = await tx.user.updateMany({
+        where: { id: account.userId, ...covered },
+        data,
+      });
+      if (count > 0) {
+        const user = await tx.user.findUniqueOrThrow({ where: { id: account.userId } });
+        balanceAfterCents = user.creditBalanceCents;
+      }
+    }
+
+    if (balanceAfterCents === undefined) {
+      throw new PaymentError('Insufficient credit', { amountCents: -amountCents });
+    }
+
+    return tx.creditLedgerEntry.create({
+      data: {
+        ...this.accountWhere(account),
+        type: entry.type,
+        amountCents,
+        balanceAfterCents,
+        description: entry.description,
+        topUpId: entry.topUpId,
+        paymentId: entry.paymentId,
+        orderId: entry.orderId,
+        refundId: entry.refundId,
+        createdById: entry.createdById,
+      },
+    });
+  }
+
+  /**
+   * Add credit to or remove it from an account (staff)
+   */
+  async adjustBalance(
+    account: ICreditAccount,
+    amountCents: number,
+    reason: string,
+    staffUserId: string
+  ): Promise<CreditLedgerEntry> {
+    if (!Number.isInteger(amountCents) || amountCents === 0) {
+      throw new ValidationError('amountCents must be a non-zero integer');
+    }
+
+    // Throws when the account does not exist
+    await this.getBalance(account);
+
+    const entry = await withTransaction(tx => this.post(tx, account, {
+      type: CreditEntryType.ADJUSTMENT,
+      amountCents,
+      description: reason,
+      createdById: staffUserId,
+    }));
+
+    logger.info('Credit balance adjusted', { ...account, amountCents, staffUserId });
+
+    return entry;
+  }
+
+  // ============================================
+  // Top-ups
+  // ============================================
+
+  /**
+   * Add a paid top-up to its account's balance
+   */
+  async completeTopUp(topUpId: string, stripePaymentIntentId: string | null): Promise<void> {
+    const completed = await withTransaction(async (tx) => {
+      const { count } = await tx.creditTopUp.updateMany({
+        where: { id: topUpId, status: CreditTopUpStatus.PENDING_PAYMENT },
+        data: {
+          status: CreditTopUpStatus.PAID,
+          stripePaymentIntentId,
+          paidAt: new Date(),
+        },
+      });
+
+      if (count === 0) {
+        return false;
+      }
+
+      const topUp = await tx.creditTopUp.findUniqueOrThrow({ where: { id: topUpId } });
+      await this.post(tx, topUp, {
+        type: CreditEntryType.TOP_UP,
+        amountCents: topUp.amountCents,
+        description: 'Credit top-up',
+        topUpId: topUp.id,
+        createdById: topUp.userId,
+      });
+
+      return true;
+    });
+
+    if (!completed) {
+      logger.info('Top-up already processed', { topUpId });
+      return;
+    }
+
+    logger.info('Credit top-up completed', { topUpId });
+  }
+
+  /**
+   * Cancel a top-up whose checkout was abandoned
+   */
+  async cancelTopUp(topUpId: string): Promise<void> {
+    await prisma.creditTopUp.updateMany({
+      where: { id: topUpId, status: CreditTopUpStatus.PENDING_PAYMENT },
+      data: { status: CreditTopUpStatus.CANCELLED },
+    });
+
+    logger.info('Credit top-up checkout expired', { topUpId });
+  }
+
+  // ============================================
+  // Order payments
+  // ============================================
+
+  /**
+   * Spend credit on an order. The credit is taken right away and the payment
+   * stays pending until the rest of the order is paid.
+   */
+  async createOrderPayment(
+    tx: Prisma.TransactionClient,
+    params: {
+      account: ICreditAccount;
+      orderId: string;
+      amountCents: number;
+      createdById: string;
+      // Tax included in the amount
+      tax?: { taxCents: number; taxRatePercent: number; reverseCharge: boolean };
+    }
+  ) {
+    const { account, orderId, amountCents, createdById, tax } = params;
+
+    const payment = await tx.payment.create({
+      data: {
+        orderId,
+        userId: account.userId,
+        organizationId: account.organizationId,
+        amountCents,
+        currency: 'usd',
+        method: PaymentMethod.CREDIT,
+        status: PaymentStatus.PENDING,
+        ...tax,
+      },
+    });
+
+    await this.post(tx, account, {
+      type: CreditEntryType.ORDER_PAYMENT,
+      amountCents: -amountCents,
+      description: 'Order payment',
+      paymentId: payment.id,
+      orderId,
+      createdById,
+    });
+
+    return payment;
+  }
+
+  /**
+   * Mark the credit spent on an order as paid, once the order is paid.
+   * Returns the ids of the settled payments.
+   */
+  async settleOrderPayments(tx: Prisma.TransactionClient, orderId: string): Promise<string[]> {
+    const payments = await tx.payment.findMany({
+      where: { orderId, method: PaymentMethod.CREDIT, status: PaymentStatus.PENDING },
+      select: { id: true },
+    });
+
+    if (payments.length > 0) {
+      await tx.payment.updateMany({
+        where: { id: { in: payments.map(payment => payment.id) } },
+        data: { status: PaymentStatus.SUCCEEDED, processedAt: new Date() },
+      });
+    }
+
+    return payments.map(payment => payment.id);
+  }
+
+  /**
+   * Return the credit held for an order that was not paid
+   */
+  async releaseOrderPayments(tx: Prisma.TransactionClient, orderId: string, reason: string): Promise<void> {
+    const payments = await tx.payment.findMany({
+      where: { orderId, method: PaymentMethod.CREDIT, status: PaymentStatus.PENDING },
+    });
+
+    for (const payment of payments) {
+      await tx.payment.update({
+        where: { id: payment.id },
+        data: { status: PaymentStatus.CANCELLED, statusMessage: reason },
+      });
+
+      await this.post(tx, payment, {
+        type: CreditEntryType.REFUND,
+        amountCents: payment.amountCents,
+        description: reason,
+        paymentId: payment.id,
+        orderId,
+      });
+    }
+  }
+
+  private accountWhere(account: ICreditAccount) {
+    return account.organizationId
+      ? { organizationId: account.organizationId }
+      : { userId: account.userId, organizationId: null };
+  }
+}
+
+export const creditService = new CreditService();
+export default creditService;
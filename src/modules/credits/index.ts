@@ -0,0 +1,2 @@
+export * from './credit.service';
+export * from './credit.controller';
@@ -0,0 +1,222 @@
+import fs from 'fs/promises';
+import path from 'path';
+import axios from 'axios';
+import { prisma } from '../../common/database';
+import { config } from '../../config';
+import { logger, ExternalServiceError, ValidationError } from '../../common/utils';
+
+// ============================================
+// FX Rate Service
+// ============================================
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+// Prices are set in US dollars and converted to the others
+export const BASE_CURRENCY = 'usd';
+
+export interface ICurrency {
+  // Lowercase ISO 4217 code
+  code: string;
+  // Digits of the minor unit: amounts are stored as integers of it
+  exponent: number;
+  // Converted prices are rounded up to a multiple of this many minor units
+  roundingIncrement: number;
+}
+
+export interface IFxRate {
+  currency: string;
+  // Units of the currency per US dollar
+  rate: string;
+  fetchedAt: Date;
+}
+
+// Currencies prices can be shown and charged in, with their rounding rules
+const CURRENCIES: ICurrency[] = [
+  { code: 'usd', exponent: 2, roundingIncrement: 1 },
+  { code: 'eur', exponent: 2, roundingIncrement: 1 },
+  { code: 'gbp', exponent: 2, roundingIncrement: 1 },
+  { code: 'cad', exponent: 2, roundingIncrement: 1 },
+  { code: 'aud', exponent: 2, roundingIncrement: 1 },
+  // Swiss prices are rounded to 5 centimes
+  { code: 'chf', exponent: 2, roundingIncrement: 5 },
+  { code: 'jpy', exponent: 0, roundingIncrement: 1 },
+];
+
+// Rates are fetched as { base: 'USD', rates: { EUR: 0.92, ... } }
+interface IRatesDocument {
+  base?: string;
+  rates?: Record<string, number | string>;
+}
+
+export class FxRateService {
+  /**
+   * Get a supported currency, or undefined if prices are not offered in it
+   */
+  getCurrency(code: string): ICurrency | undefined {
+    return CURRENCIES.find(currency => currency.code === code.toLowerCase());
+  }
+
+  /**
+   * Get the rate of a currency, or null if it is not supported or its rate is stale
+   */
+  async findRate(code: string): Promise<IFxRate | null> {
+    const currency = this.getCurrency(code);
+    if (!currency) {
+      return null;
+    }
+
+    if (currency.code === BASE_CURRENCY) {
+      return { currency: BASE_CURRENCY, rate: '1', fetchedAt: new Date() };
+    }
+
+    const fxRate = await prisma.fxRate.findUnique({ where: { currency: currency.code } });
+    if (!fxRate) {
+      return null;
+    }
+
+    if (Date.now() - fxRate.fetchedAt.getTime() > config.currencies.fxRatesMaxAgeHours * MS_PER_HOUR) {
+      logger.warn('FX rate is stale', { currency: currency.code, fetchedAt: fxRate.fetchedAt });
+      return null;
+    }
+
+    return { currency: fxRate.currency, rate: fxRate.rate, fetchedAt: fxRate.fetchedAt };
+  }
+
+  /**
+   * Get the rate of a currency, throwing if prices cannot be given in it
+   */
+  async getRate(code: string): Promise<IFxRate> {
+    const fxRate = await this.findRate(code);
+    if (!fxRate) {
+      throw new ValidationError(`Prices are not available in ${code.toUpperCase()}`, {
+        supported: await this.getAvailableCurrencies(),
+      });
+    }
+    return fxRate;
+  }
+
+  /**
+   * Get the codes of the currencies with a current rate
+   */
+  async getAvailableCurrencies(): Promise<string[]> {
+    const since = new Date(Date.now() - config.currencies.fxRatesMaxAgeHours * MS_PER_HOUR);
+    const rates = await prisma.fxRate.findMany({
+      where: { fetchedAt: { gte: since } },
+      select: { currency: true },
+    });
+
+    return CURRENCIES
+      .filter(currency => currency.code === BASE_CURRENCY || rates.some(rate => rate.currency === currency.code))
+      .map(currency => currency.code);
+  }
+
+  /**
+   * Convert US cents to the minor units of a currency, rounding up to the
+   * currency's increment so the converted price never falls short
+   */
+  fromUsdCents(usdCents: number, code: string, rate: string): number {
+    const currency = this.requireCurrency(code);
+    if (currency.code === BASE_CURRENCY) {
+      return usdCents;
+    }
+
+    const amount = this.toPrecision(usdCents * Number(rate) * 10 ** (currency.exponent - 2));
+    return Math.ceil(amount / currency.roundingIncrement) * currency.roundingIncrement;
+  }
+
+  /**
+   * Convert minor units of a currency back to US cents, rounding down
+   */
+  toUsdCents(amount: number, code: string, rate: string): number {
+    const currency = this.requireCurrency(code);
+    if (currency.code === BASE_CURRENCY) {
+      return amount;
+    }
+
+    return Math.floor(this.toPrecision(amount / Number(rate) / 10 ** (currency.exponent - 2)));
+  }
+
+  /**
+   * Format minor units as a decimal amount, e.g. "12.50"
+   */
+  toDecimal(amount: number, code: string): string {
+    const { exponent } = this.requireCurrency(code);
+    return (amount / 10 ** exponent).toFixed(exponent);
+  }
+
+  /**
+   * Fetch the latest rates from the configured source and store them
+   */
+  async refreshRates(): Promise<number> {
+    const source = config.currencies.fxRatesSource;
+    const document = source === 'http' ? await this.fetchHttpRates() : await this.readFileRates();
+
+    if (document.base && document.base.toLowerCase() !== BASE_CURRENCY) {
+      throw new ExternalServiceError('fx-rates', `Rates are based on ${document.base}, expected USD`);
+    }
+
+    const fetchedAt = new Date();
+    let updated = 0;
+
+    for (const currency of CURRENCIES) {
+      if (currency.code === BASE_CURRENCY) {
+        continue;
+      }
+
+      const rate = Number(document.rates?.[currency.code.toUpperCase()]);
+      if (!Number.isFinite(rate) || rate <= 0) {
+        logger.warn('FX rate missing from source', { currency: currency.code, source });
+        continue;
+      }
+
+      await prisma.fxRate.upsert({
+        where: { currency: currency.code },
+        create: { currency: currency.code, rate: String(rate), source, fetchedAt },
+        update: { rate: String(rate), source, fetchedAt },
+      });
+      updated++;
+    }
+
+    logger.info('FX rates refreshed', { source, updated });
+
+    return updated;
+  }
+
+  private async fetchHttpRates(): Promise<IRatesDocument> {
+    try {
+      const response = await axios.get<IRatesDocument>(config.currencies.fxRatesUrl, { timeout: 10000 });
+      return response.data;
+    } catch (error) {
+      logger.error('Failed to fetch FX rates', error);
+      throw new ExternalServiceError('fx-rates', 'Failed to fetch exchange rates');
+    }
+  }
+
+  private async readFileRates(): Promise<IRatesDocument> {
+    const filePath = path.resolve(config.currencies.fxRatesFile);
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf8')) as IRatesDocument;
+    } catch (error) {
+      logger.error('Failed to read FX rates file', error, { filePath });
+      throw new ExternalServiceError('fx-rates', 'Failed to read exchange rates file');
+    }
+  }
+
+  private requireCurrency(code: string): ICurrency {
+    const currency = this.getCurrency(code);
+    if (!currency) {
+      throw new ValidationError(`Unsupported currency: ${code}`);
+    }
+    return currency;
+  }
+
+  /**
+   * Drop floating point noise, so e.g. 919.9999999 is not rounded as less than 920
+   */
+  private toPrecision(value: number): number {
+    return Math.round(value * 1e6) / 1e6;
+  }
+}
+
+export const fxRateService = new FxRateService();
+export default fxRateService;
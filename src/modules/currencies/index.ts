@@ -0,0 +1 @@
+export * from './fx-rate.service';
@@ -0,0 +1,95 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { DisputeStatus } from '@prisma/client';
+import { disputeService, DisputeWithOrders } from './dispute.service';
+import { IApiResponse } from '../../common/interfaces';
+import { ValidationError } from '../../common/utils/errors';
+import { requirePermission } from '../../middleware/auth.middleware';
+import { Permissions } from '../auth/permissions';
+
+// ============================================
+// Dispute Controller
+// ============================================
+
+const router = Router();
+
+function toDisputeResponse(dispute: DisputeWithOrders) {
+  return {
+    id: dispute.id,
+    stripeDisputeId: dispute.stripeDisputeId,
+    stripeChargeId: dispute.stripeChargeId,
+    paymentId: dispute.paymentId,
+    purchaseId: dispute.purchaseId,
+    amountCents: dispute.amountCents,
+    currency: dispute.currency,
+    reason: dispute.reason,
+    status: dispute.status,
+    evidenceDueBy: dispute.evidenceDueBy,
+    closedAt: dispute.closedAt,
+    user: dispute.user,
+    orders: dispute.orders,
+    createdAt: dispute.createdAt,
+    updatedAt: dispute.updatedAt,
+  };
+}
+
+/**
+ * GET /api/disputes
+ * List payment disputes, filtered by ?status=open|closed|<status> (staff only)
+ */
+router.get('/', requirePermission(Permissions.DISPUTES_READ), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { status, page = '1', pageSize = '20' } = req.query;
+
+    const statuses: string[] = ['open', 'closed', ...Object.values(DisputeStatus)];
+    if (status && !statuses.includes(status as string)) {
+      throw new ValidationError(`status must be one of: ${statuses.join(', ')}`);
+    }
+
+    const pageNum = parseInt(page as string, 10);
+    const pageSizeNum = parseInt(pageSize as string, 10);
+
+    const { disputes, total } = await disputeService.listDisputes(
+      status === 'open' || status === 'closed'
+        ? { open: status === 'open' }
+        : { status: status as DisputeStatus | undefined },
+      { page: pageNum, pageSize: pageSizeNum }
+    );
+
+    const response: IApiResponse = {
+      success: true,
+      data: disputes.map(toDisputeResponse),
+      meta: {
+        page: pageNum,
+        pageSize: pageSizeNum,
+        total,
+        totalPages: Math.ceil(total / pageSizeNum),
+      },
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/disputes/:disputeId
+ * Get a payment dispute (staff only)
+ */
+router.get('/:disputeId', requirePermission(Permissions.DISPUTES_READ), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const dispute = await disputeService.getDispute(req.params.disputeId);
+
+    const response: IApiResponse = {
+      success: true,
+      data: toDisputeResponse(dispute),
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export const disputeController = router;
+export default disputeController;
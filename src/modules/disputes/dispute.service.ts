@@ -0,0 +1,384 @@
+import Stripe from 'stripe';
+import { Dispute, DisputeStatus, OrderActorType, OrderStatus, Prisma } from '@prisma/client';
+import { prisma, withTransaction } from '../../common/database';
+import { config } from '../../config';
+import { IPaginationParams, IPaymentGateway } from '../../common/interfaces';
+import { logger, NotFoundError } from '../../common/utils';
+import { getProviderRegistry } from '../providers/provider.registry';
+import { orderStateMachine } from '../orders/order-state-machine';
+import { paymentGateway } from '../payments/gateways';
+
+// ============================================
+// Dispute Service
+// ============================================
+
+// Disputes in these statuses are settled and will not change again
+export const CLOSED_DISPUTE_STATUSES: DisputeStatus[] = [
+  DisputeStatus.WARNING_CLOSED,
+  DisputeStatus.WON,
+  DisputeStatus.LOST,
+];
+
+const STRIPE_DISPUTE_STATUSES: Record<Stripe.Dispute.Status, DisputeStatus> = {
+  warning_needs_response: DisputeStatus.WARNING_NEEDS_RESPONSE,
+  warning_under_review: DisputeStatus.WARNING_UNDER_REVIEW,
+  warning_closed: DisputeStatus.WARNING_CLOSED,
+  needs_response: DisputeStatus.NEEDS_RESPONSE,
+  under_review: DisputeStatus.UNDER_REVIEW,
+  won: DisputeStatus.WON,
+  lost: DisputeStatus.LOST,
+};
+
+const DISPUTE_INCLUDE = {
+  user: { select: { id: true, email: true, name: true, flaggedAt: true } },
+  orders: { select: { id: true, orderNumber: true, status: true, suspendedAt: true } },
+} satisfies Prisma.DisputeInclude;
+
+export type DisputeWithOrders = Prisma.DisputeGetPayload<{ include: typeof DISPUTE_INCLUDE }>;
+
+export class DisputeService {
+  private gateway: IPaymentGateway;
+
+  constructor() {
+    this.gateway = paymentGateway;
+  }
+
+  /**
+   * Handle charge.dispute.* webhook events. A new dispute flags its orders and
+   * the customer, and suspends the storage when DISPUTE_SUSPEND_STORAGE is set.
+   * Won disputes restore access; lost ones terminate the orders.
+   */
+  async handleDispute(stripeDispute: Stripe.Dispute): Promise<void> {
+    const status = STRIPE_DISPUTE_STATUSES[stripeDispute.status];
+    const existing = await prisma.dispute.findUnique({
+      where: { stripeDisputeId: stripeDispute.id },
+    });
+
+    const dispute = existing
+      ? await prisma.dispute.update({
+          where: { id: existing.id },
+          data: {
+            status,
+            amountCents: stripeDispute.amount,
+            reason: stripeDispute.reason,
+            evidenceDueBy: this.evidenceDueBy(stripeDispute),
+          },
+        })
+      : await this.openDispute(stripeDispute, status);
+
+    if (!dispute) {
+      return;
+    }
+
+    logger.info('Dispute updated', { disputeId: dispute.id, stripeDisputeId: stripeDispute.id, status });
+
+    if (CLOSED_DISPUTE_STATUSES.includes(status)) {
+      await this.closeDispute(dispute);
+    }
+  }
+
+  /**
+   * Get disputes, newest first. Open disputes are those not settled yet.
+   */
+  async listDisputes(
+    filters?: { open?: boolean; status?: DisputeStatus },
+    pagination?: IPaginationParams
+  ): Promise<{ disputes: DisputeWithOrders[]; total: number }> {
+    const where: Prisma.DisputeWhereInput = {
+      ...(filters?.open !== undefined && { closedAt: filters.open ? null : { not: null } }),
+      status: filters?.status,
+    };
+
+    const [disputes, total] = await Promise.all([
+      prisma.dispute.findMany({
+        where,
+        include: DISPUTE_INCLUDE,
+        orderBy: { createdAt: 'desc' },
+        skip: pagination ? (pagination.page - 1) * pagination.pageSize : undefined,
+        take: pagination?.pageSize,
+      }),
+      prisma.dispute.count({ where }),
+    ]);
+
+    return { disputes, total };
+  }
+
+  /**
+   * Get a dispute by id
+   */
+  async getDispute(disputeId: string): Promise<DisputeWithOrders> {
+    const dispute = await prisma.dispute.findUnique({
+      where: { id: disputeId },
+      include: DISPUTE_INCLUDE,
+    });
+
+    if (!dispute) {
+      throw new NotFoundError('Dispute', disputeId);
+    }
+
+    return dispute;
+  }
+
+  /**
+   * Record a new dispute against the payment or cart purchase of its charge
+   * and flag the orders it covers and the customer
+   */
+  private async openDispute(stripeDispute: Stripe.Dispute, status: DisputeStatus): Promise<Dispute | null> {
+    const chargeId = typeof stripeDispute.charge === 'string' ? stripeDispute.charge : stripeDispute.charge.id;
+    const disputed = await this.findDisputedPayment(stripeDispute, chargeId);
+
+    if (!disputed) {
+      logger.warn('Disputed charge does not match a payment', { stripeDisputeId: stripeDispute.id, chargeId });
+      return null;
+    }
+
+    const dispute = await withTransaction(async (tx) => {
+      const created = await tx.dispute.create({
+        data: {
+          stripeDisputeId: stripeDispute.id,
+          stripeChargeId: chargeId,
+          paymentId: disputed.paymentId,
+          purchaseId: disputed.purchaseId,
+          userId: disputed.userId,
+          amountCents: stripeDispute.amount,
+          currency: stripeDispute.currency,
+          reason: stripeDispute.reason,
+          status,
+          evidenceDueBy: this.evidenceDueBy(stripeDispute),
+        },
+      });
+
+      await tx.order.updateMany({
+        where: { id: { in: disputed.orderIds } },
+        data: { disputeId: created.id },
+      });
+
+      await tx.user.update({
+        where: { id: disputed.userId },
+        data: { flaggedAt: new Date(), flagReason: `Payment disputed (${stripeDispute.reason})` },
+      });
+
+      const orders = await tx.order.findMany({
+        where: { id: { in: disputed.orderIds } },
+        select: { id: true, status: true },
+      });
+      for (const order of orders) {
+        await orderStateMachine.recordChange(
+          order,
+          { type: OrderActorType.PAYMENT_PROVIDER, id: stripeDispute.id },
+          `Payment disputed: ${stripeDispute.reason}`,
+          { disputeId: created.id, amountCents: stripeDispute.amount },
+          tx
+        );
+      }
+
+      return created;
+    });
+
+    logger.warn('Payment disputed', {
+      disputeId: dispute.id,
+      stripeDisputeId: stripeDispute.id,
+      userId: dispute.userId,
+      orderIds: disputed.orderIds,
+      amountCents: dispute.amountCents,
+    });
+
+    if (config.disputes.suspendStorage) {
+      await this.suspendOrders(dispute.id);
+    }
+
+    return dispute;
+  }
+
+  /**
+   * Settle a dispute once. Won disputes restore the storage and clear the
+   * customer's flag; lost ones terminate the orders and release their storage.
+   */
+  private async closeDispute(dispute: Dispute): Promise<void> {
+    const { count } = await prisma.dispute.updateMany({
+      where: { id: dispute.id, closedAt: null },
+      data: { closedAt: new Date() },
+    });
+
+    if (count === 0) {
+      return;
+    }
+
+    if (dispute.status === DisputeStatus.LOST) {
+      await this.terminateOrders(dispute);
+      return;
+    }
+
+    await this.resumeOrders(dispute.id);
+
+    // The flag stays while any other dispute of the customer is open or was lost
+    const otherDisputes = await prisma.dispute.count({
+      where: {
+        userId: dispute.userId,
+        id: { not: dispute.id },
+        OR: [{ closedAt: null }, { status: DisputeStatus.LOST }],
+      },
+    });
+
+    if (otherDisputes === 0) {
+      await prisma.user.update({
+        where: { id: dispute.userId },
+        data: { flaggedAt: null, flagReason: null },
+      });
+    }
+
+    logger.info('Dispute closed in our favour', { disputeId: dispute.id, status: dispute.status });
+  }
+
+  /**
+   * The funds of a lost dispute went back to the customer, so the orders
+   * end like a refund
+   */
+  private async terminateOrders(dispute: Dispute): Promise<void> {
+    const orders = await prisma.order.findMany({ where: { disputeId: dispute.id } });
+
+    // Import dynamically to avoid circular dependencies
+    const { orderExpiryService } = await import('../orders/order-expiry.service');
+
+    for (const order of orders) {
+      if (!orderStateMachine.canTransition(order.status, OrderStatus.REFUNDED)) {
+        continue;
+      }
+
+      try {
+        await orderStateMachine.transition(order.id, OrderStatus.REFUNDED, {
+          actor: { type: OrderActorType.PAYMENT_PROVIDER, id: dispute.stripeDisputeId },
+          reason: 'Payment dispute lost',
+          data: { statusMessage: 'Payment dispute lost' },
+          metadata: { disputeId: dispute.id },
+        });
+
+        await orderExpiryService.releaseOrderStorage(order.id);
+      } catch (error) {
+        logger.error('Failed to terminate disputed order', error, { orderId: order.id, disputeId: dispute.id });
+      }
+    }
+
+    logger.warn('Dispute lost', { disputeId: dispute.id, orderIds: orders.map(order => order.id) });
+  }
+
+  private async suspendOrders(disputeId: string): Promise<void> {
+    const orders = await prisma.order.findMany({
+      where: { disputeId, status: OrderStatus.COMPLETED, storageId: { not: null }, suspendedAt: null },
+      include: { provider: true },
+    });
+
+    for (const order of orders) {
+      const adapter = getProviderRegistry().getAdapterOrUndefined(order.provider.slug);
+      if (!adapter?.suspendStorage) {
+        continue;
+      }
+
+      const result = await adapter.suspendStorage({
+        orderId: order.id,
+        storageId: order.storageId!,
+        storageMetadata: order.storageMetadata as Record<string, unknown> | null,
+      });
+
+      if (!result.success) {
+        logger.warn('Provider failed to suspend storage', { orderId: order.id, error: result.error });
+        continue;
+      }
+
+      await prisma.order.update({
+        where: { id: order.id },
+        data: { suspendedAt: new Date() },
+      });
+    }
+  }
+
+  private async resumeOrders(disputeId: string): Promise<void> {
+    const orders = await prisma.order.findMany({
+      where: { disputeId, storageId: { not: null }, suspendedAt: { not: null } },
+      include: { provider: true },
+    });
+
+    for (const order of orders) {
+      const adapter = getProviderRegistry().getAdapterOrUndefined(order.provider.slug);
+      if (!adapter?.resumeStorage) {
+        continue;
+      }
+
+      const result = await adapter.resumeStorage({
+        orderId: order.id,
+        storageId: order.storageId!,
+        storageMetadata: order.storageMetadata as Record<string, unknown> | null,
+      });
+
+      if (!result.success) {
+        // Left suspended for staff to restore
+        logger.warn('Provider failed to restore suspended storage', { orderId: order.id, error: result.error });
+        continue;
+      }
+
+      await prisma.order.update({
+        where: { id: order.id },
+        data: { suspendedAt: null },
+      });
+    }
+  }
+
+  /**
+   * Find what a disputed charge paid for: a payment, matched by payment intent
+   * or subscription invoice, or a cart purchase
+   */
+  private async findDisputedPayment(
+    stripeDispute: Stripe.Dispute,
+    chargeId: string
+  ): Promise<{ paymentId: string | null; purchaseId: string | null; userId: string; orderIds: string[] } | null> {
+    const paymentIntentId = typeof stripeDispute.payment_intent === 'string'
+      ? stripeDispute.payment_intent
+      : stripeDispute.payment_intent?.id;
+
+    if (paymentIntentId) {
+      const purchase = await prisma.purchase.findUnique({
+        where: { stripePaymentIntentId: paymentIntentId },
+        include: { orders: { select: { id: true } } },
+      });
+
+      if (purchase) {
+        return {
+          paymentId: null,
+          purchaseId: purchase.id,
+          userId: purchase.userId,
+          orderIds: purchase.orders.map(order => order.id),
+        };
+      }
+    }
+
+    // Subscription payments are only known by their invoice
+    let invoiceId: string | undefined;
+    if (!paymentIntentId || !(await prisma.payment.findFirst({ where: { stripePaymentIntentId: paymentIntentId } }))) {
+      const charge = await this.gateway.retrieveCharge(chargeId);
+      invoiceId = typeof charge.invoice === 'string' ? charge.invoice : charge.invoice?.id;
+    }
+
+    const payment = await prisma.payment.findFirst({
+      where: {
+        OR: [
+          ...(paymentIntentId ? [{ stripePaymentIntentId: paymentIntentId }] : []),
+          ...(invoiceId ? [{ stripeInvoiceId: invoiceId }] : []),
+        ],
+      },
+    });
+
+    if (!payment) {
+      return null;
+    }
+
+    return { paymentId: payment.id, purchaseId: null, userId: payment.userId, orderIds: [payment.orderId] };
+  }
+
+  private evidenceDueBy(stripeDispute: Stripe.Dispute): Date | null {
+    const dueBy = stripeDispute.evidence_details?.due_by;
+    return dueBy ? new Date(dueBy * 1000) : null;
+  }
+}
+
+export const disputeService = new DisputeService();
+export default disputeService;
@@ -0,0 +1,2 @@
+export * from './dispute.service';
+export * from './dispute.controller';
@@ -0,0 +1,2 @@
+export * from './invoice.service';
+export * from './invoice.renderer';
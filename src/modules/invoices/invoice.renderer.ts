@@ -0,0 +1,164 @@
+import PDFDocument from 'pdfkit';
+import { formatPrice } from '../../common/utils';
+
+// ============================================
+// Invoice PDF Renderer
+// ============================================
+
+export interface IInvoiceParty {
+  name: string;
+  addressLines: string[];
+  email?: string | null;
+  taxId?: string | null;
+}
+
+export interface IInvoiceLineItem {
+  description: string;
+  details?: string;
+  quantity: number;
+  unitAmountCents: number;
+  amountCents: number;
+}
+
+export interface IInvoiceDocument {
+  invoiceNumber: string;
+  issuedAt: Date;
+  orderNumber: string;
+  currency: string;
+  seller: IInvoiceParty;
+  billTo: IInvoiceParty;
+  lineItems: IInvoiceLineItem[];
+  subtotalCents: number;
+  taxCents: number;
+  taxRatePercent: number;
+  // The customer accounts for the VAT; none was charged
+  reverseCharge: boolean;
+  totalCents: number;
+  paymentReference: string | null;
+  txHash: string | null;
+  explorerUrl: string | null;
+}
+
+const MARGIN = 50;
+const COLUMNS = { description: MARGIN, quantity: 330, unit: 390, amount: 470 };
+const AMOUNT_WIDTH = 75;
+
+/**
+ * Render an invoice as a PDF. Invoices are only issued for payments that
+ * succeeded, so they double as receipts.
+ */
+export function renderInvoicePdf(invoice: IInvoiceDocument): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: MARGIN });
+    const chunks: Buffer[] = [];
+    const currency = invoice.currency.toUpperCase();
+    const price = (cents: number) => formatPrice(cents, currency);
+
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    doc.info.Title = `Invoice ${invoice.invoiceNumber}`;
+
+    // Header
+    doc.fontSize(20).font('Helvetica-Bold').text(invoice.seller.name, MARGIN, MARGIN);
+    doc.fontSize(9).font('Helvetica');
+    writeParty(doc, invoice.seller);
+
+    doc.fontSize(16).font('Helvetica-Bold').text('INVOICE / RECEIPT', MARGIN, MARGIN, { align: 'right' });
+    doc.fontSize(9).font('Helvetica')
+      .text(`Invoice number: ${invoice.invoiceNumber}`, { align: 'right' })
+      .text(`Date: ${invoice.issuedAt.toISOString().slice(0, 10)}`, { align: 'right' })
+      .text(`Order: ${invoice.orderNumber}`, { align: 'right' })
+      .font('Helvetica-Bold').text('PAID', { align: 'right' });
+
+    // Customer
+    doc.moveDown(3);
+    doc.x = MARGIN;
+    doc.fontSize(10).font('Helvetica-Bold').text('Bill to');
+    doc.fontSize(9).font('Helvetica').text(invoice.billTo.name);
+    writeParty(doc, invoice.billTo);
+
+    // Line items
+    doc.moveDown(2);
+    let y = doc.y;
+    doc.fontSize(9).font('Helvetica-Bold');
+    doc.text('Description', COLUMNS.description, y);
+    doc.text('Qty', COLUMNS.quantity, y, { width: 50, align: 'right' });
+    doc.text('Unit price', COLUMNS.unit, y, { width: AMOUNT_WIDTH, align: 'right' });
+    doc.text('Amount', COLUMNS.amount, y, { width: AMOUNT_WIDTH, align: 'right' });
+    y = doc.y + 4;
+    doc.moveTo(MARGIN, y).lineTo(doc.page.width - MARGIN, y).stroke();
+
+    doc.font('Helvetica');
+    for (const item of invoice.lineItems) {
+      y += 8;
+      doc.text(item.description, COLUMNS.description, y, { width: 270 });
+      if (item.details) {
+        doc.fillColor('#666666').text(item.details, { width: 270 }).fillColor('#000000');
+      }
+      const rowEnd = doc.y;
+      doc.text(String(item.quantity), COLUMNS.quantity, y, { width: 50, align: 'right' });
+      doc.text(price(item.unitAmountCents), COLUMNS.unit, y, { width: AMOUNT_WIDTH, align: 'right' });
+      doc.text(price(item.amountCents), COLUMNS.amount, y, { width: AMOUNT_WIDTH, align: 'right' });
+      y = Math.max(rowEnd, doc.y);
+    }
+
+    y += 8;
+    doc.moveTo(MARGIN, y).lineTo(doc.page.width - MARGIN, y).stroke();
+
+    // Totals
+    y += 8;
+    const totals: [string, string][] = [
+      ['Subtotal', price(invoice.subtotalCents)],
+      [`Tax (${invoice.taxRatePercent}%)`, price(invoice.taxCents)],
+      ['Total paid', price(invoice.totalCents)],
+    ];
+    for (const [label, value] of totals) {
+      doc.font(label === 'Total paid' ? 'Helvetica-Bold' : 'Helvetica');
+      doc.text(label, COLUMNS.unit - 60, y, { width: 135, align: 'right' });
+      doc.text(value, COLUMNS.amount, y, { width: AMOUNT_WIDTH, align: 'right' });
+      y = doc.y + 4;
+    }
+
+    // Payment and allocation references
+    doc.x = MARGIN;
+    doc.y = y + 20;
+    if (invoice.reverseCharge) {
+      doc.font('Helvetica-Bold').text('Reverse charge');
+      doc.font('Helvetica').text(
+        'VAT to be accounted for by the customer (Article 196, Council Directive 2006/112/EC)'
+      );
+      doc.moveDown();
+    }
+    doc.font('Helvetica-Bold').text('Payment');
+    doc.font('Helvetica').text(`Reference: ${invoice.paymentReference ?? 'n/a'}`);
+
+    doc.moveDown();
+    doc.font('Helvetica-Bold').text('Storage allocation');
+    if (invoice.txHash) {
+      doc.font('Helvetica').text(`Transaction: ${invoice.txHash}`);
+      if (invoice.explorerUrl) {
+        doc.fillColor('#6d28d9')
+          .text(invoice.explorerUrl, { link: invoice.explorerUrl, underline: true })
+          .fillColor('#000000');
+      }
+    } else {
+      doc.font('Helvetica').text('Pending confirmation');
+    }
+
+    doc.end();
+  });
+}
+
+function writeParty(doc: PDFKit.PDFDocument, party: IInvoiceParty): void {
+  for (const line of party.addressLines) {
+    doc.text(line);
+  }
+  if (party.email) {
+    doc.text(party.email);
+  }
+  if (party.taxId) {
+    doc.text(`Tax ID: ${party.taxId}`);
+  }
+}
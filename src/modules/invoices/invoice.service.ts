@@ -0,0 +1,345 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { Invoice, PaymentMethod, PaymentPurpose, PaymentStatus, Prisma, TransactionStatus } from '@prisma/client';
+import { prisma, withTransaction } from '../../common/database';
+import { config } from '../../config';
+import { logger, NotFoundError } from '../../common/utils';
+import { getProviderRegistry } from '../providers/provider.registry';
+import { orderService } from '../orders/order.service';
+import { BASE_CURRENCY, fxRateService } from '../currencies/fx-rate.service';
+import { ITaxTreatment, taxService } from '../tax/tax.service';
+import { IInvoiceLineItem, IInvoiceParty, renderInvoicePdf } from './invoice.renderer';
+
+// ============================================
+// Invoice Service
+// ============================================
+
+// Payments that were paid, including those refunded afterwards
+const INVOICED_PAYMENT_STATUSES: PaymentStatus[] = [
+  PaymentStatus.SUCCEEDED,
+  PaymentStatus.PARTIALLY_REFUNDED,
+  PaymentStatus.REFUNDED,
+];
+
+export class InvoiceService {
+  /**
+   * Issue the invoice for a succeeded payment. Safe to call more than once;
+   * a payment only ever gets one invoice number.
+   */
+  async issueInvoice(paymentId: string): Promise<Invoice> {
+    const existing = await prisma.invoice.findUnique({ where: { paymentId } });
+    if (existing) {
+      return existing;
+    }
+
+    const payment = await prisma.payment.findUnique({
+      where: { id: paymentId },
+      include: {
+        user: true,
+        organization: true,
+        order: {
+          include: {
+            provider: true,
+            plan: true,
+            redemptions: { where: { releasedAt: null }, include: { coupon: true, voucher: true } },
+          },
+        },
+        renewal: { include: { plan: true } },
+        planChange: { include: { toPlan: true } },
+        purchase: true,
+        cryptoPayment: true,
+      },
+    });
+
+    if (!payment) {
+      throw new NotFoundError('Payment', paymentId);
+    }
+
+    const totalCents = payment.amountCents;
+    // Prices include tax, worked out for the payment at checkout
+    const { taxCents, taxRatePercent, reverseCharge } = payment;
+    const tax = await taxService.getOrderTreatment(payment.order);
+
+    const { company } = config.invoices;
+    const seller: IInvoiceParty = {
+      name: company.name,
+      addressLines: company.address.split('|').map(line => line.trim()).filter(Boolean),
+      email: company.email || null,
+      taxId: company.taxId || null,
+    };
+
+    const customer = payment.organization ?? payment.user;
+    const billTo: IInvoiceParty = {
+      name: customer.name || payment.user.email || payment.user.walletAddress || payment.user.id,
+      addressLines: payment.organization ? [`Attn: ${payment.user.name || payment.user.email || payment.user.id}`] : [],
+      email: payment.user.email,
+      taxId: payment.order.vatId,
+    };
+
+    let invoice: Invoice;
+    try {
+      invoice = await withTransaction(async (tx) => {
+        const invoiceNumber = await this.nextInvoiceNumber(tx);
+
+        return tx.invoice.create({
+          data: {
+            invoiceNumber,
+            orderId: payment.orderId,
+            paymentId: payment.id,
+            userId: payment.userId,
+            organizationId: payment.organizationId,
+            currency: payment.currency,
+            subtotalCents: totalCents - taxCents,
+            taxCents,
+            totalCents,
+            taxRatePercent,
+            reverseCharge,
+            lineItems: this.buildLineItems(payment, tax) as unknown as Prisma.InputJsonValue,
+            seller: seller as unknown as Prisma.InputJsonValue,
+            billTo: billTo as unknown as Prisma.InputJsonValue,
+            paymentReference: payment.stripePaymentIntentId
+              ?? payment.purchase?.stripePaymentIntentId
+              ?? payment.stripeInvoiceId
+              ?? payment.stripeSessionId
+              ?? payment.cryptoPayment?.depositAddress
+              ?? (payment.method === PaymentMethod.CREDIT ? 'Account credit' : null),
+          },
+        });
+      });
+    } catch (error) {
+      // Issued meanwhile for the same payment, e.g. by the webhook while the customer asked for it
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return prisma.invoice.findUniqueOrThrow({ where: { paymentId } });
+      }
+      throw error;
+    }
+
+    logger.info('Invoice issued', { invoiceId: invoice.id, invoiceNumber: invoice.invoiceNumber, paymentId });
+
+    return this.storePdf(invoice);
+  }
+
+  /**
+   * Get the invoices of an order, oldest first. Paid payments whose invoice
+   * could not be issued when they completed are invoiced now.
+   */
+  async getInvoicesForOrder(orderId: string) {
+    const uninvoiced = await prisma.payment.findMany({
+      where: { orderId, status: { in: INVOICED_PAYMENT_STATUSES }, invoice: null },
+      select: { id: true },
+    });
+
+    for (const payment of uninvoiced) {
+      await this.issueInvoice(payment.id);
+    }
+
+    return prisma.invoice.findMany({
+      where: { orderId },
+      orderBy: { issuedAt: 'asc' },
+    });
+  }
+
+  /**
+   * Get the invoice for the original purchase of an order, issuing it now
+   * if that failed when the payment completed
+   */
+  async getOrderInvoice(orderId: string): Promise<Invoice> {
+    const payment = await prisma.payment.findFirst({
+      where: { orderId, purpose: PaymentPurpose.ORDER, status: { in: INVOICED_PAYMENT_STATUSES } },
+      include: { invoice: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    if (!payment) {
+      throw new NotFoundError('Invoice for order', orderId);
+    }
+
+    return payment.invoice ?? this.issueInvoice(payment.id);
+  }
+
+  /**
+   * Get an invoice of an order by id
+   */
+  async getInvoice(orderId: string, invoiceId: string): Promise<Invoice> {
+    const invoice = await prisma.invoice.findFirst({ where: { id: invoiceId, orderId } });
+
+    if (!invoice) {
+      throw new NotFoundError('Invoice', invoiceId);
+    }
+
+    return invoice;
+  }
+
+  /**
+   * Get the PDF of an invoice. Invoices issued before the storage allocation
+   * was confirmed are re-rendered with the transaction once it is.
+   */
+  async getInvoicePdf(invoice: Invoice): Promise<Buffer> {
+    let current = invoice;
+
+    if (!current.txHash) {
+      const transaction = await prisma.blockchainTransaction.findFirst({
+        where: { orderId: invoice.orderId, status: TransactionStatus.CONFIRMED, txHash: { not: null } },
+        include: { provider: true },
+        orderBy: { confirmedAt: 'desc' },
+      });
+
+      if (transaction?.txHash) {
+        const adapter = getProviderRegistry().getAdapterOrUndefined(transaction.provider.slug);
+        current = await prisma.invoice.update({
+          where: { id: invoice.id },
+          data: {
+            txHash: transaction.txHash,
+            explorerUrl: adapter?.getTransactionExplorerUrl(transaction.txHash) ?? null,
+          },
+        });
+        current = await this.storePdf(current);
+      }
+    }
+
+    if (current.filePath) {
+      try {
+        return await fs.readFile(path.resolve(config.invoices.storageDir, current.filePath));
+      } catch {
+        logger.warn('Stored invoice missing, rendering it again', { invoiceId: current.id });
+      }
+    }
+
+    current = await this.storePdf(current);
+    return fs.readFile(path.resolve(config.invoices.storageDir, current.filePath!));
+  }
+
+  /**
+   * Hand out the next invoice number of the current year. The sequence row is
+   * locked until the transaction commits, so numbers are never reused.
+   */
+  private async nextInvoiceNumber(tx: Prisma.TransactionClient): Promise<string> {
+    const year = new Date().getUTCFullYear();
+    const sequence = await tx.invoiceSequence.upsert({
+      where: { year },
+      create: { year, lastNumber: 1 },
+      update: { lastNumber: { increment: 1 } },
+    });
+
+    return `INV-${year}-${String(sequence.lastNumber).padStart(6, '0')}`;
+  }
+
+  private buildLineItems(payment: Prisma.PaymentGetPayload<{
+    include: {
+      order: {
+        include: {
+          provider: true;
+          plan: true;
+          redemptions: { include: { coupon: true; voucher: true } };
+        };
+      };
+      renewal: { include: { plan: true } };
+      planChange: { include: { toPlan: true } };
+    };
+  }>, tax: ITaxTreatment): IInvoiceLineItem[] {
+    const { order } = payment;
+    const item = (description: string, details: string): IInvoiceLineItem => ({
+      description,
+      details,
+      quantity: 1,
+      unitAmountCents: payment.amountCents,
+      amountCents: payment.amountCents,
+    });
+
+    if (payment.purpose === PaymentPurpose.RENEWAL && payment.renewal) {
+      return [item(
+        `Renewal: ${order.provider.name} - ${payment.renewal.plan?.name ?? orderService.getPlanName(order)}`,
+        `Order ${order.orderNumber} extended by ${payment.renewal.durationDays} days`
+      )];
+    }
+
+    if (payment.purpose === PaymentPurpose.PLAN_CHANGE && payment.planChange) {
+      return [item(
+        `Upgrade: ${order.provider.name} - ${payment.planChange.toPlan.name}`,
+        `Order ${order.orderNumber}, prorated for the remaining ${payment.planChange.remainingDays} days`
+      )];
+    }
+
+    const storage = item(
+      `${order.provider.name} - ${orderService.getPlanName(order)}`,
+      `Order ${order.orderNumber}: ${order.storageSizeGb}GB storage for ${order.durationDays} days`
+    );
+
+    if (order.discountCents <= 0) {
+      return [storage];
+    }
+
+    // Show the full price with coupons and vouchers taken off below it, in the payment's currency
+    // and without the tax reverse-charged customers do not pay
+    const convert = (usdCents: number) => fxRateService.fromUsdCents(
+      taxService.chargeAmount(usdCents, tax),
+      payment.currency,
+      payment.fxRate
+    );
+    const discounts = order.redemptions.map((redemption): IInvoiceLineItem => ({
+      description: redemption.coupon ? 'Coupon' : 'Gift voucher',
+      details: redemption.coupon?.code ?? redemption.voucher?.code,
+      quantity: 1,
+      unitAmountCents: -convert(redemption.amountCents),
+      amountCents: -convert(redemption.amountCents),
+    }));
+
+    const priceCents = convert(order.priceUsdCents);
+
+    // Converted and untaxed amounts are rounded separately; the last discount absorbs the difference
+    const last = discounts[discounts.length - 1];
+    if (last && (payment.currency !== BASE_CURRENCY || tax.reverseCharge)) {
+      const otherCents = discounts.slice(0, -1).reduce((sum, discount) => sum + discount.amountCents, 0);
+      last.amountCents = payment.amountCents - priceCents - otherCents;
+      last.unitAmountCents = last.amountCents;
+    }
+
+    return [
+      { ...storage, unitAmountCents: priceCents, amountCents: priceCents },
+      ...discounts,
+    ];
+  }
+
+  private async storePdf(invoice: Invoice): Promise<Invoice> {
+    const order = await prisma.order.findUniqueOrThrow({
+      where: { id: invoice.orderId },
+      select: { orderNumber: true },
+    });
+
+    const pdf = await renderInvoicePdf({
+      invoiceNumber: invoice.invoiceNumber,
+      issuedAt: invoice.issuedAt,
+      orderNumber: order.orderNumber,
+      currency: invoice.currency,
+      seller: invoice.seller as unknown as IInvoiceParty,
+      billTo: invoice.billTo as unknown as IInvoiceParty,
+      lineItems: invoice.lineItems as unknown as IInvoiceLineItem[],
+      subtotalCents: invoice.subtotalCents,
+      taxCents: invoice.taxCents,
+      taxRatePercent: invoice.taxRatePercent,
+      reverseCharge: invoice.reverseCharge,
+      totalCents: invoice.totalCents,
+      paymentReference: invoice.paymentReference,
+      txHash: invoice.txHash,
+      explorerUrl: invoice.explorerUrl,
+    });
+
+    const filePath = path.join(String(invoice.issuedAt.getUTCFullYear()), `${invoice.invoiceNumber}.pdf`);
+    const absolutePath = path.resolve(config.invoices.storageDir, filePath);
+
+    await fs.mkdir(path.dirname(absolutePath), { recursive: true });
+    await fs.writeFile(absolutePath, pdf);
+
+    if (invoice.filePath === filePath) {
+      return invoice;
+    }
+
+    return prisma.invoice.update({
+      where: { id: invoice.id },
+      data: { filePath },
+    });
+  }
+}
+
+export const invoiceService = new InvoiceService();
+export default invoiceService;
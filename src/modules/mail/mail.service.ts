@@ -0,0 +1,81 @@
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+import { config } from '../../config';
+import { logger } from '../../common/utils/logger';
+import { ExternalServiceError } from '../../common/utils/errors';
+
+// ============================================
+// Mail Service
+// ============================================
+
+export interface SendMailDto {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Mail Service
+ *
+ * In development the default `file` transport acts as a local mail sink:
+ * messages are rendered to .eml files under MAIL_SINK_DIR instead of
+ * being delivered. Set MAIL_TRANSPORT=smtp to send real mail.
+ */
+export class MailService {
+  private transporter: Transporter;
+
+  constructor() {
+    if (config.mail.transport === 'smtp') {
+      this.transporter = nodemailer.createTransport({
+        host: config.mail.smtp.host,
+        port: config.mail.smtp.port,
+        secure: config.mail.smtp.secure,
+        auth: config.mail.smtp.user
+          ? { user: config.mail.smtp.user, pass: config.mail.smtp.password }
+          : undefined,
+      });
+    } else {
+      this.transporter = nodemailer.createTransport({
+        streamTransport: true,
+        buffer: true,
+        newline: 'unix',
+      });
+    }
+  }
+
+  /**
+   * Send an email
+   */
+  async sendMail(data: SendMailDto): Promise<void> {
+    try {
+      const info = await this.transporter.sendMail({
+        from: config.mail.from,
+        to: data.to,
+        subject: data.subject,
+        text: data.text,
+        html: data.html,
+      });
+
+      if (config.mail.transport === 'file') {
+        const fileName = `${Date.now()}-${data.to.replace(/[^a-zA-Z0-9@._-]/g, '_')}.eml`;
+        const filePath = path.resolve(config.mail.sinkDir, fileName);
+
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, info.message as Buffer);
+
+        logger.info('Mail written to local sink', { to: data.to, subject: data.subject, filePath });
+        return;
+      }
+
+      logger.info('Mail sent', { to: data.to, subject: data.subject, messageId: info.messageId });
+    } catch (error) {
+      logger.error('Failed to send mail', error, { to: data.to, subject: data.subject });
+      throw new ExternalServiceError('mail', 'Failed to send email');
+    }
+  }
+}
+
+export const mailService = new MailService();
+export default mailService;
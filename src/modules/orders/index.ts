@@ -1,2 +1,7 @@
 export * from './order.service';
-export * from './order.controller';
\ No newline at end of file
+export * from './order.controller';
+export * from './order-state-machine';
+export * from './order-expiry.service';
+export * from './order-renewal.service';
+export * from './order-compensation.service';
+export * from './order-plan-change.service';
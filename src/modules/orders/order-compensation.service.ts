@@ -0,0 +1,270 @@
+import { Order, OrderStatus, Provider, SubscriptionStatus, TransactionStatus } from '@prisma/client';
+import { prisma } from '../../common/database';
+import { config } from '../../config';
+import { logger, formatPrice, gbToBytes } from '../../common/utils';
+import { getProviderRegistry } from '../providers/provider.registry';
+import { providerService } from '../providers/provider.service';
+import { blockchainService } from '../blockchain/blockchain.service';
+import { refundService } from '../payments/refund.service';
+import { mailService } from '../mail/mail.service';
+import { orderService } from './order.service';
+
+// ============================================
+// Order Compensation Service
+// ============================================
+
+export type CompensationAction = 'RETRIED' | 'SWITCHED_PROVIDER' | 'REFUNDED' | 'NONE';
+
+// Where a failed order can be moved to: a plan, or a rate card for custom-size orders
+interface IFallbackTarget {
+  provider: Provider;
+  planId: string | null;
+  rateCardId: string | null;
+  storageSizeGb: number;
+  name: string;
+}
+
+export class OrderCompensationService {
+  /**
+   * Retry, move or refund every order whose storage allocation failed
+   */
+  async processFailedOrders(): Promise<number> {
+    const orders = await prisma.order.findMany({
+      where: { status: OrderStatus.BLOCKCHAIN_FAILED },
+      select: { id: true },
+    });
+
+    let compensated = 0;
+
+    for (const order of orders) {
+      try {
+        const action = await this.compensateOrder(order.id);
+        if (action === 'SWITCHED_PROVIDER' || action === 'REFUNDED') {
+          compensated++;
+        }
+      } catch (error) {
+        logger.error('Failed to compensate order', error, { orderId: order.id });
+      }
+    }
+
+    if (compensated > 0) {
+      logger.info(`Compensated ${compensated} failed orders`);
+    }
+
+    return compensated;
+  }
+
+  /**
+   * Take the next step for a paid order whose allocation failed:
+   * 1. retry with the same provider until the transaction's maxRetries is used up
+   * 2. if the customer opted in, move the order to an equivalent plan (or rate card) on a provider not tried yet
+   * 3. otherwise refund everything paid for it
+   */
+  async compensateOrder(orderId: string): Promise<CompensationAction> {
+    const order = await prisma.order.findUniqueOrThrow({
+      where: { id: orderId },
+      include: {
+        user: true,
+        provider: true,
+        subscription: true,
+        transactions: { orderBy: { createdAt: 'desc' } },
+      },
+    });
+
+    if (order.status !== OrderStatus.BLOCKCHAIN_FAILED) {
+      return 'NONE';
+    }
+
+    const lastTx = order.transactions.find(tx => tx.providerId === order.providerId);
+
+    if (!lastTx) {
+      await blockchainService.processOrder(order.id);
+      return 'RETRIED';
+    }
+
+    if (lastTx.status !== TransactionStatus.FAILED && lastTx.status !== TransactionStatus.RETRYING) {
+      return 'NONE';
+    }
+
+    if (lastTx.retryCount < lastTx.maxRetries) {
+      await blockchainService.retryTransaction(lastTx.id);
+      return 'RETRIED';
+    }
+
+    logger.warn('Storage allocation failed permanently', {
+      orderId: order.id,
+      provider: order.provider.slug,
+      attempts: lastTx.retryCount + 1,
+    });
+
+    if (order.allowProviderFallback) {
+      const triedProviderIds = [...new Set(order.transactions.map(tx => tx.providerId))];
+      const needsRenewal = order.subscription !== null
+        && order.subscription.status !== SubscriptionStatus.CANCELLED;
+      const fallback = await this.findFallbackPlan(order, triedProviderIds, needsRenewal)
+        ?? (order.rateCardId ? await this.findFallbackRateCard(order, triedProviderIds, needsRenewal) : null);
+
+      if (fallback) {
+        const message = `${order.provider.name} could not allocate storage, moved to ${fallback.provider.name}`;
+
+        // Only switch while no one else has moved the order on
+        const { count } = await prisma.order.updateMany({
+          where: { id: order.id, status: OrderStatus.BLOCKCHAIN_FAILED, providerId: order.providerId },
+          data: {
+            providerId: fallback.provider.id,
+            planId: fallback.planId,
+            rateCardId: fallback.rateCardId,
+            storageSizeGb: fallback.storageSizeGb,
+            statusMessage: message,
+          },
+        });
+
+        if (count === 0) {
+          return 'NONE';
+        }
+
+        logger.info('Order moved to fallback provider', {
+          orderId: order.id,
+          from: order.provider.slug,
+          to: fallback.provider.slug,
+          planId: fallback.planId,
+          rateCardId: fallback.rateCardId,
+        });
+
+        await this.notifyOwner(
+          order,
+          `Your order ${order.orderNumber} moved to ${fallback.provider.name}`,
+          `${order.provider.name} could not allocate your storage, so it is being allocated with ${fallback.provider.name} (${fallback.name}) instead at no extra cost.`
+        );
+
+        await blockchainService.processOrder(order.id);
+        return 'SWITCHED_PROVIDER';
+      }
+    }
+
+    const refunds = await refundService.compensateOrder(
+      order.id,
+      `Storage could not be allocated with ${order.provider.name}`
+    );
+    const refundedCents = refunds.reduce((sum, refund) => sum + refund.amountCents, 0);
+
+    await this.notifyOwner(
+      order,
+      `Your order ${order.orderNumber} was refunded`,
+      `${order.provider.name} could not allocate your storage. We refunded ${formatPrice(refundedCents, order.currency.toUpperCase())} to your original payment method.`
+    );
+
+    return 'REFUNDED';
+  }
+
+  /**
+   * Find the cheapest active plan from another provider with at least the
+   * same storage and term, priced no higher than what the customer paid
+   */
+  private async findFallbackPlan(
+    order: Order,
+    excludeProviderIds: string[],
+    needsRenewal: boolean
+  ): Promise<IFallbackTarget | null> {
+    const plans = await prisma.storagePlan.findMany({
+      where: {
+        providerId: { notIn: excludeProviderIds },
+        provider: { status: 'ACTIVE' },
+        status: 'AVAILABLE',
+        isActive: true,
+        storageSizeBytes: { gte: gbToBytes(order.storageSizeGb) },
+        durationDays: order.durationDays,
+        priceUsdCents: { lte: order.priceUsdCents },
+      },
+      include: { provider: true },
+      orderBy: [{ priceUsdCents: 'asc' }, { storageSizeBytes: 'asc' }],
+    });
+
+    const plan = plans.find(candidate => this.canAllocate(candidate.provider.slug, needsRenewal));
+
+    return plan
+      ? {
+          provider: plan.provider,
+          planId: plan.id,
+          rateCardId: null,
+          storageSizeGb: plan.storageSizeGb,
+          name: plan.name,
+        }
+      : null;
+  }
+
+  /**
+   * Find the cheapest rate card of another provider that prices a custom-size
+   * order's exact size and term no higher than what the customer paid
+   */
+  private async findFallbackRateCard(
+    order: Order,
+    excludeProviderIds: string[],
+    needsRenewal: boolean
+  ): Promise<IFallbackTarget | null> {
+    const rateCards = await prisma.providerRateCard.findMany({
+      where: {
+        providerId: { notIn: excludeProviderIds },
+        provider: { status: 'ACTIVE', isEnabled: true },
+        isActive: true,
+      },
+      include: { provider: true },
+      orderBy: { pricePerGbMonthCents: 'asc' },
+    });
+
+    for (const rateCard of rateCards) {
+      if (!this.canAllocate(rateCard.provider.slug, needsRenewal)) {
+        continue;
+      }
+
+      const price = await providerService.priceCustomStorage(
+        rateCard.provider.slug,
+        order.storageSizeGb,
+        order.durationDays
+      );
+
+      if (price.success && price.data.priceUsdCents <= order.priceUsdCents) {
+        return {
+          provider: rateCard.provider,
+          planId: null,
+          rateCardId: rateCard.id,
+          storageSizeGb: order.storageSizeGb,
+          name: orderService.getPlanName({ plan: null, storageSizeGb: order.storageSizeGb }),
+        };
+      }
+    }
+
+    return null;
+  }
+
+  private canAllocate(providerSlug: string, needsRenewal: boolean): boolean {
+    const adapter = getProviderRegistry().getAdapterOrUndefined(providerSlug);
+    // Auto-renewing orders need a provider that can extend storage
+    return !!adapter && (!needsRenewal || !!adapter.extendStorage);
+  }
+
+  private async notifyOwner(
+    order: Order & { user: { email: string | null } },
+    subject: string,
+    message: string
+  ): Promise<void> {
+    if (!order.user.email) {
+      return;
+    }
+
+    try {
+      await mailService.sendMail({
+        to: order.user.email,
+        subject,
+        text: [message, '', config.app.frontendUrl].join('\n'),
+        html: `<p>${message}</p>
+<p><a href="${config.app.frontendUrl}">Open DePIN Storage</a></p>`,
+      });
+    } catch (error) {
+      logger.error('Failed to send compensation mail', error, { orderId: order.id });
+    }
+  }
+}
+
+export const orderCompensationService = new OrderCompensationService();
+export default orderCompensationService;
@@ -0,0 +1,237 @@
+import { Order, OrderActorType, OrderStatus, Prisma, SubscriptionStatus } from '@prisma/client';
+import { prisma } from '../../common/database';
+import { config } from '../../config';
+import { logger, addDays, formatDate } from '../../common/utils';
+import { getProviderRegistry } from '../providers/provider.registry';
+import { mailService } from '../mail/mail.service';
+import { paymentService } from '../payments/payment.service';
+import { orderStateMachine } from './order-state-machine';
+import { orderService } from './order.service';
+
+// ============================================
+// Order Expiry Service
+// ============================================
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export class OrderExpiryService {
+  /**
+   * Send pending reminders, expire lapsed orders and release their storage
+   */
+  async processExpirations(): Promise<void> {
+    await this.sendExpiryReminders();
+    await this.expireLapsedOrders();
+    await this.releaseExpiredStorage();
+  }
+
+  /**
+   * Email owners of orders that expire within one of the configured
+   * reminder offsets. Each offset is sent at most once per order; when
+   * an order is already inside several offsets only the closest is sent.
+   */
+  async sendExpiryReminders(): Promise<number> {
+    const offsets = config.orders.expiryReminderDays;
+    if (offsets.length === 0) {
+      return 0;
+    }
+
+    const now = new Date();
+    const orders = await prisma.order.findMany({
+      where: {
+        status: OrderStatus.COMPLETED,
+        expiresAt: { gt: now, lte: addDays(now, Math.max(...offsets)) },
+        user: { email: { not: null } },
+        // Orders that renew automatically are not about to expire
+        OR: [
+          { subscription: { is: null } },
+          { subscription: { is: { status: SubscriptionStatus.CANCELLED } } },
+          { subscription: { is: { cancelAtPeriodEnd: true } } },
+        ],
+      },
+      include: { user: true, provider: true, plan: true, reminders: true },
+    });
+
+    let sent = 0;
+
+    for (const order of orders) {
+      const daysLeft = (order.expiresAt!.getTime() - now.getTime()) / MS_PER_DAY;
+      const daysBefore = Math.min(...offsets.filter(days => days >= daysLeft));
+
+      if (order.reminders.some(reminder => reminder.daysBefore === daysBefore)) {
+        continue;
+      }
+
+      try {
+        // Claim the reminder first so concurrent runs never send it twice
+        const reminder = await prisma.orderReminder.create({
+          data: { orderId: order.id, daysBefore },
+        });
+
+        try {
+          await this.sendReminderMail(order, order.user.email!, order.provider.name, orderService.getPlanName(order));
+          sent++;
+        } catch (error) {
+          // Release the claim so the next run retries
+          await prisma.orderReminder.delete({ where: { id: reminder.id } });
+          throw error;
+        }
+      } catch (error) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          continue;
+        }
+        logger.error('Failed to send expiry reminder', error, { orderId: order.id, daysBefore });
+      }
+    }
+
+    if (sent > 0) {
+      logger.info(`Sent ${sent} order expiry reminders`);
+    }
+
+    return sent;
+  }
+
+  /**
+   * Move completed orders whose storage period has ended to EXPIRED.
+   * Auto-renewing orders get a grace period while their renewal payment is
+   * retried.
+   */
+  async expireLapsedOrders(): Promise<number> {
+    const now = new Date();
+    const graceCutoff = addDays(now, -config.orders.subscriptionGraceDays);
+
+    const orders = await prisma.order.findMany({
+      where: {
+        status: OrderStatus.COMPLETED,
+        OR: [
+          { expiresAt: { lte: graceCutoff } },
+          { expiresAt: { lte: now }, subscription: { is: null } },
+          { expiresAt: { lte: now }, subscription: { is: { status: SubscriptionStatus.CANCELLED } } },
+        ],
+      },
+      select: { id: true, expiresAt: true },
+    });
+
+    let expired = 0;
+
+    for (const order of orders) {
+      try {
+        await orderStateMachine.transition(order.id, OrderStatus.EXPIRED, {
+          actor: { type: OrderActorType.SYSTEM },
+          reason: 'Storage period ended',
+          metadata: { expiresAt: formatDate(order.expiresAt!) },
+          data: { statusMessage: 'Storage period ended' },
+        });
+        expired++;
+      } catch (error) {
+        logger.error('Failed to expire order', error, { orderId: order.id });
+      }
+    }
+
+    if (expired > 0) {
+      logger.info(`Expired ${expired} orders`);
+    }
+
+    return expired;
+  }
+
+  /**
+   * Release the storage of expired and refunded orders.
+   * Failed releases are retried on the next run.
+   */
+  async releaseExpiredStorage(): Promise<number> {
+    const orders = await prisma.order.findMany({
+      where: {
+        status: { in: [OrderStatus.EXPIRED, OrderStatus.REFUNDED] },
+        releasedAt: null,
+      },
+      select: { id: true },
+    });
+
+    let released = 0;
+
+    for (const order of orders) {
+      if (await this.releaseOrderStorage(order.id)) {
+        released++;
+      }
+    }
+
+    return released;
+  }
+
+  /**
+   * Cancel any remaining subscription of an order and ask the provider to
+   * release its storage. Returns false when the release should be retried.
+   */
+  async releaseOrderStorage(orderId: string): Promise<boolean> {
+    try {
+      const order = await prisma.order.findUniqueOrThrow({
+        where: { id: orderId },
+        include: { provider: true },
+      });
+
+      if (order.releasedAt) {
+        return true;
+      }
+
+      await paymentService.cancelSubscriptionForOrder(order.id);
+
+      const adapter = getProviderRegistry().getAdapter(order.provider.slug);
+
+      // Orders that never got storage have nothing to release
+      if (adapter.releaseStorage && order.storageId) {
+        const result = await adapter.releaseStorage({
+          orderId: order.id,
+          storageId: order.storageId,
+          storageMetadata: order.storageMetadata as Record<string, unknown> | null,
+        });
+
+        if (!result.success) {
+          logger.warn('Provider failed to release storage', {
+            orderId: order.id,
+            provider: order.provider.slug,
+            error: result.error,
+          });
+          return false;
+        }
+      }
+
+      await prisma.order.update({
+        where: { id: order.id },
+        data: { releasedAt: new Date() },
+      });
+
+      return true;
+    } catch (error) {
+      logger.error('Failed to release storage', error, { orderId });
+      return false;
+    }
+  }
+
+  private async sendReminderMail(
+    order: Order,
+    email: string,
+    providerName: string,
+    planName: string
+  ): Promise<void> {
+    const expiresOn = order.expiresAt!.toUTCString();
+    const link = config.app.frontendUrl;
+
+    await mailService.sendMail({
+      to: email,
+      subject: `Your ${providerName} storage expires soon`,
+      text: [
+        `Your order ${order.orderNumber} (${providerName} - ${planName}) expires on ${expiresOn}.`,
+        '',
+        'After that date the storage is released and its data may no longer be available.',
+        '',
+        link,
+      ].join('\n'),
+      html: `<p>Your order <strong>${order.orderNumber}</strong> (${providerName} - ${planName}) expires on ${expiresOn}.</p>
+<p>After that date the storage is released and its data may no longer be available.</p>
+<p><a href="${link}">Open DePIN Storage</a></p>`,
+    });
+  }
+}
+
+export const orderExpiryService = new OrderExpiryService();
+export default orderExpiryService;
@@ -0,0 +1,356 @@
+import { OrderActorType, OrderStatus, PlanChangeStatus, Prisma, SubscriptionStatus } from '@prisma/client';
+import { prisma, withTransaction } from '../../common/database';
+import {
+  ICreatePlanChangeCheckoutParams,
+  ServiceResult,
+  successResult,
+  errorResult,
+} from '../../common/interfaces';
+import { logger, formatPrice, ConflictError } from '../../common/utils';
+import { getProviderRegistry } from '../providers/provider.registry';
+import { refundService } from '../payments/refund.service';
+import { orderStateMachine } from './order-state-machine';
+import { orderService } from './order.service';
+
+// ============================================
+// Order Plan Change Service
+// ============================================
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Stripe cannot charge less than this; smaller upgrade differences are waived
+export const MIN_PLAN_CHANGE_CHARGE_CENTS = 50;
+
+// A plan change in one of these statuses blocks starting another one
+const OPEN_PLAN_CHANGE_STATUSES: PlanChangeStatus[] = [
+  PlanChangeStatus.PENDING_PAYMENT,
+  PlanChangeStatus.PAID,
+];
+
+export interface IPlanChangeQuote {
+  orderId: string;
+  fromPlanId: string;
+  toPlanId: string;
+  remainingDays: number;
+  // Unused value of the current plan until the order expires
+  creditCents: number;
+  // Price of the new plan for the same remaining days
+  newCostCents: number;
+  // Positive when the customer pays, negative when the difference is refunded
+  differenceCents: number;
+  expiresAt: Date;
+}
+
+export interface IPlanChangeResult {
+  planChangeId: string;
+  differenceCents: number;
+  // Upgrades are applied once this checkout is paid
+  checkout?: {
+    sessionId: string;
+    sessionUrl: string;
+    paymentId: string;
+  };
+}
+
+export class OrderPlanChangeService {
+  /**
+   * Price moving an order to another plan of the same provider for the rest of its term.
+   * When userId is given, only orders that user can access can change plans.
+   */
+  async quotePlanChange(orderId: string, planId: string, userId?: string): Promise<ServiceResult<IPlanChangeQuote>> {
+    const order = await prisma.order.findFirst({
+      where: { id: orderId, ...orderService.accessibleBy(userId) },
+      include: { provider: true, plan: true, subscription: true },
+    });
+
+    if (!order) {
+      return errorResult('ORDER_NOT_FOUND', 'Order not found');
+    }
+
+    if (order.status !== OrderStatus.COMPLETED || !order.storageId || !order.expiresAt || order.expiresAt <= new Date()) {
+      return errorResult('ORDER_NOT_CHANGEABLE', `Orders with status ${order.status} cannot change plans`);
+    }
+
+    if (!order.planId) {
+      return errorResult('ORDER_NOT_CHANGEABLE', 'Custom-size orders cannot change plans');
+    }
+
+    // The subscription keeps billing the old price
+    if (order.subscription && order.subscription.status !== SubscriptionStatus.CANCELLED) {
+      return errorResult('AUTO_RENEW_ACTIVE', 'Cancel auto-renew before changing plans');
+    }
+
+    if (planId === order.planId) {
+      return errorResult('SAME_PLAN', 'The order is already on this plan');
+    }
+
+    const plan = await prisma.storagePlan.findUnique({ where: { id: planId } });
+
+    if (!plan) {
+      return errorResult('PLAN_NOT_FOUND', 'Storage plan not found');
+    }
+
+    if (plan.providerId !== order.providerId) {
+      return errorResult('PROVIDER_MISMATCH', `Only plans of ${order.provider.name} can be switched to`);
+    }
+
+    if (plan.status !== 'AVAILABLE' || !plan.isActive) {
+      return errorResult('PLAN_UNAVAILABLE', 'This storage plan is no longer available');
+    }
+
+    const adapter = getProviderRegistry().getAdapter(order.provider.slug);
+    if (!adapter.resizeStorage) {
+      return errorResult('PLAN_CHANGE_NOT_SUPPORTED', `${order.provider.name} storage cannot change plans`);
+    }
+
+    const openChange = await prisma.orderPlanChange.findFirst({
+      where: { orderId: order.id, status: { in: OPEN_PLAN_CHANGE_STATUSES } },
+    });
+    if (openChange) {
+      return errorResult('PLAN_CHANGE_IN_PROGRESS', 'Another plan change for this order is in progress');
+    }
+
+    const remainingDays = Math.ceil((order.expiresAt.getTime() - Date.now()) / MS_PER_DAY);
+    // Only what was actually paid is credited, not what coupons and vouchers took off
+    const creditCents = Math.floor((order.priceUsdCents - order.discountCents) * remainingDays / order.durationDays);
+    const newCostCents = Math.ceil(plan.priceUsdCents * remainingDays / plan.durationDays);
+
+    return successResult({
+      orderId: order.id,
+      fromPlanId: order.planId,
+      toPlanId: plan.id,
+      remainingDays,
+      creditCents,
+      newCostCents,
+      differenceCents: newCostCents - creditCents,
+      expiresAt: order.expiresAt,
+    });
+  }
+
+  /**
+   * Change the plan of an order. Upgrades return a checkout session and are
+   * applied once paid; downgrades are applied right away and the difference
+   * is refunded.
+   */
+  async changePlan(params: ICreatePlanChangeCheckoutParams): Promise<ServiceResult<IPlanChangeResult>> {
+    const quote = await this.quotePlanChange(params.orderId, params.planId, params.userId);
+    if (!quote.success) {
+      return errorResult(quote.error.code, quote.error.message);
+    }
+
+    if (quote.data.differenceCents >= MIN_PLAN_CHANGE_CHARGE_CENTS) {
+      // Import dynamically to avoid circular dependencies
+      const { paymentService } = await import('../payments/payment.service');
+      const checkout = await paymentService.createPlanChangeCheckout(params);
+
+      if (!checkout.success) {
+        return errorResult(checkout.error.code, checkout.error.message);
+      }
+
+      return successResult({
+        planChangeId: checkout.data.planChangeId,
+        differenceCents: checkout.data.differenceCents,
+        checkout: {
+          sessionId: checkout.data.sessionId,
+          sessionUrl: checkout.data.sessionUrl,
+          paymentId: checkout.data.paymentId,
+        },
+      });
+    }
+
+    const planChange = await this.createPlanChange(params.userId, quote.data, PlanChangeStatus.PAID);
+    const applied = await this.applyPlanChange(planChange.id);
+
+    if (!applied.success) {
+      return errorResult(applied.error.code, applied.error.message);
+    }
+
+    return successResult({
+      planChangeId: planChange.id,
+      differenceCents: planChange.differenceCents,
+    });
+  }
+
+  /**
+   * Record a plan change from a quote
+   */
+  async createPlanChange(
+    userId: string,
+    quote: IPlanChangeQuote,
+    status: PlanChangeStatus,
+    tx: Prisma.TransactionClient = prisma
+  ) {
+    return tx.orderPlanChange.create({
+      data: {
+        orderId: quote.orderId,
+        userId,
+        fromPlanId: quote.fromPlanId,
+        toPlanId: quote.toPlanId,
+        remainingDays: quote.remainingDays,
+        creditCents: quote.creditCents,
+        newCostCents: quote.newCostCents,
+        // Differences too small to charge are waived
+        differenceCents: quote.differenceCents < MIN_PLAN_CHANGE_CHARGE_CENTS
+          ? Math.min(quote.differenceCents, 0)
+          : quote.differenceCents,
+        status,
+        paidAt: status === PlanChangeStatus.PAID ? new Date() : undefined,
+      },
+    });
+  }
+
+  /**
+   * Resize the storage of a paid plan change and move the order to the new plan.
+   * Downgrades are credited once the storage has been resized.
+   */
+  async applyPlanChange(planChangeId: string): Promise<ServiceResult<{ orderId: string; planId: string }>> {
+    const planChange = await prisma.orderPlanChange.findUnique({
+      where: { id: planChangeId },
+      include: { order: { include: { provider: true } }, fromPlan: true, toPlan: true },
+    });
+
+    if (!planChange) {
+      return errorResult('PLAN_CHANGE_NOT_FOUND', 'Plan change not found');
+    }
+
+    if (planChange.status !== PlanChangeStatus.PAID) {
+      return errorResult('INVALID_PLAN_CHANGE_STATUS', `Plan change status is ${planChange.status}, expected PAID`);
+    }
+
+    const { order, toPlan } = planChange;
+
+    try {
+      // The order may have expired or changed while the customer was paying
+      if (order.status !== OrderStatus.COMPLETED || !order.storageId || !order.expiresAt) {
+        return this.failPlanChange(planChangeId, `Order status is ${order.status}, the plan can no longer be changed`);
+      }
+
+      if (order.planId !== planChange.fromPlanId) {
+        return this.failPlanChange(planChangeId, 'The order changed plans in the meantime');
+      }
+
+      const adapter = getProviderRegistry().getAdapter(order.provider.slug);
+      if (!adapter.resizeStorage) {
+        return this.failPlanChange(planChangeId, `${order.provider.name} storage cannot change plans`);
+      }
+
+      const result = await adapter.resizeStorage({
+        orderId: order.id,
+        storageId: order.storageId,
+        storageMetadata: order.storageMetadata as Record<string, unknown> | null,
+        storageSizeBytes: toPlan.storageSizeBytes,
+        expiresAt: order.expiresAt,
+      });
+
+      if (!result.success) {
+        return this.failPlanChange(planChangeId, result.error || 'Provider failed to resize storage');
+      }
+
+      await withTransaction(async (tx) => {
+        // Only switch while the order is still on the plan the change was priced from
+        const { count } = await tx.order.updateMany({
+          where: { id: order.id, status: OrderStatus.COMPLETED, planId: planChange.fromPlanId },
+          data: {
+            planId: toPlan.id,
+            storageSizeGb: toPlan.storageSizeGb,
+            durationDays: toPlan.durationDays,
+            priceUsdCents: toPlan.priceUsdCents,
+            // The credit for the old plan already accounted for its discount
+            discountCents: 0,
+            // Providers that cannot resize in place migrate to a new allocation
+            ...(result.storageId && { storageId: result.storageId }),
+            ...(result.storageEndpoint && { storageEndpoint: result.storageEndpoint }),
+            ...(result.storageMetadata && { storageMetadata: result.storageMetadata as Prisma.InputJsonValue }),
+          },
+        });
+
+        if (count === 0) {
+          throw new ConflictError(`Order ${order.id} was updated concurrently`);
+        }
+
+        await tx.orderPlanChange.update({
+          where: { id: planChangeId },
+          data: { status: PlanChangeStatus.COMPLETED, completedAt: new Date() },
+        });
+
+        await orderStateMachine.recordChange(
+          order,
+          { type: OrderActorType.USER, id: planChange.userId },
+          `Plan changed from ${planChange.fromPlan.name} to ${toPlan.name}`,
+          {
+            planChangeId,
+            fromPlanId: planChange.fromPlanId,
+            toPlanId: toPlan.id,
+            differenceCents: planChange.differenceCents,
+          },
+          tx
+        );
+      });
+
+      logger.info('Order plan changed', {
+        orderId: order.id,
+        planChangeId,
+        fromPlanId: planChange.fromPlanId,
+        toPlanId: toPlan.id,
+      });
+    } catch (error) {
+      logger.error('Failed to apply plan change', error, { planChangeId, orderId: order.id });
+      return this.failPlanChange(planChangeId, error instanceof Error ? error.message : 'Failed to apply plan change');
+    }
+
+    if (planChange.differenceCents < 0) {
+      const creditCents = -planChange.differenceCents;
+
+      try {
+        await refundService.creditOrder(
+          order.id,
+          creditCents,
+          `Downgraded to ${toPlan.name}`
+        );
+      } catch (error) {
+        // The storage already shrank; the credit can be refunded by staff
+        logger.error('Failed to credit plan change', error, { planChangeId, creditCents });
+        await prisma.orderPlanChange.update({
+          where: { id: planChangeId },
+          data: { statusMessage: `Credit of ${formatPrice(creditCents)} could not be refunded` },
+        });
+      }
+    }
+
+    return successResult({ orderId: order.id, planId: toPlan.id });
+  }
+
+  /**
+   * Get the plan changes of an order, newest first
+   */
+  async getPlanChangesForOrder(orderId: string) {
+    return prisma.orderPlanChange.findMany({
+      where: { orderId },
+      include: { fromPlan: true, toPlan: true },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Mark a plan change as failed and give back anything paid for it
+   */
+  private async failPlanChange(planChangeId: string, message: string): Promise<ServiceResult<never>> {
+    await prisma.orderPlanChange.update({
+      where: { id: planChangeId },
+      data: { status: PlanChangeStatus.FAILED, statusMessage: message },
+    });
+
+    logger.warn('Order plan change failed', { planChangeId, message });
+
+    try {
+      await refundService.refundPlanChange(planChangeId, `Plan change failed: ${message}`);
+    } catch (error) {
+      logger.error('Failed to refund plan change', error, { planChangeId });
+    }
+
+    return errorResult('PLAN_CHANGE_FAILED', message);
+  }
+}
+
+export const orderPlanChangeService = new OrderPlanChangeService();
+export default orderPlanChangeService;
@@ -0,0 +1,214 @@
+import { OrderStatus, RenewalStatus } from '@prisma/client';
+import { prisma, withTransaction } from '../../common/database';
+import { ServiceResult, successResult, errorResult } from '../../common/interfaces';
+import { logger, addDays, retry, ConflictError } from '../../common/utils';
+import { getProviderRegistry } from '../providers/provider.registry';
+import { providerService } from '../providers/provider.service';
+import { refundService } from '../payments/refund.service';
+import { orderService } from './order.service';
+
+// ============================================
+// Order Renewal Service
+// ============================================
+
+export interface IRenewalQuote {
+  orderId: string;
+  // Custom-size orders are priced from their provider's rate card instead of a plan
+  planId: string | null;
+  rateCardId: string | null;
+  durationDays: number;
+  priceUsdCents: number;
+  currentExpiresAt: Date;
+  newExpiresAt: Date;
+}
+
+export class OrderRenewalService {
+  /**
+   * Price the renewal of an order from its current plan, or from its
+   * provider's rate card for custom-size orders. Only completed orders whose provider can extend storage in place are renewable.
+   * When userId is given, only orders that user can access are renewable.
+   */
+  async quoteRenewal(orderId: string, userId?: string): Promise<ServiceResult<IRenewalQuote>> {
+    const order = await prisma.order.findFirst({
+      where: { id: orderId, ...orderService.accessibleBy(userId) },
+      include: { provider: true, plan: true },
+    });
+
+    if (!order) {
+      return errorResult('ORDER_NOT_FOUND', 'Order not found');
+    }
+
+    if (order.status !== OrderStatus.COMPLETED || !order.storageId || !order.expiresAt) {
+      return errorResult('ORDER_NOT_RENEWABLE', `Orders with status ${order.status} cannot be renewed`);
+    }
+
+    const adapter = getProviderRegistry().getAdapter(order.provider.slug);
+    if (!adapter.extendStorage) {
+      return errorResult('RENEWAL_NOT_SUPPORTED', `${order.provider.name} storage cannot be renewed`);
+    }
+
+    if (!order.plan) {
+      const price = await providerService.priceCustomStorage(
+        order.provider.slug,
+        order.storageSizeGb,
+        order.durationDays
+      );
+      if (!price.success) {
+        return errorResult(price.error.code, price.error.message, price.error.details);
+      }
+
+      return successResult({
+        orderId: order.id,
+        planId: null,
+        rateCardId: price.data.rateCardId,
+        durationDays: order.durationDays,
+        priceUsdCents: price.data.priceUsdCents,
+        currentExpiresAt: order.expiresAt,
+        newExpiresAt: this.extendFrom(order.expiresAt, order.durationDays),
+      });
+    }
+
+    if (order.plan.status !== 'AVAILABLE' || !order.plan.isActive) {
+      return errorResult('PLAN_UNAVAILABLE', 'This storage plan is no longer available');
+    }
+
+    return successResult({
+      orderId: order.id,
+      planId: order.plan.id,
+      rateCardId: null,
+      durationDays: order.plan.durationDays,
+      priceUsdCents: order.plan.priceUsdCents,
+      currentExpiresAt: order.expiresAt,
+      newExpiresAt: this.extendFrom(order.expiresAt, order.plan.durationDays),
+    });
+  }
+
+  /**
+   * Extend the storage of a paid renewal and push the order's expiry forward
+   */
+  async applyRenewal(renewalId: string): Promise<ServiceResult<{ expiresAt: Date }>> {
+    const renewal = await prisma.orderRenewal.findUnique({
+      where: { id: renewalId },
+      include: { order: { include: { provider: true } } },
+    });
+
+    if (!renewal) {
+      return errorResult('RENEWAL_NOT_FOUND', 'Renewal not found');
+    }
+
+    if (renewal.status !== RenewalStatus.PAID) {
+      return errorResult('INVALID_RENEWAL_STATUS', `Renewal status is ${renewal.status}, expected PAID`);
+    }
+
+    const { order } = renewal;
+
+    try {
+      // The order may have expired while the customer was paying
+      if (order.status !== OrderStatus.COMPLETED || !order.storageId || !order.expiresAt) {
+        return this.failRenewal(renewalId, `Order status is ${order.status}, storage can no longer be extended`);
+      }
+
+      const adapter = getProviderRegistry().getAdapter(order.provider.slug);
+      if (!adapter.extendStorage) {
+        return this.failRenewal(renewalId, `${order.provider.name} storage cannot be renewed`);
+      }
+
+      const result = await adapter.extendStorage({
+        orderId: order.id,
+        storageId: order.storageId,
+        storageMetadata: order.storageMetadata as Record<string, unknown> | null,
+        durationDays: renewal.durationDays,
+        expiresAt: this.extendFrom(order.expiresAt, renewal.durationDays),
+      });
+
+      if (!result.success) {
+        return this.failRenewal(renewalId, result.error || 'Provider failed to extend storage');
+      }
+
+      // Retry when another renewal moved the expiry between reading and writing
+      const expiresAt = await retry(
+        () => this.extendOrderExpiry(renewalId, order.id, renewal.durationDays),
+        { maxRetries: 3, delay: 100 }
+      );
+
+      logger.info('Order renewed', { orderId: order.id, renewalId, expiresAt });
+
+      return successResult({ expiresAt });
+    } catch (error) {
+      logger.error('Failed to apply renewal', error, { renewalId, orderId: order.id });
+      return this.failRenewal(renewalId, error instanceof Error ? error.message : 'Failed to apply renewal');
+    }
+  }
+
+  /**
+   * Get the renewals of an order, newest first
+   */
+  async getRenewalsForOrder(orderId: string) {
+    return prisma.orderRenewal.findMany({
+      where: { orderId },
+      include: { plan: true },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Renewals extend from the current expiry, or from now if it already passed
+   */
+  private extendFrom(expiresAt: Date, durationDays: number): Date {
+    const base = expiresAt > new Date() ? expiresAt : new Date();
+    return addDays(base, durationDays);
+  }
+
+  private async extendOrderExpiry(renewalId: string, orderId: string, durationDays: number): Promise<Date> {
+    return withTransaction(async (tx) => {
+      const order = await tx.order.findUniqueOrThrow({ where: { id: orderId } });
+      const previousExpiresAt = order.expiresAt!;
+      const newExpiresAt = this.extendFrom(previousExpiresAt, durationDays);
+
+      const { count } = await tx.order.updateMany({
+        where: { id: orderId, status: OrderStatus.COMPLETED, expiresAt: previousExpiresAt },
+        data: { expiresAt: newExpiresAt },
+      });
+
+      if (count === 0) {
+        throw new ConflictError(`Order ${orderId} was updated concurrently`);
+      }
+
+      await tx.orderRenewal.update({
+        where: { id: renewalId },
+        data: {
+          status: RenewalStatus.COMPLETED,
+          previousExpiresAt,
+          newExpiresAt,
+          completedAt: new Date(),
+        },
+      });
+
+      // Reminders start over for the new expiry date
+      await tx.orderReminder.deleteMany({ where: { orderId } });
+
+      return newExpiresAt;
+    });
+  }
+
+  private async failRenewal(renewalId: string, message: string): Promise<ServiceResult<never>> {
+    await prisma.orderRenewal.update({
+      where: { id: renewalId },
+      data: { status: RenewalStatus.FAILED, statusMessage: message },
+    });
+
+    logger.warn('Order renewal failed', { renewalId, message });
+
+    // Renewals fail after they were paid; the customer gets their money back
+    try {
+      await refundService.refundRenewal(renewalId, `Renewal failed: ${message}`);
+    } catch (error) {
+      logger.error('Failed to refund renewal', error, { renewalId });
+    }
+
+    return errorResult('RENEWAL_FAILED', message);
+  }
+}
+
+export const orderRenewalService = new OrderRenewalService();
+export default orderRenewalService;
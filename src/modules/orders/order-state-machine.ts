@@ -0,0 +1,190 @@
+import { Order, OrderActorType, OrderStatus, Prisma } from '@prisma/client';
+import { prisma, withTransaction } from '../../common/database';
+import {
+  logger,
+  ConflictError,
+  NotFoundError,
+  InvalidStateTransitionError,
+} from '../../common/utils';
+
+// ============================================
+// Order State Machine
+// ============================================
+
+/**
+ * Allowed order status transitions. Every status change goes through
+ * OrderStateMachine.transition so it is validated and recorded.
+ */
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  [OrderStatus.PENDING_PAYMENT]: [
+    OrderStatus.PAYMENT_PROCESSING,
+    OrderStatus.PAYMENT_COMPLETED,
+    OrderStatus.PAYMENT_FAILED,
+    OrderStatus.CANCELLED,
+  ],
+  [OrderStatus.PAYMENT_PROCESSING]: [
+    OrderStatus.PAYMENT_COMPLETED,
+    OrderStatus.PAYMENT_FAILED,
+    OrderStatus.CANCELLED,
+  ],
+  // The customer can retry a failed card within the same checkout session
+  [OrderStatus.PAYMENT_FAILED]: [OrderStatus.PAYMENT_COMPLETED, OrderStatus.CANCELLED],
+  [OrderStatus.PAYMENT_COMPLETED]: [OrderStatus.BLOCKCHAIN_PENDING, OrderStatus.REFUNDED],
+  [OrderStatus.BLOCKCHAIN_PENDING]: [OrderStatus.BLOCKCHAIN_PROCESSING, OrderStatus.BLOCKCHAIN_FAILED],
+  [OrderStatus.BLOCKCHAIN_PROCESSING]: [
+    OrderStatus.BLOCKCHAIN_CONFIRMED,
+    OrderStatus.COMPLETED,
+    OrderStatus.BLOCKCHAIN_FAILED,
+  ],
+  [OrderStatus.BLOCKCHAIN_CONFIRMED]: [OrderStatus.COMPLETED],
+  // Failed allocations can be retried or refunded
+  [OrderStatus.BLOCKCHAIN_FAILED]: [OrderStatus.BLOCKCHAIN_PENDING, OrderStatus.REFUNDED],
+  [OrderStatus.COMPLETED]: [OrderStatus.REFUNDED, OrderStatus.EXPIRED],
+  [OrderStatus.CANCELLED]: [],
+  [OrderStatus.REFUNDED]: [],
+  [OrderStatus.EXPIRED]: [],
+};
+
+type TransactionClient = Prisma.TransactionClient;
+
+export interface OrderActor {
+  type: OrderActorType;
+  id?: string;
+}
+
+export interface OrderTransitionOptions {
+  actor: OrderActor;
+  reason?: string;
+  metadata?: Prisma.InputJsonValue;
+  // Other order fields to update together with the status
+  data?: Omit<Prisma.OrderUncheckedUpdateManyInput, 'status'>;
+  // Run inside an existing transaction
+  tx?: TransactionClient;
+}
+
+export class OrderStateMachine {
+  /**
+   * Check whether an order may move from one status to another
+   */
+  canTransition(from: OrderStatus, to: OrderStatus): boolean {
+    return ORDER_TRANSITIONS[from].includes(to);
+  }
+
+  /**
+   * Move an order to a new status and record the change in its history.
+   * Throws InvalidStateTransitionError for transitions the state machine
+   * does not allow, and ConflictError when the order changed concurrently.
+   */
+  async transition(
+    orderId: string,
+    to: OrderStatus,
+    options: OrderTransitionOptions
+  ): Promise<Order> {
+    const run = async (tx: TransactionClient) => {
+      const order = await tx.order.findUnique({
+        where: { id: orderId },
+        select: { status: true },
+      });
+
+      if (!order) {
+        throw new NotFoundError('Order', orderId);
+      }
+
+      const from = order.status;
+      if (!this.canTransition(from, to)) {
+        throw new InvalidStateTransitionError('Order', from, to);
+      }
+
+      // Only update while the order is still in the status we validated against
+      const { count } = await tx.order.updateMany({
+        where: { id: orderId, status: from },
+        data: { ...options.data, status: to },
+      });
+
+      if (count === 0) {
+        throw new ConflictError(`Order ${orderId} was updated concurrently`);
+      }
+
+      await tx.orderStatusHistory.create({
+        data: {
+          orderId,
+          fromStatus: from,
+          toStatus: to,
+          actorType: options.actor.type,
+          actorId: options.actor.id,
+          reason: options.reason,
+          metadata: options.metadata,
+        },
+      });
+
+      logger.info('Order status changed', {
+        orderId,
+        from,
+        to,
+        actorType: options.actor.type,
+        actorId: options.actor.id,
+      });
+
+      return tx.order.findUniqueOrThrow({ where: { id: orderId } });
+    };
+
+    return options.tx ? run(options.tx) : withTransaction(run);
+  }
+
+  /**
+   * Record the initial status of a newly created order
+   */
+  async recordCreated(
+    order: Pick<Order, 'id' | 'status'>,
+    actor: OrderActor,
+    tx: TransactionClient = prisma
+  ): Promise<void> {
+    await tx.orderStatusHistory.create({
+      data: {
+        orderId: order.id,
+        fromStatus: null,
+        toStatus: order.status,
+        actorType: actor.type,
+        actorId: actor.id,
+        reason: 'Order created',
+      },
+    });
+  }
+
+  /**
+   * Record a change to an order that keeps its status, such as a plan change,
+   * so it shows up in the order's history
+   */
+  async recordChange(
+    order: Pick<Order, 'id' | 'status'>,
+    actor: OrderActor,
+    reason: string,
+    metadata?: Prisma.InputJsonValue,
+    tx: TransactionClient = prisma
+  ): Promise<void> {
+    await tx.orderStatusHistory.create({
+      data: {
+        orderId: order.id,
+        fromStatus: order.status,
+        toStatus: order.status,
+        actorType: actor.type,
+        actorId: actor.id,
+        reason,
+        metadata,
+      },
+    });
+  }
+
+  /**
+   * Get the status history of an order, oldest first
+   */
+  async getHistory(orderId: string) {
+    return prisma.orderStatusHistory.findMany({
+      where: { orderId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+}
+
+export const orderStateMachine = new OrderStateMachine();
+export default orderStateMachine;
@@ -1,8 +1,23 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { orderService } from './order.service';
+import { orderRenewalService } from './order-renewal.service';
+import { orderPlanChangeService } from './order-plan-change.service';
+import { paymentService } from '../payments/payment.service';
+import { refundService } from '../payments/refund.service';
+import { invoiceService } from '../invoices/invoice.service';
 import { IApiResponse, IPaginationParams } from '../../common/interfaces';
-import { ValidationError } from '../../common/utils/errors';
-import { OrderStatus } from '@prisma/client';
+import { ForbiddenError, ValidationError } from '../../common/utils/errors';
+import { Invoice, OrderPlanChange, OrderRenewal, OrderStatus, Refund, StoragePlan } from '@prisma/client';
+import { config } from '../../config';
+import {
+  getAuthUser,
+  hasPermission,
+  requireAuth,
+  requirePermission,
+  requireScope,
+} from '../../middleware/auth.middleware';
+import { ApiKeyScopes, Permissions } from '../auth/permissions';
+import { organizationService } from '../organizations/organization.service';
 
 // ============================================
 // Order Controller
@@ -10,14 +25,111 @@ import { OrderStatus } from '@prisma/client';
 
 const router = Router();
 
+function toRenewalResponse(renewal: OrderRenewal & { plan: StoragePlan | null }) {
+  return {
+    id: renewal.id,
+    orderId: renewal.orderId,
+    // Null for custom-size orders, which renew from their rate card
+    plan: renewal.plan
+      ? {
+          id: renewal.plan.id,
+          name: renewal.plan.name,
+        }
+      : null,
+    rateCardId: renewal.rateCardId,
+    durationDays: renewal.durationDays,
+    priceUsdCents: renewal.priceUsdCents,
+    status: renewal.status,
+    statusMessage: renewal.statusMessage,
+    previousExpiresAt: renewal.previousExpiresAt,
+    newExpiresAt: renewal.newExpiresAt,
+    paidAt: renewal.paidAt,
+    completedAt: renewal.completedAt,
+    createdAt: renewal.createdAt,
+  };
+}
+
+function toPlanChangeResponse(planChange: OrderPlanChange & { fromPlan: StoragePlan; toPlan: StoragePlan }) {
+  return {
+    id: planChange.id,
+    orderId: planChange.orderId,
+    fromPlan: {
+      id: planChange.fromPlan.id,
+      name: planChange.fromPlan.name,
+    },
+    toPlan: {
+      id: planChange.toPlan.id,
+      name: planChange.toPlan.name,
+    },
+    remainingDays: planChange.remainingDays,
+    creditCents: planChange.creditCents,
+    newCostCents: planChange.newCostCents,
+    differenceCents: planChange.differenceCents,
+    status: planChange.status,
+    statusMessage: planChange.statusMessage,
+    paidAt: planChange.paidAt,
+    completedAt: planChange.completedAt,
+    createdAt: planChange.createdAt,
+  };
+}
+
+function toRefundResponse(refund: Refund) {
+  return {
+    id: refund.id,
+    orderId: refund.orderId,
+    paymentId: refund.paymentId,
+    amountCents: refund.amountCents,
+    currency: refund.currency,
+    status: refund.status,
+    source: refund.source,
+    reason: refund.reason,
+    toCredit: refund.toCredit,
+    createdAt: refund.createdAt,
+  };
+}
+
+function toInvoiceResponse(invoice: Invoice) {
+  return {
+    id: invoice.id,
+    invoiceNumber: invoice.invoiceNumber,
+    orderId: invoice.orderId,
+    paymentId: invoice.paymentId,
+    currency: invoice.currency,
+    subtotalCents: invoice.subtotalCents,
+    taxCents: invoice.taxCents,
+    taxRatePercent: invoice.taxRatePercent,
+    reverseCharge: invoice.reverseCharge,
+    totalCents: invoice.totalCents,
+    paymentReference: invoice.paymentReference,
+    txHash: invoice.txHash,
+    issuedAt: invoice.issuedAt,
+    downloadUrl: `/api/orders/${invoice.orderId}/invoices/${invoice.id}`,
+  };
+}
+
+async function sendInvoicePdf(res: Response, invoice: Invoice): Promise<void> {
+  const pdf = await invoiceService.getInvoicePdf(invoice);
+
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="${invoice.invoiceNumber}.pdf"`);
+  res.send(pdf);
+}
+
+// All order routes act on behalf of the signed-in user
+router.use(requireAuth);
+
 /**
  * GET /api/orders
- * Get all orders (with optional filters)
+ * Get the authenticated user's orders (with optional filters).
+ * Pass organizationId for an organization's orders; staff can pass scope=all to list every order.
  */
-router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/', requireScope(ApiKeyScopes.ORDERS_READ), async (req: Request, res: Response, next: NextFunction) => {
   try {
+    const user = getAuthUser(req);
     const {
+      scope,
       userId,
+      organizationId = req.apiKey?.organizationId || undefined,
       status,
       providerId,
       startDate,
@@ -40,22 +152,39 @@ router.get('/', async (req: Request, res: Response, next: NextFunction) => {
 
     let result;
 
-    if (userId) {
-      // Get orders for specific user
-      result = await orderService.getOrdersForUser(
-        userId as string,
+    if (scope === 'all') {
+      if (!hasPermission(req, Permissions.ORDERS_READ_ANY)) {
+        throw new ForbiddenError('You do not have permission to list all orders');
+      }
+
+      if (userId) {
+        result = await orderService.getOrdersForUser(
+          userId as string,
+          status ? { status: status as OrderStatus } : undefined,
+          pagination
+        );
+      } else {
+        result = await orderService.getAllOrders(
+          {
+            status: status as OrderStatus | undefined,
+            providerId: providerId as string | undefined,
+            startDate: startDate ? new Date(startDate as string) : undefined,
+            endDate: endDate ? new Date(endDate as string) : undefined,
+          },
+          pagination
+        );
+      }
+    } else if (organizationId) {
+      await organizationService.getMembership(organizationId as string, user.id);
+      result = await orderService.getOrdersForOrganization(
+        organizationId as string,
         status ? { status: status as OrderStatus } : undefined,
         pagination
       );
     } else {
-      // Get all orders (admin view)
-      result = await orderService.getAllOrders(
-        {
-          status: status as OrderStatus | undefined,
-          providerId: providerId as string | undefined,
-          startDate: startDate ? new Date(startDate as string) : undefined,
-          endDate: endDate ? new Date(endDate as string) : undefined,
-        },
+      result = await orderService.getOrdersForUser(
+        user.id,
+        status ? { status: status as OrderStatus } : undefined,
         pagination
       );
     }
@@ -79,9 +208,9 @@ router.get('/', async (req: Request, res: Response, next: NextFunction) => {
 
 /**
  * GET /api/orders/stats
- * Get order statistics
+ * Get order statistics (staff only)
  */
-router.get('/stats', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/stats', requirePermission(Permissions.ORDERS_STATS), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const stats = await orderService.getOrderStats();
 
@@ -100,10 +229,14 @@ router.get('/stats', async (req: Request, res: Response, next: NextFunction) =>
  * GET /api/orders/:orderId
  * Get order by ID
  */
-router.get('/:orderId', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/:orderId', requireScope(ApiKeyScopes.ORDERS_READ), async (req: Request, res: Response, next: NextFunction) => {
   try {
+    const user = getAuthUser(req);
     const { orderId } = req.params;
-    const order = await orderService.getOrderById(orderId);
+    const order = await orderService.getOrderById(
+      orderId,
+      hasPermission(req, Permissions.ORDERS_READ_ANY) ? undefined : user.id
+    );
 
     const response: IApiResponse = {
       success: true,
@@ -116,14 +249,42 @@ router.get('/:orderId', async (req: Request, res: Response, next: NextFunction)
   }
 });
 
+/**
+ * GET /api/orders/:orderId/timeline
+ * Get the status history of an order
+ */
+router.get('/:orderId/timeline', requireScope(ApiKeyScopes.ORDERS_READ), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getAuthUser(req);
+    const { orderId } = req.params;
+    const timeline = await orderService.getOrderTimeline(
+      orderId,
+      hasPermission(req, Permissions.ORDERS_READ_ANY) ? undefined : user.id
+    );
+
+    const response: IApiResponse = {
+      success: true,
+      data: timeline,
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * GET /api/orders/number/:orderNumber
  * Get order by order number
  */
-router.get('/number/:orderNumber', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/number/:orderNumber', requireScope(ApiKeyScopes.ORDERS_READ), async (req: Request, res: Response, next: NextFunction) => {
   try {
+    const user = getAuthUser(req);
     const { orderNumber } = req.params;
-    const order = await orderService.getOrderByNumber(orderNumber);
+    const order = await orderService.getOrderByNumber(
+      orderNumber,
+      hasPermission(req, Permissions.ORDERS_READ_ANY) ? undefined : user.id
+    );
 
     const response: IApiResponse = {
       success: true,
@@ -140,10 +301,11 @@ router.get('/number/:orderNumber', async (req: Request, res: Response, next: Nex
  * POST /api/orders/:orderId/cancel
  * Cancel an order
  */
-router.post('/:orderId/cancel', async (req: Request, res: Response, next: NextFunction) => {
+router.post('/:orderId/cancel', requireScope(ApiKeyScopes.ORDERS_WRITE), async (req: Request, res: Response, next: NextFunction) => {
   try {
+    const user = getAuthUser(req);
     const { orderId } = req.params;
-    const order = await orderService.cancelOrder(orderId);
+    const order = await orderService.cancelOrder(orderId, user.id);
 
     const response: IApiResponse = {
       success: true,
@@ -156,5 +318,391 @@ router.post('/:orderId/cancel', async (req: Request, res: Response, next: NextFu
   }
 });
 
+/**
+ * POST /api/orders/:orderId/renew
+ * Create a Stripe checkout session that extends an order's storage
+ */
+router.post(
+  '/:orderId/renew',
+  requireScope(ApiKeyScopes.ORDERS_WRITE),
+  requireScope(ApiKeyScopes.PAYMENTS_WRITE),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = getAuthUser(req);
+      const { orderId } = req.params;
+
+      // 404 for orders the user cannot access
+      await orderService.getOrderById(orderId, user.id);
+
+      const baseUrl = config.app.frontendUrl;
+      const result = await paymentService.createRenewalCheckout({
+        userId: user.id,
+        orderId,
+        successUrl: `${baseUrl}/orders/success`,
+        cancelUrl: `${baseUrl}/orders/cancel`,
+      });
+
+      if (result.success) {
+        const response: IApiResponse = {
+          success: true,
+          data: {
+            sessionId: result.data.sessionId,
+            sessionUrl: result.data.sessionUrl,
+            orderId: result.data.orderId,
+            renewalId: result.data.renewalId,
+            priceUsdCents: result.data.priceUsdCents,
+            durationDays: result.data.durationDays,
+            newExpiresAt: result.data.newExpiresAt,
+          },
+        };
+        res.json(response);
+      } else {
+        const response: IApiResponse = {
+          success: false,
+          error: result.error,
+        };
+        res.status(400).json(response);
+      }
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/orders/:orderId/subscription
+ * Turn off auto-renewal; the order expires at the end of the paid period
+ */
+router.delete(
+  '/:orderId/subscription',
+  requireScope(ApiKeyScopes.ORDERS_WRITE),
+  requireScope(ApiKeyScopes.PAYMENTS_WRITE),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = getAuthUser(req);
+      const { orderId } = req.params;
+
+      await orderService.getOrderById(orderId, user.id);
+      const subscription = await paymentService.cancelAutoRenew(orderId);
+
+      const response: IApiResponse = {
+        success: true,
+        data: {
+          status: subscription.status,
+          currentPeriodEnd: subscription.currentPeriodEnd,
+          cancelAtPeriodEnd: subscription.cancelAtPeriodEnd,
+        },
+      };
+
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/orders/:orderId/renewals
+ * Get the renewal history of an order
+ */
+router.get('/:orderId/renewals', requireScope(ApiKeyScopes.ORDERS_READ), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getAuthUser(req);
+    const { orderId } = req.params;
+
+    await orderService.getOrderById(
+      orderId,
+      hasPermission(req, Permissions.ORDERS_READ_ANY) ? undefined : user.id
+    );
+    const renewals = await orderRenewalService.getRenewalsForOrder(orderId);
+
+    const response: IApiResponse = {
+      success: true,
+      data: renewals.map(toRenewalResponse),
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/orders/:orderId/plan-change-quote?planId=
+ * Get the prorated price of moving an order to another plan
+ */
+router.get('/:orderId/plan-change-quote', requireScope(ApiKeyScopes.ORDERS_READ), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getAuthUser(req);
+    const { orderId } = req.params;
+    const { planId } = req.query;
+
+    if (typeof planId !== 'string' || !planId) {
+      throw new ValidationError('planId is required');
+    }
+
+    const result = await orderPlanChangeService.quotePlanChange(orderId, planId, user.id);
+
+    if (result.success) {
+      const response: IApiResponse = {
+        success: true,
+        data: result.data,
+      };
+      res.json(response);
+    } else {
+      const response: IApiResponse = {
+        success: false,
+        error: result.error,
+      };
+      res.status(400).json(response);
+    }
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/orders/:orderId/change-plan
+ * Move an order to another plan of the same provider for the rest of its term.
+ * Upgrades return a checkout session for the prorated difference; downgrades
+ * are applied right away and the difference is refunded.
+ */
+router.post(
+  '/:orderId/change-plan',
+  requireScope(ApiKeyScopes.ORDERS_WRITE),
+  requireScope(ApiKeyScopes.PAYMENTS_WRITE),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = getAuthUser(req);
+      const { orderId } = req.params;
+      const { planId } = req.body;
+
+      if (typeof planId !== 'string' || !planId) {
+        throw new ValidationError('planId is required');
+      }
+
+      // 404 for orders the user cannot access
+      await orderService.getOrderById(orderId, user.id);
+
+      const baseUrl = config.app.frontendUrl;
+      const result = await orderPlanChangeService.changePlan({
+        userId: user.id,
+        orderId,
+        planId,
+        successUrl: `${baseUrl}/orders/success`,
+        cancelUrl: `${baseUrl}/orders/cancel`,
+      });
+
+      if (result.success) {
+        const response: IApiResponse = {
+          success: true,
+          data: {
+            ...result.data,
+            // Downgrades are already applied
+            order: result.data.checkout ? undefined : await orderService.getOrderById(orderId),
+          },
+        };
+        res.json(response);
+      } else {
+        const response: IApiResponse = {
+          success: false,
+          error: result.error,
+        };
+        res.status(400).json(response);
+      }
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/orders/:orderId/plan-changes
+ * Get the plan changes of an order
+ */
+router.get('/:orderId/plan-changes', requireScope(ApiKeyScopes.ORDERS_READ), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getAuthUser(req);
+    const { orderId } = req.params;
+
+    await orderService.getOrderById(
+      orderId,
+      hasPermission(req, Permissions.ORDERS_READ_ANY) ? undefined : user.id
+    );
+    const planChanges = await orderPlanChangeService.getPlanChangesForOrder(orderId);
+
+    const response: IApiResponse = {
+      success: true,
+      data: planChanges.map(toPlanChangeResponse),
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/orders/:orderId/refund-quote
+ * Get the amount the refund policy would return for an order
+ */
+router.get('/:orderId/refund-quote', requireScope(ApiKeyScopes.ORDERS_READ), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getAuthUser(req);
+    const { orderId } = req.params;
+    const quote = await refundService.quoteRefund(
+      orderId,
+      hasPermission(req, Permissions.ORDERS_READ_ANY) ? undefined : user.id
+    );
+
+    const response: IApiResponse = {
+      success: true,
+      data: quote,
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/orders/:orderId/refund
+ * Refund an order and release its storage.
+ * Staff with the orders:refund permission may refund any order and set amountCents.
+ */
+router.post(
+  '/:orderId/refund',
+  requireScope(ApiKeyScopes.ORDERS_WRITE),
+  requireScope(ApiKeyScopes.PAYMENTS_WRITE),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = getAuthUser(req);
+      const { orderId } = req.params;
+      const { reason, amountCents, toCredit } = req.body ?? {};
+
+      if (reason !== undefined && typeof reason !== 'string') {
+        throw new ValidationError('reason must be a string');
+      }
+
+      if (toCredit !== undefined && typeof toCredit !== 'boolean') {
+        throw new ValidationError('toCredit must be a boolean');
+      }
+
+      const result = await refundService.refundOrder(
+        orderId,
+        { userId: user.id, isStaff: hasPermission(req, Permissions.ORDERS_REFUND) },
+        { reason, amountCents, toCredit }
+      );
+
+      const response: IApiResponse = {
+        success: true,
+        data: {
+          order: result.order,
+          refunds: result.refunds.map(toRefundResponse),
+        },
+      };
+
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/orders/:orderId/refunds
+ * Get the refunds of an order
+ */
+router.get('/:orderId/refunds', requireScope(ApiKeyScopes.ORDERS_READ), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getAuthUser(req);
+    const { orderId } = req.params;
+
+    await orderService.getOrderById(
+      orderId,
+      hasPermission(req, Permissions.ORDERS_READ_ANY) ? undefined : user.id
+    );
+    const refunds = await refundService.getRefundsForOrder(orderId);
+
+    const response: IApiResponse = {
+      success: true,
+      data: refunds.map(toRefundResponse),
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/orders/:orderId/invoice
+ * Download the invoice of the order's purchase as a PDF
+ */
+router.get('/:orderId/invoice', requireScope(ApiKeyScopes.ORDERS_READ), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getAuthUser(req);
+    const { orderId } = req.params;
+
+    await orderService.getOrderById(
+      orderId,
+      hasPermission(req, Permissions.ORDERS_READ_ANY) ? undefined : user.id
+    );
+    const invoice = await invoiceService.getOrderInvoice(orderId);
+
+    await sendInvoicePdf(res, invoice);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/orders/:orderId/invoices
+ * Get every invoice of an order (purchase, renewals and upgrades)
+ */
+router.get('/:orderId/invoices', requireScope(ApiKeyScopes.ORDERS_READ), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getAuthUser(req);
+    const { orderId } = req.params;
+
+    await orderService.getOrderById(
+      orderId,
+      hasPermission(req, Permissions.ORDERS_READ_ANY) ? undefined : user.id
+    );
+    const invoices = await invoiceService.getInvoicesForOrder(orderId);
+
+    const response: IApiResponse = {
+      success: true,
+      data: invoices.map(toInvoiceResponse),
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/orders/:orderId/invoices/:invoiceId
+ * Download one invoice of an order as a PDF
+ */
+router.get('/:orderId/invoices/:invoiceId', requireScope(ApiKeyScopes.ORDERS_READ), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getAuthUser(req);
+    const { orderId, invoiceId } = req.params;
+
+    await orderService.getOrderById(
+      orderId,
+      hasPermission(req, Permissions.ORDERS_READ_ANY) ? undefined : user.id
+    );
+    const invoice = await invoiceService.getInvoice(orderId, invoiceId);
+
+    await sendInvoicePdf(res, invoice);
+  } catch (error) {
+    next(error);
+  }
+});
+
 export const orderController = router;
 export default orderController;
\ No newline at end of file
@@ -1,25 +1,54 @@
-import { OrderStatus } from '@prisma/client';
-import { prisma } from '../../common/database';
-import { IOrderResponse, IPaginationParams } from '../../common/interfaces';
-import { centsToDollars,NotFoundError } from '../../common/utils';
+import { OrderActorType, OrderStatus, PaymentMethod, PaymentPurpose, PaymentStatus, Prisma } from '@prisma/client';
+import { prisma, withTransaction } from '../../common/database';
+import { IOrderResponse, IOrderTimelineEntry, IPaginationParams } from '../../common/interfaces';
+import { centsToDollars, InvalidStateTransitionError, NotFoundError } from '../../common/utils';
 import { getProviderRegistry } from '../providers/provider.registry';
+import { promotionService } from '../promotions/promotion.service';
+import { creditService } from '../credits/credit.service';
+import { orderStateMachine } from './order-state-machine';
 
 // ============================================
 // Order Service
 // ============================================
 
 export class OrderService {
+  /**
+   * Orders a user can access: their own and those of their organizations.
+   * Without a userId, every order is accessible (staff).
+   */
+  accessibleBy(userId?: string): Prisma.OrderWhereInput {
+    if (!userId) {
+      return {};
+    }
+    return {
+      OR: [
+        { userId },
+        { organization: { members: { some: { userId } }, deletedAt: null } },
+      ],
+    };
+  }
+
+  /**
+   * Name of the storage an order is for; custom-size orders have no plan
+   */
+  getPlanName(order: { plan: { name: string } | null; storageSizeGb: number }): string {
+    return order.plan?.name ?? `Custom ${order.storageSizeGb}GB`;
+  }
+
   /**
    * Get order by ID
+   * When userId is given, only orders that user can access are returned
    */
-  async getOrderById(orderId: string): Promise<IOrderResponse> {
-    const order = await prisma.order.findUnique({
-      where: { id: orderId },
+  async getOrderById(orderId: string, userId?: string): Promise<IOrderResponse> {
+    const order = await prisma.order.findFirst({
+      where: { id: orderId, ...this.accessibleBy(userId) },
       include: {
         user: true,
         provider: true,
         plan: true,
+        subscription: true,
         payments: {
+          where: { purpose: PaymentPurpose.ORDER },
           orderBy: { createdAt: 'desc' },
           take: 1,
         },
@@ -39,15 +68,18 @@ export class OrderService {
 
   /**
    * Get order by order number
+   * When userId is given, only orders that user can access are returned
    */
-  async getOrderByNumber(orderNumber: string): Promise<IOrderResponse> {
-    const order = await prisma.order.findUnique({
-      where: { orderNumber },
+  async getOrderByNumber(orderNumber: string, userId?: string): Promise<IOrderResponse> {
+    const order = await prisma.order.findFirst({
+      where: { orderNumber, ...this.accessibleBy(userId) },
       include: {
         user: true,
         provider: true,
         plan: true,
+        subscription: true,
         payments: {
+          where: { purpose: PaymentPurpose.ORDER },
           orderBy: { createdAt: 'desc' },
           take: 1,
         },
@@ -73,7 +105,26 @@ export class OrderService {
     filters?: { status?: OrderStatus },
     pagination?: IPaginationParams
   ): Promise<{ orders: IOrderResponse[]; total: number }> {
-    const where: Record<string, unknown> = { userId };
+    return this.getOrdersWhere({ userId }, filters, pagination);
+  }
+
+  /**
+   * Get orders bought on behalf of an organization
+   */
+  async getOrdersForOrganization(
+    organizationId: string,
+    filters?: { status?: OrderStatus },
+    pagination?: IPaginationParams
+  ): Promise<{ orders: IOrderResponse[]; total: number }> {
+    return this.getOrdersWhere({ organizationId }, filters, pagination);
+  }
+
+  private async getOrdersWhere(
+    scope: { userId: string } | { organizationId: string },
+    filters?: { status?: OrderStatus },
+    pagination?: IPaginationParams
+  ): Promise<{ orders: IOrderResponse[]; total: number }> {
+    const where: Record<string, unknown> = { ...scope };
 
     if (filters?.status) {
       where.status = filters.status;
@@ -86,7 +137,9 @@ export class OrderService {
           user: true,
           provider: true,
           plan: true,
+          subscription: true,
           payments: {
+            where: { purpose: PaymentPurpose.ORDER },
             orderBy: { createdAt: 'desc' },
             take: 1,
           },
@@ -145,7 +198,9 @@ export class OrderService {
           user: true,
           provider: true,
           plan: true,
+          subscription: true,
           payments: {
+            where: { purpose: PaymentPurpose.ORDER },
             orderBy: { createdAt: 'desc' },
             take: 1,
           },
@@ -169,32 +224,57 @@ export class OrderService {
 
   /**
    * Cancel an order
+   * When userId is given, only orders that user can access can be cancelled
    */
-  async cancelOrder(orderId: string): Promise<IOrderResponse> {
-    const order = await prisma.order.findUnique({
-      where: { id: orderId },
+  async cancelOrder(orderId: string, userId?: string): Promise<IOrderResponse> {
+    const order = await prisma.order.findFirst({
+      where: { id: orderId, ...this.accessibleBy(userId) },
     });
 
     if (!order) {
       throw new NotFoundError('Order', orderId);
     }
 
-    // Can only cancel pending orders
-    if (order.status !== OrderStatus.PENDING_PAYMENT) {
-      throw new Error(`Cannot cancel order with status: ${order.status}`);
+    // Only orders that have not been paid can be cancelled
+    if (!orderStateMachine.canTransition(order.status, OrderStatus.CANCELLED)) {
+      throw new InvalidStateTransitionError('Order', order.status, OrderStatus.CANCELLED);
     }
 
-    const updatedOrder = await prisma.order.update({
+    // The checkout must not be payable once the order is cancelled
+    // Import dynamically to avoid circular dependencies
+    const { paymentService } = await import('../payments/payment.service');
+    await paymentService.expireOrderCheckouts(orderId);
+
+    await withTransaction(async (tx) => {
+      await orderStateMachine.transition(orderId, OrderStatus.CANCELLED, {
+        actor: { type: OrderActorType.USER, id: userId },
+        reason: 'Cancelled by user',
+        data: { statusMessage: 'Cancelled by user' },
+        tx,
+      });
+
+      await tx.payment.updateMany({
+        where: {
+          orderId,
+          method: PaymentMethod.STRIPE,
+          status: { in: [PaymentStatus.PENDING, PaymentStatus.PROCESSING] },
+        },
+        data: { status: PaymentStatus.CANCELLED, statusMessage: 'Order cancelled' },
+      });
+
+      await promotionService.releaseForOrder(tx, orderId);
+      await creditService.releaseOrderPayments(tx, orderId, 'Order cancelled');
+    });
+
+    const updatedOrder = await prisma.order.findUniqueOrThrow({
       where: { id: orderId },
-      data: {
-        status: OrderStatus.CANCELLED,
-        statusMessage: 'Cancelled by user',
-      },
       include: {
         user: true,
         provider: true,
         plan: true,
+        subscription: true,
         payments: {
+          where: { purpose: PaymentPurpose.ORDER },
           orderBy: { createdAt: 'desc' },
           take: 1,
         },
@@ -208,6 +288,36 @@ export class OrderService {
     return this.formatOrderResponse(updatedOrder);
   }
 
+  /**
+   * Get the status history of an order, oldest first
+   * When userId is given, only orders that user can access are returned
+   */
+  async getOrderTimeline(orderId: string, userId?: string): Promise<IOrderTimelineEntry[]> {
+    const order = await prisma.order.findFirst({
+      where: { id: orderId, ...this.accessibleBy(userId) },
+      select: { id: true },
+    });
+
+    if (!order) {
+      throw new NotFoundError('Order', orderId);
+    }
+
+    const history = await orderStateMachine.getHistory(orderId);
+
+    return history.map(entry => ({
+      id: entry.id,
+      fromStatus: entry.fromStatus,
+      toStatus: entry.toStatus,
+      actor: {
+        type: entry.actorType,
+        id: entry.actorId,
+      },
+      reason: entry.reason,
+      metadata: entry.metadata as Record<string, unknown> | null,
+      createdAt: entry.createdAt,
+    }));
+  }
+
   /**
    * Get order statistics
    */
@@ -217,6 +327,7 @@ export class OrderService {
     pendingOrders: number;
     failedOrders: number;
     totalRevenueCents: number;
+    totalDiscountCents: number;
   }> {
     const [totalOrders, completedOrders, pendingOrders, failedOrders, revenueResult] = await Promise.all([
       prisma.order.count(),
@@ -242,16 +353,21 @@ export class OrderService {
       }),
       prisma.order.aggregate({
         where: { status: OrderStatus.COMPLETED },
-        _sum: { priceUsdCents: true },
+        _sum: { priceUsdCents: true, discountCents: true },
       }),
     ]);
 
+    const grossRevenueCents = revenueResult._sum.priceUsdCents || 0;
+    const totalDiscountCents = revenueResult._sum.discountCents || 0;
+
     return {
       totalOrders,
       completedOrders,
       pendingOrders,
       failedOrders,
-      totalRevenueCents: revenueResult._sum.priceUsdCents || 0,
+      // Net of coupons and gift vouchers
+      totalRevenueCents: grossRevenueCents - totalDiscountCents,
+      totalDiscountCents,
     };
   }
 
@@ -262,13 +378,28 @@ export class OrderService {
     id: string;
     orderNumber: string;
     userId: string;
+    organizationId: string | null;
+    purchaseId: string | null;
     provider: { id: string; name: string; slug: string };
-    plan: { id: string; name: string; storageSizeGb: number; durationDays: number };
+    plan: { id: string; name: string; storageSizeGb: number; durationDays: number } | null;
+    rateCardId: string | null;
     storageSizeGb: number;
     durationDays: number;
     priceUsdCents: number;
+    discountCents: number;
+    currency: string;
+    fxRate: string;
+    billingCountry: string | null;
+    billingRegion: string | null;
+    vatId: string | null;
+    reverseCharge: boolean;
+    taxRatePercent: number;
+    taxCents: number;
     status: OrderStatus;
+    disputeId: string | null;
+    suspendedAt: Date | null;
     statusMessage: string | null;
+    allowProviderFallback: boolean;
     storageId: string | null;
     storageEndpoint: string | null;
     storageMetadata: unknown;
@@ -278,6 +409,11 @@ export class OrderService {
     createdAt: Date;
     updatedAt: Date;
     payments: { status: string; processedAt: Date | null }[];
+    subscription: {
+      status: string;
+      currentPeriodEnd: Date | null;
+      cancelAtPeriodEnd: boolean;
+    } | null;
     transactions: {
       txHash: string | null;
       status: string;
@@ -306,23 +442,40 @@ export class OrderService {
       id: order.id,
       orderNumber: order.orderNumber,
       userId: order.userId,
+      organizationId: order.organizationId,
+      purchaseId: order.purchaseId,
       provider: {
         id: order.provider.id,
         name: order.provider.name,
         slug: order.provider.slug,
       },
-      plan: {
-        id: order.plan.id,
-        name: order.plan.name,
-        storageSizeGb: order.plan.storageSizeGb,
-        durationDays: order.plan.durationDays,
-      },
+      plan: order.plan
+        ? {
+            id: order.plan.id,
+            name: order.plan.name,
+            storageSizeGb: order.plan.storageSizeGb,
+            durationDays: order.plan.durationDays,
+          }
+        : null,
+      rateCardId: order.rateCardId,
       storageSizeGb: order.storageSizeGb,
       durationDays: order.durationDays,
       priceUsdCents: order.priceUsdCents,
       priceUsd: centsToDollars(order.priceUsdCents),
+      discountCents: order.discountCents,
+      currency: order.currency,
+      fxRate: order.fxRate,
+      billingCountry: order.billingCountry,
+      billingRegion: order.billingRegion,
+      vatId: order.vatId,
+      reverseCharge: order.reverseCharge,
+      taxRatePercent: order.taxRatePercent,
+      taxCents: order.taxCents,
       status: order.status,
       statusMessage: order.statusMessage,
+      disputeId: order.disputeId,
+      suspendedAt: order.suspendedAt,
+      allowProviderFallback: order.allowProviderFallback,
       storage: {
         id: order.storageId,
         endpoint: order.storageEndpoint,
@@ -334,6 +487,13 @@ export class OrderService {
             processedAt: payment.processedAt,
           }
         : null,
+      subscription: order.subscription
+        ? {
+            status: order.subscription.status,
+            currentPeriodEnd: order.subscription.currentPeriodEnd,
+            cancelAtPeriodEnd: order.subscription.cancelAtPeriodEnd,
+          }
+        : null,
       blockchain: transaction
         ? {
             txHash: transaction.txHash,
@@ -0,0 +1,2 @@
+export * from './organization.service';
+export * from './organization.controller';
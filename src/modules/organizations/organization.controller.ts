@@ -0,0 +1,305 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { OrganizationMember, OrganizationRole, User } from '@prisma/client';
+import { organizationService } from './organization.service';
+import { creditService } from '../credits/credit.service';
+import { IApiResponse } from '../../common/interfaces';
+import { ValidationError } from '../../common/utils/errors';
+import { parsePagination } from '../../common/utils/helpers';
+import { getAuthUser, requireSession } from '../../middleware/auth.middleware';
+
+// ============================================
+// Organization Controller
+// ============================================
+
+const router = Router();
+
+// Organizations are managed from an interactive session
+router.use(requireSession);
+
+function toMemberResponse(member: OrganizationMember & { user: User }) {
+  return {
+    userId: member.userId,
+    email: member.user.email,
+    name: member.user.name,
+    role: member.role,
+    joinedAt: member.createdAt,
+  };
+}
+
+function parseRole(role: unknown): OrganizationRole {
+  if (!Object.values(OrganizationRole).includes(role as OrganizationRole)) {
+    throw new ValidationError(`role must be one of: ${Object.values(OrganizationRole).join(', ')}`);
+  }
+  return role as OrganizationRole;
+}
+
+/**
+ * POST /api/organizations
+ * Create an organization owned by the authenticated user
+ */
+router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getAuthUser(req);
+    const organization = await organizationService.createOrganization(user.id, {
+      name: req.body.name,
+    });
+
+    const response: IApiResponse = {
+      success: true,
+      data: {
+        id: organization.id,
+        name: organization.name,
+        slug: organization.slug,
+        role: OrganizationRole.OWNER,
+        createdAt: organization.createdAt,
+      },
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/organizations
+ * Get the organizations of the authenticated user
+ */
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getAuthUser(req);
+    const organizations = await organizationService.getOrganizationsForUser(user.id);
+
+    const response: IApiResponse = {
+      success: true,
+      data: organizations.map(organization => ({
+        id: organization.id,
+        name: organization.name,
+        slug: organization.slug,
+        role: organization.role,
+        createdAt: organization.createdAt,
+      })),
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/organizations/:organizationId
+ * Get organization details
+ */
+router.get('/:organizationId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getAuthUser(req);
+    const membership = await organizationService.getMembership(req.params.organizationId, user.id);
+    const { organization } = membership;
+
+    const response: IApiResponse = {
+      success: true,
+      data: {
+        id: organization.id,
+        name: organization.name,
+        slug: organization.slug,
+        role: membership.role,
+        createdAt: organization.createdAt,
+        updatedAt: organization.updatedAt,
+      },
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/organizations/:organizationId
+ * Update organization settings
+ */
+router.put('/:organizationId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getAuthUser(req);
+    const organization = await organizationService.updateOrganization(
+      req.params.organizationId,
+      user.id,
+      { name: req.body.name }
+    );
+
+    const response: IApiResponse = {
+      success: true,
+      data: {
+        id: organization.id,
+        name: organization.name,
+        slug: organization.slug,
+        updatedAt: organization.updatedAt,
+      },
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/organizations/:organizationId/balance
+ * Get the organization's credit balance
+ */
+router.get('/:organizationId/balance', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getAuthUser(req);
+    const { organizationId } = req.params;
+    await organizationService.getMembership(organizationId, user.id);
+    const balanceCents = await creditService.getBalance({ userId: user.id, organizationId });
+
+    const response: IApiResponse = {
+      success: true,
+      data: {
+        organizationId,
+        balanceCents,
+        currency: 'usd',
+      },
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/organizations/:organizationId/balance/ledger
+ * Get the history of the organization's credit balance, newest first
+ */
+router.get('/:organizationId/balance/ledger', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getAuthUser(req);
+    const { organizationId } = req.params;
+    await organizationService.getMembership(organizationId, user.id);
+    const pagination = parsePagination(req.query);
+
+    const { entries, total } = await creditService.listEntries(
+      { userId: user.id, organizationId },
+      pagination
+    );
+
+    const response: IApiResponse = {
+      success: true,
+      data: entries.map(entry => creditService.formatEntryResponse(entry)),
+      meta: {
+        page: pagination.page,
+        pageSize: pagination.pageSize,
+        total,
+        totalPages: Math.ceil(total / pagination.pageSize),
+      },
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/organizations/:organizationId/members
+ * Get the members of an organization
+ */
+router.get('/:organizationId/members', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getAuthUser(req);
+    const members = await organizationService.listMembers(req.params.organizationId, user.id);
+
+    const response: IApiResponse = {
+      success: true,
+      data: members.map(toMemberResponse),
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/organizations/:organizationId/members
+ * Add a member by email
+ */
+router.post('/:organizationId/members', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getAuthUser(req);
+    const { email, role } = req.body;
+
+    if (!email) {
+      throw new ValidationError('Email is required');
+    }
+
+    const member = await organizationService.addMember(req.params.organizationId, user.id, {
+      email,
+      role: role === undefined ? undefined : parseRole(role),
+    });
+
+    const response: IApiResponse = {
+      success: true,
+      data: toMemberResponse(member),
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/organizations/:organizationId/members/:userId
+ * Change a member's role
+ */
+router.put('/:organizationId/members/:userId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getAuthUser(req);
+    const { organizationId, userId } = req.params;
+
+    const member = await organizationService.updateMemberRole(
+      organizationId,
+      user.id,
+      userId,
+      parseRole(req.body.role)
+    );
+
+    const response: IApiResponse = {
+      success: true,
+      data: toMemberResponse(member),
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/organizations/:organizationId/members/:userId
+ * Remove a member (or leave the organization)
+ */
+router.delete('/:organizationId/members/:userId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getAuthUser(req);
+    const { organizationId, userId } = req.params;
+
+    await organizationService.removeMember(organizationId, user.id, userId);
+
+    const response: IApiResponse = {
+      success: true,
+      data: { removed: true },
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export const organizationController = router;
+export default organizationController;
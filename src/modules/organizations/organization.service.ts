@@ -0,0 +1,251 @@
+import crypto from 'crypto';
+import { OrganizationRole } from '@prisma/client';
+import { prisma } from '../../common/database';
+import {
+  logger,
+  slugify,
+  NotFoundError,
+  ConflictError,
+  ForbiddenError,
+  ValidationError,
+} from '../../common/utils';
+import { userService } from '../users/user.service';
+
+// ============================================
+// Organization Service
+// ============================================
+
+export interface CreateOrganizationDto {
+  name: string;
+}
+
+export interface AddMemberDto {
+  email: string;
+  role?: OrganizationRole;
+}
+
+// Roles allowed to manage members and organization settings
+export const ORGANIZATION_MANAGER_ROLES: OrganizationRole[] = [
+  OrganizationRole.OWNER,
+  OrganizationRole.ADMIN,
+];
+
+export class OrganizationService {
+  /**
+   * Create an organization with the creator as its owner
+   */
+  async createOrganization(userId: string, data: CreateOrganizationDto) {
+    const name = data.name?.trim();
+    if (!name) {
+      throw new ValidationError('name is required');
+    }
+
+    const baseSlug = slugify(name) || 'org';
+    const taken = await prisma.organization.findUnique({ where: { slug: baseSlug } });
+    const slug = taken ? `${baseSlug}-${crypto.randomBytes(3).toString('hex')}` : baseSlug;
+
+    const organization = await prisma.organization.create({
+      data: {
+        name,
+        slug,
+        members: {
+          create: { userId, role: OrganizationRole.OWNER },
+        },
+      },
+    });
+
+    logger.info('Organization created', { organizationId: organization.id, userId });
+
+    return organization;
+  }
+
+  /**
+   * Get the organizations a user belongs to, with their role in each
+   */
+  async getOrganizationsForUser(userId: string) {
+    const memberships = await prisma.organizationMember.findMany({
+      where: { userId, organization: { deletedAt: null } },
+      include: { organization: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return memberships.map(membership => ({
+      ...membership.organization,
+      role: membership.role,
+    }));
+  }
+
+  /**
+   * Get a user's membership in an organization.
+   * Non-members get a 404 so organization ids cannot be probed.
+   */
+  async getMembership(organizationId: string, userId: string) {
+    const membership = await prisma.organizationMember.findUnique({
+      where: { organizationId_userId: { organizationId, userId } },
+      include: { organization: true },
+    });
+
+    if (!membership || membership.organization.deletedAt) {
+      throw new NotFoundError('Organization', organizationId);
+    }
+
+    return membership;
+  }
+
+  /**
+   * Check whether a user belongs to an organization
+   */
+  async isMember(organizationId: string, userId: string): Promise<boolean> {
+    const count = await prisma.organizationMember.count({
+      where: { organizationId, userId, organization: { deletedAt: null } },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Ensure the user is a member with one of the given roles
+   */
+  async assertRole(organizationId: string, userId: string, roles: OrganizationRole[]) {
+    const membership = await this.getMembership(organizationId, userId);
+
+    if (!roles.includes(membership.role)) {
+      throw new ForbiddenError(`This action requires one of the roles: ${roles.join(', ')}`);
+    }
+
+    return membership;
+  }
+
+  /**
+   * Update organization settings
+   */
+  async updateOrganization(organizationId: string, userId: string, data: { name?: string }) {
+    await this.assertRole(organizationId, userId, ORGANIZATION_MANAGER_ROLES);
+
+    if (data.name !== undefined && !data.name.trim()) {
+      throw new ValidationError('name cannot be empty');
+    }
+
+    return prisma.organization.update({
+      where: { id: organizationId },
+      data: { name: data.name?.trim() },
+    });
+  }
+
+  /**
+   * Get the members of an organization
+   */
+  async listMembers(organizationId: string, userId: string) {
+    await this.getMembership(organizationId, userId);
+
+    return prisma.organizationMember.findMany({
+      where: { organizationId },
+      include: { user: true },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Add a member by email. Users who have not signed up yet are created
+   * and can sign in with a magic link.
+   */
+  async addMember(organizationId: string, actorId: string, data: AddMemberDto) {
+    const actor = await this.assertRole(organizationId, actorId, ORGANIZATION_MANAGER_ROLES);
+    const role = data.role ?? OrganizationRole.MEMBER;
+
+    if (role === OrganizationRole.OWNER && actor.role !== OrganizationRole.OWNER) {
+      throw new ForbiddenError('Only owners can add owners');
+    }
+
+    const user = await userService.getOrCreateUser({ email: data.email });
+
+    const existing = await prisma.organizationMember.findUnique({
+      where: { organizationId_userId: { organizationId, userId: user.id } },
+    });
+
+    if (existing) {
+      throw new ConflictError('User is already a member of this organization');
+    }
+
+    const member = await prisma.organizationMember.create({
+      data: { organizationId, userId: user.id, role },
+      include: { user: true },
+    });
+
+    logger.info('Organization member added', { organizationId, userId: user.id, role, actorId });
+
+    return member;
+  }
+
+  /**
+   * Change a member's role
+   */
+  async updateMemberRole(
+    organizationId: string,
+    actorId: string,
+    memberUserId: string,
+    role: OrganizationRole
+  ) {
+    const actor = await this.assertRole(organizationId, actorId, ORGANIZATION_MANAGER_ROLES);
+    const member = await this.getMembership(organizationId, memberUserId);
+
+    // Only owners can grant or take away ownership
+    if (
+      (role === OrganizationRole.OWNER || member.role === OrganizationRole.OWNER) &&
+      actor.role !== OrganizationRole.OWNER
+    ) {
+      throw new ForbiddenError('Only owners can change ownership');
+    }
+
+    if (member.role === OrganizationRole.OWNER && role !== OrganizationRole.OWNER) {
+      await this.assertAnotherOwner(organizationId, memberUserId);
+    }
+
+    return prisma.organizationMember.update({
+      where: { id: member.id },
+      data: { role },
+      include: { user: true },
+    });
+  }
+
+  /**
+   * Remove a member. Members can always remove themselves (leave).
+   */
+  async removeMember(organizationId: string, actorId: string, memberUserId: string) {
+    const member = await this.getMembership(organizationId, memberUserId);
+
+    if (actorId !== memberUserId) {
+      const actor = await this.assertRole(organizationId, actorId, ORGANIZATION_MANAGER_ROLES);
+      if (member.role === OrganizationRole.OWNER && actor.role !== OrganizationRole.OWNER) {
+        throw new ForbiddenError('Only owners can remove owners');
+      }
+    }
+
+    if (member.role === OrganizationRole.OWNER) {
+      await this.assertAnotherOwner(organizationId, memberUserId);
+    }
+
+    await prisma.organizationMember.delete({ where: { id: member.id } });
+
+    logger.info('Organization member removed', { organizationId, userId: memberUserId, actorId });
+  }
+
+  /**
+   * An organization must always keep at least one owner
+   */
+  private async assertAnotherOwner(organizationId: string, userId: string): Promise<void> {
+    const otherOwners = await prisma.organizationMember.count({
+      where: {
+        organizationId,
+        role: OrganizationRole.OWNER,
+        userId: { not: userId },
+      },
+    });
+
+    if (otherOwners === 0) {
+      throw new ValidationError('An organization must have at least one owner');
+    }
+  }
+}
+
+export const organizationService = new OrganizationService();
+export default organizationService;
@@ -0,0 +1,311 @@
+import { ethers } from 'ethers';
+import {
+  CryptoAsset,
+  CryptoPayment,
+  CryptoPaymentStatus,
+  OrderStatus,
+  Payment,
+  Prisma,
+} from '@prisma/client';
+import { prisma } from '../../common/database';
+import { config } from '../../config';
+import { logger, NotFoundError, PaymentError } from '../../common/utils';
+
+// ============================================
+// Crypto Payment Service
+// ============================================
+
+const MS_PER_MINUTE = 60 * 1000;
+
+const USDC_DECIMALS = 6;
+const NATIVE_DECIMALS = 18;
+
+// Cents are converted at micro-dollar precision
+const MICRO_USD_PER_CENT = 10n ** 4n;
+
+const ERC20_ABI = ['function balanceOf(address owner) view returns (uint256)'];
+
+// Payments still watched for incoming funds
+const OPEN_STATUSES: CryptoPaymentStatus[] = [
+  CryptoPaymentStatus.AWAITING_PAYMENT,
+  CryptoPaymentStatus.CONFIRMING,
+];
+
+export interface ICryptoAssetInfo {
+  asset: CryptoAsset;
+  symbol: string;
+  decimals: number;
+  // ERC-20 contract; null for the chain's native token
+  tokenAddress: string | null;
+  // USD price of one token
+  usdRate: string;
+}
+
+type CryptoPaymentWithOrder = CryptoPayment & {
+  payment: Payment & { order: { status: OrderStatus } };
+};
+
+export class CryptoPaymentService {
+  private provider: ethers.JsonRpcProvider | null = null;
+  private depositRoot: ethers.HDNodeWallet | ethers.HDNodeVoidWallet | null = null;
+
+  /**
+   * Whether crypto payments are configured
+   */
+  isEnabled(): boolean {
+    return config.crypto.enabled && this.getAssets().length > 0;
+  }
+
+  /**
+   * Get the assets payments are accepted in
+   */
+  getAssets(): ICryptoAssetInfo[] {
+    const assets: ICryptoAssetInfo[] = [];
+
+    if (config.crypto.usdcAddress) {
+      assets.push({
+        asset: CryptoAsset.USDC,
+        symbol: 'USDC',
+        decimals: USDC_DECIMALS,
+        tokenAddress: config.crypto.usdcAddress,
+        usdRate: '1',
+      });
+    }
+
+    if (config.crypto.nativeUsdPrice) {
+      assets.push({
+        asset: CryptoAsset.NATIVE,
+        symbol: config.crypto.nativeSymbol,
+        decimals: NATIVE_DECIMALS,
+        tokenAddress: null,
+        usdRate: String(config.crypto.nativeUsdPrice),
+      });
+    }
+
+    return assets;
+  }
+
+  /**
+   * Get an accepted asset, or undefined if payments are not accepted in it
+   */
+  getAsset(asset: CryptoAsset): ICryptoAssetInfo | undefined {
+    return this.getAssets().find(info => info.asset === asset);
+  }
+
+  /**
+   * Open an on-chain payment for a pending payment: the amount due is converted
+   * at the current rate and a deposit address of its own is derived for it
+   */
+  async createDeposit(
+    tx: Prisma.TransactionClient,
+    payment: Payment,
+    asset: CryptoAsset
+  ): Promise<CryptoPayment> {
+    const info = this.getAsset(asset);
+    if (!info) {
+      throw new PaymentError(`Crypto payments in ${asset} are not accepted`);
+    }
+
+    const created = await tx.cryptoPayment.create({
+      data: {
+        paymentId: payment.id,
+        asset,
+        chainId: config.crypto.chainId,
+        expectedAmount: this.toBaseUnits(payment.amountCents, info).toString(),
+        usdRate: info.usdRate,
+        expiresAt: new Date(Date.now() + config.crypto.ttlMinutes * MS_PER_MINUTE),
+      },
+    });
+
+    // Addresses are derived from the row's sequence, so no two payments share one
+    return tx.cryptoPayment.update({
+      where: { id: created.id },
+      data: { depositAddress: this.deriveDepositAddress(created.derivationIndex) },
+    });
+  }
+
+  /**
+   * Get the on-chain payment of a payment
+   */
+  async getCryptoPayment(paymentId: string): Promise<CryptoPayment & { payment: Payment }> {
+    const cryptoPayment = await prisma.cryptoPayment.findUnique({
+      where: { paymentId },
+      include: { payment: true },
+    });
+
+    if (!cryptoPayment) {
+      throw new NotFoundError('Crypto payment', paymentId);
+    }
+
+    return cryptoPayment;
+  }
+
+  /**
+   * Check the deposit addresses of open payments. Confirmed payments complete
+   * their order; payments not made in time cancel it.
+   */
+  async processPendingPayments(): Promise<void> {
+    const pending = await prisma.cryptoPayment.findMany({
+      where: { status: { in: OPEN_STATUSES } },
+      include: { payment: { include: { order: { select: { status: true } } } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    if (pending.length === 0) {
+      return;
+    }
+
+    const headBlock = await this.getProvider().getBlockNumber();
+
+    for (const cryptoPayment of pending) {
+      try {
+        await this.checkPayment(cryptoPayment, headBlock);
+      } catch (error) {
+        logger.error('Failed to check crypto payment', error, { cryptoPaymentId: cryptoPayment.id });
+      }
+    }
+  }
+
+  /**
+   * Format an amount in base units in whole tokens
+   */
+  formatAmount(amount: string, asset: CryptoAsset): string {
+    return ethers.formatUnits(amount, asset === CryptoAsset.USDC ? USDC_DECIMALS : NATIVE_DECIMALS);
+  }
+
+  private async checkPayment(cryptoPayment: CryptoPaymentWithOrder, headBlock: number): Promise<void> {
+    // The order was cancelled while waiting for the payment
+    if (cryptoPayment.payment.order.status !== OrderStatus.PENDING_PAYMENT) {
+      await this.close(cryptoPayment, CryptoPaymentStatus.EXPIRED);
+      return;
+    }
+
+    // Funds in a block this deep have the required confirmations
+    const confirmedBlock = headBlock - config.crypto.confirmations + 1;
+    const [received, confirmed] = await Promise.all([
+      this.getBalance(cryptoPayment, headBlock),
+      this.getBalance(cryptoPayment, confirmedBlock),
+    ]);
+
+    const expected = BigInt(cryptoPayment.expectedAmount);
+    const toleranceBasisPoints = BigInt(Math.round(config.crypto.underpaymentTolerancePercent * 100));
+    const minimum = expected - (expected * toleranceBasisPoints) / 10000n;
+
+    if (confirmed >= minimum) {
+      const { count } = await prisma.cryptoPayment.updateMany({
+        where: { id: cryptoPayment.id, status: { in: OPEN_STATUSES } },
+        data: {
+          status: CryptoPaymentStatus.CONFIRMED,
+          receivedAmount: confirmed.toString(),
+          confirmedAt: new Date(),
+        },
+      });
+
+      if (count === 0) {
+        return;
+      }
+
+      if (confirmed !== expected) {
+        // Differences are settled by staff: overpayments are refunded, accepted shortfalls written off
+        logger.warn('Crypto payment amount differs from the amount due', {
+          cryptoPaymentId: cryptoPayment.id,
+          expectedAmount: cryptoPayment.expectedAmount,
+          receivedAmount: confirmed.toString(),
+        });
+      }
+
+      // Import dynamically to avoid circular dependencies
+      const { paymentService } = await import('./payment.service');
+      await paymentService.completeCryptoPayment(cryptoPayment.paymentId);
+      return;
+    }
+
+    // Payments made in time are waited for until they are confirmed
+    if (received >= minimum || Date.now() < cryptoPayment.expiresAt.getTime()) {
+      if (received.toString() !== cryptoPayment.receivedAmount) {
+        await prisma.cryptoPayment.update({
+          where: { id: cryptoPayment.id },
+          data: {
+            status: received > 0n ? CryptoPaymentStatus.CONFIRMING : CryptoPaymentStatus.AWAITING_PAYMENT,
+            receivedAmount: received.toString(),
+          },
+        });
+      }
+      return;
+    }
+
+    if (received > 0n) {
+      // The partial payment stays on the deposit address for staff to refund
+      logger.warn('Crypto payment underpaid', {
+        cryptoPaymentId: cryptoPayment.id,
+        expectedAmount: cryptoPayment.expectedAmount,
+        receivedAmount: received.toString(),
+      });
+    }
+
+    await this.close(
+      { ...cryptoPayment, receivedAmount: received.toString() },
+      received > 0n ? CryptoPaymentStatus.UNDERPAID : CryptoPaymentStatus.EXPIRED
+    );
+  }
+
+  /**
+   * Stop watching a payment and cancel its order if it is still waiting for it
+   */
+  private async close(cryptoPayment: CryptoPaymentWithOrder, status: CryptoPaymentStatus): Promise<void> {
+    const { count } = await prisma.cryptoPayment.updateMany({
+      where: { id: cryptoPayment.id, status: { in: OPEN_STATUSES } },
+      data: { status, receivedAmount: cryptoPayment.receivedAmount },
+    });
+
+    if (count === 0 || cryptoPayment.payment.order.status !== OrderStatus.PENDING_PAYMENT) {
+      return;
+    }
+
+    // Import dynamically to avoid circular dependencies
+    const { paymentService } = await import('./payment.service');
+    await paymentService.cancelCryptoPayment(
+      cryptoPayment.paymentId,
+      status === CryptoPaymentStatus.UNDERPAID ? 'Crypto payment underpaid' : 'Crypto payment expired'
+    );
+  }
+
+  private async getBalance(cryptoPayment: CryptoPayment, blockTag: number): Promise<bigint> {
+    const provider = this.getProvider();
+
+    if (cryptoPayment.asset === CryptoAsset.NATIVE) {
+      return provider.getBalance(cryptoPayment.depositAddress!, blockTag);
+    }
+
+    const token = new ethers.Contract(config.crypto.usdcAddress!, ERC20_ABI, provider);
+    return token.balanceOf(cryptoPayment.depositAddress!, { blockTag });
+  }
+
+  /**
+   * Convert cents to the asset's base units, rounding up so the amount due is always covered
+   */
+  private toBaseUnits(amountCents: number, info: ICryptoAssetInfo): bigint {
+    const microUsd = BigInt(amountCents) * MICRO_USD_PER_CENT;
+    const microUsdPerToken = BigInt(Math.round(Number(info.usdRate) * 1e6));
+    const unitsPerToken = 10n ** BigInt(info.decimals);
+
+    return (microUsd * unitsPerToken + microUsdPerToken - 1n) / microUsdPerToken;
+  }
+
+  private deriveDepositAddress(index: number): string {
+    if (!this.depositRoot) {
+      this.depositRoot = ethers.HDNodeWallet.fromExtendedKey(config.crypto.depositXpub!);
+    }
+    return this.depositRoot.deriveChild(index).address;
+  }
+
+  private getProvider(): ethers.JsonRpcProvider {
+    if (!this.provider) {
+      this.provider = new ethers.JsonRpcProvider(config.crypto.rpcUrl, Number(config.crypto.chainId));
+    }
+    return this.provider;
+  }
+}
+
+export const cryptoPaymentService = new CryptoPaymentService();
+export default cryptoPaymentService;
@@ -0,0 +1,71 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { formatPrice, NotFoundError } from '../../common/utils';
+import { paymentGateway, FakeGateway } from './gateways';
+
+// ============================================
+// Fake Gateway Controller
+// ============================================
+
+// Hosted checkout page of the fake payment gateway, in place of Stripe's
+const router = Router();
+
+function getFakeGateway(): FakeGateway {
+  if (!(paymentGateway instanceof FakeGateway)) {
+    throw new NotFoundError('Fake payment gateway');
+  }
+  return paymentGateway;
+}
+
+/**
+ * GET /fake-gateway/checkout/:sessionId
+ * Show a checkout session with buttons to pay or abandon it
+ */
+router.get('/checkout/:sessionId', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { session, lineItems, intervalDays, taxLabel } = getFakeGateway().getCheckout(req.params.sessionId);
+    const currency = (session.currency ?? 'usd').toUpperCase();
+
+    res.render('fake-checkout', {
+      title: 'Checkout - Fake Payment Gateway',
+      session,
+      intervalDays,
+      lineItems: lineItems.map(item => ({
+        ...item,
+        amount: formatPrice(item.unitAmount * item.quantity, currency),
+      })),
+      discount: formatPrice((session.amount_subtotal ?? 0) - (session.amount_total ?? 0), currency),
+      total: formatPrice(session.amount_total ?? 0, currency),
+      taxLabel,
+      tax: formatPrice(session.total_details?.amount_tax ?? 0, currency),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /fake-gateway/checkout/:sessionId/pay
+ * Pay the session and return to the shop
+ */
+router.post('/checkout/:sessionId/pay', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.redirect(await getFakeGateway().completeCheckout(req.params.sessionId));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /fake-gateway/checkout/:sessionId/cancel
+ * Abandon the session and return to the shop
+ */
+router.post('/checkout/:sessionId/cancel', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.redirect(await getFakeGateway().expireCheckout(req.params.sessionId));
+  } catch (error) {
+    next(error);
+  }
+});
+
+export const fakeGatewayController = router;
+export default fakeGatewayController;
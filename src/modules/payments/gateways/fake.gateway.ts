@@ -0,0 +1,484 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import Stripe from 'stripe';
+import { config } from '../../../config';
+import { IPaymentGateway } from '../../../common/interfaces';
+import { logger, NotFoundError, ValidationError } from '../../../common/utils';
+
+// ============================================
+// Fake Gateway
+// ============================================
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+// Sessions created without expires_at stay open as long as Stripe's do
+const DEFAULT_SESSION_TTL_SECONDS = SECONDS_PER_DAY;
+
+// Signed webhooks older than this are rejected, as Stripe's library does
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export interface IFakeLineItem {
+  name: string;
+  description: string | null;
+  unitAmount: number;
+  quantity: number;
+}
+
+export interface IFakeCheckout {
+  session: Stripe.Checkout.Session;
+  lineItems: IFakeLineItem[];
+  // Billing interval of subscription checkouts
+  intervalDays: number | null;
+  // Tax included in the total, e.g. "VAT 19%"
+  taxLabel: string | null;
+  subscriptionMetadata: Record<string, string>;
+}
+
+const now = (): number => Math.floor(Date.now() / 1000);
+
+/**
+ * Local stand-in for Stripe, for development and tests without network access.
+ * Objects are kept in memory. Checkout sessions are paid on the gateway's own
+ * hosted page, and the outcome is delivered as a signed webhook to the
+ * payment webhook endpoint, so orders go through the same flow as with Stripe.
+ */
+export class FakeGateway implements IPaymentGateway {
+  readonly name = 'fake';
+  readonly publishableKey = null;
+
+  private checkouts = new Map<string, IFakeCheckout>();
+  private coupons = new Map<string, Stripe.CouponCreateParams>();
+  private taxRates = new Map<string, Stripe.TaxRateCreateParams>();
+  private subscriptions = new Map<string, Stripe.Subscription>();
+  private invoices = new Map<string, Stripe.Invoice>();
+  private charges = new Map<string, Stripe.Charge>();
+  private refunds = new Map<string, Stripe.Refund>();
+  // Refund ids by idempotency key
+  private refundKeys = new Map<string, string>();
+
+  async createCustomer(): Promise<{ id: string }> {
+    return { id: this.generateId('cus') };
+  }
+
+  async createCoupon(params: Stripe.CouponCreateParams): Promise<{ id: string }> {
+    const id = this.generateId('coupon');
+    this.coupons.set(id, params);
+    return { id };
+  }
+
+  async createTaxRate(params: Stripe.TaxRateCreateParams): Promise<{ id: string }> {
+    // Prices include tax, so nothing adds it on top
+    if (!params.inclusive) {
+      throw new ValidationError('The fake gateway only supports inclusive tax rates');
+    }
+
+    const id = this.generateId('txr');
+    this.taxRates.set(id, params);
+    return { id };
+  }
+
+  async createCheckoutSession(params: Stripe.Checkout.SessionCreateParams): Promise<Stripe.Checkout.Session> {
+    const id = this.generateId('cs');
+    const lineItems = (params.line_items ?? []).map(item => ({
+      name: item.price_data?.product_data?.name ?? 'Item',
+      description: item.price_data?.product_data?.description ?? null,
+      unitAmount: item.price_data?.unit_amount ?? 0,
+      quantity: item.quantity ?? 1,
+    }));
+
+    const subtotal = lineItems.reduce((sum, item) => sum + item.unitAmount * item.quantity, 0);
+    const couponId = params.discounts?.[0]?.coupon;
+    const discount = couponId ? this.couponDiscount(couponId, subtotal) : 0;
+    const recurring = params.line_items?.[0]?.price_data?.recurring;
+
+    // Tax is worked out on each line's share of the discounted total
+    let tax = 0;
+    let taxLabel: string | null = null;
+    for (const [index, item] of (params.line_items ?? []).entries()) {
+      const taxRateId = item.tax_rates?.[0];
+      if (!taxRateId || subtotal === 0) {
+        continue;
+      }
+
+      const taxRate = this.find(this.taxRates, 'Tax rate', taxRateId);
+      const lineTotal = lineItems[index].unitAmount * lineItems[index].quantity * (subtotal - discount) / subtotal;
+      tax += Math.round(lineTotal * taxRate.percentage / (100 + taxRate.percentage));
+      taxLabel = `${taxRate.display_name} ${taxRate.percentage}%`;
+    }
+
+    const session = {
+      id,
+      object: 'checkout.session',
+      mode: params.mode ?? 'payment',
+      status: 'open',
+      payment_status: 'unpaid',
+      customer: params.customer ?? null,
+      currency: params.line_items?.[0]?.price_data?.currency ?? 'usd',
+      amount_subtotal: subtotal,
+      amount_total: Math.max(subtotal - discount, 0),
+      total_details: { amount_discount: discount, amount_shipping: 0, amount_tax: tax },
+      metadata: params.metadata ?? {},
+      payment_intent: null,
+      subscription: null,
+      invoice: null,
+      success_url: params.success_url ?? null,
+      cancel_url: params.cancel_url ?? null,
+      url: `${config.app.baseUrl}/fake-gateway/checkout/${id}`,
+      created: now(),
+      expires_at: params.expires_at ?? now() + DEFAULT_SESSION_TTL_SECONDS,
+      livemode: false,
+    } as unknown as Stripe.Checkout.Session;
+
+    this.checkouts.set(id, {
+      session,
+      lineItems,
+      intervalDays: recurring ? (recurring.interval_count ?? 1) : null,
+      taxLabel,
+      subscriptionMetadata: (params.subscription_data?.metadata ?? {}) as Record<string, string>,
+    });
+
+    return session;
+  }
+
+  async retrieveCheckoutSession(sessionId: string): Promise<Stripe.Checkout.Session> {
+    const { session } = this.getCheckout(sessionId);
+
+    // Report sessions past their expiry as expired, as Stripe does
+    if (session.status === 'open' && session.expires_at < now()) {
+      session.status = 'expired';
+      this.deliverInBackground('checkout.session.expired', session);
+    }
+
+    return session;
+  }
+
+  async expireCheckoutSession(sessionId: string): Promise<Stripe.Checkout.Session> {
+    const session = await this.retrieveCheckoutSession(sessionId);
+
+    if (session.status !== 'open') {
+      throw new ValidationError(`Checkout session ${sessionId} is ${session.status} and cannot be expired`);
+    }
+
+    session.status = 'expired';
+    this.deliverInBackground('checkout.session.expired', session);
+
+    return session;
+  }
+
+  async retrieveSubscription(subscriptionId: string): Promise<Stripe.Subscription> {
+    return this.find(this.subscriptions, 'Subscription', subscriptionId);
+  }
+
+  async updateSubscription(subscriptionId: string, params: Stripe.SubscriptionUpdateParams): Promise<Stripe.Subscription> {
+    const subscription = this.find(this.subscriptions, 'Subscription', subscriptionId);
+
+    if (params.cancel_at_period_end !== undefined) {
+      subscription.cancel_at_period_end = params.cancel_at_period_end;
+    }
+
+    return subscription;
+  }
+
+  async cancelSubscription(subscriptionId: string): Promise<Stripe.Subscription> {
+    const subscription = this.find(this.subscriptions, 'Subscription', subscriptionId);
+    subscription.status = 'canceled';
+    subscription.canceled_at = now();
+
+    this.deliverInBackground('customer.subscription.deleted', subscription);
+
+    return subscription;
+  }
+
+  async retrieveInvoice(invoiceId: string): Promise<Stripe.Invoice> {
+    return this.find(this.invoices, 'Invoice', invoiceId);
+  }
+
+  async retrieveCharge(chargeId: string): Promise<Stripe.Charge> {
+    return this.find(this.charges, 'Charge', chargeId);
+  }
+
+  async retrievePaymentIntent(paymentIntentId: string): Promise<Stripe.PaymentIntent> {
+    // Payment intents are only kept as the id on their charge, which always succeeded
+    const charge = Array.from(this.charges.values()).find(candidate => candidate.payment_intent === paymentIntentId);
+    if (!charge) {
+      throw new NotFoundError('Payment intent', paymentIntentId);
+    }
+
+    return {
+      id: paymentIntentId,
+      object: 'payment_intent',
+      amount: charge.amount,
+      amount_received: charge.amount,
+      currency: charge.currency,
+      customer: charge.customer,
+      latest_charge: charge.id,
+      last_payment_error: null,
+      metadata: {},
+      status: 'succeeded',
+      created: charge.created,
+      livemode: false,
+    } as unknown as Stripe.PaymentIntent;
+  }
+
+  async createRefund(params: Stripe.RefundCreateParams, idempotencyKey: string): Promise<Stripe.Refund> {
+    const existingId = this.refundKeys.get(idempotencyKey);
+    if (existingId) {
+      return this.refunds.get(existingId)!;
+    }
+
+    const charge = Array.from(this.charges.values()).find(
+      candidate => candidate.id === params.charge || candidate.payment_intent === params.payment_intent
+    );
+    if (!charge) {
+      throw new NotFoundError('Charge', (params.charge ?? params.payment_intent) as string);
+    }
+
+    const refundable = charge.amount - charge.amount_refunded;
+    const amount = params.amount ?? refundable;
+    if (amount > refundable) {
+      throw new ValidationError('Refund exceeds the unrefunded amount of the charge');
+    }
+
+    const refund = {
+      id: this.generateId('re'),
+      object: 'refund',
+      amount,
+      charge: charge.id,
+      payment_intent: charge.payment_intent,
+      currency: charge.currency,
+      reason: params.reason ?? null,
+      metadata: params.metadata ?? {},
+      status: 'succeeded',
+      created: now(),
+    } as unknown as Stripe.Refund;
+
+    this.refunds.set(refund.id, refund);
+    this.refundKeys.set(idempotencyKey, refund.id);
+
+    charge.amount_refunded += amount;
+    charge.refunded = charge.amount_refunded >= charge.amount;
+
+    this.deliverInBackground('charge.refunded', charge);
+
+    return refund;
+  }
+
+  async listRefunds(chargeId: string): Promise<Stripe.Refund[]> {
+    return Array.from(this.refunds.values()).filter(refund => refund.charge === chargeId);
+  }
+
+  constructWebhookEvent(payload: string | Buffer, signature: string): Stripe.Event {
+    const parts = new Map(
+      signature.split(',').map(part => part.split('=', 2) as [string, string])
+    );
+    const timestamp = Number(parts.get('t'));
+    const expected = Buffer.from(this.sign(timestamp, payload.toString()), 'hex');
+    const given = Buffer.from(parts.get('v1') ?? '', 'hex');
+
+    if (!timestamp || given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+      throw new ValidationError('Webhook signature does not match the payload');
+    }
+
+    if (Math.abs(now() - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+      throw new ValidationError('Webhook timestamp is outside the tolerance');
+    }
+
+    return JSON.parse(payload.toString()) as Stripe.Event;
+  }
+
+  // ============================================
+  // Hosted Checkout
+  // ============================================
+
+  /**
+   * Get a checkout session with its line items, for the hosted checkout page
+   */
+  getCheckout(sessionId: string): IFakeCheckout {
+    return this.find(this.checkouts, 'Checkout session', sessionId);
+  }
+
+  /**
+   * Pay an open checkout session, as a customer entering a card on Stripe's
+   * page would. Returns the URL to send the customer to.
+   */
+  async completeCheckout(sessionId: string): Promise<string> {
+    const checkout = await this.getOpenCheckout(sessionId);
+    const { session } = checkout;
+
+    const paymentIntentId = this.generateId('pi');
+    const charge = {
+      id: this.generateId('ch'),
+      object: 'charge',
+      amount: session.amount_total ?? 0,
+      amount_refunded: 0,
+      refunded: false,
+      currency: session.currency,
+      customer: session.customer,
+      payment_intent: paymentIntentId,
+      invoice: null,
+      status: 'succeeded',
+      created: now(),
+    } as unknown as Stripe.Charge;
+    this.charges.set(charge.id, charge);
+
+    if (checkout.intervalDays) {
+      // Subscriptions are paid through their first invoice
+      const subscription = {
+        id: this.generateId('sub'),
+        object: 'subscription',
+        status: 'active',
+        customer: session.customer,
+        metadata: checkout.subscriptionMetadata,
+        cancel_at_period_end: false,
+        canceled_at: null,
+        current_period_start: now(),
+        current_period_end: now() + checkout.intervalDays * SECONDS_PER_DAY,
+        created: now(),
+      } as unknown as Stripe.Subscription;
+
+      const invoice = {
+        id: this.generateId('in'),
+        object: 'invoice',
+        status: 'paid',
+        billing_reason: 'subscription_create',
+        customer: session.customer,
+        subscription: subscription.id,
+        payment_intent: paymentIntentId,
+        charge: charge.id,
+        amount_paid: charge.amount,
+        created: now(),
+      } as unknown as Stripe.Invoice;
+
+      this.subscriptions.set(subscription.id, subscription);
+      this.invoices.set(invoice.id, invoice);
+      charge.invoice = invoice.id;
+      session.subscription = subscription.id;
+      session.invoice = invoice.id;
+    } else {
+      session.payment_intent = paymentIntentId;
+    }
+
+    session.status = 'complete';
+    session.payment_status = 'paid';
+
+    await this.deliver('checkout.session.completed', session);
+
+    return (session.success_url ?? config.app.frontendUrl).replace('{CHECKOUT_SESSION_ID}', session.id);
+  }
+
+  /**
+   * Abandon an open checkout session, as Stripe does when it expires.
+   * Returns the URL to send the customer to.
+   */
+  async expireCheckout(sessionId: string): Promise<string> {
+    const { session } = await this.getOpenCheckout(sessionId);
+    session.status = 'expired';
+
+    await this.deliver('checkout.session.expired', session);
+
+    return session.cancel_url ?? config.app.frontendUrl;
+  }
+
+  private async getOpenCheckout(sessionId: string): Promise<IFakeCheckout> {
+    const checkout = this.getCheckout(sessionId);
+
+    // Sessions expire when they are next used rather than on a timer
+    if (checkout.session.status === 'open' && checkout.session.expires_at < now()) {
+      checkout.session.status = 'expired';
+      await this.deliver('checkout.session.expired', checkout.session);
+    }
+
+    if (checkout.session.status !== 'open') {
+      throw new ValidationError(`Checkout session is ${checkout.session.status}`);
+    }
+
+    return checkout;
+  }
+
+  // ============================================
+  // Webhooks
+  // ============================================
+
+  /**
+   * Send a signed event to the webhook endpoint. Failed deliveries are only
+   * logged; the stored event can be replayed from the webhook event API.
+   */
+  private async deliver(type: string, object: unknown): Promise<void> {
+    const event = {
+      id: this.generateId('evt'),
+      object: 'event',
+      api_version: '2024-11-20.acacia',
+      created: now(),
+      livemode: false,
+      type,
+      data: { object },
+    };
+
+    const payload = JSON.stringify(event);
+    const timestamp = now();
+
+    try {
+      await axios.post(config.payments.fake.webhookUrl, payload, {
+        headers: {
+          'Content-Type': 'application/json',
+          'stripe-signature': `t=${timestamp},v1=${this.sign(timestamp, payload)}`,
+        },
+        timeout: 30000,
+      });
+
+      logger.debug('Fake gateway webhook delivered', { eventId: event.id, type });
+    } catch (error) {
+      logger.error('Fake gateway webhook delivery failed', {
+        eventId: event.id,
+        type,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Deliver an event after the current call returns, as Stripe does for
+   * events caused by API calls
+   */
+  private deliverInBackground(type: string, object: unknown): void {
+    setImmediate(() => {
+      this.deliver(type, object);
+    });
+  }
+
+  private sign(timestamp: number, payload: string): string {
+    return crypto
+      .createHmac('sha256', config.payments.fake.webhookSecret)
+      .update(`${timestamp}.${payload}`)
+      .digest('hex');
+  }
+
+  // ============================================
+  // Helpers
+  // ============================================
+
+  private couponDiscount(couponId: string, subtotal: number): number {
+    const coupon = this.coupons.get(couponId);
+    if (!coupon) {
+      throw new NotFoundError('Coupon', couponId);
+    }
+
+    if (coupon.amount_off) {
+      return Math.min(coupon.amount_off, subtotal);
+    }
+
+    return Math.round(subtotal * (coupon.percent_off ?? 0) / 100);
+  }
+
+  private find<T>(objects: Map<string, T>, resource: string, id: string): T {
+    const object = objects.get(id);
+    if (!object) {
+      throw new NotFoundError(resource, id);
+    }
+    return object;
+  }
+
+  private generateId(prefix: string): string {
+    return `${prefix}_fake_${crypto.randomBytes(12).toString('hex')}`;
+  }
+}
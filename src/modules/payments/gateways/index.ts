@@ -0,0 +1,15 @@
+import { config } from '../../../config';
+import { IPaymentGateway } from '../../../common/interfaces';
+import { FakeGateway } from './fake.gateway';
+import { StripeGateway } from './stripe.gateway';
+
+// ============================================
+// Payment Gateway
+// ============================================
+
+export const paymentGateway: IPaymentGateway = config.payments.gateway === 'fake'
+  ? new FakeGateway()
+  : new StripeGateway();
+
+export { FakeGateway, StripeGateway };
+export default paymentGateway;
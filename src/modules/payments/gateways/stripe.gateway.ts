@@ -0,0 +1,83 @@
+import Stripe from 'stripe';
+import { config } from '../../../config';
+import { IPaymentGateway } from '../../../common/interfaces';
+
+// ============================================
+// Stripe Gateway
+// ============================================
+
+export class StripeGateway implements IPaymentGateway {
+  readonly name = 'stripe';
+  readonly publishableKey: string;
+
+  private stripe: Stripe;
+
+  constructor() {
+    // Config validation requires the Stripe keys when this gateway is selected
+    this.stripe = new Stripe(config.stripe.secretKey!, {
+      apiVersion: '2024-11-20.acacia',
+    });
+    this.publishableKey = config.stripe.publishableKey!;
+  }
+
+  async createCustomer(params: Stripe.CustomerCreateParams): Promise<{ id: string }> {
+    return this.stripe.customers.create(params);
+  }
+
+  async createCoupon(params: Stripe.CouponCreateParams): Promise<{ id: string }> {
+    return this.stripe.coupons.create(params);
+  }
+
+  async createTaxRate(params: Stripe.TaxRateCreateParams): Promise<{ id: string }> {
+    return this.stripe.taxRates.create(params);
+  }
+
+  async createCheckoutSession(params: Stripe.Checkout.SessionCreateParams): Promise<Stripe.Checkout.Session> {
+    return this.stripe.checkout.sessions.create(params);
+  }
+
+  async retrieveCheckoutSession(sessionId: string): Promise<Stripe.Checkout.Session> {
+    return this.stripe.checkout.sessions.retrieve(sessionId);
+  }
+
+  async expireCheckoutSession(sessionId: string): Promise<Stripe.Checkout.Session> {
+    return this.stripe.checkout.sessions.expire(sessionId);
+  }
+
+  async retrieveSubscription(subscriptionId: string): Promise<Stripe.Subscription> {
+    return this.stripe.subscriptions.retrieve(subscriptionId);
+  }
+
+  async updateSubscription(subscriptionId: string, params: Stripe.SubscriptionUpdateParams): Promise<Stripe.Subscription> {
+    return this.stripe.subscriptions.update(subscriptionId, params);
+  }
+
+  async cancelSubscription(subscriptionId: string): Promise<Stripe.Subscription> {
+    return this.stripe.subscriptions.cancel(subscriptionId);
+  }
+
+  async retrieveInvoice(invoiceId: string): Promise<Stripe.Invoice> {
+    return this.stripe.invoices.retrieve(invoiceId);
+  }
+
+  async retrieveCharge(chargeId: string): Promise<Stripe.Charge> {
+    return this.stripe.charges.retrieve(chargeId);
+  }
+
+  async retrievePaymentIntent(paymentIntentId: string): Promise<Stripe.PaymentIntent> {
+    return this.stripe.paymentIntents.retrieve(paymentIntentId);
+  }
+
+  async createRefund(params: Stripe.RefundCreateParams, idempotencyKey: string): Promise<Stripe.Refund> {
+    return this.stripe.refunds.create(params, { idempotencyKey });
+  }
+
+  async listRefunds(chargeId: string): Promise<Stripe.Refund[]> {
+    const refunds = await this.stripe.refunds.list({ charge: chargeId, limit: 100 });
+    return refunds.data;
+  }
+
+  constructWebhookEvent(payload: string | Buffer, signature: string): Stripe.Event {
+    return this.stripe.webhooks.constructEvent(payload, signature, config.stripe.webhookSecret!);
+  }
+}
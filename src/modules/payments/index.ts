@@ -1,2 +1,8 @@
 export * from './payment.service';
-export * from './payment.controller';
\ No newline at end of file
+export * from './refund.service';
+export * from './crypto-payment.service';
+export * from './webhook-event.service';
+export * from './reconciliation.service';
+export * from './gateways';
+export * from './payment.controller';
+export * from './fake-gateway.controller';
\ No newline at end of file
@@ -1,9 +1,24 @@
 import { Router, Request, Response, NextFunction } from 'express';
+import { CryptoAsset, ReconciliationRun, WebhookEvent, WebhookEventStatus } from '@prisma/client';
 import { paymentService } from './payment.service';
+import { cryptoPaymentService } from './crypto-payment.service';
+import { webhookEventService } from './webhook-event.service';
+import { reconciliationService } from './reconciliation.service';
+import { paymentGateway } from './gateways';
 import { IApiResponse } from '../../common/interfaces';
 import { ValidationError } from '../../common/utils/errors';
+import { parsePagination } from '../../common/utils/helpers';
 import { logger } from '../../common/utils/logger';
 import { config } from '../../config';
+import {
+  assertSelf,
+  getAuthUser,
+  requireAuth,
+  requirePermission,
+  requireScope,
+} from '../../middleware/auth.middleware';
+import { ApiKeyScopes, Permissions } from '../auth/permissions';
+import { organizationService } from '../organizations/organization.service';
 
 // ============================================
 // Payment Controller
@@ -11,20 +26,103 @@ import { config } from '../../config';
 
 const router = Router();
 
+function toWebhookEventResponse(event: WebhookEvent, includePayload = false) {
+  return {
+    id: event.id,
+    eventId: event.eventId,
+    type: event.type,
+    status: event.status,
+    attempts: event.attempts,
+    lastError: event.lastError,
+    processedAt: event.processedAt,
+    createdAt: event.createdAt,
+    updatedAt: event.updatedAt,
+    ...(includePayload && { payload: event.payload }),
+  };
+}
+
+function toReconciliationRunResponse(run: ReconciliationRun, includeFindings = false) {
+  return {
+    id: run.id,
+    status: run.status,
+    triggeredById: run.triggeredById,
+    checkedCount: run.checkedCount,
+    repairedCount: run.repairedCount,
+    unresolvedCount: run.unresolvedCount,
+    error: run.error,
+    startedAt: run.startedAt,
+    finishedAt: run.finishedAt,
+    ...(includeFindings && { findings: run.findings }),
+  };
+}
+
 /**
  * POST /api/payments/checkout
- * Create a Stripe checkout session
+ * Create a Stripe checkout session for the authenticated user
  */
-router.post('/checkout', async (req: Request, res: Response, next: NextFunction) => {
+router.post('/checkout', requireAuth, requireScope(ApiKeyScopes.PAYMENTS_WRITE), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { userId, planId, idempotencyKey } = req.body;
+    const user = getAuthUser(req);
+    const {
+      planId,
+      quoteId,
+      providerSlug,
+      storageSizeGb,
+      durationDays,
+      couponCode,
+      voucherCode,
+      idempotencyKey,
+      walletAddress,
+      autoRenew,
+      allowProviderFallback,
+      useCredit,
+      currency,
+      billingCountry,
+      billingRegion,
+      vatId,
+    } = req.body;
+    // Organization keys always buy for their organization
+    const organizationId: string | undefined = req.apiKey?.organizationId || req.body.organizationId;
 
     // Validation
-    if (!userId) {
-      throw new ValidationError('userId is required');
+    if (providerSlug !== undefined) {
+      if (planId || quoteId) {
+        throw new ValidationError('Custom-size orders cannot have a planId or quoteId');
+      }
+      if (typeof storageSizeGb !== 'number' || typeof durationDays !== 'number') {
+        throw new ValidationError('storageSizeGb and durationDays are required for custom-size orders');
+      }
+    } else if (!planId && !quoteId) {
+      throw new ValidationError('planId, quoteId or providerSlug is required');
     }
-    if (!planId) {
-      throw new ValidationError('planId is required');
+
+    if ((couponCode !== undefined && typeof couponCode !== 'string')
+      || (voucherCode !== undefined && typeof voucherCode !== 'string')) {
+      throw new ValidationError('couponCode and voucherCode must be strings');
+    }
+
+    if (autoRenew !== undefined && typeof autoRenew !== 'boolean') {
+      throw new ValidationError('autoRenew must be a boolean');
+    }
+
+    if (allowProviderFallback !== undefined && typeof allowProviderFallback !== 'boolean') {
+      throw new ValidationError('allowProviderFallback must be a boolean');
+    }
+
+    if (useCredit !== undefined && typeof useCredit !== 'boolean') {
+      throw new ValidationError('useCredit must be a boolean');
+    }
+
+    if (currency !== undefined && typeof currency !== 'string') {
+      throw new ValidationError('currency must be a string');
+    }
+
+    if ([billingCountry, billingRegion, vatId].some(value => value !== undefined && typeof value !== 'string')) {
+      throw new ValidationError('billingCountry, billingRegion and vatId must be strings');
+    }
+
+    if (organizationId) {
+      await organizationService.getMembership(organizationId, user.id);
     }
 
     const baseUrl = config.app.frontendUrl;
@@ -32,11 +130,24 @@ router.post('/checkout', async (req: Request, res: Response, next: NextFunction)
     const cancelUrl = `${baseUrl}/orders/cancel`;
 
     const result = await paymentService.createCheckoutSession({
-      userId,
+      userId: user.id,
       planId,
+      quoteId,
+      custom: providerSlug !== undefined
+        ? { providerSlug, storageSizeGb, durationDays }
+        : undefined,
+      couponCode,
+      voucherCode,
       successUrl,
       cancelUrl,
       idempotencyKey,
+      autoRenew,
+      allowProviderFallback,
+      walletAddress,
+      organizationId,
+      useCredit,
+      currency,
+      billing: { country: billingCountry, region: billingRegion, vatId },
     });
 
     if (result.success) {
@@ -61,6 +172,116 @@ router.post('/checkout', async (req: Request, res: Response, next: NextFunction)
   }
 });
 
+/**
+ * GET /api/payments/crypto/assets
+ * List the assets crypto payments are accepted in
+ */
+router.get('/crypto/assets', (req: Request, res: Response) => {
+  const response: IApiResponse = {
+    success: true,
+    data: {
+      enabled: cryptoPaymentService.isEnabled(),
+      chainId: config.crypto.chainId,
+      assets: cryptoPaymentService.isEnabled() ? cryptoPaymentService.getAssets() : [],
+    },
+  };
+  res.json(response);
+});
+
+/**
+ * POST /api/payments/crypto/checkout
+ * Create an order paid in crypto to a deposit address of its own
+ */
+router.post('/crypto/checkout', requireAuth, requireScope(ApiKeyScopes.PAYMENTS_WRITE), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getAuthUser(req);
+    const {
+      asset,
+      planId,
+      quoteId,
+      providerSlug,
+      storageSizeGb,
+      durationDays,
+      couponCode,
+      voucherCode,
+      idempotencyKey,
+      walletAddress,
+      allowProviderFallback,
+      billingCountry,
+      billingRegion,
+      vatId,
+    } = req.body;
+    // Organization keys always buy for their organization
+    const organizationId: string | undefined = req.apiKey?.organizationId || req.body.organizationId;
+
+    // Validation
+    if (!Object.values(CryptoAsset).includes(asset)) {
+      throw new ValidationError(`asset must be one of: ${Object.values(CryptoAsset).join(', ')}`);
+    }
+
+    if (providerSlug !== undefined) {
+      if (planId || quoteId) {
+        throw new ValidationError('Custom-size orders cannot have a planId or quoteId');
+      }
+      if (typeof storageSizeGb !== 'number' || typeof durationDays !== 'number') {
+        throw new ValidationError('storageSizeGb and durationDays are required for custom-size orders');
+      }
+    } else if (!planId && !quoteId) {
+      throw new ValidationError('planId, quoteId or providerSlug is required');
+    }
+
+    if ((couponCode !== undefined && typeof couponCode !== 'string')
+      || (voucherCode !== undefined && typeof voucherCode !== 'string')) {
+      throw new ValidationError('couponCode and voucherCode must be strings');
+    }
+
+    if (allowProviderFallback !== undefined && typeof allowProviderFallback !== 'boolean') {
+      throw new ValidationError('allowProviderFallback must be a boolean');
+    }
+
+    if ([billingCountry, billingRegion, vatId].some(value => value !== undefined && typeof value !== 'string')) {
+      throw new ValidationError('billingCountry, billingRegion and vatId must be strings');
+    }
+
+    if (organizationId) {
+      await organizationService.getMembership(organizationId, user.id);
+    }
+
+    const result = await paymentService.createCryptoCheckout({
+      userId: user.id,
+      asset,
+      planId,
+      quoteId,
+      custom: providerSlug !== undefined
+        ? { providerSlug, storageSizeGb, durationDays }
+        : undefined,
+      couponCode,
+      voucherCode,
+      idempotencyKey,
+      allowProviderFallback,
+      walletAddress,
+      organizationId,
+      billing: { country: billingCountry, region: billingRegion, vatId },
+    });
+
+    if (result.success) {
+      const response: IApiResponse = {
+        success: true,
+        data: result.data,
+      };
+      res.json(response);
+    } else {
+      const response: IApiResponse = {
+        success: false,
+        error: result.error,
+      };
+      res.status(400).json(response);
+    }
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * POST /api/payments/webhook
  * Handle Stripe webhook events
@@ -95,16 +316,227 @@ router.post(
   }
 );
 
+/**
+ * GET /api/payments/webhook-events
+ * List stored Stripe webhook events, optionally by status or type (staff only)
+ */
+router.get('/webhook-events', requirePermission(Permissions.WEBHOOKS_MANAGE), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { status, type } = req.query;
+
+    if (status && !Object.values(WebhookEventStatus).includes(status as WebhookEventStatus)) {
+      throw new ValidationError(`status must be one of: ${Object.values(WebhookEventStatus).join(', ')}`);
+    }
+
+    const pagination = parsePagination(req.query);
+
+    const { events, total } = await webhookEventService.listEvents(
+      {
+        status: status as WebhookEventStatus | undefined,
+        type: type as string | undefined,
+      },
+      pagination
+    );
+
+    const response: IApiResponse = {
+      success: true,
+      data: events.map(event => toWebhookEventResponse(event)),
+      meta: {
+        page: pagination.page,
+        pageSize: pagination.pageSize,
+        total,
+        totalPages: Math.ceil(total / pagination.pageSize),
+      },
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/payments/webhook-events/:id
+ * Get a stored webhook event with its payload (staff only)
+ */
+router.get('/webhook-events/:id', requirePermission(Permissions.WEBHOOKS_MANAGE), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const event = await webhookEventService.getEvent(req.params.id);
+
+    const response: IApiResponse = {
+      success: true,
+      data: toWebhookEventResponse(event, true),
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/payments/webhook-events/:id/replay
+ * Process a failed webhook event again (staff only)
+ */
+router.post('/webhook-events/:id/replay', requirePermission(Permissions.WEBHOOKS_MANAGE), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const result = await paymentService.replayWebhookEvent(req.params.id);
+    const event = await webhookEventService.getEvent(req.params.id);
+
+    if (result.success) {
+      const response: IApiResponse = {
+        success: true,
+        data: toWebhookEventResponse(event),
+      };
+      res.json(response);
+    } else {
+      const response: IApiResponse = {
+        success: false,
+        error: { ...result.error, details: toWebhookEventResponse(event) },
+      };
+      res.status(400).json(response);
+    }
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/payments/reconciliation-runs
+ * List payment reconciliation runs, newest first (staff only)
+ */
+router.get('/reconciliation-runs', requirePermission(Permissions.PAYMENTS_RECONCILE), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const pagination = parsePagination(req.query);
+
+    const { runs, total } = await reconciliationService.listRuns(pagination);
+
+    const response: IApiResponse = {
+      success: true,
+      data: runs.map(run => toReconciliationRunResponse(run)),
+      meta: {
+        page: pagination.page,
+        pageSize: pagination.pageSize,
+        total,
+        totalPages: Math.ceil(total / pagination.pageSize),
+      },
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/payments/reconciliation-runs
+ * Check pending payments against the gateway now, rather than waiting for the job (staff only)
+ */
+router.post('/reconciliation-runs', requirePermission(Permissions.PAYMENTS_RECONCILE), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getAuthUser(req);
+    const run = await reconciliationService.runReconciliation(user.id);
+
+    const response: IApiResponse = {
+      success: true,
+      data: toReconciliationRunResponse(run, true),
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/payments/reconciliation-runs/:id
+ * Get a reconciliation run with what it found (staff only)
+ */
+router.get('/reconciliation-runs/:id', requirePermission(Permissions.PAYMENTS_RECONCILE), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const run = await reconciliationService.getRun(req.params.id);
+
+    const response: IApiResponse = {
+      success: true,
+      data: toReconciliationRunResponse(run, true),
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/payments/purchases/:purchaseId
+ * Get a cart purchase and its orders
+ */
+router.get('/purchases/:purchaseId', requireAuth, requireScope(ApiKeyScopes.PAYMENTS_READ), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getAuthUser(req);
+    const { purchaseId } = req.params;
+    const purchase = await paymentService.getPurchaseById(purchaseId);
+
+    const canAccess = purchase && (
+      purchase.userId === user.id ||
+      (purchase.organizationId && await organizationService.isMember(purchase.organizationId, user.id))
+    );
+
+    if (!purchase || !canAccess) {
+      const response: IApiResponse = {
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Purchase not found',
+        },
+      };
+      return res.status(404).json(response);
+    }
+
+    const response: IApiResponse = {
+      success: true,
+      data: {
+        id: purchase.id,
+        purchaseNumber: purchase.purchaseNumber,
+        organizationId: purchase.organizationId,
+        totalCents: purchase.totalCents,
+        currency: purchase.currency,
+        status: purchase.status,
+        paidAt: purchase.paidAt,
+        createdAt: purchase.createdAt,
+        orders: purchase.orders.map(order => ({
+          id: order.id,
+          orderNumber: order.orderNumber,
+          provider: order.provider.name,
+          plan: order.plan?.name ?? null,
+          priceUsdCents: order.priceUsdCents,
+          status: order.status,
+        })),
+      },
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * GET /api/payments/:paymentId
  * Get payment details
  */
-router.get('/:paymentId', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/:paymentId', requireAuth, requireScope(ApiKeyScopes.PAYMENTS_READ), async (req: Request, res: Response, next: NextFunction) => {
   try {
+    const user = getAuthUser(req);
     const { paymentId } = req.params;
     const payment = await paymentService.getPaymentById(paymentId);
 
-    if (!payment) {
+    const canAccess = payment && (
+      payment.userId === user.id ||
+      (payment.organizationId && await organizationService.isMember(payment.organizationId, user.id))
+    );
+
+    if (!payment || !canAccess) {
       const response: IApiResponse = {
         success: false,
         error: {
@@ -120,16 +552,35 @@ router.get('/:paymentId', async (req: Request, res: Response, next: NextFunction
       data: {
         id: payment.id,
         orderId: payment.orderId,
+        organizationId: payment.organizationId,
+        purpose: payment.purpose,
+        renewalId: payment.renewalId,
+        purchaseId: payment.purchaseId,
         amountCents: payment.amountCents,
         currency: payment.currency,
+        fxRate: payment.fxRate,
+        taxCents: payment.taxCents,
+        taxRatePercent: payment.taxRatePercent,
+        reverseCharge: payment.reverseCharge,
+        method: payment.method,
         status: payment.status,
         processedAt: payment.processedAt,
         createdAt: payment.createdAt,
+        crypto: payment.cryptoPayment && {
+          asset: payment.cryptoPayment.asset,
+          chainId: payment.cryptoPayment.chainId,
+          depositAddress: payment.cryptoPayment.depositAddress,
+          expectedAmount: payment.cryptoPayment.expectedAmount,
+          receivedAmount: payment.cryptoPayment.receivedAmount,
+          status: payment.cryptoPayment.status,
+          expiresAt: payment.cryptoPayment.expiresAt,
+          confirmedAt: payment.cryptoPayment.confirmedAt,
+        },
         order: {
           id: payment.order.id,
           orderNumber: payment.order.orderNumber,
           provider: payment.order.provider.name,
-          plan: payment.order.plan.name,
+          plan: payment.order.plan?.name ?? null,
           status: payment.order.status,
         },
       },
@@ -145,9 +596,10 @@ router.get('/:paymentId', async (req: Request, res: Response, next: NextFunction
  * GET /api/payments/user/:userId
  * Get all payments for a user
  */
-router.get('/user/:userId', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/user/:userId', requireAuth, requireScope(ApiKeyScopes.PAYMENTS_READ), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { userId } = req.params;
+    assertSelf(req, userId);
     const payments = await paymentService.getPaymentsForUser(userId);
 
     const response: IApiResponse = {
@@ -155,8 +607,59 @@ router.get('/user/:userId', async (req: Request, res: Response, next: NextFuncti
       data: payments.map(payment => ({
         id: payment.id,
         orderId: payment.orderId,
+        purpose: payment.purpose,
+        renewalId: payment.renewalId,
+        purchaseId: payment.purchaseId,
+        amountCents: payment.amountCents,
+        currency: payment.currency,
+        fxRate: payment.fxRate,
+        taxCents: payment.taxCents,
+        taxRatePercent: payment.taxRatePercent,
+        reverseCharge: payment.reverseCharge,
+        status: payment.status,
+        processedAt: payment.processedAt,
+        createdAt: payment.createdAt,
+        order: {
+          id: payment.order.id,
+          orderNumber: payment.order.orderNumber,
+          provider: payment.order.provider.name,
+          plan: payment.order.plan?.name ?? null,
+        },
+      })),
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/payments/organization/:organizationId
+ * Get all payments made on behalf of an organization
+ */
+router.get('/organization/:organizationId', requireAuth, requireScope(ApiKeyScopes.PAYMENTS_READ), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getAuthUser(req);
+    const { organizationId } = req.params;
+    await organizationService.getMembership(organizationId, user.id);
+    const payments = await paymentService.getPaymentsForOrganization(organizationId);
+
+    const response: IApiResponse = {
+      success: true,
+      data: payments.map(payment => ({
+        id: payment.id,
+        orderId: payment.orderId,
+        userId: payment.userId,
+        purpose: payment.purpose,
+        renewalId: payment.renewalId,
+        purchaseId: payment.purchaseId,
         amountCents: payment.amountCents,
         currency: payment.currency,
+        fxRate: payment.fxRate,
+        taxCents: payment.taxCents,
+        taxRatePercent: payment.taxRatePercent,
+        reverseCharge: payment.reverseCharge,
         status: payment.status,
         processedAt: payment.processedAt,
         createdAt: payment.createdAt,
@@ -164,7 +667,7 @@ router.get('/user/:userId', async (req: Request, res: Response, next: NextFuncti
           id: payment.order.id,
           orderNumber: payment.order.orderNumber,
           provider: payment.order.provider.name,
-          plan: payment.order.plan.name,
+          plan: payment.order.plan?.name ?? null,
         },
       })),
     };
@@ -183,7 +686,7 @@ router.get('/config/stripe', async (req: Request, res: Response) => {
   const response: IApiResponse = {
     success: true,
     data: {
-      publishableKey: config.stripe.publishableKey,
+      publishableKey: paymentGateway.publishableKey,
     },
   };
   res.json(response);
@@ -1,41 +1,125 @@
 import Stripe from 'stripe';
-import { PaymentStatus, OrderStatus } from '@prisma/client';
+import {
+  PaymentStatus,
+  PaymentPurpose,
+  PaymentMethod,
+  OrderStatus,
+  OrderActorType,
+  PlanChangeStatus,
+  RenewalStatus,
+  SubscriptionStatus,
+  CryptoPayment,
+  Organization,
+  Payment,
+  Prisma,
+  Provider,
+  PurchaseStatus,
+  Quote,
+  StoragePlan,
+  User,
+} from '@prisma/client';
 import { prisma, withTransaction } from '../../common/database';
 import { config } from '../../config';
-import { logger,PaymentError,
+import {
+  logger,
+  PaymentError,
   ValidationError,
   NotFoundError,
-  ConflictError,  generateOrderNumber,
+  ConflictError,
+  generateOrderNumber,
+  generatePurchaseNumber,
   generateIdempotencyKey,
   addDays,
-  centsToDollars, } from '../../common/utils';
+  centsToDollars,
+} from '../../common/utils';
 import {
   ICreateCheckoutParams,
-  ICheckoutResult,
+  IOrderCheckoutResult,
+  ICreateRenewalCheckoutParams,
+  IRenewalCheckoutResult,
+  ICreatePlanChangeCheckoutParams,
+  IPlanChangeCheckoutResult,
+  ICreateCartCheckoutParams,
+  ICartCheckoutResult,
+  ICreateCryptoCheckoutParams,
+  ICryptoCheckoutResult,
+  ICreateTopUpCheckoutParams,
+  ITopUpCheckoutResult,
+  IPaymentGateway,
   ServiceResult,
   successResult,
   errorResult,
 } from '../../common/interfaces';
-
+import { orderStateMachine } from '../orders/order-state-machine';
+import { orderRenewalService } from '../orders/order-renewal.service';
+import { orderPlanChangeService } from '../orders/order-plan-change.service';
+import { orderService } from '../orders/order.service';
+import { getProviderRegistry } from '../providers/provider.registry';
+import { providerService } from '../providers/provider.service';
+import { mailService } from '../mail/mail.service';
+import { quoteService } from '../quotes/quote.service';
+import { invoiceService } from '../invoices/invoice.service';
+import { promotionService, IAppliedPromotions } from '../promotions/promotion.service';
+import { disputeService } from '../disputes/dispute.service';
+import { creditService } from '../credits/credit.service';
+import { BASE_CURRENCY, fxRateService, IFxRate } from '../currencies/fx-rate.service';
+import { ITaxTreatment, taxService } from '../tax/tax.service';
+import { refundService } from './refund.service';
+import { cryptoPaymentService } from './crypto-payment.service';
+import { webhookEventService } from './webhook-event.service';
+import { paymentGateway } from './gateways';
 
 // ============================================
 // Payment Service
 // ============================================
 
+// Longest billing interval Stripe supports for subscriptions
+const MAX_SUBSCRIPTION_INTERVAL_DAYS = 365;
+
+// Payments whose charge went through, whether or not it was refunded since
+const PAID_PAYMENT_STATUSES: PaymentStatus[] = [
+  PaymentStatus.SUCCEEDED,
+  PaymentStatus.PARTIALLY_REFUNDED,
+  PaymentStatus.REFUNDED,
+];
+
+// The storage an order is created for: a plan, or a custom size priced from a rate card
+interface ICheckoutStorage {
+  provider: Provider;
+  planId: string | null;
+  rateCardId: string | null;
+  name: string;
+  storageSizeGb: number;
+  durationDays: number;
+  priceUsdCents: number;
+}
+
 export class PaymentService {
-  private stripe: Stripe;
+  private gateway: IPaymentGateway;
+  // Gateway tax rates by rate, created the first time one is charged
+  private gatewayTaxRates = new Map<string, string>();
 
   constructor() {
-    this.stripe = new Stripe(config.stripe.secretKey, {
-      apiVersion: '2024-11-20.acacia',
-    });
+    this.gateway = paymentGateway;
   }
 
   /**
    * Create a Stripe checkout session for purchasing storage
    */
-  async createCheckoutSession(params: ICreateCheckoutParams): Promise<ServiceResult<ICheckoutResult>> {
-    const { userId, planId, successUrl, cancelUrl, idempotencyKey } = params;
+  async createCheckoutSession(params: ICreateCheckoutParams): Promise<ServiceResult<IOrderCheckoutResult>> {
+    const {
+      userId,
+      successUrl,
+      cancelUrl,
+      idempotencyKey,
+      walletAddress,
+      organizationId,
+      autoRenew,
+      allowProviderFallback,
+      useCredit,
+      currency = BASE_CURRENCY,
+      billing,
+    } = params;
 
     try {
       // Check idempotency
@@ -46,10 +130,10 @@ export class PaymentService {
         });
 
         if (existingOrder) {
-          const payment = existingOrder.payments[0];
+          const payment = existingOrder.payments.find(p => p.stripeSessionId);
           if (payment?.stripeSessionId) {
             // Return existing session
-            const session = await this.stripe.checkout.sessions.retrieve(payment.stripeSessionId);
+            const session = await this.gateway.retrieveCheckoutSession(payment.stripeSessionId);
             return successResult({
               sessionId: session.id,
               sessionUrl: session.url || '',
@@ -57,21 +141,51 @@ export class PaymentService {
               paymentId: payment.id,
             });
           }
+
+          // Orders paid from credit alone have no session
+          const creditPayment = existingOrder.payments.find(p => p.method === PaymentMethod.CREDIT);
+          if (creditPayment) {
+            return successResult({
+              sessionId: null,
+              sessionUrl: `${successUrl}?order_id=${existingOrder.id}`,
+              orderId: existingOrder.id,
+              paymentId: creditPayment.id,
+            });
+          }
         }
       }
 
-      // Get the storage plan
-      const plan = await prisma.storagePlan.findUnique({
-        where: { id: planId },
-        include: { provider: true },
-      });
+      const resolved = await this.resolveCheckoutStorage(params);
+      if (!resolved.success) {
+        return errorResult(resolved.error.code, resolved.error.message, resolved.error.details);
+      }
+      const { storage, quote, promotions } = resolved.data;
+      const { priceUsdCents } = storage;
 
-      if (!plan) {
-        return errorResult('PLAN_NOT_FOUND', 'Storage plan not found');
+      // The order keeps the rate it was charged at
+      const fxRate = await fxRateService.findRate(currency);
+      if (!fxRate) {
+        return errorResult('CURRENCY_UNSUPPORTED', `Payments are not accepted in ${currency.toUpperCase()}`);
+      }
+      if (useCredit && fxRate.currency !== BASE_CURRENCY) {
+        return errorResult('CREDIT_CURRENCY_UNSUPPORTED', 'Credit can only pay for orders charged in USD');
       }
 
-      if (plan.status !== 'AVAILABLE' || !plan.isActive) {
-        return errorResult('PLAN_UNAVAILABLE', 'This storage plan is no longer available');
+      const billingDetails = taxService.validateBillingDetails(billing);
+      if (!billingDetails.success) {
+        return errorResult(billingDetails.error.code, billingDetails.error.message, billingDetails.error.details);
+      }
+      const tax = await taxService.getTreatment(billingDetails.data);
+
+      // Auto-renewal extends the same storage every period
+      if (autoRenew) {
+        const adapter = getProviderRegistry().getAdapter(storage.provider.slug);
+        if (!adapter.extendStorage || storage.durationDays > MAX_SUBSCRIPTION_INTERVAL_DAYS) {
+          return errorResult('AUTO_RENEW_UNSUPPORTED', 'This storage cannot be renewed automatically');
+        }
+        if (useCredit) {
+          return errorResult('CREDIT_AUTO_RENEW_UNSUPPORTED', 'Auto-renewing orders cannot be paid from credit');
+        }
       }
 
       // Get or create user
@@ -80,88 +194,155 @@ export class PaymentService {
         return errorResult('USER_NOT_FOUND', 'User not found');
       }
 
-      // Create or get Stripe customer
-      let stripeCustomerId = user.stripeCustomerId;
-      if (!stripeCustomerId) {
-        const customer = await this.stripe.customers.create({
-          email: user.email,
-          name: user.name || undefined,
-          metadata: {
-            userId: user.id,
-          },
-        });
-        stripeCustomerId = customer.id;
+      // Storage may only be provisioned to a wallet the user has proven ownership of
+      const ownerWalletAddress = await this.findVerifiedWallet(user.id, walletAddress);
+      if (walletAddress && !ownerWalletAddress) {
+        return errorResult('WALLET_NOT_VERIFIED', 'Wallet is not linked to this account');
+      }
 
-        // Update user with Stripe customer ID
-        await prisma.user.update({
-          where: { id: user.id },
-          data: { stripeCustomerId },
-        });
+      // Create or get Stripe customer (the organization's when buying for one)
+      const stripeCustomerId = await this.getCheckoutCustomer(user, organizationId);
+      if (!stripeCustomerId) {
+        return errorResult('ORGANIZATION_NOT_FOUND', 'Organization not found');
       }
 
+      // Credit pays as much of the price as the balance covers; the card pays the rest
+      const creditCents = useCredit
+        ? Math.min(
+            await creditService.getBalance({ userId: user.id, organizationId }),
+            taxService.chargeAmount(priceUsdCents - (promotions?.discountCents ?? 0), tax)
+          )
+        : 0;
+
       // Create order and payment in a transaction
       const result = await withTransaction(async (tx) => {
-        // Create order
-        const order = await tx.order.create({
-          data: {
-            orderNumber: generateOrderNumber(),
-            userId: user!.id,
-            providerId: plan.provider.id,
-            planId: plan.id,
-            storageSizeGb: plan.storageSizeGb,
-            durationDays: plan.durationDays,
-            priceUsdCents: plan.priceUsdCents,
-            status: OrderStatus.PENDING_PAYMENT,
-            idempotencyKey: idempotencyKey || generateIdempotencyKey(),
-          },
+        const created = await this.createPendingOrder(tx, {
+          user: user!,
+          storage,
+          organizationId,
+          ownerWalletAddress,
+          allowProviderFallback: allowProviderFallback ?? false,
+          idempotencyKey: idempotencyKey || generateIdempotencyKey(),
+          promotions,
+          creditCents,
+          fxRate,
+          tax,
         });
 
-        // Create payment record
-        const payment = await tx.payment.create({
-          data: {
-            orderId: order.id,
-            userId: user!.id,
-            amountCents: plan.priceUsdCents,
-            currency: 'usd',
-            status: PaymentStatus.PENDING,
-            idempotencyKey: generateIdempotencyKey(),
-          },
-        });
+        if (quote) {
+          await quoteService.claimQuote(tx, quote.id, created.order.id);
+        }
+
+        // Orders paid from credit alone are paid right away
+        if (created.payment.method === PaymentMethod.CREDIT) {
+          await creditService.settleOrderPayments(tx, created.order.id);
+          await orderStateMachine.transition(created.order.id, OrderStatus.PAYMENT_COMPLETED, {
+            actor: { type: OrderActorType.USER, id: user!.id },
+            reason: 'Paid from credit',
+            data: { paidAt: new Date() },
+            tx,
+          });
+        }
 
-        return { order, payment };
+        return created;
       });
 
+      if (result.payment.method === PaymentMethod.CREDIT) {
+        logger.info('Order paid from credit', {
+          orderId: result.order.id,
+          userId: user.id,
+          organizationId,
+          creditCents,
+        });
+
+        this.issueInvoices([result.payment.id]);
+
+        this.triggerBlockchainTransaction(result.order.id).catch(error => {
+          logger.error('Failed to trigger blockchain transaction', error, { orderId: result.order.id });
+        });
+
+        return successResult({
+          sessionId: null,
+          sessionUrl: `${successUrl}?order_id=${result.order.id}`,
+          orderId: result.order.id,
+          paymentId: result.payment.id,
+        });
+      }
+
+      // Discounts and credit are taken off the first charge only; renewals bill the full price.
+      // Both are converted together so the charge matches the payment exactly.
+      const unitAmount = fxRateService.fromUsdCents(
+        taxService.chargeAmount(priceUsdCents, tax),
+        fxRate.currency,
+        fxRate.rate
+      );
+      const amountOff = unitAmount - result.payment.amountCents;
+      const discount = amountOff > 0
+        ? await this.gateway.createCoupon({
+            amount_off: amountOff,
+            currency: fxRate.currency,
+            duration: 'once',
+            max_redemptions: 1,
+            name: [
+              promotions?.coupon?.code,
+              promotions?.voucher?.code,
+              creditCents > 0 ? 'Account credit' : null,
+            ].filter(Boolean).join(' + '),
+            metadata: { orderId: result.order.id },
+          })
+        : null;
+
       // Create Stripe checkout session
-      const session = await this.stripe.checkout.sessions.create({
+      const session = await this.gateway.createCheckoutSession({
         customer: stripeCustomerId,
         payment_method_types: ['card'],
         line_items: [
           {
             price_data: {
-              currency: 'usd',
+              currency: fxRate.currency,
               product_data: {
-                name: `${plan.provider.name} - ${plan.name}`,
-                description: `${plan.storageSizeGb}GB storage for ${plan.durationDays} days`,
+                name: `${storage.provider.name} - ${storage.name}`,
+                description: `${storage.storageSizeGb}GB storage for ${storage.durationDays} days`,
                 metadata: {
-                  planId: plan.id,
-                  providerId: plan.provider.id,
-                  providerSlug: plan.provider.slug,
+                  planId: storage.planId || '',
+                  rateCardId: storage.rateCardId || '',
+                  providerId: storage.provider.id,
+                  providerSlug: storage.provider.slug,
                 },
               },
-              unit_amount: plan.priceUsdCents,
+              unit_amount: unitAmount,
+              // Auto-renewing orders are billed again every plan duration
+              recurring: autoRenew
+                ? { interval: 'day', interval_count: storage.durationDays }
+                : undefined,
             },
             quantity: 1,
+            tax_rates: await this.getGatewayTaxRates(tax),
           },
         ],
-        mode: 'payment',
+        discounts: discount ? [{ coupon: discount.id }] : undefined,
+        mode: autoRenew ? 'subscription' : 'payment',
+        subscription_data: autoRenew
+          ? { metadata: { orderId: result.order.id } }
+          : undefined,
         success_url: `${successUrl}?order_id=${result.order.id}&session_id={CHECKOUT_SESSION_ID}`,
         cancel_url: `${cancelUrl}?order_id=${result.order.id}`,
         metadata: {
           orderId: result.order.id,
           paymentId: result.payment.id,
           userId: user.id,
-          planId: plan.id,
-          providerId: plan.provider.id,
+          organizationId: organizationId || '',
+          planId: storage.planId || '',
+          rateCardId: storage.rateCardId || '',
+          providerId: storage.provider.id,
+          quoteId: quote?.id || '',
+          couponCode: promotions?.coupon?.code || '',
+          voucherCode: promotions?.voucher?.code || '',
+          discountCents: String(promotions?.discountCents ?? 0),
+          creditCents: String(creditCents),
+          billingCountry: tax.country || '',
+          vatId: tax.vatId || '',
+          reverseCharge: String(tax.reverseCharge),
         },
         expires_at: Math.floor(Date.now() / 1000) + 30 * 60, // 30 minutes
       });
@@ -176,7 +357,14 @@ export class PaymentService {
         sessionId: session.id,
         orderId: result.order.id,
         userId: user.id,
-        planId: plan.id,
+        planId: storage.planId,
+        rateCardId: storage.rateCardId,
+        quoteId: quote?.id,
+        discountCents: promotions?.discountCents,
+        creditCents,
+        currency: fxRate.currency,
+        taxCents: result.payment.taxCents,
+        reverseCharge: tax.reverseCharge,
       });
 
       return successResult({
@@ -200,203 +388,2097 @@ export class PaymentService {
   }
 
   /**
-   * Handle Stripe webhook events
+   * Create a Stripe checkout session for renewing an existing order.
+   * The renewal is priced from the order's current plan and billed to
+   * the same customer (user or organization) as the original order.
    */
-  async handleWebhook(payload: string | Buffer, signature: string): Promise<ServiceResult<{ handled: boolean; eventType: string }>> {
-    try {
-      // Verify webhook signature
-      const event = this.stripe.webhooks.constructEvent(
-        payload,
-        signature,
-        config.stripe.webhookSecret
-      );
+  async createRenewalCheckout(params: ICreateRenewalCheckoutParams): Promise<ServiceResult<IRenewalCheckoutResult>> {
+    const { userId, orderId, successUrl, cancelUrl } = params;
 
-      logger.info('Received Stripe webhook', { type: event.type, id: event.id });
-
-      switch (event.type) {
-        case 'checkout.session.completed':
-          await this.handleCheckoutCompleted(event.data.object as Stripe.Checkout.Session);
-          break;
+    try {
+      const quote = await orderRenewalService.quoteRenewal(orderId, userId);
+      if (!quote.success) {
+        return errorResult(quote.error.code, quote.error.message);
+      }
 
-        case 'checkout.session.expired':
-          await this.handleCheckoutExpired(event.data.object as Stripe.Checkout.Session);
-          break;
+      const user = await prisma.user.findUnique({ where: { id: userId } });
+      if (!user) {
+        return errorResult('USER_NOT_FOUND', 'User not found');
+      }
 
-        case 'payment_intent.succeeded':
-          await this.handlePaymentSucceeded(event.data.object as Stripe.PaymentIntent);
-          break;
+      const order = await prisma.order.findUniqueOrThrow({
+        where: { id: orderId },
+        include: { provider: true, plan: true, organization: true },
+      });
 
-        case 'payment_intent.payment_failed':
-          await this.handlePaymentFailed(event.data.object as Stripe.PaymentIntent);
-          break;
+      const organization = order.organization && !order.organization.deletedAt ? order.organization : null;
+      const stripeCustomerId = organization
+        ? await this.getOrCreateOrganizationCustomer(organization, user.email)
+        : await this.getOrCreateUserCustomer(user);
 
-        default:
-          logger.debug('Unhandled webhook event', { type: event.type });
-      }
+      const { durationDays, priceUsdCents, newExpiresAt } = quote.data;
 
-      return successResult({ handled: true, eventType: event.type });
-    } catch (error) {
-      logger.error('Webhook handling failed', error);
-      
-      if (error instanceof Stripe.errors.StripeSignatureVerificationError) {
-        return errorResult('INVALID_SIGNATURE', 'Invalid webhook signature');
+      // Renewals are charged in the order's currency at the current rate
+      const fxRate = await fxRateService.findRate(order.currency);
+      if (!fxRate) {
+        return errorResult('CURRENCY_UNSUPPORTED', `Payments are not accepted in ${order.currency.toUpperCase()}`);
       }
-      
-      return errorResult(
-        'WEBHOOK_FAILED',
-        error instanceof Error ? error.message : 'Webhook handling failed'
+      // Taxed as the order was at checkout
+      const tax = await taxService.getOrderTreatment(order);
+      const amountCents = fxRateService.fromUsdCents(
+        taxService.chargeAmount(priceUsdCents, tax),
+        fxRate.currency,
+        fxRate.rate
       );
-    }
-  }
-
-  /**
-   * Handle checkout.session.completed event
-   */
-  private async handleCheckoutCompleted(session: Stripe.Checkout.Session): Promise<void> {
-    const orderId = session.metadata?.orderId;
-    const paymentId = session.metadata?.paymentId;
 
-    if (!orderId || !paymentId) {
-      logger.error('Missing metadata in checkout session', { sessionId: session.id });
-      return;
-    }
+      const result = await withTransaction(async (tx) => {
+        const renewal = await tx.orderRenewal.create({
+          data: {
+            orderId: order.id,
+            userId: user.id,
+            planId: quote.data.planId,
+            rateCardId: quote.data.rateCardId,
+            durationDays,
+            priceUsdCents,
+          },
+        });
 
-    // Check if already processed (idempotency)
-    const existingPayment = await prisma.payment.findUnique({
-      where: { id: paymentId },
-    });
+        const payment = await tx.payment.create({
+          data: {
+            orderId: order.id,
+            userId: user.id,
+            organizationId: organization?.id,
+            purpose: PaymentPurpose.RENEWAL,
+            renewalId: renewal.id,
+            amountCents,
+            currency: fxRate.currency,
+            fxRate: fxRate.rate,
+            taxCents: taxService.includedTax(amountCents, tax.ratePercent),
+            taxRatePercent: tax.ratePercent,
+            reverseCharge: tax.reverseCharge,
+            status: PaymentStatus.PENDING,
+            idempotencyKey: generateIdempotencyKey(),
+          },
+        });
 
-    if (existingPayment?.status === PaymentStatus.SUCCEEDED) {
-      logger.info('Payment already processed', { paymentId, orderId });
-      return;
-    }
+        return { renewal, payment };
+      });
 
-    await withTransaction(async (tx) => {
-      // Update payment
-      await tx.payment.update({
-        where: { id: paymentId },
-        data: {
-          status: PaymentStatus.SUCCEEDED,
-          stripePaymentIntentId: session.payment_intent as string,
-          processedAt: new Date(),
-          metadata: {
-            sessionId: session.id,
-            customerId: session.customer,
-            amountTotal: session.amount_total,
+      const session = await this.gateway.createCheckoutSession({
+        customer: stripeCustomerId,
+        payment_method_types: ['card'],
+        line_items: [
+          {
+            price_data: {
+              currency: fxRate.currency,
+              product_data: {
+                name: `Renewal: ${order.provider.name} - ${orderService.getPlanName(order)}`,
+                description: `Extend order ${order.orderNumber} by ${durationDays} days`,
+                metadata: {
+                  orderId: order.id,
+                  planId: order.planId || '',
+                  providerSlug: order.provider.slug,
+                },
+              },
+              unit_amount: amountCents,
+            },
+            quantity: 1,
+            tax_rates: await this.getGatewayTaxRates(tax),
           },
+        ],
+        mode: 'payment',
+        success_url: `${successUrl}?order_id=${order.id}&renewal_id=${result.renewal.id}&session_id={CHECKOUT_SESSION_ID}`,
+        cancel_url: `${cancelUrl}?order_id=${order.id}`,
+        metadata: {
+          purpose: PaymentPurpose.RENEWAL,
+          orderId: order.id,
+          renewalId: result.renewal.id,
+          paymentId: result.payment.id,
+          userId: user.id,
+          organizationId: organization?.id || '',
+          planId: order.planId || '',
         },
+        expires_at: Math.floor(Date.now() / 1000) + 30 * 60, // 30 minutes
       });
 
-      // Update order
-      await tx.order.update({
-        where: { id: orderId },
-        data: {
-          status: OrderStatus.PAYMENT_COMPLETED,
-          paidAt: new Date(),
-        },
+      await prisma.payment.update({
+        where: { id: result.payment.id },
+        data: { stripeSessionId: session.id },
       });
-    });
 
-    logger.info('Payment completed', { orderId, paymentId, sessionId: session.id });
+      logger.info('Renewal checkout session created', {
+        sessionId: session.id,
+        orderId: order.id,
+        renewalId: result.renewal.id,
+        userId: user.id,
+      });
 
-    // Trigger blockchain transaction (async)
-    // This will be handled by the blockchain service
-    this.triggerBlockchainTransaction(orderId).catch(error => {
-      logger.error('Failed to trigger blockchain transaction', error, { orderId });
-    });
+      return successResult({
+        sessionId: session.id,
+        sessionUrl: session.url || '',
+        orderId: order.id,
+        paymentId: result.payment.id,
+        renewalId: result.renewal.id,
+        priceUsdCents,
+        durationDays,
+        newExpiresAt,
+      });
+    } catch (error) {
+      logger.error('Failed to create renewal checkout session', error, { orderId });
+
+      if (error instanceof Stripe.errors.StripeError) {
+        return errorResult('STRIPE_ERROR', error.message);
+      }
+
+      return errorResult(
+        'CHECKOUT_FAILED',
+        error instanceof Error ? error.message : 'Failed to create checkout session'
+      );
+    }
   }
 
   /**
-   * Handle checkout.session.expired event
+   * Create a Stripe checkout session for upgrading an order to a pricier plan.
+   * Only the prorated difference for the rest of the term is charged, billed
+   * to the same customer (user or organization) as the original order.
    */
-  private async handleCheckoutExpired(session: Stripe.Checkout.Session): Promise<void> {
-    const orderId = session.metadata?.orderId;
-    const paymentId = session.metadata?.paymentId;
+  async createPlanChangeCheckout(params: ICreatePlanChangeCheckoutParams): Promise<ServiceResult<IPlanChangeCheckoutResult>> {
+    const { userId, orderId, planId, successUrl, cancelUrl } = params;
 
-    if (!orderId || !paymentId) {
-      return;
-    }
+    try {
+      const quote = await orderPlanChangeService.quotePlanChange(orderId, planId, userId);
+      if (!quote.success) {
+        return errorResult(quote.error.code, quote.error.message);
+      }
 
-    await withTransaction(async (tx) => {
-      await tx.payment.update({
-        where: { id: paymentId },
-        data: {
-          status: PaymentStatus.CANCELLED,
-          statusMessage: 'Checkout session expired',
-        },
-      });
+      const user = await prisma.user.findUnique({ where: { id: userId } });
+      if (!user) {
+        return errorResult('USER_NOT_FOUND', 'User not found');
+      }
 
-      await tx.order.update({
+      const order = await prisma.order.findUniqueOrThrow({
         where: { id: orderId },
-        data: {
-          status: OrderStatus.CANCELLED,
-          statusMessage: 'Payment session expired',
-        },
+        include: { provider: true, organization: true },
       });
-    });
+      const plan = await prisma.storagePlan.findUniqueOrThrow({ where: { id: planId } });
 
-    logger.info('Checkout session expired', { orderId, paymentId });
-  }
+      // Upgrades are charged in the order's currency at the current rate
+      const fxRate = await fxRateService.findRate(order.currency);
+      if (!fxRate) {
+        return errorResult('CURRENCY_UNSUPPORTED', `Payments are not accepted in ${order.currency.toUpperCase()}`);
+      }
+      // Taxed as the order was at checkout
+      const tax = await taxService.getOrderTreatment(order);
 
-  /**
-   * Handle payment_intent.succeeded event
-   */
-  private async handlePaymentSucceeded(paymentIntent: Stripe.PaymentIntent): Promise<void> {
-    const payment = await prisma.payment.findUnique({
-      where: { stripePaymentIntentId: paymentIntent.id },
-    });
+      const organization = order.organization && !order.organization.deletedAt ? order.organization : null;
+      const stripeCustomerId = organization
+        ? await this.getOrCreateOrganizationCustomer(organization, user.email)
+        : await this.getOrCreateUserCustomer(user);
 
-    if (payment && payment.status !== PaymentStatus.SUCCEEDED) {
-      await prisma.payment.update({
-        where: { id: payment.id },
-        data: {
-          status: PaymentStatus.SUCCEEDED,
-          processedAt: new Date(),
-        },
-      });
-    }
-  }
+      const result = await withTransaction(async (tx) => {
+        const planChange = await orderPlanChangeService.createPlanChange(
+          user.id,
+          quote.data,
+          PlanChangeStatus.PENDING_PAYMENT,
+          tx
+        );
 
-  /**
-   * Handle payment_intent.payment_failed event
-   */
-  private async handlePaymentFailed(paymentIntent: Stripe.PaymentIntent): Promise<void> {
-    const payment = await prisma.payment.findUnique({
-      where: { stripePaymentIntentId: paymentIntent.id },
-      include: { order: true },
-    });
+        const amountCents = fxRateService.fromUsdCents(
+          taxService.chargeAmount(planChange.differenceCents, tax),
+          fxRate.currency,
+          fxRate.rate
+        );
 
-    if (payment) {
-      await withTransaction(async (tx) => {
-        await tx.payment.update({
-          where: { id: payment.id },
+        const payment = await tx.payment.create({
           data: {
-            status: PaymentStatus.FAILED,
-            statusMessage: paymentIntent.last_payment_error?.message || 'Payment failed',
+            orderId: order.id,
+            userId: user.id,
+            organizationId: organization?.id,
+            purpose: PaymentPurpose.PLAN_CHANGE,
+            planChangeId: planChange.id,
+            amountCents,
+            currency: fxRate.currency,
+            fxRate: fxRate.rate,
+            taxCents: taxService.includedTax(amountCents, tax.ratePercent),
+            taxRatePercent: tax.ratePercent,
+            reverseCharge: tax.reverseCharge,
+            status: PaymentStatus.PENDING,
+            idempotencyKey: generateIdempotencyKey(),
           },
         });
 
-        await tx.order.update({
-          where: { id: payment.orderId },
-          data: {
-            status: OrderStatus.PAYMENT_FAILED,
-            statusMessage: 'Payment failed',
-          },
-        });
+        return { planChange, payment };
       });
 
-      logger.info('Payment failed', {
-        paymentId: payment.id,
-        orderId: payment.orderId,
-        error: paymentIntent.last_payment_error?.message,
-      });
-    }
-  }
+      const { differenceCents } = result.planChange;
 
-  /**
-   * Trigger blockchain transaction for an order
-   * This is a placeholder - actual implementation in blockchain service
+      const session = await this.gateway.createCheckoutSession({
+        customer: stripeCustomerId,
+        payment_method_types: ['card'],
+        line_items: [
+          {
+            price_data: {
+              currency: fxRate.currency,
+              product_data: {
+                name: `Upgrade: ${order.provider.name} - ${plan.name}`,
+                description: `Upgrade order ${order.orderNumber} for the remaining ${quote.data.remainingDays} days`,
+                metadata: {
+                  orderId: order.id,
+                  planId: plan.id,
+                  providerSlug: order.provider.slug,
+                },
+              },
+              unit_amount: result.payment.amountCents,
+            },
+            quantity: 1,
+            tax_rates: await this.getGatewayTaxRates(tax),
+          },
+        ],
+        mode: 'payment',
+        success_url: `${successUrl}?order_id=${order.id}&plan_change_id=${result.planChange.id}&session_id={CHECKOUT_SESSION_ID}`,
+        cancel_url: `${cancelUrl}?order_id=${order.id}`,
+        metadata: {
+          purpose: PaymentPurpose.PLAN_CHANGE,
+          orderId: order.id,
+          planChangeId: result.planChange.id,
+          paymentId: result.payment.id,
+          userId: user.id,
+          organizationId: organization?.id || '',
+          planId: plan.id,
+        },
+        expires_at: Math.floor(Date.now() / 1000) + 30 * 60, // 30 minutes
+      });
+
+      await prisma.payment.update({
+        where: { id: result.payment.id },
+        data: { stripeSessionId: session.id },
+      });
+
+      logger.info('Plan change checkout session created', {
+        sessionId: session.id,
+        orderId: order.id,
+        planChangeId: result.planChange.id,
+        userId: user.id,
+      });
+
+      return successResult({
+        sessionId: session.id,
+        sessionUrl: session.url || '',
+        orderId: order.id,
+        paymentId: result.payment.id,
+        planChangeId: result.planChange.id,
+        differenceCents,
+      });
+    } catch (error) {
+      logger.error('Failed to create plan change checkout session', error, { orderId });
+
+      if (error instanceof Stripe.errors.StripeError) {
+        return errorResult('STRIPE_ERROR', error.message);
+      }
+
+      return errorResult(
+        'CHECKOUT_FAILED',
+        error instanceof Error ? error.message : 'Failed to create checkout session'
+      );
+    }
+  }
+
+  /**
+   * Create one Stripe checkout session for everything in the user's cart.
+   * Each unit becomes its own order under a parent purchase, so every order
+   * is paid together but allocated and refunded independently.
+   */
+  async createCartCheckout(params: ICreateCartCheckoutParams): Promise<ServiceResult<ICartCheckoutResult>> {
+    const {
+      userId,
+      successUrl,
+      cancelUrl,
+      idempotencyKey,
+      walletAddress,
+      organizationId,
+      allowProviderFallback,
+      billing,
+    } = params;
+
+    try {
+      if (idempotencyKey) {
+        const existingPurchase = await prisma.purchase.findUnique({
+          where: { idempotencyKey },
+          include: { orders: { select: { id: true } } },
+        });
+
+        if (existingPurchase?.stripeSessionId) {
+          const session = await this.gateway.retrieveCheckoutSession(existingPurchase.stripeSessionId);
+          return successResult({
+            sessionId: session.id,
+            sessionUrl: session.url || '',
+            purchaseId: existingPurchase.id,
+            orderIds: existingPurchase.orders.map(order => order.id),
+            totalCents: existingPurchase.totalCents,
+          });
+        }
+      }
+
+      const user = await prisma.user.findUnique({ where: { id: userId } });
+      if (!user) {
+        return errorResult('USER_NOT_FOUND', 'User not found');
+      }
+
+      const cart = await prisma.cart.findUnique({
+        where: { userId },
+        include: {
+          items: {
+            include: { plan: { include: { provider: true } } },
+            orderBy: { createdAt: 'asc' },
+          },
+        },
+      });
+
+      if (!cart || cart.items.length === 0) {
+        return errorResult('CART_EMPTY', 'Cart is empty');
+      }
+
+      const unavailable = cart.items.find(item => item.plan.status !== 'AVAILABLE' || !item.plan.isActive);
+      if (unavailable) {
+        return errorResult('PLAN_UNAVAILABLE', `${unavailable.plan.name} is no longer available`);
+      }
+
+      const billingDetails = taxService.validateBillingDetails(billing);
+      if (!billingDetails.success) {
+        return errorResult(billingDetails.error.code, billingDetails.error.message, billingDetails.error.details);
+      }
+      const tax = await taxService.getTreatment(billingDetails.data);
+
+      const ownerWalletAddress = await this.findVerifiedWallet(user.id, walletAddress);
+      if (walletAddress && !ownerWalletAddress) {
+        return errorResult('WALLET_NOT_VERIFIED', 'Wallet is not linked to this account');
+      }
+
+      const stripeCustomerId = await this.getCheckoutCustomer(user, organizationId);
+      if (!stripeCustomerId) {
+        return errorResult('ORGANIZATION_NOT_FOUND', 'Organization not found');
+      }
+
+      const totalCents = cart.items.reduce(
+        (sum, item) => sum + taxService.chargeAmount(item.plan.priceUsdCents, tax) * item.quantity,
+        0
+      );
+
+      const result = await withTransaction(async (tx) => {
+        const purchase = await tx.purchase.create({
+          data: {
+            purchaseNumber: generatePurchaseNumber(),
+            userId: user.id,
+            organizationId,
+            totalCents,
+            currency: 'usd',
+            idempotencyKey: idempotencyKey || generateIdempotencyKey(),
+          },
+        });
+
+        const orderIds: string[] = [];
+
+        for (const item of cart.items) {
+          for (let unit = 0; unit < item.quantity; unit++) {
+            const { order } = await this.createPendingOrder(tx, {
+              user,
+              storage: this.planStorage(item.plan),
+              organizationId,
+              ownerWalletAddress,
+              allowProviderFallback: allowProviderFallback ?? false,
+              idempotencyKey: generateIdempotencyKey(),
+              purchaseId: purchase.id,
+              tax,
+            });
+            orderIds.push(order.id);
+          }
+        }
+
+        return { purchase, orderIds };
+      });
+
+      const taxRates = await this.getGatewayTaxRates(tax);
+
+      const session = await this.gateway.createCheckoutSession({
+        customer: stripeCustomerId,
+        payment_method_types: ['card'],
+        line_items: cart.items.map(item => ({
+          price_data: {
+            currency: 'usd',
+            product_data: {
+              name: `${item.plan.provider.name} - ${item.plan.name}`,
+              description: `${item.plan.storageSizeGb}GB storage for ${item.plan.durationDays} days`,
+              metadata: {
+                planId: item.plan.id,
+                providerId: item.plan.provider.id,
+                providerSlug: item.plan.provider.slug,
+              },
+            },
+            unit_amount: taxService.chargeAmount(item.plan.priceUsdCents, tax),
+          },
+          quantity: item.quantity,
+          tax_rates: taxRates,
+        })),
+        mode: 'payment',
+        success_url: `${successUrl}?purchase_id=${result.purchase.id}&session_id={CHECKOUT_SESSION_ID}`,
+        cancel_url: `${cancelUrl}?purchase_id=${result.purchase.id}`,
+        metadata: {
+          purchaseId: result.purchase.id,
+          userId: user.id,
+          organizationId: organizationId || '',
+        },
+        expires_at: Math.floor(Date.now() / 1000) + 30 * 60, // 30 minutes
+      });
+
+      await prisma.purchase.update({
+        where: { id: result.purchase.id },
+        data: { stripeSessionId: session.id },
+      });
+
+      logger.info('Cart checkout session created', {
+        sessionId: session.id,
+        purchaseId: result.purchase.id,
+        userId: user.id,
+        orders: result.orderIds.length,
+      });
+
+      return successResult({
+        sessionId: session.id,
+        sessionUrl: session.url || '',
+        purchaseId: result.purchase.id,
+        orderIds: result.orderIds,
+        totalCents,
+      });
+    } catch (error) {
+      logger.error('Failed to create cart checkout session', error, { userId });
+
+      if (error instanceof Stripe.errors.StripeError) {
+        return errorResult('STRIPE_ERROR', error.message);
+      }
+
+      return errorResult(
+        'CHECKOUT_FAILED',
+        error instanceof Error ? error.message : 'Failed to create checkout session'
+      );
+    }
+  }
+
+  /**
+   * Create an order paid in crypto: the order waits for a transfer to a deposit
+   * address of its own, which the crypto payment watcher confirms
+   */
+  async createCryptoCheckout(params: ICreateCryptoCheckoutParams): Promise<ServiceResult<ICryptoCheckoutResult>> {
+    const { userId, asset, idempotencyKey, walletAddress, organizationId, allowProviderFallback, billing } = params;
+
+    try {
+      const assetInfo = cryptoPaymentService.isEnabled() ? cryptoPaymentService.getAsset(asset) : undefined;
+      if (!assetInfo) {
+        return errorResult('CRYPTO_ASSET_UNSUPPORTED', `Crypto payments in ${asset} are not accepted`);
+      }
+
+      // Check idempotency
+      if (idempotencyKey) {
+        const existingOrder = await prisma.order.findUnique({
+          where: { idempotencyKey },
+          include: { payments: { include: { cryptoPayment: true } } },
+        });
+
+        const existing = existingOrder?.payments[0]?.cryptoPayment;
+        if (existingOrder && existing) {
+          return successResult(this.toCryptoCheckoutResult(existingOrder.id, existing));
+        }
+      }
+
+      const resolved = await this.resolveCheckoutStorage(params);
+      if (!resolved.success) {
+        return errorResult(resolved.error.code, resolved.error.message, resolved.error.details);
+      }
+      const { storage, quote, promotions } = resolved.data;
+
+      const billingDetails = taxService.validateBillingDetails(billing);
+      if (!billingDetails.success) {
+        return errorResult(billingDetails.error.code, billingDetails.error.message, billingDetails.error.details);
+      }
+      const tax = await taxService.getTreatment(billingDetails.data);
+
+      const user = await prisma.user.findUnique({ where: { id: userId } });
+      if (!user) {
+        return errorResult('USER_NOT_FOUND', 'User not found');
+      }
+
+      // Storage may only be provisioned to a wallet the user has proven ownership of
+      const ownerWalletAddress = await this.findVerifiedWallet(user.id, walletAddress);
+      if (walletAddress && !ownerWalletAddress) {
+        return errorResult('WALLET_NOT_VERIFIED', 'Wallet is not linked to this account');
+      }
+
+      if (organizationId) {
+        const organization = await prisma.organization.findUnique({ where: { id: organizationId } });
+        if (!organization || organization.deletedAt) {
+          return errorResult('ORGANIZATION_NOT_FOUND', 'Organization not found');
+        }
+      }
+
+      const result = await withTransaction(async (tx) => {
+        const { order, payment } = await this.createPendingOrder(tx, {
+          user,
+          storage,
+          organizationId,
+          ownerWalletAddress,
+          allowProviderFallback: allowProviderFallback ?? false,
+          idempotencyKey: idempotencyKey || generateIdempotencyKey(),
+          promotions,
+          method: PaymentMethod.CRYPTO,
+          tax,
+        });
+
+        if (quote) {
+          await quoteService.claimQuote(tx, quote.id, order.id);
+        }
+
+        const cryptoPayment = await cryptoPaymentService.createDeposit(tx, payment, asset);
+
+        return { order, cryptoPayment };
+      });
+
+      logger.info('Crypto checkout created', {
+        orderId: result.order.id,
+        paymentId: result.cryptoPayment.paymentId,
+        userId: user.id,
+        asset,
+        depositAddress: result.cryptoPayment.depositAddress,
+        expectedAmount: result.cryptoPayment.expectedAmount,
+      });
+
+      return successResult(this.toCryptoCheckoutResult(result.order.id, result.cryptoPayment));
+    } catch (error) {
+      logger.error('Failed to create crypto checkout', error, { userId });
+
+      return errorResult(
+        'CHECKOUT_FAILED',
+        error instanceof Error ? error.message : 'Failed to create checkout'
+      );
+    }
+  }
+
+  /**
+   * Create a Stripe checkout session for buying account credit
+   */
+  async createTopUpCheckout(params: ICreateTopUpCheckoutParams): Promise<ServiceResult<ITopUpCheckoutResult>> {
+    const { userId, organizationId, amountCents, successUrl, cancelUrl } = params;
+    const { minTopUpCents, maxTopUpCents } = config.credits;
+
+    if (!Number.isInteger(amountCents) || amountCents < minTopUpCents || amountCents > maxTopUpCents) {
+      return errorResult(
+        'INVALID_TOP_UP_AMOUNT',
+        `Top-ups must be between ${centsToDollars(minTopUpCents)} and ${centsToDollars(maxTopUpCents)} USD`
+      );
+    }
+
+    try {
+      const user = await prisma.user.findUnique({ where: { id: userId } });
+      if (!user) {
+        return errorResult('USER_NOT_FOUND', 'User not found');
+      }
+
+      const stripeCustomerId = await this.getCheckoutCustomer(user, organizationId);
+      if (!stripeCustomerId) {
+        return errorResult('ORGANIZATION_NOT_FOUND', 'Organization not found');
+      }
+
+      const topUp = await prisma.creditTopUp.create({
+        data: { userId, organizationId, amountCents },
+      });
+
+      const session = await this.gateway.createCheckoutSession({
+        customer: stripeCustomerId,
+        payment_method_types: ['card'],
+        line_items: [
+          {
+            price_data: {
+              currency: 'usd',
+              product_data: {
+                name: 'Account credit',
+                description: organizationId ? 'Prepaid credit for the organization' : 'Prepaid credit',
+              },
+              unit_amount: amountCents,
+            },
+            quantity: 1,
+          },
+        ],
+        mode: 'payment',
+        success_url: `${successUrl}?top_up_id=${topUp.id}&session_id={CHECKOUT_SESSION_ID}`,
+        cancel_url: `${cancelUrl}?top_up_id=${topUp.id}`,
+        metadata: {
+          topUpId: topUp.id,
+          userId,
+          organizationId: organizationId || '',
+        },
+        expires_at: Math.floor(Date.now() / 1000) + 30 * 60, // 30 minutes
+      });
+
+      await prisma.creditTopUp.update({
+        where: { id: topUp.id },
+        data: { stripeSessionId: session.id },
+      });
+
+      logger.info('Top-up checkout session created', {
+        sessionId: session.id,
+        topUpId: topUp.id,
+        userId,
+        organizationId,
+        amountCents,
+      });
+
+      return successResult({
+        sessionId: session.id,
+        sessionUrl: session.url || '',
+        topUpId: topUp.id,
+      });
+    } catch (error) {
+      logger.error('Failed to create top-up checkout session', error, { userId });
+
+      if (error instanceof Stripe.errors.StripeError) {
+        return errorResult('STRIPE_ERROR', error.message);
+      }
+
+      return errorResult(
+        'CHECKOUT_FAILED',
+        error instanceof Error ? error.message : 'Failed to create checkout session'
+      );
+    }
+  }
+
+  private toCryptoCheckoutResult(orderId: string, cryptoPayment: CryptoPayment): ICryptoCheckoutResult {
+    const assetInfo = cryptoPaymentService.getAsset(cryptoPayment.asset);
+
+    return {
+      orderId,
+      paymentId: cryptoPayment.paymentId,
+      asset: cryptoPayment.asset,
+      symbol: assetInfo?.symbol ?? cryptoPayment.asset,
+      chainId: cryptoPayment.chainId,
+      tokenAddress: assetInfo?.tokenAddress ?? null,
+      depositAddress: cryptoPayment.depositAddress!,
+      amount: cryptoPaymentService.formatAmount(cryptoPayment.expectedAmount, cryptoPayment.asset),
+      amountBaseUnits: cryptoPayment.expectedAmount,
+      expiresAt: cryptoPayment.expiresAt,
+    };
+  }
+
+  /**
+   * Resolve what a checkout buys and at which price: a plan at its current or
+   * quoted price, or a custom size priced from a rate card, less promotions
+   */
+  private async resolveCheckoutStorage(
+    params: Pick<ICreateCheckoutParams, 'userId' | 'planId' | 'quoteId' | 'custom' | 'couponCode' | 'voucherCode'>
+  ): Promise<ServiceResult<{ storage: ICheckoutStorage; quote: Quote | null; promotions: IAppliedPromotions | null }>> {
+    const { userId, planId, quoteId, custom, couponCode, voucherCode } = params;
+
+    // A quote locks the price it was created with
+    let quote: Quote | null = null;
+    let storage: ICheckoutStorage;
+
+    if (custom) {
+      // Custom sizes are priced server-side from the provider's rate card
+      const price = await providerService.priceCustomStorage(
+        custom.providerSlug,
+        custom.storageSizeGb,
+        custom.durationDays
+      );
+      if (!price.success) {
+        return errorResult(price.error.code, price.error.message, price.error.details);
+      }
+
+      const provider = await prisma.provider.findUniqueOrThrow({ where: { id: price.data.providerId } });
+      storage = {
+        provider,
+        planId: null,
+        rateCardId: price.data.rateCardId,
+        name: orderService.getPlanName({ plan: null, storageSizeGb: price.data.storageSizeGb }),
+        storageSizeGb: price.data.storageSizeGb,
+        durationDays: price.data.durationDays,
+        priceUsdCents: price.data.priceUsdCents,
+      };
+    } else {
+      if (quoteId) {
+        const validated = await quoteService.validateQuote(quoteId, userId, planId);
+        if (!validated.success) {
+          return errorResult(validated.error.code, validated.error.message, validated.error.details);
+        }
+        quote = validated.data;
+      }
+
+      // Get the storage plan
+      const resolvedPlanId = quote?.planId ?? planId;
+      const plan = resolvedPlanId
+        ? await prisma.storagePlan.findUnique({
+            where: { id: resolvedPlanId },
+            include: { provider: true },
+          })
+        : null;
+
+      if (!plan) {
+        return errorResult('PLAN_NOT_FOUND', 'Storage plan not found');
+      }
+
+      if (plan.status !== 'AVAILABLE' || !plan.isActive) {
+        return errorResult('PLAN_UNAVAILABLE', 'This storage plan is no longer available');
+      }
+
+      storage = {
+        ...this.planStorage(plan),
+        priceUsdCents: quote?.priceUsdCents ?? plan.priceUsdCents,
+      };
+    }
+
+    const { priceUsdCents } = storage;
+
+    let promotions: IAppliedPromotions | null = null;
+    if (couponCode || voucherCode) {
+      const applied = await promotionService.applyPromotions(
+        userId,
+        { planId: storage.planId, providerId: storage.provider.id, priceUsdCents },
+        { couponCode, voucherCode }
+      );
+      if (!applied.success) {
+        return errorResult(applied.error.code, applied.error.message, applied.error.details);
+      }
+      promotions = applied.data;
+    }
+
+    return successResult({ storage, quote, promotions });
+  }
+
+  /**
+   * Create an order waiting for payment together with its payment record
+   */
+  private async createPendingOrder(
+    tx: Prisma.TransactionClient,
+    params: {
+      user: User;
+      storage: ICheckoutStorage;
+      organizationId?: string;
+      ownerWalletAddress: string | null;
+      allowProviderFallback: boolean;
+      idempotencyKey: string;
+      purchaseId?: string;
+      promotions?: IAppliedPromotions | null;
+      method?: PaymentMethod;
+      // Part of the price paid from the account's credit
+      creditCents?: number;
+      // Currency the order is charged in; defaults to USD
+      fxRate?: Pick<IFxRate, 'currency' | 'rate'>;
+      tax: ITaxTreatment;
+    }
+  ) {
+    const { user, storage, organizationId, purchaseId, promotions, method, tax } = params;
+    const { priceUsdCents } = storage;
+    const discountCents = promotions?.discountCents ?? 0;
+    const creditCents = params.creditCents ?? 0;
+    const fxRate = params.fxRate ?? { currency: BASE_CURRENCY, rate: '1' };
+
+    // Credit is spent in USD, so its tax is worked out apart from the card's
+    const creditTaxCents = taxService.includedTax(creditCents, tax.ratePercent);
+    const chargeCents = fxRateService.fromUsdCents(
+      taxService.chargeAmount(priceUsdCents - discountCents, tax) - creditCents,
+      fxRate.currency,
+      fxRate.rate
+    );
+    const chargeTaxCents = taxService.includedTax(chargeCents, tax.ratePercent);
+    const taxFields = { taxRatePercent: tax.ratePercent, reverseCharge: tax.reverseCharge };
+
+    const order = await tx.order.create({
+      data: {
+        orderNumber: generateOrderNumber(),
+        userId: user.id,
+        organizationId,
+        purchaseId,
+        providerId: storage.provider.id,
+        planId: storage.planId,
+        rateCardId: storage.rateCardId,
+        storageSizeGb: storage.storageSizeGb,
+        durationDays: storage.durationDays,
+        priceUsdCents,
+        discountCents,
+        currency: fxRate.currency,
+        fxRate: fxRate.rate,
+        billingCountry: tax.country,
+        billingRegion: tax.region,
+        vatId: tax.vatId,
+        ...taxFields,
+        // Credit pays in USD, so orders in other currencies are never part paid from it
+        taxCents: chargeTaxCents + creditTaxCents,
+        ownerWalletAddress: params.ownerWalletAddress,
+        allowProviderFallback: params.allowProviderFallback,
+        status: OrderStatus.PENDING_PAYMENT,
+        idempotencyKey: params.idempotencyKey,
+      },
+    });
+
+    await orderStateMachine.recordCreated(
+      order,
+      { type: OrderActorType.USER, id: user.id },
+      tx
+    );
+
+    if (promotions) {
+      await promotionService.redeem(tx, order.id, user.id, promotions);
+    }
+
+    const creditPayment = creditCents > 0
+      ? await creditService.createOrderPayment(tx, {
+          account: { userId: user.id, organizationId },
+          orderId: order.id,
+          amountCents: creditCents,
+          createdById: user.id,
+          tax: { ...taxFields, taxCents: creditTaxCents },
+        })
+      : null;
+
+    // Credit covering the whole price is the order's only payment
+    const payment = creditPayment && chargeCents === 0
+      ? creditPayment
+      : await tx.payment.create({
+          data: {
+            orderId: order.id,
+            userId: user.id,
+            organizationId,
+            purchaseId,
+            amountCents: chargeCents,
+            currency: fxRate.currency,
+            fxRate: fxRate.rate,
+            ...taxFields,
+            taxCents: chargeTaxCents,
+            method,
+            status: PaymentStatus.PENDING,
+            idempotencyKey: generateIdempotencyKey(),
+          },
+        });
+
+    return { order, payment };
+  }
+
+  /**
+   * Describe the storage of a plan at its current price
+   */
+  private planStorage(plan: StoragePlan & { provider: Provider }): ICheckoutStorage {
+    return {
+      provider: plan.provider,
+      planId: plan.id,
+      rateCardId: null,
+      name: plan.name,
+      storageSizeGb: plan.storageSizeGb,
+      durationDays: plan.durationDays,
+      priceUsdCents: plan.priceUsdCents,
+    };
+  }
+
+  /**
+   * Get the gateway tax rate to show the tax included in a line item, if any is charged
+   */
+  private async getGatewayTaxRates(tax: ITaxTreatment): Promise<string[] | undefined> {
+    if (tax.ratePercent <= 0) {
+      return undefined;
+    }
+
+    const key = [tax.name, tax.country, tax.region, tax.ratePercent].join(':');
+    let taxRateId = this.gatewayTaxRates.get(key);
+
+    if (!taxRateId) {
+      const taxRate = await this.gateway.createTaxRate({
+        display_name: tax.name,
+        percentage: tax.ratePercent,
+        // Prices include tax
+        inclusive: true,
+        country: tax.country ?? undefined,
+        state: tax.region ?? undefined,
+        jurisdiction: tax.country ? [tax.country, tax.region].filter(Boolean).join('-') : undefined,
+      });
+      taxRateId = taxRate.id;
+      this.gatewayTaxRates.set(key, taxRateId);
+    }
+
+    return [taxRateId];
+  }
+
+  /**
+   * Get the address of one of the user's verified wallets, or null if it is not
+   * theirs. Without an address, get their primary wallet if they have one.
+   */
+  private async findVerifiedWallet(userId: string, walletAddress?: string): Promise<string | null> {
+    const wallet = await prisma.userWallet.findFirst({
+      where: walletAddress
+        ? { userId, address: { equals: walletAddress, mode: 'insensitive' } }
+        : { userId, isPrimary: true },
+    });
+
+    return wallet?.address ?? null;
+  }
+
+  /**
+   * Get the Stripe customer to bill: the organization's when buying for one.
+   * Returns null when the organization does not exist.
+   */
+  private async getCheckoutCustomer(user: User, organizationId?: string): Promise<string | null> {
+    if (!organizationId) {
+      return this.getOrCreateUserCustomer(user);
+    }
+
+    const organization = await prisma.organization.findUnique({ where: { id: organizationId } });
+    if (!organization || organization.deletedAt) {
+      return null;
+    }
+
+    return this.getOrCreateOrganizationCustomer(organization, user.email);
+  }
+
+  /**
+   * Get the user's Stripe customer, creating it on first purchase
+   */
+  private async getOrCreateUserCustomer(user: User): Promise<string> {
+    if (user.stripeCustomerId) {
+      return user.stripeCustomerId;
+    }
+
+    const customer = await this.gateway.createCustomer({
+      email: user.email || undefined,
+      name: user.name || undefined,
+      metadata: {
+        userId: user.id,
+      },
+    });
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { stripeCustomerId: customer.id },
+    });
+
+    return customer.id;
+  }
+
+  /**
+   * Get the organization's shared Stripe customer, creating it on first purchase
+   */
+  private async getOrCreateOrganizationCustomer(
+    organization: Organization,
+    billingEmail: string | null
+  ): Promise<string> {
+    if (organization.stripeCustomerId) {
+      return organization.stripeCustomerId;
+    }
+
+    const customer = await this.gateway.createCustomer({
+      email: billingEmail || undefined,
+      name: organization.name,
+      metadata: {
+        organizationId: organization.id,
+      },
+    });
+
+    await prisma.organization.update({
+      where: { id: organization.id },
+      data: { stripeCustomerId: customer.id },
+    });
+
+    return customer.id;
+  }
+
+  /**
+   * Handle Stripe webhook events. Every verified event is stored and processed
+   * at most once; failed events are retried on redelivery or replay.
+   */
+  async handleWebhook(payload: string | Buffer, signature: string): Promise<ServiceResult<{ handled: boolean; eventType: string }>> {
+    let event: Stripe.Event;
+
+    try {
+      // Verify webhook signature
+      event = this.gateway.constructWebhookEvent(payload, signature);
+    } catch (error) {
+      logger.error('Webhook verification failed', error);
+      return errorResult('INVALID_SIGNATURE', 'Invalid webhook signature');
+    }
+
+    logger.info('Received Stripe webhook', { type: event.type, id: event.id });
+
+    try {
+      const stored = await webhookEventService.claim(event);
+      if (!stored) {
+        return successResult({ handled: false, eventType: event.type });
+      }
+
+      return await this.processWebhookEvent(stored.id, event);
+    } catch (error) {
+      logger.error('Webhook handling failed', error, { eventId: event.id });
+
+      return errorResult(
+        'WEBHOOK_FAILED',
+        error instanceof Error ? error.message : 'Webhook handling failed'
+      );
+    }
+  }
+
+  /**
+   * Process a stored webhook event again, after it failed
+   */
+  async replayWebhookEvent(id: string): Promise<ServiceResult<{ handled: boolean; eventType: string }>> {
+    const stored = await webhookEventService.getEvent(id);
+    const claimed = await webhookEventService.reclaim(stored.eventId);
+
+    if (!claimed) {
+      return errorResult(
+        'WEBHOOK_EVENT_NOT_REPLAYABLE',
+        `Webhook events with status ${stored.status} cannot be replayed`
+      );
+    }
+
+    logger.info('Replaying Stripe webhook', { type: stored.type, id: stored.eventId, attempts: claimed.attempts });
+
+    return this.processWebhookEvent(claimed.id, claimed.payload as unknown as Stripe.Event);
+  }
+
+  /**
+   * Expire the open checkout sessions of an order being cancelled so they can
+   * no longer be paid. Orders bought in a cart share their purchase's session,
+   * so the rest of the purchase is cancelled with them. Throws ConflictError
+   * when a checkout has already been paid.
+   */
+  async expireOrderCheckouts(orderId: string): Promise<void> {
+    const payments = await prisma.payment.findMany({
+      where: {
+        orderId,
+        method: PaymentMethod.STRIPE,
+        status: { in: [PaymentStatus.PENDING, PaymentStatus.PROCESSING] },
+      },
+      include: { purchase: { select: { stripeSessionId: true } } },
+    });
+
+    const sessionIds = new Set(
+      payments
+        .map(payment => payment.stripeSessionId ?? payment.purchase?.stripeSessionId)
+        .filter((sessionId): sessionId is string => !!sessionId)
+    );
+
+    for (const sessionId of sessionIds) {
+      const session = await this.gateway.retrieveCheckoutSession(sessionId);
+
+      if (session.status === 'complete') {
+        throw new ConflictError('The order has already been paid');
+      }
+
+      if (session.status === 'open') {
+        await this.gateway.expireCheckoutSession(sessionId);
+        logger.info('Checkout session expired for cancelled order', { orderId, sessionId });
+      }
+    }
+  }
+
+  /**
+   * Apply a checkout session fetched from the gateway as its webhook would
+   * have, for sessions whose completed or expired event never arrived
+   */
+  async applyCheckoutSession(session: Stripe.Checkout.Session): Promise<void> {
+    if (session.status === 'complete') {
+      await this.handleCheckoutCompleted(session);
+    } else if (session.status === 'expired') {
+      await this.handleCheckoutExpired(session);
+    }
+  }
+
+  /**
+   * Apply a payment intent fetched from the gateway as its webhook would have
+   */
+  async applyPaymentIntent(paymentIntent: Stripe.PaymentIntent): Promise<void> {
+    if (paymentIntent.status === 'succeeded') {
+      await this.handlePaymentSucceeded(paymentIntent);
+    } else if (paymentIntent.status === 'canceled' || paymentIntent.last_payment_error) {
+      await this.handlePaymentFailed(paymentIntent);
+    }
+  }
+
+  /**
+   * Run the handler of a claimed event and record the outcome
+   */
+  private async processWebhookEvent(
+    id: string,
+    event: Stripe.Event
+  ): Promise<ServiceResult<{ handled: boolean; eventType: string }>> {
+    try {
+      const handled = await this.dispatchWebhookEvent(event);
+      await webhookEventService.markProcessed(id, handled);
+
+      return successResult({ handled, eventType: event.type });
+    } catch (error) {
+      logger.error('Webhook handling failed', error, { eventId: event.id });
+      await webhookEventService.markFailed(id, error);
+
+      return errorResult(
+        'WEBHOOK_FAILED',
+        error instanceof Error ? error.message : 'Webhook handling failed'
+      );
+    }
+  }
+
+  /**
+   * Route an event to its handler. Returns false for event types nothing handles.
+   */
+  private async dispatchWebhookEvent(event: Stripe.Event): Promise<boolean> {
+    switch (event.type) {
+      case 'checkout.session.completed':
+        await this.handleCheckoutCompleted(event.data.object as Stripe.Checkout.Session);
+        return true;
+
+      case 'checkout.session.expired':
+        await this.handleCheckoutExpired(event.data.object as Stripe.Checkout.Session);
+        return true;
+
+      case 'payment_intent.succeeded':
+        await this.handlePaymentSucceeded(event.data.object as Stripe.PaymentIntent);
+        return true;
+
+      case 'payment_intent.payment_failed':
+        await this.handlePaymentFailed(event.data.object as Stripe.PaymentIntent);
+        return true;
+
+      case 'invoice.paid':
+        await this.handleInvoicePaid(event.data.object as Stripe.Invoice);
+        return true;
+
+      case 'invoice.payment_failed':
+        await this.handleInvoicePaymentFailed(event.data.object as Stripe.Invoice);
+        return true;
+
+      case 'customer.subscription.deleted':
+        await this.handleSubscriptionDeleted(event.data.object as Stripe.Subscription);
+        return true;
+
+      case 'charge.refunded':
+        await refundService.handleChargeRefunded(event.data.object as Stripe.Charge);
+        return true;
+
+      case 'charge.dispute.created':
+      case 'charge.dispute.updated':
+      case 'charge.dispute.closed':
+      case 'charge.dispute.funds_withdrawn':
+      case 'charge.dispute.funds_reinstated':
+        await disputeService.handleDispute(event.data.object as Stripe.Dispute);
+        return true;
+
+      default:
+        logger.debug('Unhandled webhook event', { type: event.type });
+        return false;
+    }
+  }
+
+  /**
+   * Handle checkout.session.completed event
+   */
+  private async handleCheckoutCompleted(session: Stripe.Checkout.Session): Promise<void> {
+    if (session.metadata?.purchaseId) {
+      await this.handlePurchaseCompleted(session, session.metadata.purchaseId);
+      return;
+    }
+
+    if (session.metadata?.topUpId) {
+      await creditService.completeTopUp(session.metadata.topUpId, session.payment_intent as string | null);
+      return;
+    }
+
+    const orderId = session.metadata?.orderId;
+    const paymentId = session.metadata?.paymentId;
+
+    if (!orderId || !paymentId) {
+      logger.error('Missing metadata in checkout session', { sessionId: session.id });
+      return;
+    }
+
+    // Check if already processed (idempotency)
+    const existingPayment = await prisma.payment.findUnique({
+      where: { id: paymentId },
+    });
+
+    // Payments refunded since, including late ones refunded below, count as processed
+    if (existingPayment && PAID_PAYMENT_STATUSES.includes(existingPayment.status)) {
+      logger.info('Payment already processed', { paymentId, orderId });
+      return;
+    }
+
+    if (existingPayment?.purpose === PaymentPurpose.RENEWAL) {
+      await this.handleRenewalCompleted(session, existingPayment);
+      return;
+    }
+
+    if (existingPayment?.purpose === PaymentPurpose.PLAN_CHANGE) {
+      await this.handlePlanChangeCompleted(session, existingPayment);
+      return;
+    }
+
+    // The customer may pay a checkout the order was cancelled under, e.g. in the
+    // moment before the session was expired; they get their money back
+    const order = await prisma.order.findUnique({ where: { id: orderId } });
+    if (!order || !orderStateMachine.canTransition(order.status, OrderStatus.PAYMENT_COMPLETED)) {
+      await this.refundUnpayableCheckout(session, paymentId, order?.status);
+      return;
+    }
+
+    // Auto-renewing orders are paid through the first invoice of a subscription
+    const stripeSubscription = session.mode === 'subscription' && session.subscription
+      ? await this.gateway.retrieveSubscription(session.subscription as string)
+      : null;
+
+    const creditPaymentIds = await withTransaction(async (tx) => {
+      // Update payment
+      await tx.payment.update({
+        where: { id: paymentId },
+        data: {
+          status: PaymentStatus.SUCCEEDED,
+          stripePaymentIntentId: session.payment_intent as string,
+          stripeInvoiceId: session.invoice as string | null,
+          processedAt: new Date(),
+          metadata: {
+            sessionId: session.id,
+            customerId: session.customer,
+            amountTotal: session.amount_total,
+          },
+        },
+      });
+
+      const order = await orderStateMachine.transition(orderId, OrderStatus.PAYMENT_COMPLETED, {
+        actor: { type: OrderActorType.PAYMENT_PROVIDER, id: session.id },
+        reason: 'Checkout completed',
+        data: { paidAt: new Date() },
+        tx,
+      });
+
+      if (stripeSubscription) {
+        await tx.orderSubscription.create({
+          data: {
+            orderId,
+            stripeSubscriptionId: stripeSubscription.id,
+            durationDays: order.durationDays,
+            priceUsdCents: order.priceUsdCents,
+            currentPeriodEnd: new Date(stripeSubscription.current_period_end * 1000),
+          },
+        });
+      }
+
+      return creditService.settleOrderPayments(tx, orderId);
+    });
+
+    logger.info('Payment completed', { orderId, paymentId, sessionId: session.id });
+
+    this.issueInvoices([paymentId, ...creditPaymentIds]);
+
+    // Trigger blockchain transaction (async)
+    // This will be handled by the blockchain service
+    this.triggerBlockchainTransaction(orderId).catch(error => {
+      logger.error('Failed to trigger blockchain transaction', error, { orderId });
+    });
+  }
+
+  /**
+   * Refund a checkout paid for an order that can no longer be paid, e.g. one
+   * cancelled while its checkout was open. Subscriptions it started are cancelled.
+   */
+  private async refundUnpayableCheckout(
+    session: Stripe.Checkout.Session,
+    paymentId: string,
+    orderStatus?: OrderStatus
+  ): Promise<void> {
+    const reason = `Paid after the order was ${orderStatus?.toLowerCase() ?? 'deleted'}`;
+
+    if (session.subscription) {
+      await this.gateway.cancelSubscription(session.subscription as string);
+    }
+
+    // Record the charge first so the refund can find it
+    const payment = await prisma.payment.update({
+      where: { id: paymentId },
+      data: {
+        stripePaymentIntentId: session.payment_intent as string | null,
+        stripeInvoiceId: session.invoice as string | null,
+        processedAt: new Date(),
+        statusMessage: reason,
+        metadata: {
+          sessionId: session.id,
+          customerId: session.customer as string | null,
+          amountTotal: session.amount_total,
+        },
+      },
+    });
+
+    try {
+      await refundService.refundPaymentInFull({ ...payment, status: PaymentStatus.SUCCEEDED }, reason);
+    } catch (error) {
+      // Leave the payment unpaid so the webhook's retry refunds it again
+      await prisma.payment.update({ where: { id: paymentId }, data: { status: payment.status } });
+      throw error;
+    }
+
+    logger.warn('Refunded checkout paid for an order that cannot be paid', {
+      orderId: payment.orderId,
+      paymentId,
+      sessionId: session.id,
+      orderStatus,
+    });
+  }
+
+  /**
+   * Handle a completed cart checkout: every order of the purchase is paid
+   * and then allocated on its own
+   */
+  private async handlePurchaseCompleted(session: Stripe.Checkout.Session, purchaseId: string): Promise<void> {
+    const purchase = await prisma.purchase.findUnique({
+      where: { id: purchaseId },
+      include: { orders: { select: { id: true, status: true, planId: true } } },
+    });
+
+    if (!purchase) {
+      logger.error('Checkout session references an unknown purchase', { sessionId: session.id, purchaseId });
+      return;
+    }
+
+    if (purchase.status === PurchaseStatus.PAID) {
+      logger.info('Purchase already processed', { purchaseId });
+      return;
+    }
+
+    // Orders cancelled while the checkout was open are refunded instead
+    const payable = purchase.orders.filter(
+      order => orderStateMachine.canTransition(order.status, OrderStatus.PAYMENT_COMPLETED)
+    );
+    const unpayable = purchase.orders.filter(order => !payable.includes(order));
+
+    await withTransaction(async (tx) => {
+      await tx.purchase.update({
+        where: { id: purchaseId },
+        data: {
+          status: PurchaseStatus.PAID,
+          stripePaymentIntentId: session.payment_intent as string,
+          paidAt: new Date(),
+        },
+      });
+
+      await tx.payment.updateMany({
+        where: { purchaseId },
+        data: {
+          status: PaymentStatus.SUCCEEDED,
+          processedAt: new Date(),
+          metadata: {
+            sessionId: session.id,
+            customerId: session.customer as string | null,
+            purchaseId,
+          },
+        },
+      });
+
+      for (const order of payable) {
+        await orderStateMachine.transition(order.id, OrderStatus.PAYMENT_COMPLETED, {
+          actor: { type: OrderActorType.PAYMENT_PROVIDER, id: session.id },
+          reason: 'Checkout completed',
+          data: { paidAt: new Date() },
+          tx,
+        });
+      }
+    });
+
+    await this.removePurchasedCartItems(purchase.userId, purchase.orders);
+
+    logger.info('Purchase completed', { purchaseId, orders: payable.length, sessionId: session.id });
+
+    for (const order of unpayable) {
+      const orderPayments = await prisma.payment.findMany({ where: { purchaseId, orderId: order.id } });
+      for (const payment of orderPayments) {
+        await refundService.refundPaymentInFull(payment, `Paid after the order was ${order.status.toLowerCase()}`);
+      }
+
+      logger.warn('Refunded cart order that cannot be paid', { purchaseId, orderId: order.id, status: order.status });
+    }
+
+    const payments = await prisma.payment.findMany({
+      where: { purchaseId, orderId: { in: payable.map(order => order.id) } },
+      select: { id: true },
+    });
+    this.issueInvoices(payments.map(payment => payment.id));
+
+    for (const order of payable) {
+      this.triggerBlockchainTransaction(order.id).catch(error => {
+        logger.error('Failed to trigger blockchain transaction', error, { orderId: order.id });
+      });
+    }
+  }
+
+  /**
+   * Take what a purchase bought out of the buyer's cart, one unit per order.
+   * Plans added or topped up while the checkout was open stay in the cart.
+   */
+  private async removePurchasedCartItems(userId: string, orders: { planId: string | null }[]): Promise<void> {
+    const bought = new Map<string, number>();
+    for (const { planId } of orders) {
+      if (planId) {
+        bought.set(planId, (bought.get(planId) ?? 0) + 1);
+      }
+    }
+
+    await withTransaction(async (tx) => {
+      for (const [planId, quantity] of bought) {
+        await tx.cartItem.updateMany({
+          where: { cart: { userId }, planId },
+          data: { quantity: { decrement: quantity } },
+        });
+      }
+
+      await tx.cartItem.deleteMany({ where: { cart: { userId }, quantity: { lte: 0 } } });
+    });
+  }
+
+  /**
+   * Handle a completed renewal checkout: mark the renewal as paid and extend the storage
+   */
+  private async handleRenewalCompleted(session: Stripe.Checkout.Session, payment: Payment): Promise<void> {
+    const renewalId = payment.renewalId!;
+
+    await withTransaction(async (tx) => {
+      await tx.payment.update({
+        where: { id: payment.id },
+        data: {
+          status: PaymentStatus.SUCCEEDED,
+          stripePaymentIntentId: session.payment_intent as string,
+          processedAt: new Date(),
+          metadata: {
+            sessionId: session.id,
+            customerId: session.customer as string | null,
+            amountTotal: session.amount_total,
+          },
+        },
+      });
+
+      await tx.orderRenewal.update({
+        where: { id: renewalId },
+        data: {
+          status: RenewalStatus.PAID,
+          paidAt: new Date(),
+        },
+      });
+    });
+
+    logger.info('Renewal payment completed', { orderId: payment.orderId, renewalId, sessionId: session.id });
+
+    this.issueInvoices([payment.id]);
+
+    orderRenewalService.applyRenewal(renewalId).catch(error => {
+      logger.error('Failed to apply renewal', error, { renewalId });
+    });
+  }
+
+  /**
+   * Handle a completed plan change checkout: mark the change as paid and resize the storage
+   */
+  private async handlePlanChangeCompleted(session: Stripe.Checkout.Session, payment: Payment): Promise<void> {
+    const planChangeId = payment.planChangeId!;
+
+    await withTransaction(async (tx) => {
+      await tx.payment.update({
+        where: { id: payment.id },
+        data: {
+          status: PaymentStatus.SUCCEEDED,
+          stripePaymentIntentId: session.payment_intent as string,
+          processedAt: new Date(),
+          metadata: {
+            sessionId: session.id,
+            customerId: session.customer as string | null,
+            amountTotal: session.amount_total,
+          },
+        },
+      });
+
+      await tx.orderPlanChange.update({
+        where: { id: planChangeId },
+        data: {
+          status: PlanChangeStatus.PAID,
+          paidAt: new Date(),
+        },
+      });
+    });
+
+    logger.info('Plan change payment completed', { orderId: payment.orderId, planChangeId, sessionId: session.id });
+
+    this.issueInvoices([payment.id]);
+
+    orderPlanChangeService.applyPlanChange(planChangeId).catch(error => {
+      logger.error('Failed to apply plan change', error, { planChangeId });
+    });
+  }
+
+  /**
+   * Handle checkout.session.expired event
+   */
+  private async handleCheckoutExpired(session: Stripe.Checkout.Session): Promise<void> {
+    if (session.metadata?.purchaseId) {
+      await this.handlePurchaseExpired(session, session.metadata.purchaseId);
+      return;
+    }
+
+    if (session.metadata?.topUpId) {
+      await creditService.cancelTopUp(session.metadata.topUpId);
+      return;
+    }
+
+    const orderId = session.metadata?.orderId;
+    const paymentId = session.metadata?.paymentId;
+
+    if (!orderId || !paymentId) {
+      return;
+    }
+
+    // An abandoned renewal leaves the original order untouched
+    if (session.metadata?.purpose === PaymentPurpose.RENEWAL) {
+      await withTransaction(async (tx) => {
+        await tx.payment.update({
+          where: { id: paymentId },
+          data: {
+            status: PaymentStatus.CANCELLED,
+            statusMessage: 'Checkout session expired',
+          },
+        });
+
+        await tx.orderRenewal.updateMany({
+          where: { id: session.metadata!.renewalId, status: RenewalStatus.PENDING_PAYMENT },
+          data: {
+            status: RenewalStatus.CANCELLED,
+            statusMessage: 'Payment session expired',
+          },
+        });
+      });
+
+      logger.info('Renewal checkout session expired', { orderId, paymentId });
+      return;
+    }
+
+    // An abandoned upgrade leaves the order on its current plan
+    if (session.metadata?.purpose === PaymentPurpose.PLAN_CHANGE) {
+      await withTransaction(async (tx) => {
+        await tx.payment.update({
+          where: { id: paymentId },
+          data: {
+            status: PaymentStatus.CANCELLED,
+            statusMessage: 'Checkout session expired',
+          },
+        });
+
+        await tx.orderPlanChange.updateMany({
+          where: { id: session.metadata!.planChangeId, status: PlanChangeStatus.PENDING_PAYMENT },
+          data: {
+            status: PlanChangeStatus.CANCELLED,
+            statusMessage: 'Payment session expired',
+          },
+        });
+      });
+
+      logger.info('Plan change checkout session expired', { orderId, paymentId });
+      return;
+    }
+
+    const order = await prisma.order.findUnique({ where: { id: orderId } });
+    if (!order || !orderStateMachine.canTransition(order.status, OrderStatus.CANCELLED)) {
+      logger.info('Ignoring expired checkout session', { orderId, status: order?.status });
+      return;
+    }
+
+    await withTransaction(async (tx) => {
+      await tx.payment.update({
+        where: { id: paymentId },
+        data: {
+          status: PaymentStatus.CANCELLED,
+          statusMessage: 'Checkout session expired',
+        },
+      });
+
+      await orderStateMachine.transition(orderId, OrderStatus.CANCELLED, {
+        actor: { type: OrderActorType.PAYMENT_PROVIDER, id: session.id },
+        reason: 'Payment session expired',
+        data: { statusMessage: 'Payment session expired' },
+        tx,
+      });
+
+      await promotionService.releaseForOrder(tx, orderId);
+      await creditService.releaseOrderPayments(tx, orderId, 'Checkout session expired');
+    });
+
+    logger.info('Checkout session expired', { orderId, paymentId });
+  }
+
+  /**
+   * Cancel an abandoned cart checkout and all of its orders
+   */
+  private async handlePurchaseExpired(session: Stripe.Checkout.Session, purchaseId: string): Promise<void> {
+    const purchase = await prisma.purchase.findUnique({
+      where: { id: purchaseId },
+      include: { orders: { select: { id: true, status: true } } },
+    });
+
+    if (!purchase || purchase.status !== PurchaseStatus.PENDING_PAYMENT) {
+      logger.info('Ignoring expired checkout session', { purchaseId, status: purchase?.status });
+      return;
+    }
+
+    await withTransaction(async (tx) => {
+      await tx.purchase.update({
+        where: { id: purchaseId },
+        data: { status: PurchaseStatus.CANCELLED },
+      });
+
+      await tx.payment.updateMany({
+        where: { purchaseId },
+        data: {
+          status: PaymentStatus.CANCELLED,
+          statusMessage: 'Checkout session expired',
+        },
+      });
+
+      for (const order of purchase.orders) {
+        if (!orderStateMachine.canTransition(order.status, OrderStatus.CANCELLED)) {
+          continue;
+        }
+
+        await orderStateMachine.transition(order.id, OrderStatus.CANCELLED, {
+          actor: { type: OrderActorType.PAYMENT_PROVIDER, id: session.id },
+          reason: 'Payment session expired',
+          data: { statusMessage: 'Payment session expired' },
+          tx,
+        });
+      }
+    });
+
+    logger.info('Cart checkout session expired', { purchaseId });
+  }
+
+  /**
+   * Complete the order of a confirmed crypto payment, as a completed checkout does
+   */
+  async completeCryptoPayment(paymentId: string): Promise<void> {
+    const { payment, ...cryptoPayment } = await cryptoPaymentService.getCryptoPayment(paymentId);
+
+    if (payment.status === PaymentStatus.SUCCEEDED) {
+      logger.info('Payment already processed', { paymentId, orderId: payment.orderId });
+      return;
+    }
+
+    await withTransaction(async (tx) => {
+      await tx.payment.update({
+        where: { id: paymentId },
+        data: {
+          status: PaymentStatus.SUCCEEDED,
+          processedAt: new Date(),
+          metadata: {
+            asset: cryptoPayment.asset,
+            chainId: cryptoPayment.chainId,
+            depositAddress: cryptoPayment.depositAddress,
+            expectedAmount: cryptoPayment.expectedAmount,
+            receivedAmount: cryptoPayment.receivedAmount,
+            usdRate: cryptoPayment.usdRate,
+          },
+        },
+      });
+
+      await orderStateMachine.transition(payment.orderId, OrderStatus.PAYMENT_COMPLETED, {
+        actor: { type: OrderActorType.PAYMENT_PROVIDER, id: cryptoPayment.id },
+        reason: 'Crypto payment confirmed',
+        data: { paidAt: new Date() },
+        tx,
+      });
+    });
+
+    logger.info('Payment completed', { orderId: payment.orderId, paymentId, depositAddress: cryptoPayment.depositAddress });
+
+    this.issueInvoices([paymentId]);
+
+    this.triggerBlockchainTransaction(payment.orderId).catch(error => {
+      logger.error('Failed to trigger blockchain transaction', error, { orderId: payment.orderId });
+    });
+  }
+
+  /**
+   * Cancel the order of a crypto payment that was not made in time, as an expired checkout does
+   */
+  async cancelCryptoPayment(paymentId: string, statusMessage: string): Promise<void> {
+    const { payment, ...cryptoPayment } = await cryptoPaymentService.getCryptoPayment(paymentId);
+
+    const order = await prisma.order.findUnique({ where: { id: payment.orderId } });
+    if (!order || !orderStateMachine.canTransition(order.status, OrderStatus.CANCELLED)) {
+      logger.info('Ignoring expired crypto payment', { orderId: payment.orderId, status: order?.status });
+      return;
+    }
+
+    await withTransaction(async (tx) => {
+      await tx.payment.update({
+        where: { id: paymentId },
+        data: {
+          status: PaymentStatus.CANCELLED,
+          statusMessage,
+        },
+      });
+
+      await orderStateMachine.transition(payment.orderId, OrderStatus.CANCELLED, {
+        actor: { type: OrderActorType.PAYMENT_PROVIDER, id: cryptoPayment.id },
+        reason: statusMessage,
+        data: { statusMessage },
+        tx,
+      });
+
+      await promotionService.releaseForOrder(tx, payment.orderId);
+    });
+
+    logger.info('Crypto payment expired', { orderId: payment.orderId, paymentId, statusMessage });
+  }
+
+  /**
+   * Handle payment_intent.succeeded event
+   */
+  private async handlePaymentSucceeded(paymentIntent: Stripe.PaymentIntent): Promise<void> {
+    const payment = await prisma.payment.findUnique({
+      where: { stripePaymentIntentId: paymentIntent.id },
+    });
+
+    if (payment && payment.status !== PaymentStatus.SUCCEEDED) {
+      await prisma.payment.update({
+        where: { id: payment.id },
+        data: {
+          status: PaymentStatus.SUCCEEDED,
+          processedAt: new Date(),
+        },
+      });
+    }
+  }
+
+  /**
+   * Handle payment_intent.payment_failed event
+   */
+  private async handlePaymentFailed(paymentIntent: Stripe.PaymentIntent): Promise<void> {
+    const payment = await prisma.payment.findUnique({
+      where: { stripePaymentIntentId: paymentIntent.id },
+      include: { order: true },
+    });
+
+    if (payment) {
+      // Failures reported after the order moved on (e.g. a later successful retry) only update the payment
+      const updateOrder = orderStateMachine.canTransition(payment.order.status, OrderStatus.PAYMENT_FAILED);
+
+      await withTransaction(async (tx) => {
+        await tx.payment.update({
+          where: { id: payment.id },
+          data: {
+            status: PaymentStatus.FAILED,
+            statusMessage: paymentIntent.last_payment_error?.message || 'Payment failed',
+          },
+        });
+
+        if (updateOrder) {
+          await orderStateMachine.transition(payment.orderId, OrderStatus.PAYMENT_FAILED, {
+            actor: { type: OrderActorType.PAYMENT_PROVIDER, id: paymentIntent.id },
+            reason: paymentIntent.last_payment_error?.message || 'Payment failed',
+            data: { statusMessage: 'Payment failed' },
+            tx,
+          });
+        }
+      });
+
+      logger.info('Payment failed', {
+        paymentId: payment.id,
+        orderId: payment.orderId,
+        error: paymentIntent.last_payment_error?.message,
+      });
+    }
+  }
+
+  /**
+   * Handle invoice.paid event: each renewal invoice of an auto-renewing
+   * order extends its storage like a manual renewal
+   */
+  private async handleInvoicePaid(invoice: Stripe.Invoice): Promise<void> {
+    const subscriptionId = this.getInvoiceSubscriptionId(invoice);
+
+    // The first invoice is settled through checkout.session.completed
+    if (!subscriptionId || invoice.billing_reason !== 'subscription_cycle') {
+      return;
+    }
+
+    const subscription = await prisma.orderSubscription.findUnique({
+      where: { stripeSubscriptionId: subscriptionId },
+      include: { order: true },
+    });
+
+    if (!subscription) {
+      logger.warn('Invoice paid for unknown subscription', { invoiceId: invoice.id, subscriptionId });
+      return;
+    }
+
+    const existingPayment = await prisma.payment.findUnique({
+      where: { stripeInvoiceId: invoice.id },
+    });
+
+    if (existingPayment) {
+      logger.info('Invoice already processed', { invoiceId: invoice.id });
+      return;
+    }
+
+    const { order } = subscription;
+    const periodEnd = invoice.lines.data[0]?.period.end;
+
+    const { renewal, payment } = await withTransaction(async (tx) => {
+      const renewal = await tx.orderRenewal.create({
+        data: {
+          orderId: order.id,
+          userId: order.userId,
+          planId: order.planId,
+          rateCardId: order.rateCardId,
+          durationDays: subscription.durationDays,
+          // Subscriptions are billed at the rate of their first charge
+          priceUsdCents: fxRateService.toUsdCents(invoice.amount_paid, invoice.currency, order.fxRate),
+          status: RenewalStatus.PAID,
+          paidAt: new Date(),
+        },
+      });
+
+      const payment = await tx.payment.create({
+        data: {
+          orderId: order.id,
+          userId: order.userId,
+          organizationId: order.organizationId,
+          purpose: PaymentPurpose.RENEWAL,
+          renewalId: renewal.id,
+          stripeInvoiceId: invoice.id,
+          stripePaymentIntentId: invoice.payment_intent as string | null,
+          amountCents: invoice.amount_paid,
+          currency: invoice.currency,
+          fxRate: order.fxRate,
+          // The subscription keeps the tax rate of its first charge
+          taxCents: taxService.includedTax(invoice.amount_paid, order.taxRatePercent),
+          taxRatePercent: order.taxRatePercent,
+          reverseCharge: order.reverseCharge,
+          status: PaymentStatus.SUCCEEDED,
+          processedAt: new Date(),
+          idempotencyKey: generateIdempotencyKey(),
+          metadata: {
+            invoiceId: invoice.id,
+            subscriptionId,
+          },
+        },
+      });
+
+      await tx.orderSubscription.update({
+        where: { id: subscription.id },
+        data: {
+          status: SubscriptionStatus.ACTIVE,
+          failedPaymentCount: 0,
+          lastPaymentError: null,
+          currentPeriodEnd: periodEnd ? new Date(periodEnd * 1000) : undefined,
+        },
+      });
+
+      return { renewal, payment };
+    });
+
+    logger.info('Subscription renewal paid', { orderId: order.id, renewalId: renewal.id, invoiceId: invoice.id });
+
+    this.issueInvoices([payment.id]);
+
+    orderRenewalService.applyRenewal(renewal.id).catch(error => {
+      logger.error('Failed to apply renewal', error, { renewalId: renewal.id });
+    });
+  }
+
+  /**
+   * Handle invoice.payment_failed event: the order stays allocated through
+   * the grace period while Stripe retries, and the owner is asked to pay
+   */
+  private async handleInvoicePaymentFailed(invoice: Stripe.Invoice): Promise<void> {
+    const subscriptionId = this.getInvoiceSubscriptionId(invoice);
+
+    if (!subscriptionId || invoice.billing_reason !== 'subscription_cycle') {
+      return;
+    }
+
+    const subscription = await prisma.orderSubscription.findUnique({
+      where: { stripeSubscriptionId: subscriptionId },
+      include: { order: { include: { user: true, provider: true } } },
+    });
+
+    if (!subscription || subscription.status === SubscriptionStatus.CANCELLED) {
+      return;
+    }
+
+    const errorMessage = await this.getInvoicePaymentError(invoice) || 'Renewal payment failed';
+
+    await prisma.orderSubscription.update({
+      where: { id: subscription.id },
+      data: {
+        status: SubscriptionStatus.PAST_DUE,
+        failedPaymentCount: invoice.attempt_count,
+        lastPaymentError: errorMessage,
+      },
+    });
+
+    logger.warn('Subscription renewal payment failed', {
+      orderId: subscription.orderId,
+      invoiceId: invoice.id,
+      attempt: invoice.attempt_count,
+    });
+
+    const { order } = subscription;
+    if (!order.user.email || !order.expiresAt) {
+      return;
+    }
+
+    const releaseOn = addDays(order.expiresAt, config.orders.subscriptionGraceDays).toUTCString();
+    const payLink = invoice.hosted_invoice_url || config.app.frontendUrl;
+
+    try {
+      await mailService.sendMail({
+        to: order.user.email,
+        subject: `Action needed: renewal payment for your ${order.provider.name} storage failed`,
+        text: [
+          `We could not charge the renewal of order ${order.orderNumber}.`,
+          '',
+          'Update your payment method and pay the invoice here:',
+          payLink,
+          '',
+          `If the payment does not go through, the storage is released on ${releaseOn}.`,
+        ].join('\n'),
+        html: `<p>We could not charge the renewal of order <strong>${order.orderNumber}</strong>.</p>
+<p><a href="${payLink}">Update your payment method and pay the invoice</a></p>
+<p>If the payment does not go through, the storage is released on ${releaseOn}.</p>`,
+      });
+    } catch (error) {
+      logger.error('Failed to send dunning email', error, { orderId: order.id });
+    }
+  }
+
+  /**
+   * Handle customer.subscription.deleted event. The order keeps its
+   * storage until it expires.
+   */
+  private async handleSubscriptionDeleted(stripeSubscription: Stripe.Subscription): Promise<void> {
+    const { count } = await prisma.orderSubscription.updateMany({
+      where: {
+        stripeSubscriptionId: stripeSubscription.id,
+        status: { not: SubscriptionStatus.CANCELLED },
+      },
+      data: {
+        status: SubscriptionStatus.CANCELLED,
+        cancelledAt: new Date(),
+      },
+    });
+
+    if (count > 0) {
+      logger.info('Subscription cancelled', { subscriptionId: stripeSubscription.id });
+    }
+  }
+
+  private getInvoiceSubscriptionId(invoice: Stripe.Invoice): string | null {
+    if (!invoice.subscription) {
+      return null;
+    }
+    return typeof invoice.subscription === 'string' ? invoice.subscription : invoice.subscription.id;
+  }
+
+  /**
+   * Get why the last attempt to pay an invoice was declined, from its payment
+   * intent or else its charge. Null when the gateway cannot tell.
+   */
+  private async getInvoicePaymentError(invoice: Stripe.Invoice): Promise<string | null> {
+    try {
+      if (invoice.payment_intent) {
+        const paymentIntent = typeof invoice.payment_intent === 'string'
+          ? await this.gateway.retrievePaymentIntent(invoice.payment_intent)
+          : invoice.payment_intent;
+        if (paymentIntent.last_payment_error?.message) {
+          return paymentIntent.last_payment_error.message;
+        }
+      }
+
+      if (invoice.charge) {
+        const charge = typeof invoice.charge === 'string'
+          ? await this.gateway.retrieveCharge(invoice.charge)
+          : invoice.charge;
+        return charge.failure_message;
+      }
+    } catch (error) {
+      logger.error('Failed to get invoice payment error', error, { invoiceId: invoice.id });
+    }
+
+    return null;
+  }
+
+  /**
+   * Turn off auto-renewal of an order. The current period is not refunded;
+   * the order expires at the end of it.
+   */
+  async cancelAutoRenew(orderId: string) {
+    const subscription = await prisma.orderSubscription.findUnique({
+      where: { orderId },
+    });
+
+    if (!subscription || subscription.status === SubscriptionStatus.CANCELLED) {
+      throw new NotFoundError('Subscription for order', orderId);
+    }
+
+    if (subscription.cancelAtPeriodEnd) {
+      return subscription;
+    }
+
+    await this.gateway.updateSubscription(subscription.stripeSubscriptionId, {
+      cancel_at_period_end: true,
+    });
+
+    logger.info('Auto-renew cancelled', { orderId, subscriptionId: subscription.stripeSubscriptionId });
+
+    return prisma.orderSubscription.update({
+      where: { id: subscription.id },
+      data: { cancelAtPeriodEnd: true },
+    });
+  }
+
+  /**
+   * Cancel an order's subscription immediately, e.g. when the order expired
+   * after its grace period
+   */
+  async cancelSubscriptionForOrder(orderId: string): Promise<void> {
+    const subscription = await prisma.orderSubscription.findUnique({
+      where: { orderId },
+    });
+
+    if (!subscription || subscription.status === SubscriptionStatus.CANCELLED) {
+      return;
+    }
+
+    await this.gateway.cancelSubscription(subscription.stripeSubscriptionId);
+
+    await prisma.orderSubscription.update({
+      where: { id: subscription.id },
+      data: {
+        status: SubscriptionStatus.CANCELLED,
+        cancelledAt: new Date(),
+      },
+    });
+
+    logger.info('Subscription cancelled for expired order', {
+      orderId,
+      subscriptionId: subscription.stripeSubscriptionId,
+    });
+  }
+
+  /**
+   * Issue invoices in the background; failed ones are issued when the order's invoices are requested
    */
+  private issueInvoices(paymentIds: string[]): void {
+    for (const paymentId of paymentIds) {
+      invoiceService.issueInvoice(paymentId).catch(error => {
+        logger.error('Failed to issue invoice', error, { paymentId });
+      });
+    }
+  }
+
   private async triggerBlockchainTransaction(orderId: string): Promise<void> {
     // Import dynamically to avoid circular dependencies
     const { blockchainService } = await import('../blockchain/blockchain.service');
@@ -410,6 +2492,7 @@ export class PaymentService {
     return prisma.payment.findUnique({
       where: { id: paymentId },
       include: {
+        cryptoPayment: true,
         order: {
           include: {
             provider: true,
@@ -420,6 +2503,24 @@ export class PaymentService {
     });
   }
 
+  /**
+   * Get a cart purchase with its orders
+   */
+  async getPurchaseById(purchaseId: string) {
+    return prisma.purchase.findUnique({
+      where: { id: purchaseId },
+      include: {
+        orders: {
+          include: {
+            provider: true,
+            plan: true,
+          },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+  }
+
   /**
    * Get payments for a user
    */
@@ -437,7 +2538,25 @@ export class PaymentService {
       orderBy: { createdAt: 'desc' },
     });
   }
+
+  /**
+   * Get payments made on behalf of an organization
+   */
+  async getPaymentsForOrganization(organizationId: string) {
+    return prisma.payment.findMany({
+      where: { organizationId },
+      include: {
+        order: {
+          include: {
+            provider: true,
+            plan: true,
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
 }
 
 export const paymentService = new PaymentService();
-export default paymentService;
\ No newline at end of file
+export default paymentService;
@@ -0,0 +1,384 @@
+import Stripe from 'stripe';
+import {
+  CreditTopUpStatus,
+  OrderStatus,
+  PaymentMethod,
+  PaymentStatus,
+  Prisma,
+  ReconciliationRun,
+  ReconciliationRunStatus,
+} from '@prisma/client';
+import { prisma } from '../../common/database';
+import { config } from '../../config';
+import { IPaginationParams, IPaymentGateway } from '../../common/interfaces';
+import { logger, ConflictError, NotFoundError } from '../../common/utils';
+import { paymentGateway } from './gateways';
+import { paymentService } from './payment.service';
+
+// ============================================
+// Payment Reconciliation Service
+// ============================================
+
+const MS_PER_MINUTE = 60 * 1000;
+
+// A run still RUNNING after this long was abandoned by a crashed process
+const STALE_RUN_MINUTES = 30;
+
+const PENDING_PAYMENT_STATUSES: PaymentStatus[] = [PaymentStatus.PENDING, PaymentStatus.PROCESSING];
+
+export type ReconciliationTarget = 'PAYMENT' | 'TOP_UP' | 'ORDER';
+
+export type ReconciliationAction =
+  // The gateway took the money; the payment was completed as its webhook would have
+  | 'MARKED_PAID'
+  | 'MARKED_FAILED'
+  // The checkout expired without payment
+  | 'CANCELLED'
+  // A paid order had never been sent to its provider
+  | 'FULFILLMENT_STARTED'
+  | 'NONE';
+
+export interface IReconciliationFinding {
+  target: ReconciliationTarget;
+  id: string;
+  orderId: string | null;
+  // Checkout session or payment intent the record was checked against
+  gatewayId: string | null;
+  localStatus: string;
+  gatewayStatus: string | null;
+  action: ReconciliationAction;
+  // False when staff need to look at the record
+  resolved: boolean;
+  message: string;
+}
+
+export class ReconciliationService {
+  private gateway: IPaymentGateway;
+
+  constructor() {
+    this.gateway = paymentGateway;
+  }
+
+  /**
+   * Check payments, credit top-ups and paid orders that have been waiting
+   * longer than they should against the gateway, and repair those whose
+   * webhook was lost. The outcome is stored as a run for the admin dashboard.
+   */
+  async runReconciliation(triggeredById?: string): Promise<ReconciliationRun> {
+    const running = await prisma.reconciliationRun.findFirst({
+      where: {
+        status: ReconciliationRunStatus.RUNNING,
+        startedAt: { gte: new Date(Date.now() - STALE_RUN_MINUTES * MS_PER_MINUTE) },
+      },
+    });
+
+    if (running) {
+      throw new ConflictError('A reconciliation run is already in progress');
+    }
+
+    const run = await prisma.reconciliationRun.create({ data: { triggeredById } });
+    const cutoff = new Date(Date.now() - config.reconciliation.staleMinutes * MS_PER_MINUTE);
+    const findings: IReconciliationFinding[] = [];
+    let checkedCount = 0;
+    let error: string | null = null;
+
+    try {
+      checkedCount += await this.reconcilePayments(cutoff, findings);
+      checkedCount += await this.reconcileTopUps(cutoff, findings);
+      checkedCount += await this.reconcileUnfulfilledOrders(cutoff, findings);
+    } catch (caught) {
+      logger.error('Payment reconciliation failed', caught, { runId: run.id });
+      error = caught instanceof Error ? caught.message : String(caught);
+    }
+
+    const repairedCount = findings.filter(finding => finding.resolved).length;
+    const unresolvedCount = findings.length - repairedCount;
+
+    logger.info('Payment reconciliation finished', { runId: run.id, checkedCount, repairedCount, unresolvedCount });
+
+    return prisma.reconciliationRun.update({
+      where: { id: run.id },
+      data: {
+        status: error ? ReconciliationRunStatus.FAILED : ReconciliationRunStatus.COMPLETED,
+        checkedCount,
+        repairedCount,
+        unresolvedCount,
+        findings: findings as unknown as Prisma.InputJsonValue,
+        error,
+        finishedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * List reconciliation runs, newest first
+   */
+  async listRuns(pagination: IPaginationParams): Promise<{ runs: ReconciliationRun[]; total: number }> {
+    const [runs, total] = await Promise.all([
+      prisma.reconciliationRun.findMany({
+        orderBy: { startedAt: 'desc' },
+        skip: (pagination.page - 1) * pagination.pageSize,
+        take: pagination.pageSize,
+      }),
+      prisma.reconciliationRun.count(),
+    ]);
+
+    return { runs, total };
+  }
+
+  /**
+   * Get a reconciliation run by id
+   */
+  async getRun(id: string): Promise<ReconciliationRun> {
+    const run = await prisma.reconciliationRun.findUnique({ where: { id } });
+
+    if (!run) {
+      throw new NotFoundError('Reconciliation run', id);
+    }
+
+    return run;
+  }
+
+  // ============================================
+  // Checks
+  // ============================================
+
+  /**
+   * Check card payments still pending after checkout against their session or payment intent
+   */
+  private async reconcilePayments(cutoff: Date, findings: IReconciliationFinding[]): Promise<number> {
+    const payments = await prisma.payment.findMany({
+      where: {
+        method: PaymentMethod.STRIPE,
+        status: { in: PENDING_PAYMENT_STATUSES },
+        createdAt: { lt: cutoff },
+      },
+      include: { purchase: { select: { stripeSessionId: true } } },
+      orderBy: { createdAt: 'asc' },
+      take: config.reconciliation.batchSize,
+    });
+
+    // Cart payments share their purchase's session, which settles all of them at once
+    const checkedSessions = new Set<string>();
+
+    for (const payment of payments) {
+      const sessionId = payment.stripeSessionId ?? payment.purchase?.stripeSessionId ?? null;
+      if (sessionId && checkedSessions.has(sessionId)) {
+        continue;
+      }
+      if (sessionId) {
+        checkedSessions.add(sessionId);
+      }
+
+      const finding = await this.reconcilePayment(payment, sessionId);
+      if (finding) {
+        findings.push(finding);
+      }
+    }
+
+    return payments.length;
+  }
+
+  private async reconcilePayment(
+    payment: { id: string; orderId: string; status: PaymentStatus; stripePaymentIntentId: string | null },
+    sessionId: string | null
+  ): Promise<IReconciliationFinding | null> {
+    const finding: IReconciliationFinding = {
+      target: 'PAYMENT',
+      id: payment.id,
+      orderId: payment.orderId,
+      gatewayId: payment.stripePaymentIntentId ?? sessionId,
+      localStatus: payment.status,
+      gatewayStatus: null,
+      action: 'NONE',
+      resolved: false,
+      message: '',
+    };
+
+    if (!finding.gatewayId) {
+      return { ...finding, message: 'Payment has no checkout session or payment intent to check' };
+    }
+
+    try {
+      if (payment.stripePaymentIntentId) {
+        const paymentIntent = await this.gateway.retrievePaymentIntent(payment.stripePaymentIntentId);
+        finding.gatewayStatus = paymentIntent.status;
+
+        if (!this.isSettled(paymentIntent)) {
+          return null;
+        }
+
+        await paymentService.applyPaymentIntent(paymentIntent);
+      } else {
+        const session = await this.gateway.retrieveCheckoutSession(sessionId!);
+        finding.gatewayStatus = session.status;
+
+        if (!this.isSettled(session)) {
+          return null;
+        }
+
+        await paymentService.applyCheckoutSession(session);
+
+        // Orders that moved on without their checkout, e.g. cancelled by the customer, leave the payment pending
+        if (session.status === 'expired') {
+          await prisma.payment.updateMany({
+            where: { id: payment.id, status: { in: PENDING_PAYMENT_STATUSES } },
+            data: { status: PaymentStatus.CANCELLED, statusMessage: 'Checkout session expired' },
+          });
+        }
+      }
+    } catch (error) {
+      logger.error('Failed to reconcile payment', error, { paymentId: payment.id });
+      return { ...finding, message: error instanceof Error ? error.message : String(error) };
+    }
+
+    const updated = await prisma.payment.findUniqueOrThrow({
+      where: { id: payment.id },
+      select: { status: true },
+    });
+
+    if (updated.status === payment.status) {
+      return { ...finding, message: `Gateway reports ${finding.gatewayStatus} but the payment could not be updated` };
+    }
+
+    const action = this.paymentAction(updated.status);
+    return {
+      ...finding,
+      action,
+      resolved: true,
+      message: `Payment moved from ${payment.status} to ${updated.status}`
+        + (action === 'MARKED_PAID' ? ' and its order sent for fulfillment' : ''),
+    };
+  }
+
+  /**
+   * Check credit top-ups still awaiting payment against their checkout session
+   */
+  private async reconcileTopUps(cutoff: Date, findings: IReconciliationFinding[]): Promise<number> {
+    const topUps = await prisma.creditTopUp.findMany({
+      where: {
+        status: CreditTopUpStatus.PENDING_PAYMENT,
+        stripeSessionId: { not: null },
+        createdAt: { lt: cutoff },
+      },
+      orderBy: { createdAt: 'asc' },
+      take: config.reconciliation.batchSize,
+    });
+
+    for (const topUp of topUps) {
+      const finding: IReconciliationFinding = {
+        target: 'TOP_UP',
+        id: topUp.id,
+        orderId: null,
+        gatewayId: topUp.stripeSessionId,
+        localStatus: topUp.status,
+        gatewayStatus: null,
+        action: 'NONE',
+        resolved: false,
+        message: '',
+      };
+
+      try {
+        const session = await this.gateway.retrieveCheckoutSession(topUp.stripeSessionId!);
+        finding.gatewayStatus = session.status;
+
+        if (!this.isSettled(session)) {
+          continue;
+        }
+
+        await paymentService.applyCheckoutSession(session);
+
+        const updated = await prisma.creditTopUp.findUniqueOrThrow({
+          where: { id: topUp.id },
+          select: { status: true },
+        });
+
+        findings.push(updated.status === topUp.status
+          ? { ...finding, message: `Gateway reports ${session.status} but the top-up could not be updated` }
+          : {
+            ...finding,
+            action: updated.status === CreditTopUpStatus.PAID ? 'MARKED_PAID' : 'CANCELLED',
+            resolved: true,
+            message: `Top-up moved from ${topUp.status} to ${updated.status}`,
+          });
+      } catch (error) {
+        logger.error('Failed to reconcile credit top-up', error, { topUpId: topUp.id });
+        findings.push({ ...finding, message: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return topUps.length;
+  }
+
+  /**
+   * Start fulfillment of paid orders that were never sent to their provider,
+   * e.g. because the process stopped right after the payment completed
+   */
+  private async reconcileUnfulfilledOrders(cutoff: Date, findings: IReconciliationFinding[]): Promise<number> {
+    const orders = await prisma.order.findMany({
+      where: {
+        status: OrderStatus.PAYMENT_COMPLETED,
+        updatedAt: { lt: cutoff },
+        transactions: { none: {} },
+      },
+      select: { id: true, status: true },
+      orderBy: { updatedAt: 'asc' },
+      take: config.reconciliation.batchSize,
+    });
+
+    // Import dynamically to avoid circular dependencies
+    const { blockchainService } = await import('../blockchain/blockchain.service');
+
+    for (const order of orders) {
+      const result = await blockchainService.processOrder(order.id);
+
+      findings.push({
+        target: 'ORDER',
+        id: order.id,
+        orderId: order.id,
+        gatewayId: null,
+        localStatus: order.status,
+        gatewayStatus: null,
+        action: result.success ? 'FULFILLMENT_STARTED' : 'NONE',
+        resolved: result.success,
+        message: result.success
+          ? 'Paid order had not been sent to its provider; fulfillment started'
+          : `Failed to start fulfillment: ${result.error.message}`,
+      });
+    }
+
+    return orders.length;
+  }
+
+  // ============================================
+  // Helpers
+  // ============================================
+
+  /**
+   * Whether the gateway has reached an outcome. Sessions of asynchronous
+   * payment methods complete before the money arrives.
+   */
+  private isSettled(object: Stripe.Checkout.Session | Stripe.PaymentIntent): boolean {
+    if (object.object === 'checkout.session') {
+      return object.status === 'expired' || (object.status === 'complete' && object.payment_status !== 'unpaid');
+    }
+
+    return object.status === 'succeeded' || object.status === 'canceled' || !!object.last_payment_error;
+  }
+
+  private paymentAction(status: PaymentStatus): ReconciliationAction {
+    switch (status) {
+      case PaymentStatus.SUCCEEDED:
+        return 'MARKED_PAID';
+      case PaymentStatus.FAILED:
+        return 'MARKED_FAILED';
+      case PaymentStatus.CANCELLED:
+        return 'CANCELLED';
+      default:
+        return 'NONE';
+    }
+  }
+}
+
+export const reconciliationService = new ReconciliationService();
+export default reconciliationService;
@@ -0,0 +1,751 @@
+import Stripe from 'stripe';
+import {
+  CreditEntryType,
+  Order,
+  OrderActorType,
+  OrderStatus,
+  Payment,
+  PaymentMethod,
+  PaymentStatus,
+  Prisma,
+  Refund,
+  RefundSource,
+  RefundStatus,
+} from '@prisma/client';
+import { prisma, withTransaction } from '../../common/database';
+import { config } from '../../config';
+import {
+  logger,
+  formatPrice,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  PaymentError,
+  ValidationError,
+  InvalidStateTransitionError,
+} from '../../common/utils';
+import { IPaymentGateway } from '../../common/interfaces';
+import { orderStateMachine } from '../orders/order-state-machine';
+import { orderService } from '../orders/order.service';
+import { creditService } from '../credits/credit.service';
+import { fxRateService } from '../currencies/fx-rate.service';
+import { paymentGateway } from './gateways';
+
+// ============================================
+// Refund Service
+// ============================================
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Payments with money left to refund
+const REFUNDABLE_PAYMENT_STATUSES: PaymentStatus[] = [
+  PaymentStatus.SUCCEEDED,
+  PaymentStatus.PARTIALLY_REFUNDED,
+];
+
+export type RefundPolicy = 'FULL' | 'PRORATED' | 'NONE';
+
+export interface IRefundQuote {
+  orderId: string;
+  // Currency the order was paid in; amounts are in its minor units
+  currency: string;
+  // Paid for the order and not refunded yet
+  refundableCents: number;
+  // What the refund policy returns to the customer
+  amountCents: number;
+  usedPercent: number;
+  policy: RefundPolicy;
+}
+
+export interface RefundRequester {
+  userId: string;
+  // Staff may refund any order and choose the amount
+  isStaff: boolean;
+}
+
+export interface RefundOrderDto {
+  reason?: string;
+  amountCents?: number;
+  // Return the refund to the account's credit balance instead of the card
+  toCredit?: boolean;
+}
+
+interface RefundDetails {
+  source: RefundSource;
+  requestedById?: string;
+  reason?: string;
+  toCredit?: boolean;
+}
+
+export class RefundService {
+  private gateway: IPaymentGateway;
+
+  constructor() {
+    this.gateway = paymentGateway;
+  }
+
+  /**
+   * Work out what the refund policy returns for an order.
+   * When userId is given, only orders that user can access are quoted.
+   */
+  async quoteRefund(orderId: string, userId?: string): Promise<IRefundQuote> {
+    const order = await this.getRefundableOrder(orderId, userId);
+    return this.buildQuote(order, order.payments);
+  }
+
+  /**
+   * Refund an order through Stripe and terminate its storage.
+   * Customers get the amount set by the refund policy; staff may refund any
+   * amount up to what was paid, and the order keeps running when they refund
+   * only part of it.
+   */
+  async refundOrder(orderId: string, requester: RefundRequester, data: RefundOrderDto) {
+    const order = await this.getRefundableOrder(
+      orderId,
+      requester.isStaff ? undefined : requester.userId
+    );
+
+    if (!orderStateMachine.canTransition(order.status, OrderStatus.REFUNDED)) {
+      throw new InvalidStateTransitionError('Order', order.status, OrderStatus.REFUNDED);
+    }
+
+    const quote = this.buildQuote(order, order.payments);
+    let amountCents = quote.amountCents;
+
+    if (data.amountCents !== undefined) {
+      if (!requester.isStaff) {
+        throw new ForbiddenError('Only staff can choose the refund amount');
+      }
+      if (!Number.isInteger(data.amountCents) || data.amountCents <= 0 || data.amountCents > quote.refundableCents) {
+        throw new ValidationError(`amountCents must be an integer between 1 and ${quote.refundableCents}`);
+      }
+      amountCents = data.amountCents;
+    } else if (quote.policy === 'NONE') {
+      throw new ValidationError('This order is no longer eligible for a refund', {
+        usedPercent: quote.usedPercent,
+        maxUsedPercent: config.refunds.maxUsedPercent,
+      });
+    }
+
+    // Ending the order for nothing would release storage the customer keeps paying for
+    if (amountCents <= 0) {
+      throw new ValidationError('Nothing is left to refund for this order');
+    }
+
+    const source = requester.isStaff ? RefundSource.STAFF : RefundSource.CUSTOMER;
+    const actor = { type: OrderActorType.USER, id: requester.userId };
+    const refunded = `Refunded ${formatPrice(amountCents, order.currency.toUpperCase())}`;
+    // A staff refund of part of what was paid leaves the order running
+    const endsOrder = data.amountCents === undefined || data.amountCents === quote.refundableCents;
+
+    // End the order before any money moves, so a concurrent refund of it fails
+    // first. If a refund below fails, the rest can be refunded in Stripe; the
+    // charge.refunded webhook records it.
+    if (endsOrder) {
+      await orderStateMachine.transition(order.id, OrderStatus.REFUNDED, {
+        actor,
+        reason: data.reason || 'Refund requested',
+        metadata: { amountCents, policy: quote.policy, usedPercent: quote.usedPercent },
+        data: { statusMessage: refunded },
+      });
+
+      await this.releaseStorage(order.id);
+    }
+
+    const refunds = await this.refundPayments(order.payments, amountCents, {
+      source,
+      requestedById: requester.userId,
+      reason: data.reason,
+      toCredit: data.toCredit,
+    });
+
+    if (!endsOrder) {
+      await orderStateMachine.recordChange(order, actor, data.reason || refunded, { amountCents });
+    }
+
+    logger.info(endsOrder ? 'Order refunded' : 'Order partially refunded', { orderId: order.id, amountCents, source });
+
+    return {
+      order: await orderService.getOrderById(order.id),
+      refunds,
+    };
+  }
+
+  /**
+   * Refund everything paid for an order whose storage could not be allocated
+   * and move it to REFUNDED
+   */
+  async compensateOrder(orderId: string, reason: string): Promise<Refund[]> {
+    const order = await this.getRefundableOrder(orderId);
+
+    if (!orderStateMachine.canTransition(order.status, OrderStatus.REFUNDED)) {
+      throw new InvalidStateTransitionError('Order', order.status, OrderStatus.REFUNDED);
+    }
+
+    const { refundableCents } = this.buildQuote(order, order.payments);
+
+    // As in refundOrder, the order ends before any money moves
+    await orderStateMachine.transition(order.id, OrderStatus.REFUNDED, {
+      actor: { type: OrderActorType.SYSTEM },
+      reason,
+      metadata: { amountCents: refundableCents },
+      data: { statusMessage: `${reason}. Refunded ${formatPrice(refundableCents, order.currency.toUpperCase())}` },
+    });
+
+    await this.releaseStorage(order.id);
+
+    const refunds = await this.refundPayments(order.payments, refundableCents, {
+      source: RefundSource.SYSTEM,
+      reason,
+    });
+
+    logger.info('Order refunded automatically', { orderId: order.id, amountCents: refundableCents });
+
+    return refunds;
+  }
+
+  /**
+   * Refund part of what was paid for an order without ending it,
+   * e.g. the unused difference after a downgrade. The amount is in US cents
+   * and refunded in the order's currency at the rate it was paid at.
+   */
+  async creditOrder(orderId: string, amountCents: number, reason: string): Promise<Refund[]> {
+    const order = await this.getRefundableOrder(orderId);
+    const { refundableCents } = this.buildQuote(order, order.payments);
+    const amount = Math.min(
+      fxRateService.fromUsdCents(amountCents, order.currency, order.fxRate),
+      refundableCents
+    );
+
+    const refunds = await this.refundPayments(order.payments, amount, {
+      source: RefundSource.SYSTEM,
+      reason,
+    });
+
+    logger.info('Order credited', { orderId, amountCents: amount });
+
+    return refunds;
+  }
+
+  /**
+   * Refund the payments of a plan change that could not be applied
+   */
+  async refundPlanChange(planChangeId: string, reason: string): Promise<Refund[]> {
+    return this.refundPaymentsInFull({ planChangeId }, reason);
+  }
+
+  /**
+   * Refund the payments of a renewal that could not be applied
+   */
+  async refundRenewal(renewalId: string, reason: string): Promise<Refund[]> {
+    return this.refundPaymentsInFull({ renewalId }, reason);
+  }
+
+  /**
+   * Refund what is left of a payment whose order cannot use it, e.g. a
+   * checkout paid after its order was cancelled. The order is left as it is.
+   */
+  async refundPaymentInFull(payment: Payment, reason: string): Promise<Refund | null> {
+    const amountCents = payment.amountCents - payment.refundedAmountCents;
+    if (amountCents <= 0) {
+      return null;
+    }
+
+    return this.refundPayment(payment, amountCents, { source: RefundSource.SYSTEM, reason });
+  }
+
+  /**
+   * Get the refunds of an order, newest first
+   */
+  async getRefundsForOrder(orderId: string) {
+    return prisma.refund.findMany({
+      where: { orderId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Handle charge.refunded webhook events. Refunds issued from the Stripe
+   * dashboard are recorded, and fully refunded orders are terminated.
+   */
+  async handleChargeRefunded(charge: Stripe.Charge): Promise<void> {
+    const paymentIntentId = typeof charge.payment_intent === 'string'
+      ? charge.payment_intent
+      : charge.payment_intent?.id;
+    const invoiceId = typeof charge.invoice === 'string' ? charge.invoice : charge.invoice?.id;
+
+    const payment = await prisma.payment.findFirst({
+      where: {
+        OR: [
+          ...(paymentIntentId ? [{ stripePaymentIntentId: paymentIntentId }] : []),
+          ...(invoiceId ? [{ stripeInvoiceId: invoiceId }] : []),
+        ],
+      },
+    });
+
+    if (!payment) {
+      await this.handlePurchaseChargeRefunded(charge, paymentIntentId);
+      return;
+    }
+
+    await this.syncStripeRefunds(charge, payment);
+
+    logger.info('Charge refund recorded', {
+      paymentId: payment.id,
+      chargeId: charge.id,
+      amountRefunded: charge.amount_refunded,
+    });
+
+    await this.terminateIfFullyRefunded(payment.orderId, charge.id);
+  }
+
+  /**
+   * Cart purchases pay several orders with one charge. Refunds issued through
+   * the API are already split per order; a full refund in Stripe refunds them all.
+   */
+  private async handlePurchaseChargeRefunded(charge: Stripe.Charge, paymentIntentId?: string): Promise<void> {
+    const purchase = paymentIntentId
+      ? await prisma.purchase.findUnique({
+          where: { stripePaymentIntentId: paymentIntentId },
+          include: { payments: true },
+        })
+      : null;
+
+    if (!purchase) {
+      logger.warn('Refunded charge does not match a payment', { chargeId: charge.id });
+      return;
+    }
+
+    await this.syncStripeRefunds(charge, null);
+
+    if (!charge.refunded) {
+      return;
+    }
+
+    for (const payment of purchase.payments) {
+      if (!REFUNDABLE_PAYMENT_STATUSES.includes(payment.status)) {
+        continue;
+      }
+
+      await withTransaction(async (tx) => {
+        await tx.refund.create({
+          data: {
+            paymentId: payment.id,
+            orderId: payment.orderId,
+            amountCents: payment.amountCents - payment.refundedAmountCents,
+            currency: payment.currency,
+            status: RefundStatus.SUCCEEDED,
+            source: RefundSource.STRIPE,
+            reason: 'Purchase refunded in Stripe',
+          },
+        });
+
+        await this.recordPaymentRefunded(tx, payment, payment.amountCents - payment.refundedAmountCents);
+      });
+
+      await this.terminateIfFullyRefunded(payment.orderId, charge.id);
+    }
+
+    logger.info('Purchase refunded in Stripe', { purchaseId: purchase.id, chargeId: charge.id });
+  }
+
+  /**
+   * Record the refunds of a charge. Refunds issued outside the API are
+   * attributed to the given payment, or only logged when there is none.
+   * Payments count each refund once: API refunds when they are issued,
+   * the others when they are first seen here.
+   */
+  private async syncStripeRefunds(charge: Stripe.Charge, payment: Payment | null): Promise<void> {
+    const stripeRefunds = await this.gateway.listRefunds(charge.id);
+
+    for (const stripeRefund of stripeRefunds) {
+      const status = this.toRefundStatus(stripeRefund.status);
+      // Refunds issued through the API carry their id, even if this event beats the API response
+      const existing = await prisma.refund.findFirst({
+        where: {
+          OR: [
+            { stripeRefundId: stripeRefund.id },
+            ...(stripeRefund.metadata?.refundId ? [{ id: stripeRefund.metadata.refundId }] : []),
+          ],
+        },
+      });
+
+      if (existing) {
+        if (existing.status !== status || existing.stripeRefundId !== stripeRefund.id) {
+          await this.updateRefundStatus(existing, status, stripeRefund.id);
+        }
+        continue;
+      }
+
+      if (!payment) {
+        logger.warn('Stripe refund cannot be attributed to an order', {
+          chargeId: charge.id,
+          stripeRefundId: stripeRefund.id,
+        });
+        continue;
+      }
+
+      await withTransaction(async (tx) => {
+        await tx.refund.create({
+          data: {
+            paymentId: payment.id,
+            orderId: payment.orderId,
+            stripeRefundId: stripeRefund.id,
+            amountCents: stripeRefund.amount,
+            currency: stripeRefund.currency,
+            status,
+            source: RefundSource.STRIPE,
+            reason: stripeRefund.reason,
+          },
+        });
+
+        if (status !== RefundStatus.FAILED) {
+          await this.recordPaymentRefunded(tx, payment, stripeRefund.amount);
+        }
+      });
+    }
+  }
+
+  /**
+   * Update the status of a recorded refund. Refunds that fail give their
+   * amount back to the payment.
+   */
+  private async updateRefundStatus(refund: Refund, status: RefundStatus, stripeRefundId?: string): Promise<void> {
+    await withTransaction(async (tx) => {
+      // Only the first update to see the refund in its old status adjusts the payment
+      const { count } = await tx.refund.updateMany({
+        where: { id: refund.id, status: refund.status },
+        data: { status, stripeRefundId },
+      });
+
+      if (count > 0 && status === RefundStatus.FAILED && refund.status !== RefundStatus.FAILED) {
+        await this.releasePaymentRefunded(tx, refund.paymentId, refund.amountCents);
+      }
+    });
+  }
+
+  /**
+   * Terminate an order once every payment for it has been refunded in full
+   */
+  private async terminateIfFullyRefunded(orderId: string, chargeId: string): Promise<void> {
+    const outstanding = await prisma.payment.count({
+      where: { orderId, status: { in: REFUNDABLE_PAYMENT_STATUSES } },
+    });
+    const order = await prisma.order.findUnique({ where: { id: orderId } });
+
+    if (outstanding > 0 || !order || !orderStateMachine.canTransition(order.status, OrderStatus.REFUNDED)) {
+      return;
+    }
+
+    await orderStateMachine.transition(order.id, OrderStatus.REFUNDED, {
+      actor: { type: OrderActorType.PAYMENT_PROVIDER, id: chargeId },
+      reason: 'Refunded in Stripe',
+      data: { statusMessage: 'Refunded' },
+    });
+
+    await this.releaseStorage(order.id);
+  }
+
+  private async getRefundableOrder(orderId: string, userId?: string) {
+    const order = await prisma.order.findFirst({
+      where: { id: orderId, ...orderService.accessibleBy(userId) },
+      include: {
+        payments: {
+          where: { status: { in: REFUNDABLE_PAYMENT_STATUSES } },
+          orderBy: { createdAt: 'desc' },
+        },
+      },
+    });
+
+    if (!order) {
+      throw new NotFoundError('Order', orderId);
+    }
+
+    return order;
+  }
+
+  /**
+   * Apply the refund policy: a full refund until storage has been used for
+   * REFUND_FULL_REFUND_DAYS, then the unused share of the term until
+   * REFUND_MAX_USED_PERCENT of it is used, then nothing.
+   */
+  private buildQuote(order: Order, payments: Payment[]): IRefundQuote {
+    const refundableCents = payments.reduce(
+      (sum, payment) => sum + payment.amountCents - payment.refundedAmountCents,
+      0
+    );
+    const quote = { orderId: order.id, currency: order.currency, refundableCents };
+
+    // Storage has not started yet
+    if (order.status !== OrderStatus.COMPLETED || !order.allocatedAt || !order.expiresAt) {
+      return { ...quote, amountCents: refundableCents, usedPercent: 0, policy: 'FULL' };
+    }
+
+    const now = Date.now();
+    const usedMs = now - order.allocatedAt.getTime();
+    const termMs = order.expiresAt.getTime() - order.allocatedAt.getTime();
+    const used = termMs > 0 ? Math.min(Math.max(usedMs / termMs, 0), 1) : 1;
+    const usedPercent = Math.round(used * 100);
+
+    if (usedMs <= config.refunds.fullRefundDays * MS_PER_DAY) {
+      return { ...quote, amountCents: refundableCents, usedPercent, policy: 'FULL' };
+    }
+
+    if (usedPercent >= config.refunds.maxUsedPercent) {
+      return { ...quote, amountCents: 0, usedPercent, policy: 'NONE' };
+    }
+
+    return {
+      ...quote,
+      amountCents: Math.floor(refundableCents * (1 - used)),
+      usedPercent,
+      policy: 'PRORATED',
+    };
+  }
+
+  private async refundPaymentsInFull(where: Prisma.PaymentWhereInput, reason: string): Promise<Refund[]> {
+    const payments = await prisma.payment.findMany({
+      where: { ...where, status: { in: REFUNDABLE_PAYMENT_STATUSES } },
+    });
+
+    const refunds: Refund[] = [];
+    for (const payment of payments) {
+      const refund = await this.refundPaymentInFull(payment, reason);
+      if (refund) {
+        refunds.push(refund);
+      }
+    }
+
+    return refunds;
+  }
+
+  /**
+   * Spread a refund over the payments of an order, newest (renewals) first
+   */
+  private async refundPayments(
+    payments: Payment[],
+    amountCents: number,
+    details: RefundDetails
+  ): Promise<Refund[]> {
+    const refunds: Refund[] = [];
+    let remaining = amountCents;
+
+    for (const payment of payments) {
+      if (remaining <= 0) break;
+
+      const amount = Math.min(remaining, payment.amountCents - payment.refundedAmountCents);
+      if (amount <= 0) continue;
+
+      refunds.push(await this.refundPayment(payment, amount, details));
+      remaining -= amount;
+    }
+
+    return refunds;
+  }
+
+  private async refundPayment(
+    payment: Payment,
+    amountCents: number,
+    details: RefundDetails
+  ): Promise<Refund> {
+    // Credit and on-chain payments can only be returned as credit
+    if (details.toCredit || payment.method !== PaymentMethod.STRIPE) {
+      return this.refundToCredit(payment, amountCents, details);
+    }
+
+    const paymentIntentId = await this.getPaymentIntentId(payment);
+    if (!paymentIntentId) {
+      throw new PaymentError('Payment has no Stripe charge to refund', { paymentId: payment.id });
+    }
+
+    const refund = await withTransaction(async (tx) => {
+      // Counted before Stripe is asked, so concurrent refunds cannot exceed the payment
+      await this.recordPaymentRefunded(tx, payment, amountCents);
+
+      return tx.refund.create({
+        data: {
+          paymentId: payment.id,
+          orderId: payment.orderId,
+          requestedById: details.requestedById,
+          amountCents,
+          currency: payment.currency,
+          source: details.source,
+          reason: details.reason,
+        },
+      });
+    });
+
+    try {
+      const stripeRefund = await this.gateway.createRefund(
+        {
+          payment_intent: paymentIntentId,
+          amount: amountCents,
+          reason: 'requested_by_customer',
+          metadata: {
+            refundId: refund.id,
+            paymentId: payment.id,
+            orderId: payment.orderId,
+          },
+        },
+        `refund_${refund.id}`
+      );
+
+      const status = this.toRefundStatus(stripeRefund.status);
+
+      // The charge.refunded event may have recorded the outcome already
+      await this.updateRefundStatus(refund, status, stripeRefund.id);
+
+      return await prisma.refund.findUniqueOrThrow({ where: { id: refund.id } });
+    } catch (error) {
+      await this.updateRefundStatus(refund, RefundStatus.FAILED);
+
+      logger.error('Stripe refund failed', error, { paymentId: payment.id, refundId: refund.id });
+
+      throw new PaymentError(
+        error instanceof Stripe.errors.StripeError ? error.message : 'Refund failed',
+        { refundId: refund.id }
+      );
+    }
+  }
+
+  /**
+   * Refund a payment to the credit balance of the account that made it
+   */
+  private async refundToCredit(
+    payment: Payment,
+    amountCents: number,
+    details: RefundDetails
+  ): Promise<Refund> {
+    const refund = await withTransaction(async (tx) => {
+      const created = await tx.refund.create({
+        data: {
+          paymentId: payment.id,
+          orderId: payment.orderId,
+          requestedById: details.requestedById,
+          amountCents,
+          currency: payment.currency,
+          status: RefundStatus.SUCCEEDED,
+          source: details.source,
+          reason: details.reason,
+          toCredit: true,
+        },
+      });
+
+      await this.recordPaymentRefunded(tx, payment, amountCents);
+
+      // Balances are kept in USD
+      await creditService.post(tx, payment, {
+        type: CreditEntryType.REFUND,
+        amountCents: fxRateService.toUsdCents(amountCents, payment.currency, payment.fxRate),
+        description: details.reason || 'Order refund',
+        paymentId: payment.id,
+        orderId: payment.orderId,
+        refundId: created.id,
+        createdById: details.requestedById,
+      });
+
+      return created;
+    });
+
+    logger.info('Payment refunded to credit', { paymentId: payment.id, refundId: refund.id, amountCents });
+
+    return refund;
+  }
+
+  /**
+   * Add a refund to what has been refunded of a payment. Throws ConflictError
+   * when it no longer fits, e.g. because another refund was recorded meanwhile.
+   */
+  private async recordPaymentRefunded(
+    tx: Prisma.TransactionClient,
+    payment: Payment,
+    amountCents: number
+  ): Promise<void> {
+    const { count } = await tx.payment.updateMany({
+      where: { id: payment.id, refundedAmountCents: { lte: payment.amountCents - amountCents } },
+      data: { refundedAmountCents: { increment: amountCents } },
+    });
+
+    if (count === 0) {
+      throw new ConflictError(`Refund exceeds what is left to refund of payment ${payment.id}`);
+    }
+
+    await this.updateRefundedStatus(tx, payment.id);
+  }
+
+  /**
+   * Take a refund that failed off what has been refunded of a payment
+   */
+  private async releasePaymentRefunded(
+    tx: Prisma.TransactionClient,
+    paymentId: string,
+    amountCents: number
+  ): Promise<void> {
+    await tx.payment.updateMany({
+      where: { id: paymentId, refundedAmountCents: { gte: amountCents } },
+      data: { refundedAmountCents: { decrement: amountCents } },
+    });
+
+    await this.updateRefundedStatus(tx, paymentId);
+  }
+
+  private async updateRefundedStatus(tx: Prisma.TransactionClient, paymentId: string): Promise<void> {
+    const { amountCents, refundedAmountCents } = await tx.payment.findUniqueOrThrow({
+      where: { id: paymentId },
+      select: { amountCents: true, refundedAmountCents: true },
+    });
+
+    const status = refundedAmountCents >= amountCents
+      ? PaymentStatus.REFUNDED
+      : refundedAmountCents > 0
+        ? PaymentStatus.PARTIALLY_REFUNDED
+        : PaymentStatus.SUCCEEDED;
+
+    await tx.payment.update({ where: { id: paymentId }, data: { status } });
+  }
+
+  /**
+   * Subscription payments are stored by invoice; their charge is on the invoice's
+   * payment intent. Cart payments share the charge of their purchase.
+   */
+  private async getPaymentIntentId(payment: Payment): Promise<string | null> {
+    if (payment.stripePaymentIntentId) {
+      return payment.stripePaymentIntentId;
+    }
+
+    if (payment.purchaseId) {
+      const purchase = await prisma.purchase.findUnique({ where: { id: payment.purchaseId } });
+      return purchase?.stripePaymentIntentId ?? null;
+    }
+
+    if (payment.stripeInvoiceId) {
+      const invoice = await this.gateway.retrieveInvoice(payment.stripeInvoiceId);
+      return typeof invoice.payment_intent === 'string'
+        ? invoice.payment_intent
+        : invoice.payment_intent?.id ?? null;
+    }
+
+    return null;
+  }
+
+  private toRefundStatus(status: string | null): RefundStatus {
+    switch (status) {
+      case 'succeeded':
+        return RefundStatus.SUCCEEDED;
+      case 'failed':
+      case 'canceled':
+        return RefundStatus.FAILED;
+      default:
+        return RefundStatus.PENDING;
+    }
+  }
+
+  private async releaseStorage(orderId: string): Promise<void> {
+    // Import dynamically to avoid circular dependencies
+    const { orderExpiryService } = await import('../orders/order-expiry.service');
+    await orderExpiryService.releaseOrderStorage(orderId);
+  }
+}
+
+export const refundService = new RefundService();
+export default refundService;
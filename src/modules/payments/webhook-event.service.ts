@@ -0,0 +1,133 @@
+import Stripe from 'stripe';
+import { Prisma, WebhookEvent, WebhookEventStatus } from '@prisma/client';
+import { prisma } from '../../common/database';
+import { IPaginationParams } from '../../common/interfaces';
+import { logger, NotFoundError } from '../../common/utils';
+
+// ============================================
+// Webhook Event Service
+// ============================================
+
+const MS_PER_MINUTE = 60 * 1000;
+
+// An event still PROCESSING after this long was abandoned by a crashed handler
+const STALE_PROCESSING_MINUTES = 5;
+
+export class WebhookEventService {
+  /**
+   * Store a verified event and claim it for processing. Returns null when the
+   * event has already been processed or another delivery is processing it.
+   */
+  async claim(event: Stripe.Event): Promise<WebhookEvent | null> {
+    try {
+      return await prisma.webhookEvent.create({
+        data: {
+          eventId: event.id,
+          type: event.type,
+          payload: event as unknown as Prisma.InputJsonValue,
+          attempts: 1,
+        },
+      });
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+        throw error;
+      }
+    }
+
+    return this.reclaim(event.id);
+  }
+
+  /**
+   * Claim a stored event that failed, or whose processing was abandoned, for another attempt
+   */
+  async reclaim(eventId: string): Promise<WebhookEvent | null> {
+    const { count } = await prisma.webhookEvent.updateMany({
+      where: {
+        eventId,
+        OR: [
+          { status: WebhookEventStatus.FAILED },
+          {
+            status: WebhookEventStatus.PROCESSING,
+            updatedAt: { lt: new Date(Date.now() - STALE_PROCESSING_MINUTES * MS_PER_MINUTE) },
+          },
+        ],
+      },
+      data: { status: WebhookEventStatus.PROCESSING, attempts: { increment: 1 } },
+    });
+
+    if (count === 0) {
+      logger.info('Skipping webhook event that was already handled', { eventId });
+      return null;
+    }
+
+    return prisma.webhookEvent.findUnique({ where: { eventId } });
+  }
+
+  /**
+   * Record that an event was processed, or ignored because nothing handles its type
+   */
+  async markProcessed(id: string, handled: boolean): Promise<void> {
+    await prisma.webhookEvent.update({
+      where: { id },
+      data: {
+        status: handled ? WebhookEventStatus.PROCESSED : WebhookEventStatus.IGNORED,
+        lastError: null,
+        processedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Record that processing an event failed; it is retried on the next delivery or replay
+   */
+  async markFailed(id: string, error: unknown): Promise<void> {
+    await prisma.webhookEvent.update({
+      where: { id },
+      data: {
+        status: WebhookEventStatus.FAILED,
+        lastError: error instanceof Error ? error.message : String(error),
+      },
+    });
+  }
+
+  /**
+   * Get stored events, newest first
+   */
+  async listEvents(
+    filters?: { status?: WebhookEventStatus; type?: string },
+    pagination?: IPaginationParams
+  ): Promise<{ events: WebhookEvent[]; total: number }> {
+    const where: Prisma.WebhookEventWhereInput = {
+      status: filters?.status,
+      type: filters?.type,
+    };
+
+    const [events, total] = await Promise.all([
+      prisma.webhookEvent.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: pagination ? (pagination.page - 1) * pagination.pageSize : undefined,
+        take: pagination?.pageSize,
+      }),
+      prisma.webhookEvent.count({ where }),
+    ]);
+
+    return { events, total };
+  }
+
+  /**
+   * Get a stored event by id
+   */
+  async getEvent(id: string): Promise<WebhookEvent> {
+    const event = await prisma.webhookEvent.findUnique({ where: { id } });
+
+    if (!event) {
+      throw new NotFoundError('Webhook event', id);
+    }
+
+    return event;
+  }
+}
+
+export const webhookEventService = new WebhookEventService();
+export default webhookEventService;
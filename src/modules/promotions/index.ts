@@ -0,0 +1,2 @@
+export * from './promotion.service';
+export * from './promotion.controller';
@@ -0,0 +1,291 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { Coupon, CouponDiscountType, GiftVoucher } from '@prisma/client';
+import { promotionService, IAppliedPromotions } from './promotion.service';
+import { IApiResponse } from '../../common/interfaces';
+import { centsToDollars } from '../../common/utils';
+import { ValidationError } from '../../common/utils/errors';
+import { getAuthUser, requireAuth, requirePermission, requireScope } from '../../middleware/auth.middleware';
+import { ApiKeyScopes, Permissions } from '../auth/permissions';
+
+// ============================================
+// Promotion Controller
+// ============================================
+
+const router = Router();
+
+function toCouponResponse(coupon: Coupon) {
+  return {
+    id: coupon.id,
+    code: coupon.code,
+    description: coupon.description,
+    discountType: coupon.discountType,
+    percentOff: coupon.percentOff,
+    amountOffCents: coupon.amountOffCents,
+    maxRedemptions: coupon.maxRedemptions,
+    redemptionCount: coupon.redemptionCount,
+    maxRedemptionsPerUser: coupon.maxRedemptionsPerUser,
+    startsAt: coupon.startsAt,
+    expiresAt: coupon.expiresAt,
+    planIds: coupon.planIds,
+    providerIds: coupon.providerIds,
+    isActive: coupon.isActive,
+    createdAt: coupon.createdAt,
+  };
+}
+
+function toVoucherResponse(voucher: GiftVoucher) {
+  return {
+    id: voucher.id,
+    code: voucher.code,
+    initialAmountCents: voucher.initialAmountCents,
+    balanceCents: voucher.balanceCents,
+    currency: voucher.currency,
+    expiresAt: voucher.expiresAt,
+    isActive: voucher.isActive,
+    createdAt: voucher.createdAt,
+  };
+}
+
+function toPreviewResponse(applied: IAppliedPromotions) {
+  return {
+    ...applied,
+    totalUsd: centsToDollars(applied.totalCents),
+  };
+}
+
+function parseOptionalDate(value: unknown, field: string): Date | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  const date = new Date(value as string);
+  if (isNaN(date.getTime())) {
+    throw new ValidationError(`${field} must be a valid date`);
+  }
+
+  return date;
+}
+
+function parseOptionalIds(value: unknown, field: string): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (!Array.isArray(value) || value.some(id => typeof id !== 'string')) {
+    throw new ValidationError(`${field} must be an array of ids`);
+  }
+
+  return value;
+}
+
+/**
+ * POST /api/promotions/preview
+ * Preview what a coupon and gift voucher take off a plan or custom size
+ */
+router.post('/preview', requireAuth, requireScope(ApiKeyScopes.PAYMENTS_WRITE), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getAuthUser(req);
+    const { couponCode, voucherCode, planId, providerSlug, storageSizeGb, durationDays } = req.body;
+
+    if (!couponCode && !voucherCode) {
+      throw new ValidationError('couponCode or voucherCode is required');
+    }
+
+    if (providerSlug !== undefined) {
+      if (typeof storageSizeGb !== 'number' || typeof durationDays !== 'number') {
+        throw new ValidationError('storageSizeGb and durationDays are required for custom sizes');
+      }
+    } else if (typeof planId !== 'string' || !planId) {
+      throw new ValidationError('planId or providerSlug is required');
+    }
+
+    const result = await promotionService.previewPromotions(
+      user.id,
+      providerSlug !== undefined
+        ? { custom: { providerSlug, storageSizeGb, durationDays } }
+        : { planId },
+      { couponCode, voucherCode }
+    );
+
+    if (result.success) {
+      const response: IApiResponse = {
+        success: true,
+        data: toPreviewResponse(result.data),
+      };
+      res.json(response);
+    } else {
+      const response: IApiResponse = {
+        success: false,
+        error: result.error,
+      };
+      res.status(400).json(response);
+    }
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/promotions/coupons
+ * List coupons (staff only)
+ */
+router.get('/coupons', requirePermission(Permissions.PROMOTIONS_MANAGE), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const coupons = await promotionService.listCoupons();
+
+    const response: IApiResponse = {
+      success: true,
+      data: coupons.map(toCouponResponse),
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/promotions/coupons
+ * Create a coupon (staff only)
+ */
+router.post('/coupons', requirePermission(Permissions.PROMOTIONS_MANAGE), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const {
+      code,
+      description,
+      discountType,
+      percentOff,
+      amountOffCents,
+      maxRedemptions,
+      maxRedemptionsPerUser,
+      startsAt,
+      expiresAt,
+      planIds,
+      providerIds,
+    } = req.body;
+
+    if (typeof code !== 'string') {
+      throw new ValidationError('code is required');
+    }
+
+    if (!Object.values(CouponDiscountType).includes(discountType)) {
+      throw new ValidationError(`discountType must be one of: ${Object.values(CouponDiscountType).join(', ')}`);
+    }
+
+    const coupon = await promotionService.createCoupon({
+      code,
+      description,
+      discountType,
+      percentOff,
+      amountOffCents,
+      maxRedemptions,
+      maxRedemptionsPerUser,
+      startsAt: parseOptionalDate(startsAt, 'startsAt'),
+      expiresAt: parseOptionalDate(expiresAt, 'expiresAt'),
+      planIds: parseOptionalIds(planIds, 'planIds'),
+      providerIds: parseOptionalIds(providerIds, 'providerIds'),
+    });
+
+    const response: IApiResponse = {
+      success: true,
+      data: toCouponResponse(coupon),
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/promotions/coupons/:couponId
+ * Deactivate a coupon (staff only)
+ */
+router.delete('/coupons/:couponId', requirePermission(Permissions.PROMOTIONS_MANAGE), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const coupon = await promotionService.deactivateCoupon(req.params.couponId);
+
+    const response: IApiResponse = {
+      success: true,
+      data: toCouponResponse(coupon),
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/promotions/vouchers
+ * List gift vouchers (staff only)
+ */
+router.get('/vouchers', requirePermission(Permissions.PROMOTIONS_MANAGE), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const vouchers = await promotionService.listVouchers();
+
+    const response: IApiResponse = {
+      success: true,
+      data: vouchers.map(toVoucherResponse),
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/promotions/vouchers
+ * Issue a gift voucher (staff only)
+ */
+router.post('/vouchers', requirePermission(Permissions.PROMOTIONS_MANAGE), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { amountCents, code, expiresAt } = req.body;
+
+    if (typeof amountCents !== 'number') {
+      throw new ValidationError('amountCents is required');
+    }
+
+    if (code !== undefined && typeof code !== 'string') {
+      throw new ValidationError('code must be a string');
+    }
+
+    const voucher = await promotionService.createVoucher({
+      amountCents,
+      code,
+      expiresAt: parseOptionalDate(expiresAt, 'expiresAt'),
+    });
+
+    const response: IApiResponse = {
+      success: true,
+      data: toVoucherResponse(voucher),
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/promotions/vouchers/:voucherId
+ * Deactivate a gift voucher (staff only)
+ */
+router.delete('/vouchers/:voucherId', requirePermission(Permissions.PROMOTIONS_MANAGE), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const voucher = await promotionService.deactivateVoucher(req.params.voucherId);
+
+    const response: IApiResponse = {
+      success: true,
+      data: toVoucherResponse(voucher),
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export const promotionController = router;
+export default promotionController;
@@ -0,0 +1,482 @@
+import crypto from 'crypto';
+import { Coupon, CouponDiscountType, GiftVoucher, Prisma } from '@prisma/client';
+import { prisma } from '../../common/database';
+import { ServiceResult, successResult, errorResult } from '../../common/interfaces';
+import { logger, ConflictError, NotFoundError, ValidationError } from '../../common/utils';
+import { providerService } from '../providers/provider.service';
+
+// ============================================
+// Promotion Service
+// ============================================
+
+// Stripe cannot charge less than this, so discounts always leave it to pay
+export const MIN_DISCOUNTED_CHARGE_CENTS = 50;
+
+export interface CreateCouponDto {
+  code: string;
+  description?: string;
+  discountType: CouponDiscountType;
+  percentOff?: number;
+  amountOffCents?: number;
+  maxRedemptions?: number;
+  maxRedemptionsPerUser?: number;
+  startsAt?: Date;
+  expiresAt?: Date;
+  planIds?: string[];
+  providerIds?: string[];
+}
+
+export interface CreateGiftVoucherDto {
+  amountCents: number;
+  // Generated when not given
+  code?: string;
+  expiresAt?: Date;
+}
+
+export interface IPromotionCodes {
+  couponCode?: string;
+  voucherCode?: string;
+}
+
+// What is being bought, as far as coupon restrictions are concerned
+export interface IPromotionTarget {
+  planId: string | null;
+  providerId: string;
+  priceUsdCents: number;
+}
+
+// A plan, or a custom size priced from a rate card
+export interface IPromotionItem {
+  planId?: string;
+  custom?: {
+    providerSlug: string;
+    storageSizeGb: number;
+    durationDays: number;
+  };
+}
+
+export interface IAppliedPromotions {
+  priceUsdCents: number;
+  coupon: { id: string; code: string; discountCents: number } | null;
+  voucher: { id: string; code: string; amountCents: number; remainingCents: number } | null;
+  discountCents: number;
+  totalCents: number;
+}
+
+export class PromotionService {
+  // ============================================
+  // Coupons
+  // ============================================
+
+  /**
+   * Create a coupon. Codes are case-insensitive and stored upper case.
+   */
+  async createCoupon(data: CreateCouponDto): Promise<Coupon> {
+    const code = this.normalizeCode(data.code);
+    if (!code) {
+      throw new ValidationError('code is required');
+    }
+
+    if (data.discountType === CouponDiscountType.PERCENT) {
+      if (!data.percentOff || data.percentOff <= 0 || data.percentOff > 100) {
+        throw new ValidationError('percentOff must be greater than 0 and at most 100');
+      }
+    } else if (!data.amountOffCents || !Number.isInteger(data.amountOffCents) || data.amountOffCents <= 0) {
+      throw new ValidationError('amountOffCents must be a positive integer');
+    }
+
+    for (const [field, value] of [
+      ['maxRedemptions', data.maxRedemptions],
+      ['maxRedemptionsPerUser', data.maxRedemptionsPerUser],
+    ] as const) {
+      if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+        throw new ValidationError(`${field} must be a positive integer`);
+      }
+    }
+
+    if (data.startsAt && data.expiresAt && data.expiresAt <= data.startsAt) {
+      throw new ValidationError('expiresAt must be after startsAt');
+    }
+
+    if (await prisma.coupon.findUnique({ where: { code } })) {
+      throw new ConflictError(`Coupon ${code} already exists`);
+    }
+
+    const coupon = await prisma.coupon.create({
+      data: {
+        code,
+        description: data.description,
+        discountType: data.discountType,
+        percentOff: data.discountType === CouponDiscountType.PERCENT ? data.percentOff : null,
+        amountOffCents: data.discountType === CouponDiscountType.FIXED ? data.amountOffCents : null,
+        maxRedemptions: data.maxRedemptions,
+        maxRedemptionsPerUser: data.maxRedemptionsPerUser,
+        startsAt: data.startsAt,
+        expiresAt: data.expiresAt,
+        planIds: data.planIds ?? [],
+        providerIds: data.providerIds ?? [],
+      },
+    });
+
+    logger.info('Coupon created', { couponId: coupon.id, code: coupon.code });
+
+    return coupon;
+  }
+
+  /**
+   * Get all coupons, newest first
+   */
+  async listCoupons(): Promise<Coupon[]> {
+    return prisma.coupon.findMany({ orderBy: { createdAt: 'desc' } });
+  }
+
+  /**
+   * Stop a coupon from being used at checkout. Orders that already used it keep their discount.
+   */
+  async deactivateCoupon(couponId: string): Promise<Coupon> {
+    const coupon = await prisma.coupon.findUnique({ where: { id: couponId } });
+
+    if (!coupon) {
+      throw new NotFoundError('Coupon', couponId);
+    }
+
+    return prisma.coupon.update({
+      where: { id: coupon.id },
+      data: { isActive: false },
+    });
+  }
+
+  // ============================================
+  // Gift Vouchers
+  // ============================================
+
+  /**
+   * Issue a prepaid gift voucher
+   */
+  async createVoucher(data: CreateGiftVoucherDto): Promise<GiftVoucher> {
+    if (!Number.isInteger(data.amountCents) || data.amountCents <= 0) {
+      throw new ValidationError('amountCents must be a positive integer');
+    }
+
+    if (data.expiresAt && data.expiresAt <= new Date()) {
+      throw new ValidationError('expiresAt must be in the future');
+    }
+
+    const code = data.code !== undefined ? this.normalizeCode(data.code) : this.generateVoucherCode();
+    if (!code) {
+      throw new ValidationError('code must not be empty');
+    }
+
+    if (await prisma.giftVoucher.findUnique({ where: { code } })) {
+      throw new ConflictError(`Gift voucher ${code} already exists`);
+    }
+
+    const voucher = await prisma.giftVoucher.create({
+      data: {
+        code,
+        initialAmountCents: data.amountCents,
+        balanceCents: data.amountCents,
+        expiresAt: data.expiresAt,
+      },
+    });
+
+    logger.info('Gift voucher issued', { voucherId: voucher.id, amountCents: voucher.initialAmountCents });
+
+    return voucher;
+  }
+
+  /**
+   * Get all gift vouchers, newest first
+   */
+  async listVouchers(): Promise<GiftVoucher[]> {
+    return prisma.giftVoucher.findMany({ orderBy: { createdAt: 'desc' } });
+  }
+
+  /**
+   * Stop a gift voucher from being spent
+   */
+  async deactivateVoucher(voucherId: string): Promise<GiftVoucher> {
+    const voucher = await prisma.giftVoucher.findUnique({ where: { id: voucherId } });
+
+    if (!voucher) {
+      throw new NotFoundError('Gift voucher', voucherId);
+    }
+
+    return prisma.giftVoucher.update({
+      where: { id: voucher.id },
+      data: { isActive: false },
+    });
+  }
+
+  // ============================================
+  // Checkout
+  // ============================================
+
+  /**
+   * Work out what a coupon and a gift voucher take off a price. The coupon
+   * applies first and the voucher pays towards what is left, but never below
+   * the minimum Stripe can charge.
+   */
+  async applyPromotions(
+    userId: string,
+    target: IPromotionTarget,
+    codes: IPromotionCodes
+  ): Promise<ServiceResult<IAppliedPromotions>> {
+    const maxDiscountCents = Math.max(0, target.priceUsdCents - MIN_DISCOUNTED_CHARGE_CENTS);
+    let coupon: IAppliedPromotions['coupon'] = null;
+    let voucher: IAppliedPromotions['voucher'] = null;
+
+    if (codes.couponCode) {
+      const validated = await this.validateCoupon(userId, target, codes.couponCode);
+      if (!validated.success) {
+        return errorResult(validated.error.code, validated.error.message, validated.error.details);
+      }
+
+      const found = validated.data;
+      const discountCents = found.discountType === CouponDiscountType.PERCENT
+        ? Math.floor(target.priceUsdCents * found.percentOff! / 100)
+        : found.amountOffCents!;
+
+      coupon = { id: found.id, code: found.code, discountCents: Math.min(discountCents, maxDiscountCents) };
+    }
+
+    if (codes.voucherCode) {
+      const validated = await this.validateVoucher(codes.voucherCode);
+      if (!validated.success) {
+        return errorResult(validated.error.code, validated.error.message, validated.error.details);
+      }
+
+      const found = validated.data;
+      const amountCents = Math.min(found.balanceCents, maxDiscountCents - (coupon?.discountCents ?? 0));
+
+      voucher = {
+        id: found.id,
+        code: found.code,
+        amountCents,
+        remainingCents: found.balanceCents - amountCents,
+      };
+    }
+
+    const discountCents = (coupon?.discountCents ?? 0) + (voucher?.amountCents ?? 0);
+
+    return successResult({
+      priceUsdCents: target.priceUsdCents,
+      coupon,
+      voucher,
+      discountCents,
+      totalCents: target.priceUsdCents - discountCents,
+    });
+  }
+
+  /**
+   * Preview what codes take off a plan or a custom size before checking out.
+   * Nothing is redeemed until the checkout creates the order.
+   */
+  async previewPromotions(
+    userId: string,
+    item: IPromotionItem,
+    codes: IPromotionCodes
+  ): Promise<ServiceResult<IAppliedPromotions>> {
+    let target: IPromotionTarget;
+
+    if (item.custom) {
+      const price = await providerService.priceCustomStorage(
+        item.custom.providerSlug,
+        item.custom.storageSizeGb,
+        item.custom.durationDays
+      );
+      if (!price.success) {
+        return errorResult(price.error.code, price.error.message, price.error.details);
+      }
+
+      target = { planId: null, providerId: price.data.providerId, priceUsdCents: price.data.priceUsdCents };
+    } else {
+      const plan = await providerService.getStoragePlanById(item.planId!);
+      target = { planId: plan.id, providerId: plan.providerId, priceUsdCents: plan.priceUsdCents };
+    }
+
+    return this.applyPromotions(userId, target, codes);
+  }
+
+  /**
+   * Record the promotions applied to a new order, using up the coupon and
+   * spending the voucher balance. Throws ConflictError when either ran out
+   * since they were applied.
+   */
+  async redeem(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    userId: string,
+    applied: IAppliedPromotions
+  ): Promise<void> {
+    if (applied.coupon) {
+      const { count } = await tx.coupon.updateMany({
+        where: {
+          id: applied.coupon.id,
+          isActive: true,
+          OR: [
+            { maxRedemptions: null },
+            { redemptionCount: { lt: tx.coupon.fields.maxRedemptions } },
+          ],
+        },
+        data: { redemptionCount: { increment: 1 } },
+      });
+
+      if (count === 0) {
+        throw new ConflictError(`Coupon ${applied.coupon.code} is no longer available`);
+      }
+
+      const coupon = await tx.coupon.findUniqueOrThrow({ where: { id: applied.coupon.id } });
+      if (coupon.maxRedemptionsPerUser !== null) {
+        const used = await this.countUserRedemptions(tx, coupon.id, userId);
+        if (used >= coupon.maxRedemptionsPerUser) {
+          throw new ConflictError(`Coupon ${coupon.code} has already been used`);
+        }
+      }
+
+      await tx.promotionRedemption.create({
+        data: { orderId, userId, couponId: coupon.id, amountCents: applied.coupon.discountCents },
+      });
+    }
+
+    if (applied.voucher && applied.voucher.amountCents > 0) {
+      const { count } = await tx.giftVoucher.updateMany({
+        where: { id: applied.voucher.id, isActive: true, balanceCents: { gte: applied.voucher.amountCents } },
+        data: { balanceCents: { decrement: applied.voucher.amountCents } },
+      });
+
+      if (count === 0) {
+        throw new ConflictError(`Gift voucher ${applied.voucher.code} no longer covers this amount`);
+      }
+
+      await tx.promotionRedemption.create({
+        data: { orderId, userId, voucherId: applied.voucher.id, amountCents: applied.voucher.amountCents },
+      });
+    }
+  }
+
+  /**
+   * Give back the coupons and voucher balance of an order that was never paid
+   */
+  async releaseForOrder(tx: Prisma.TransactionClient, orderId: string): Promise<void> {
+    const redemptions = await tx.promotionRedemption.findMany({
+      where: { orderId, releasedAt: null },
+    });
+
+    for (const redemption of redemptions) {
+      // Another release may have got there first
+      const { count } = await tx.promotionRedemption.updateMany({
+        where: { id: redemption.id, releasedAt: null },
+        data: { releasedAt: new Date() },
+      });
+      if (count === 0) {
+        continue;
+      }
+
+      if (redemption.couponId) {
+        await tx.coupon.update({
+          where: { id: redemption.couponId },
+          data: { redemptionCount: { decrement: 1 } },
+        });
+      }
+
+      if (redemption.voucherId) {
+        await tx.giftVoucher.update({
+          where: { id: redemption.voucherId },
+          data: { balanceCents: { increment: redemption.amountCents } },
+        });
+      }
+    }
+
+    if (redemptions.length > 0) {
+      logger.info('Promotions released', { orderId, redemptions: redemptions.length });
+    }
+  }
+
+  private async validateCoupon(
+    userId: string,
+    target: IPromotionTarget,
+    rawCode: string
+  ): Promise<ServiceResult<Coupon>> {
+    const coupon = await prisma.coupon.findUnique({ where: { code: this.normalizeCode(rawCode) } });
+    const now = new Date();
+
+    if (!coupon) {
+      return errorResult('COUPON_NOT_FOUND', 'Coupon not found');
+    }
+
+    if (!coupon.isActive) {
+      return errorResult('COUPON_INACTIVE', 'This coupon is no longer active');
+    }
+
+    if (coupon.startsAt && coupon.startsAt > now) {
+      return errorResult('COUPON_NOT_STARTED', 'This coupon cannot be used yet', { startsAt: coupon.startsAt });
+    }
+
+    if (coupon.expiresAt && coupon.expiresAt <= now) {
+      return errorResult('COUPON_EXPIRED', 'This coupon has expired', { expiresAt: coupon.expiresAt });
+    }
+
+    if (coupon.maxRedemptions !== null && coupon.redemptionCount >= coupon.maxRedemptions) {
+      return errorResult('COUPON_EXHAUSTED', 'This coupon has been used up');
+    }
+
+    if (coupon.maxRedemptionsPerUser !== null) {
+      const used = await this.countUserRedemptions(prisma, coupon.id, userId);
+      if (used >= coupon.maxRedemptionsPerUser) {
+        return errorResult('COUPON_USER_LIMIT', 'You have already used this coupon');
+      }
+    }
+
+    // Custom-size orders have no plan, so plan-restricted coupons never apply to them
+    if (coupon.planIds.length > 0 && (!target.planId || !coupon.planIds.includes(target.planId))) {
+      return errorResult('COUPON_NOT_APPLICABLE', 'This coupon does not apply to this plan');
+    }
+
+    if (coupon.providerIds.length > 0 && !coupon.providerIds.includes(target.providerId)) {
+      return errorResult('COUPON_NOT_APPLICABLE', 'This coupon does not apply to this provider');
+    }
+
+    return successResult(coupon);
+  }
+
+  private async validateVoucher(rawCode: string): Promise<ServiceResult<GiftVoucher>> {
+    const voucher = await prisma.giftVoucher.findUnique({ where: { code: this.normalizeCode(rawCode) } });
+
+    if (!voucher) {
+      return errorResult('VOUCHER_NOT_FOUND', 'Gift voucher not found');
+    }
+
+    if (!voucher.isActive) {
+      return errorResult('VOUCHER_INACTIVE', 'This gift voucher is no longer active');
+    }
+
+    if (voucher.expiresAt && voucher.expiresAt <= new Date()) {
+      return errorResult('VOUCHER_EXPIRED', 'This gift voucher has expired', { expiresAt: voucher.expiresAt });
+    }
+
+    if (voucher.balanceCents <= 0) {
+      return errorResult('VOUCHER_EMPTY', 'This gift voucher has no balance left');
+    }
+
+    return successResult(voucher);
+  }
+
+  private countUserRedemptions(tx: Prisma.TransactionClient, couponId: string, userId: string): Promise<number> {
+    return tx.promotionRedemption.count({
+      where: { couponId, userId, releasedAt: null },
+    });
+  }
+
+  private normalizeCode(code: string): string {
+    return code.trim().toUpperCase();
+  }
+
+  private generateVoucherCode(): string {
+    const random = crypto.randomBytes(6).toString('hex').toUpperCase();
+    return `GIFT-${random.slice(0, 4)}-${random.slice(4, 8)}-${random.slice(8)}`;
+  }
+}
+
+export const promotionService = new PromotionService();
+export default promotionService;
@@ -3,6 +3,7 @@ import {
   IStorageProviderAdapter,
   IProviderConfig,
   IStoragePlan,
+  IRateCard,
   ISyncResult,
   IStorageTransactionParams,
   ITransactionResult,
@@ -36,6 +37,11 @@ export abstract class BaseStorageProviderAdapter implements IStorageProviderAdap
    */
   abstract getAvailablePlans(): Promise<IStoragePlan[]>;
 
+  /**
+   * Get the per-GB rate card - implemented by providers that price by usage
+   */
+  getRateCard?(): Promise<IRateCard>;
+
   /**
    * Execute a storage purchase transaction
    */
@@ -155,6 +161,13 @@ export abstract class BaseStorageProviderAdapter implements IStorageProviderAdap
         }
       }
 
+      try {
+        await this.syncRateCard(provider.id);
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        result.errors.push(`Failed to sync rate card: ${errorMsg}`);
+      }
+
       // Update provider last synced timestamp
       await prisma.provider.update({
         where: { id: provider.id },
@@ -212,6 +225,38 @@ export abstract class BaseStorageProviderAdapter implements IStorageProviderAdap
     return provider;
   }
 
+  /**
+   * Store the provider's rate card. Providers that stopped declaring one no
+   * longer accept custom-size orders.
+   */
+  protected async syncRateCard(providerId: string): Promise<void> {
+    if (!this.getRateCard) {
+      await prisma.providerRateCard.updateMany({
+        where: { providerId, isActive: true },
+        data: { isActive: false },
+      });
+      return;
+    }
+
+    const rateCard = await this.getRateCard();
+    const data = {
+      pricePerGbMonthCents: rateCard.pricePerGbMonthCents,
+      pricePerGbMonthNative: rateCard.pricePerGbMonthNative,
+      nativeCurrency: rateCard.nativeCurrency,
+      minPriceUsdCents: rateCard.minPriceUsdCents ?? 0,
+      minSizeGb: rateCard.minSizeGb,
+      maxSizeGb: rateCard.maxSizeGb,
+      minDurationDays: rateCard.minDurationDays,
+      maxDurationDays: rateCard.maxDurationDays,
+    };
+
+    await prisma.providerRateCard.upsert({
+      where: { providerId },
+      create: { providerId, ...data },
+      update: { ...data, isActive: true, version: { increment: 1 } },
+    });
+  }
+
   /**
    * Log sync result to database
    */
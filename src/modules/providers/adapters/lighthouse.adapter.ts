@@ -16,6 +16,7 @@ import { v4 as uuidv4 } from 'uuid';
 import {
   IProviderConfig,
   IStoragePlan,
+  IRateCard,
   ISyncResult,
   IStorageTransactionParams,
   ITransactionResult,
@@ -163,8 +164,25 @@ export class LighthouseFilecoinAdapter extends BaseStorageProviderAdapter {
     ];
   }
 
+  /**
+   * Lighthouse charges once per GB, so custom sizes are billed for at least a year
+   */
+  async getRateCard(): Promise<IRateCard> {
+    return {
+      pricePerGbMonthCents: 0.07, // ~$0.85 per GB for perpetual storage
+      nativeCurrency: 'FIL',
+      minPriceUsdCents: 50,
+      minSizeGb: 0.1,
+      maxSizeGb: 1024,
+      minDurationDays: 365,
+      maxDurationDays: 36500,
+    };
+  }
+
   async syncPlans(): Promise<ISyncResult> {
     const plans = await this.getAvailablePlans();
+    const provider = await this.ensureProviderExists();
+    await this.syncRateCard(provider.id);
     return {
       success: true,
       plansAdded: plans.length,
@@ -184,7 +202,7 @@ export class LighthouseFilecoinAdapter extends BaseStorageProviderAdapter {
    * 3. Returns the CID and gateway URL
    */
   async executeStorageTransaction(params: IStorageTransactionParams): Promise<ITransactionResult> {
-    const { orderId, planId, storageSizeBytes } = params;
+    const { orderId, planId, rateCardId, storageSizeBytes } = params;
 
     if (!this.apiKey) {
       // Demo mode - return mock response
@@ -199,6 +217,7 @@ export class LighthouseFilecoinAdapter extends BaseStorageProviderAdapter {
       const allocationData = {
         orderId,
         planId,
+        rateCardId,
         allocatedBytes: storageSizeBytes.toString(),
         allocatedAt: new Date().toISOString(),
         platform: 'DePIN Storage Aggregator',
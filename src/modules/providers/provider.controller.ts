@@ -2,6 +2,8 @@ import { Router, Request, Response, NextFunction } from 'express';
 import { providerService } from './provider.service';
 import { logger } from '../../common/utils/logger';
 import { IApiResponse } from '../../common/interfaces';
+import { requirePermission, requireScope } from '../../middleware/auth.middleware';
+import { ApiKeyScopes, Permissions } from '../auth/permissions';
 
 // ============================================
 // Provider Controller
@@ -13,7 +15,7 @@ const router = Router();
  * GET /api/providers
  * Get all active storage providers
  */
-router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/', requireScope(ApiKeyScopes.PLANS_READ), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const providers = await providerService.getProviders();
     
@@ -42,7 +44,7 @@ router.get('/', async (req: Request, res: Response, next: NextFunction) => {
  * GET /api/providers/:slug
  * Get a specific provider by slug
  */
-router.get('/:slug', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/:slug', requireScope(ApiKeyScopes.PLANS_READ), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { slug } = req.params;
     const provider = await providerService.getProviderBySlug(slug);
@@ -74,7 +76,7 @@ router.get('/:slug', async (req: Request, res: Response, next: NextFunction) =>
  * GET /api/providers/stats
  * Get provider statistics
  */
-router.get('/stats/overview', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/stats/overview', requireScope(ApiKeyScopes.PLANS_READ), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const stats = await providerService.getProviderStats();
     
@@ -91,9 +93,9 @@ router.get('/stats/overview', async (req: Request, res: Response, next: NextFunc
 
 /**
  * POST /api/providers/sync
- * Trigger sync for all providers
+ * Trigger sync for all providers (admin only)
  */
-router.post('/sync', async (req: Request, res: Response, next: NextFunction) => {
+router.post('/sync', requirePermission(Permissions.PROVIDERS_SYNC), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const result = await providerService.syncAllProviders();
     
@@ -117,9 +119,9 @@ router.post('/sync', async (req: Request, res: Response, next: NextFunction) =>
 
 /**
  * POST /api/providers/:slug/sync
- * Trigger sync for a specific provider
+ * Trigger sync for a specific provider (admin only)
  */
-router.post('/:slug/sync', async (req: Request, res: Response, next: NextFunction) => {
+router.post('/:slug/sync', requirePermission(Permissions.PROVIDERS_SYNC), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { slug } = req.params;
     const result = await providerService.syncProvider(slug);
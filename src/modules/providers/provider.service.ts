@@ -1,19 +1,25 @@
-import { Provider, StoragePlan, PlanStatus, ProviderStatus } from '@prisma/client';
+import { Provider, ProviderRateCard, StoragePlan, PlanStatus, ProviderStatus } from '@prisma/client';
 import { prisma } from '../../common/database';
-import { NotFoundError, centsToDollars } from '../../common/utils';
+import { NotFoundError, centsToDollars, gbToBytes } from '../../common/utils';
 import { 
   IStoragePlanResponse, 
+  IRateCardResponse,
+  ICustomStoragePrice,
   ServiceResult, 
   successResult, 
   errorResult,
   IPaginationParams,
 } from '../../common/interfaces';
 import { getProviderRegistry } from './provider.registry';
+import { BASE_CURRENCY, fxRateService, IFxRate } from '../currencies/fx-rate.service';
 
 // ============================================
 // Provider Service
 // ============================================
 
+// Rate cards are priced per 30 days
+const DAYS_PER_MONTH = 30;
+
 export class ProviderService {
   /**
    * Get all active providers
@@ -55,8 +61,12 @@ export class ProviderService {
       minPriceCents?: number;
       maxPriceCents?: number;
     },
-    pagination?: IPaginationParams
+    pagination?: IPaginationParams,
+    currency: string = BASE_CURRENCY
   ): Promise<{ plans: IStoragePlanResponse[]; total: number }> {
+    // Throws before querying if prices cannot be given in the currency
+    const fxRate = await fxRateService.getRate(currency);
+
     const where: Record<string, unknown> = {
       status: PlanStatus.AVAILABLE,
       isActive: true,
@@ -111,24 +121,7 @@ export class ProviderService {
       prisma.storagePlan.count({ where }),
     ]);
 
-    const formattedPlans: IStoragePlanResponse[] = plans.map(plan => ({
-      id: plan.id,
-      providerId: plan.providerId,
-      providerName: plan.provider.name,
-      providerSlug: plan.provider.slug,
-      name: plan.name,
-      description: plan.description,
-      storageSizeGb: plan.storageSizeGb,
-      storageSizeBytes: plan.storageSizeBytes.toString(),
-      durationDays: plan.durationDays,
-      priceUsdCents: plan.priceUsdCents,
-      priceUsd: centsToDollars(plan.priceUsdCents),
-      priceNative: plan.priceNative,
-      nativeCurrency: plan.nativeCurrency,
-      network: plan.provider.network,
-      features: plan.features as string[],
-      isAvailable: plan.status === PlanStatus.AVAILABLE && plan.isActive,
-    }));
+    const formattedPlans = plans.map(plan => this.formatPlanResponse(plan, fxRate));
 
     return { plans: formattedPlans, total };
   }
@@ -136,7 +129,7 @@ export class ProviderService {
   /**
    * Get a specific storage plan by ID
    */
-  async getStoragePlanById(planId: string): Promise<IStoragePlanResponse> {
+  async getStoragePlanById(planId: string, currency: string = BASE_CURRENCY): Promise<IStoragePlanResponse> {
     const plan = await prisma.storagePlan.findUnique({
       where: { id: planId },
       include: { provider: true },
@@ -146,24 +139,100 @@ export class ProviderService {
       throw new NotFoundError('Storage Plan', planId);
     }
 
-    return {
-      id: plan.id,
-      providerId: plan.providerId,
-      providerName: plan.provider.name,
-      providerSlug: plan.provider.slug,
-      name: plan.name,
-      description: plan.description,
-      storageSizeGb: plan.storageSizeGb,
-      storageSizeBytes: plan.storageSizeBytes.toString(),
-      durationDays: plan.durationDays,
-      priceUsdCents: plan.priceUsdCents,
-      priceUsd: centsToDollars(plan.priceUsdCents),
-      priceNative: plan.priceNative,
-      nativeCurrency: plan.nativeCurrency,
-      network: plan.provider.network,
-      features: plan.features as string[],
-      isAvailable: plan.status === PlanStatus.AVAILABLE && plan.isActive,
-    };
+    return this.formatPlanResponse(plan, await fxRateService.getRate(currency));
+  }
+
+  /**
+   * Get the rate cards of active providers that accept custom-size orders
+   */
+  async getRateCards(): Promise<IRateCardResponse[]> {
+    const rateCards = await prisma.providerRateCard.findMany({
+      where: {
+        isActive: true,
+        provider: {
+          status: ProviderStatus.ACTIVE,
+          isEnabled: true,
+        },
+      },
+      include: { provider: true },
+      orderBy: { pricePerGbMonthCents: 'asc' },
+    });
+
+    return rateCards.map(rateCard => this.formatRateCard(rateCard));
+  }
+
+  /**
+   * Get the rate card of a provider by its slug
+   */
+  async getRateCard(providerSlug: string): Promise<IRateCardResponse> {
+    const rateCard = await prisma.providerRateCard.findFirst({
+      where: { provider: { slug: providerSlug } },
+      include: { provider: true },
+    });
+
+    if (!rateCard) {
+      throw new NotFoundError('Rate card for provider', providerSlug);
+    }
+
+    return this.formatRateCard(rateCard);
+  }
+
+  /**
+   * Price custom-size storage from a provider's rate card
+   */
+  async priceCustomStorage(
+    providerSlug: string,
+    storageSizeGb: number,
+    durationDays: number
+  ): Promise<ServiceResult<ICustomStoragePrice>> {
+    const rateCard = await prisma.providerRateCard.findFirst({
+      where: { provider: { slug: providerSlug } },
+      include: { provider: true },
+    });
+
+    if (
+      !rateCard
+      || !rateCard.isActive
+      || rateCard.provider.status !== ProviderStatus.ACTIVE
+      || !rateCard.provider.isEnabled
+    ) {
+      return errorResult('RATE_CARD_NOT_FOUND', 'This provider does not offer custom-size storage');
+    }
+
+    if (!Number.isFinite(storageSizeGb) || storageSizeGb < rateCard.minSizeGb || storageSizeGb > rateCard.maxSizeGb) {
+      return errorResult(
+        'SIZE_OUT_OF_RANGE',
+        `Storage size must be between ${rateCard.minSizeGb}GB and ${rateCard.maxSizeGb}GB`,
+        { minSizeGb: rateCard.minSizeGb, maxSizeGb: rateCard.maxSizeGb }
+      );
+    }
+
+    if (
+      !Number.isInteger(durationDays)
+      || durationDays < rateCard.minDurationDays
+      || durationDays > rateCard.maxDurationDays
+    ) {
+      return errorResult(
+        'DURATION_OUT_OF_RANGE',
+        `Duration must be between ${rateCard.minDurationDays} and ${rateCard.maxDurationDays} days`,
+        { minDurationDays: rateCard.minDurationDays, maxDurationDays: rateCard.maxDurationDays }
+      );
+    }
+
+    const priceUsdCents = Math.max(
+      rateCard.minPriceUsdCents,
+      Math.ceil(rateCard.pricePerGbMonthCents * storageSizeGb * durationDays / DAYS_PER_MONTH)
+    );
+
+    return successResult({
+      rateCardId: rateCard.id,
+      providerId: rateCard.providerId,
+      providerSlug: rateCard.provider.slug,
+      storageSizeGb,
+      storageSizeBytes: gbToBytes(storageSizeGb),
+      durationDays,
+      priceUsdCents,
+    });
   }
 
   /**
@@ -244,6 +313,54 @@ export class ProviderService {
       availablePlans,
     };
   }
+
+  /**
+   * Format a plan with its price in USD and converted to the requested currency
+   */
+  private formatPlanResponse(plan: StoragePlan & { provider: Provider }, fxRate: IFxRate): IStoragePlanResponse {
+    const priceCents = fxRateService.fromUsdCents(plan.priceUsdCents, fxRate.currency, fxRate.rate);
+
+    return {
+      id: plan.id,
+      providerId: plan.providerId,
+      providerName: plan.provider.name,
+      providerSlug: plan.provider.slug,
+      name: plan.name,
+      description: plan.description,
+      storageSizeGb: plan.storageSizeGb,
+      storageSizeBytes: plan.storageSizeBytes.toString(),
+      durationDays: plan.durationDays,
+      priceUsdCents: plan.priceUsdCents,
+      priceUsd: centsToDollars(plan.priceUsdCents),
+      currency: fxRate.currency,
+      priceCents,
+      price: fxRateService.toDecimal(priceCents, fxRate.currency),
+      fxRate: fxRate.rate,
+      priceNative: plan.priceNative,
+      nativeCurrency: plan.nativeCurrency,
+      network: plan.provider.network,
+      features: plan.features as string[],
+      isAvailable: plan.status === PlanStatus.AVAILABLE && plan.isActive,
+    };
+  }
+
+  private formatRateCard(rateCard: ProviderRateCard & { provider: Provider }): IRateCardResponse {
+    return {
+      id: rateCard.id,
+      providerId: rateCard.providerId,
+      providerName: rateCard.provider.name,
+      providerSlug: rateCard.provider.slug,
+      pricePerGbMonthCents: rateCard.pricePerGbMonthCents,
+      pricePerGbMonthNative: rateCard.pricePerGbMonthNative,
+      nativeCurrency: rateCard.nativeCurrency,
+      minPriceUsdCents: rateCard.minPriceUsdCents,
+      minSizeGb: rateCard.minSizeGb,
+      maxSizeGb: rateCard.maxSizeGb,
+      minDurationDays: rateCard.minDurationDays,
+      maxDurationDays: rateCard.maxDurationDays,
+      network: rateCard.provider.network,
+    };
+  }
 }
 
 export const providerService = new ProviderService();
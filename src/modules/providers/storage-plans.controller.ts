@@ -2,6 +2,9 @@ import { Router, Request, Response, NextFunction } from 'express';
 import { providerService } from './provider.service';
 import { IApiResponse, IPaginationParams } from '../../common/interfaces';
 import { ValidationError } from '../../common/utils/errors';
+import { centsToDollars } from '../../common/utils/helpers';
+import { requireScope } from '../../middleware/auth.middleware';
+import { ApiKeyScopes } from '../auth/permissions';
 
 // ============================================
 // Storage Plans Controller
@@ -9,9 +12,12 @@ import { ValidationError } from '../../common/utils/errors';
 
 const router = Router();
 
+router.use(requireScope(ApiKeyScopes.PLANS_READ));
+
 /**
  * GET /api/storage/plans
- * Get all available storage plans with filtering and pagination
+ * Get all available storage plans with filtering and pagination, priced in
+ * the `currency` query parameter (USD by default)
  */
 router.get('/plans', async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -23,6 +29,7 @@ router.get('/plans', async (req: Request, res: Response, next: NextFunction) =>
       maxStorage,
       minPrice,
       maxPrice,
+      currency,
       page = '1',
       pageSize = '20',
     } = req.query;
@@ -76,7 +83,11 @@ router.get('/plans', async (req: Request, res: Response, next: NextFunction) =>
       if (!isNaN(max)) filters.maxPriceCents = max;
     }
 
-    const { plans, total } = await providerService.getStoragePlans(filters, pagination);
+    const { plans, total } = await providerService.getStoragePlans(
+      filters,
+      pagination,
+      currency ? currency as string : undefined
+    );
 
     const response: IApiResponse = {
       success: true,
@@ -102,7 +113,8 @@ router.get('/plans', async (req: Request, res: Response, next: NextFunction) =>
 router.get('/plans/:planId', async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { planId } = req.params;
-    const plan = await providerService.getStoragePlanById(planId);
+    const { currency } = req.query;
+    const plan = await providerService.getStoragePlanById(planId, currency ? currency as string : undefined);
 
     const response: IApiResponse = {
       success: true,
@@ -115,5 +127,83 @@ router.get('/plans/:planId', async (req: Request, res: Response, next: NextFunct
   }
 });
 
+/**
+ * GET /api/storage/rate-cards
+ * Get the per-GB rate cards of providers that accept custom-size orders
+ */
+router.get('/rate-cards', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const rateCards = await providerService.getRateCards();
+
+    const response: IApiResponse = {
+      success: true,
+      data: rateCards,
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/storage/rate-cards/:providerSlug
+ * Get the rate card of a provider
+ */
+router.get('/rate-cards/:providerSlug', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const rateCard = await providerService.getRateCard(req.params.providerSlug);
+
+    const response: IApiResponse = {
+      success: true,
+      data: rateCard,
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/storage/rate-cards/:providerSlug/price?sizeGb=&durationDays=
+ * Price custom-size storage from a provider's rate card
+ */
+router.get('/rate-cards/:providerSlug/price', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { sizeGb, durationDays } = req.query;
+
+    if (typeof sizeGb !== 'string' || typeof durationDays !== 'string') {
+      throw new ValidationError('sizeGb and durationDays are required');
+    }
+
+    const result = await providerService.priceCustomStorage(
+      req.params.providerSlug,
+      parseFloat(sizeGb),
+      Number(durationDays)
+    );
+
+    if (result.success) {
+      const response: IApiResponse = {
+        success: true,
+        data: {
+          ...result.data,
+          storageSizeBytes: result.data.storageSizeBytes.toString(),
+          priceUsd: centsToDollars(result.data.priceUsdCents),
+        },
+      };
+      res.json(response);
+    } else {
+      const response: IApiResponse = {
+        success: false,
+        error: result.error,
+      };
+      res.status(400).json(response);
+    }
+  } catch (error) {
+    next(error);
+  }
+});
+
 export const storagePlansController = router;
 export default storagePlansController;
\ No newline at end of file
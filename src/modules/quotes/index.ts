@@ -0,0 +1,2 @@
+export * from './quote.service';
+export * from './quote.controller';
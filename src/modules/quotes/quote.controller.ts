@@ -0,0 +1,87 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { Provider, Quote, StoragePlan } from '@prisma/client';
+import { quoteService } from './quote.service';
+import { IApiResponse } from '../../common/interfaces';
+import { ValidationError } from '../../common/utils/errors';
+import { getAuthUser, requireAuth, requireScope } from '../../middleware/auth.middleware';
+import { ApiKeyScopes } from '../auth/permissions';
+
+// ============================================
+// Quote Controller
+// ============================================
+
+const router = Router();
+
+// Quotes only exist to be checked out
+router.use(requireAuth, requireScope(ApiKeyScopes.PAYMENTS_WRITE));
+
+function toQuoteResponse(quote: Quote & { plan: StoragePlan & { provider: Provider } }) {
+  return {
+    id: quote.id,
+    plan: {
+      id: quote.plan.id,
+      name: quote.plan.name,
+      provider: { name: quote.plan.provider.name, slug: quote.plan.provider.slug },
+      storageSizeGb: quote.plan.storageSizeGb,
+      durationDays: quote.plan.durationDays,
+    },
+    priceUsdCents: quote.priceUsdCents,
+    priceNative: quote.priceNative,
+    nativeCurrency: quote.nativeCurrency,
+    fxRate: quote.fxRate,
+    expiresAt: quote.expiresAt,
+    expired: quote.expiresAt <= new Date(),
+    orderId: quote.orderId,
+    usedAt: quote.usedAt,
+    createdAt: quote.createdAt,
+  };
+}
+
+/**
+ * POST /api/quotes
+ * Lock the current price of a plan for checkout
+ */
+router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getAuthUser(req);
+    const { planId } = req.body;
+
+    if (typeof planId !== 'string' || !planId) {
+      throw new ValidationError('planId is required');
+    }
+
+    const quote = await quoteService.createQuote(user.id, planId);
+
+    const response: IApiResponse = {
+      success: true,
+      data: toQuoteResponse(quote),
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/quotes/:quoteId
+ * Get one of the user's quotes
+ */
+router.get('/:quoteId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = getAuthUser(req);
+    const quote = await quoteService.getQuote(req.params.quoteId, user.id);
+
+    const response: IApiResponse = {
+      success: true,
+      data: toQuoteResponse(quote),
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export const quoteController = router;
+export default quoteController;
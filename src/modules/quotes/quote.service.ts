@@ -0,0 +1,141 @@
+import { Prisma, Quote } from '@prisma/client';
+import { prisma } from '../../common/database';
+import { config } from '../../config';
+import { ServiceResult, successResult, errorResult } from '../../common/interfaces';
+import { logger, addDays, ConflictError, NotFoundError, ValidationError } from '../../common/utils';
+
+// ============================================
+// Quote Service
+// ============================================
+
+const MS_PER_MINUTE = 60 * 1000;
+
+// Expired quotes are kept a while so late checkouts get QUOTE_EXPIRED rather than QUOTE_NOT_FOUND
+const EXPIRED_QUOTE_RETENTION_DAYS = 7;
+
+export class QuoteService {
+  /**
+   * Snapshot the current price of a plan. Checkouts with the quote are charged
+   * this price until it expires, even if the plan is repriced in the meantime.
+   */
+  async createQuote(userId: string, planId: string) {
+    const plan = await prisma.storagePlan.findUnique({
+      where: { id: planId },
+      include: { provider: true },
+    });
+
+    if (!plan) {
+      throw new NotFoundError('Storage plan', planId);
+    }
+
+    if (plan.status !== 'AVAILABLE' || !plan.isActive) {
+      throw new ValidationError('This storage plan is no longer available');
+    }
+
+    const quote = await prisma.quote.create({
+      data: {
+        userId,
+        planId: plan.id,
+        planVersion: plan.version,
+        priceUsdCents: plan.priceUsdCents,
+        priceNative: plan.priceNative,
+        nativeCurrency: plan.nativeCurrency,
+        fxRate: this.impliedFxRate(plan.priceUsdCents, plan.priceNative),
+        expiresAt: new Date(Date.now() + config.quotes.ttlMinutes * MS_PER_MINUTE),
+      },
+      include: { plan: { include: { provider: true } } },
+    });
+
+    logger.debug('Quote created', { quoteId: quote.id, planId: plan.id, priceUsdCents: quote.priceUsdCents });
+
+    return quote;
+  }
+
+  /**
+   * Get one of the user's quotes
+   */
+  async getQuote(quoteId: string, userId: string) {
+    const quote = await prisma.quote.findFirst({
+      where: { id: quoteId, userId },
+      include: { plan: { include: { provider: true } } },
+    });
+
+    if (!quote) {
+      throw new NotFoundError('Quote', quoteId);
+    }
+
+    return quote;
+  }
+
+  /**
+   * Check that a quote can still be checked out by the user
+   */
+  async validateQuote(quoteId: string, userId: string, planId?: string): Promise<ServiceResult<Quote>> {
+    const quote = await prisma.quote.findFirst({ where: { id: quoteId, userId } });
+
+    if (!quote) {
+      return errorResult('QUOTE_NOT_FOUND', 'Quote not found');
+    }
+
+    if (planId && quote.planId !== planId) {
+      return errorResult('QUOTE_PLAN_MISMATCH', 'The quote is for a different plan');
+    }
+
+    if (quote.usedAt) {
+      return errorResult('QUOTE_ALREADY_USED', 'The quote has already been checked out');
+    }
+
+    if (quote.expiresAt <= new Date()) {
+      return errorResult('QUOTE_EXPIRED', 'The quote has expired, request a new one', {
+        expiresAt: quote.expiresAt,
+      });
+    }
+
+    return successResult(quote);
+  }
+
+  /**
+   * Mark a quote as used by an order. Throws ConflictError when the quote was
+   * used or expired since it was validated.
+   */
+  async claimQuote(tx: Prisma.TransactionClient, quoteId: string, orderId: string): Promise<void> {
+    const { count } = await tx.quote.updateMany({
+      where: { id: quoteId, usedAt: null, expiresAt: { gt: new Date() } },
+      data: { orderId, usedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new ConflictError(`Quote ${quoteId} is no longer valid`);
+    }
+  }
+
+  /**
+   * Delete quotes that expired without being used
+   */
+  async deleteExpiredQuotes(): Promise<number> {
+    const { count } = await prisma.quote.deleteMany({
+      where: { usedAt: null, expiresAt: { lt: addDays(new Date(), -EXPIRED_QUOTE_RETENTION_DAYS) } },
+    });
+
+    if (count > 0) {
+      logger.info(`Deleted ${count} expired quotes`);
+    }
+
+    return count;
+  }
+
+  /**
+   * USD per unit of the plan's native currency, as implied by its two prices
+   */
+  private impliedFxRate(priceUsdCents: number, priceNative: string | null): string | null {
+    const native = priceNative ? Number(priceNative) : NaN;
+    if (!Number.isFinite(native) || native <= 0) {
+      return null;
+    }
+
+    return (priceUsdCents / 100 / native).toPrecision(8);
+  }
+}
+
+export const quoteService = new QuoteService();
+export default quoteService;
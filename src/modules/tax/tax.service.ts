@@ -0,0 +1,238 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from '../../config';
+import { logger, ExternalServiceError } from '../../common/utils';
+import { IBillingDetailsInput, ServiceResult, successResult, errorResult } from '../../common/interfaces';
+
+// ============================================
+// Tax Service
+// ============================================
+
+export interface ITaxRate {
+  // ISO 3166-1 alpha-2 code
+  country: string;
+  // Subdivision within the country, e.g. "ON"; rates without one cover the whole country
+  region?: string;
+  // Shown at checkout and on invoices, e.g. "VAT"
+  name: string;
+  ratePercent: number;
+}
+
+export interface IBillingDetails {
+  country: string | null;
+  region: string | null;
+  vatId: string | null;
+}
+
+// How a customer is taxed. Prices include tax, so it never raises them.
+export interface ITaxTreatment extends IBillingDetails {
+  name: string;
+  // Rate charged; 0 under reverse charge
+  ratePercent: number;
+  // Rate included in list prices, which reverse-charged customers do not pay
+  includedRatePercent: number;
+  reverseCharge: boolean;
+}
+
+// Member states, by the prefix of their VAT numbers (Greece uses EL, not GR)
+const EU_VAT_PREFIXES: Record<string, string> = {
+  AT: 'AT', BE: 'BE', BG: 'BG', CY: 'CY', CZ: 'CZ', DE: 'DE', DK: 'DK', EE: 'EE', ES: 'ES',
+  FI: 'FI', FR: 'FR', GR: 'EL', HR: 'HR', HU: 'HU', IE: 'IE', IT: 'IT', LT: 'LT', LU: 'LU',
+  LV: 'LV', MT: 'MT', NL: 'NL', PL: 'PL', PT: 'PT', RO: 'RO', SE: 'SE', SI: 'SI', SK: 'SK',
+};
+
+// Format of EU VAT numbers after the prefix. Only the format is checked, not
+// whether the number is registered.
+const EU_VAT_FORMATS: Record<string, RegExp> = {
+  AT: /^U\d{8}$/,
+  BE: /^[01]\d{9}$/,
+  BG: /^\d{9,10}$/,
+  CY: /^\d{8}[A-Z]$/,
+  CZ: /^\d{8,10}$/,
+  DE: /^\d{9}$/,
+  DK: /^\d{8}$/,
+  EE: /^\d{9}$/,
+  EL: /^\d{9}$/,
+  ES: /^[A-Z0-9]\d{7}[A-Z0-9]$/,
+  FI: /^\d{8}$/,
+  FR: /^[A-HJ-NP-Z0-9]{2}\d{9}$/,
+  HR: /^\d{11}$/,
+  HU: /^\d{8}$/,
+  IE: /^(\d{7}[A-W][A-I]?|\d[A-Z+*]\d{5}[A-W])$/,
+  IT: /^\d{11}$/,
+  LT: /^(\d{9}|\d{12})$/,
+  LU: /^\d{8}$/,
+  LV: /^\d{11}$/,
+  MT: /^\d{8}$/,
+  NL: /^\d{9}B\d{2}$/,
+  PL: /^\d{10}$/,
+  PT: /^\d{9}$/,
+  RO: /^\d{2,10}$/,
+  SE: /^\d{12}$/,
+  SI: /^\d{8}$/,
+  SK: /^\d{10}$/,
+};
+
+// Tax numbers outside the EU are kept for invoices without further checks
+const OTHER_TAX_ID_FORMAT = /^[A-Z0-9]{4,20}$/;
+
+interface ITaxRatesDocument {
+  rates?: ITaxRate[];
+}
+
+export class TaxService {
+  private rates: ITaxRate[] | null = null;
+
+  /**
+   * Check and normalize the billing details given at checkout
+   */
+  validateBillingDetails(input: IBillingDetailsInput = {}): ServiceResult<IBillingDetails> {
+    const country = input.country?.trim().toUpperCase() || null;
+    const region = input.region?.trim().toUpperCase() || null;
+    // VAT numbers are often written with spaces, dots or dashes
+    const vatId = input.vatId?.toUpperCase().replace(/[\s.-]/g, '') || null;
+
+    if (!country) {
+      if (config.tax.requireBillingCountry) {
+        return errorResult('BILLING_COUNTRY_REQUIRED', 'A billing country is required');
+      }
+      if (region || vatId) {
+        return errorResult('BILLING_COUNTRY_REQUIRED', 'A billing country is required with a region or VAT ID');
+      }
+      return successResult({ country: null, region: null, vatId: null });
+    }
+
+    if (!/^[A-Z]{2}$/.test(country)) {
+      return errorResult('INVALID_BILLING_COUNTRY', 'Billing country must be a two-letter ISO 3166 code');
+    }
+
+    if (region && !/^[A-Z0-9]{1,3}$/.test(region)) {
+      return errorResult('INVALID_BILLING_REGION', 'Billing region must be an ISO 3166-2 subdivision code, e.g. "ON"');
+    }
+
+    if (vatId && !this.isValidVatId(vatId, country)) {
+      return errorResult('INVALID_VAT_ID', `${vatId} is not a valid VAT ID for ${country}`, {
+        expectedPrefix: EU_VAT_PREFIXES[country] ?? null,
+      });
+    }
+
+    return successResult({ country, region, vatId });
+  }
+
+  /**
+   * Check the format of a VAT ID for a country. EU VAT IDs start with their
+   * member state's prefix.
+   */
+  isValidVatId(vatId: string, country: string): boolean {
+    const prefix = EU_VAT_PREFIXES[country];
+    if (!prefix) {
+      return OTHER_TAX_ID_FORMAT.test(vatId);
+    }
+
+    return vatId.startsWith(prefix) && EU_VAT_FORMATS[prefix].test(vatId.slice(prefix.length));
+  }
+
+  /**
+   * Work out how a customer is taxed from their billing details
+   */
+  async getTreatment(billing: IBillingDetails): Promise<ITaxTreatment> {
+    const rate = billing.country ? await this.findRate(billing.country, billing.region) : null;
+    const ratePercent = rate?.ratePercent ?? config.tax.defaultRatePercent;
+    const reverseCharge = this.isReverseCharge(billing);
+
+    return {
+      ...billing,
+      name: rate?.name ?? 'Tax',
+      ratePercent: reverseCharge ? 0 : ratePercent,
+      includedRatePercent: ratePercent,
+      reverseCharge,
+    };
+  }
+
+  /**
+   * Work out how an order is taxed again, for its renewals, upgrades and invoices
+   */
+  async getOrderTreatment(order: {
+    billingCountry: string | null;
+    billingRegion: string | null;
+    vatId: string | null;
+  }): Promise<ITaxTreatment> {
+    return this.getTreatment({ country: order.billingCountry, region: order.billingRegion, vatId: order.vatId });
+  }
+
+  /**
+   * What a customer pays for a list price: all of it, or the price without
+   * the tax it includes under reverse charge
+   */
+  chargeAmount(priceCents: number, treatment: ITaxTreatment): number {
+    return treatment.reverseCharge
+      ? priceCents - this.includedTax(priceCents, treatment.includedRatePercent)
+      : priceCents;
+  }
+
+  /**
+   * Tax included in an amount charged at a rate
+   */
+  includedTax(amountCents: number, ratePercent: number): number {
+    return Math.round(amountCents * ratePercent / (100 + ratePercent));
+  }
+
+  /**
+   * Get the configured tax rates
+   */
+  async getRates(): Promise<ITaxRate[]> {
+    if (!this.rates) {
+      this.rates = await this.readRates();
+    }
+    return this.rates;
+  }
+
+  /**
+   * Get the rate of a region, or of its country when the region has none
+   */
+  private async findRate(country: string, region: string | null): Promise<ITaxRate | null> {
+    const rates = (await this.getRates()).filter(rate => rate.country === country);
+
+    return (region ? rates.find(rate => rate.region === region) : undefined)
+      ?? rates.find(rate => !rate.region)
+      ?? null;
+  }
+
+  /**
+   * Business customers in another EU member state account for the VAT
+   * themselves; sellers outside the EU reverse charge all EU businesses
+   */
+  private isReverseCharge(billing: IBillingDetails): boolean {
+    return !!billing.vatId
+      && !!billing.country
+      && billing.country in EU_VAT_PREFIXES
+      && billing.country !== config.tax.sellerCountry;
+  }
+
+  private async readRates(): Promise<ITaxRate[]> {
+    const filePath = path.resolve(config.tax.ratesFile);
+    let document: ITaxRatesDocument;
+
+    try {
+      document = JSON.parse(await fs.readFile(filePath, 'utf8')) as ITaxRatesDocument;
+    } catch (error) {
+      logger.error('Failed to read tax rates file', error, { filePath });
+      throw new ExternalServiceError('tax-rates', 'Failed to read tax rates file');
+    }
+
+    const rates = (document.rates ?? []).filter(rate => {
+      const valid = /^[A-Z]{2}$/.test(rate.country) && Number.isFinite(rate.ratePercent) && rate.ratePercent >= 0;
+      if (!valid) {
+        logger.warn('Ignoring invalid tax rate', { rate });
+      }
+      return valid;
+    });
+
+    logger.info('Tax rates loaded', { filePath, rates: rates.length });
+
+    return rates;
+  }
+}
+
+export const taxService = new TaxService();
+export default taxService;
@@ -1,7 +1,18 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { userService } from './user.service';
+import { creditService } from '../credits/credit.service';
 import { IApiResponse } from '../../common/interfaces';
 import { ValidationError } from '../../common/utils/errors';
+import { parsePagination } from '../../common/utils/helpers';
+import {
+  assertSelf,
+  getAuthUser,
+  requireAuth,
+  requirePermission,
+  requireScope,
+} from '../../middleware/auth.middleware';
+import { ApiKeyScopes, Permissions } from '../auth/permissions';
+import { UserRole } from '@prisma/client';
 
 // ============================================
 // User Controller
@@ -9,11 +20,14 @@ import { ValidationError } from '../../common/utils/errors';
 
 const router = Router();
 
+// API keys can only reach user management with the admin:* scope
+router.use(requireScope(ApiKeyScopes.ADMIN));
+
 /**
  * POST /api/users
- * Create a new user
+ * Create a new user (admin only)
  */
-router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+router.post('/', requirePermission(Permissions.USERS_MANAGE), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { email, name, walletAddress } = req.body;
 
@@ -21,7 +35,11 @@ router.post('/', async (req: Request, res: Response, next: NextFunction) => {
       throw new ValidationError('Email is required');
     }
 
-    const user = await userService.createUser({ email, name, walletAddress });
+    if (walletAddress !== undefined) {
+      throw new ValidationError('Wallets must be linked with a signed message via /api/auth/siwe/link');
+    }
+
+    const user = await userService.createUser({ email, name });
 
     const response: IApiResponse = {
       success: true,
@@ -42,9 +60,9 @@ router.post('/', async (req: Request, res: Response, next: NextFunction) => {
 
 /**
  * GET /api/users
- * Get all users
+ * Get all users (staff only)
  */
-router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/', requirePermission(Permissions.USERS_READ), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { page = '1', pageSize = '20' } = req.query;
 
@@ -63,6 +81,7 @@ router.get('/', async (req: Request, res: Response, next: NextFunction) => {
         email: user.email,
         name: user.name,
         walletAddress: user.walletAddress,
+        role: user.role,
         createdAt: user.createdAt,
       })),
       meta: {
@@ -83,9 +102,10 @@ router.get('/', async (req: Request, res: Response, next: NextFunction) => {
  * GET /api/users/:userId
  * Get user by ID
  */
-router.get('/:userId', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/:userId', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { userId } = req.params;
+    assertSelf(req, userId, Permissions.USERS_READ);
     const user = await userService.getUserById(userId);
 
     const response: IApiResponse = {
@@ -95,6 +115,7 @@ router.get('/:userId', async (req: Request, res: Response, next: NextFunction) =
         email: user.email,
         name: user.name,
         walletAddress: user.walletAddress,
+        role: user.role,
         createdAt: user.createdAt,
         updatedAt: user.updatedAt,
       },
@@ -110,12 +131,17 @@ router.get('/:userId', async (req: Request, res: Response, next: NextFunction) =
  * PUT /api/users/:userId
  * Update user
  */
-router.put('/:userId', async (req: Request, res: Response, next: NextFunction) => {
+router.put('/:userId', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { userId } = req.params;
+    assertSelf(req, userId);
     const { name, walletAddress } = req.body;
 
-    const user = await userService.updateUser(userId, { name, walletAddress });
+    if (walletAddress !== undefined) {
+      throw new ValidationError('Wallets must be linked with a signed message via /api/auth/siwe/link');
+    }
+
+    const user = await userService.updateUser(userId, { name });
 
     const response: IApiResponse = {
       success: true,
@@ -134,13 +160,46 @@ router.put('/:userId', async (req: Request, res: Response, next: NextFunction) =
   }
 });
 
+/**
+ * PUT /api/users/:userId/role
+ * Change a user's role (admin only)
+ */
+router.put('/:userId/role', requirePermission(Permissions.USERS_MANAGE), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const admin = getAuthUser(req);
+    const { userId } = req.params;
+    const { role } = req.body;
+
+    if (!Object.values(UserRole).includes(role)) {
+      throw new ValidationError(`role must be one of: ${Object.values(UserRole).join(', ')}`);
+    }
+
+    const user = await userService.updateUserRole(userId, role, admin.id);
+
+    const response: IApiResponse = {
+      success: true,
+      data: {
+        id: user.id,
+        email: user.email,
+        role: user.role,
+        updatedAt: user.updatedAt,
+      },
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * GET /api/users/:userId/orders
  * Get user with their orders
  */
-router.get('/:userId/orders', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/:userId/orders', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { userId } = req.params;
+    assertSelf(req, userId, Permissions.USERS_READ);
     const user = await userService.getUserWithOrders(userId);
 
     const response: IApiResponse = {
@@ -153,7 +212,7 @@ router.get('/:userId/orders', async (req: Request, res: Response, next: NextFunc
           id: order.id,
           orderNumber: order.orderNumber,
           provider: order.provider.name,
-          plan: order.plan.name,
+          plan: order.plan?.name ?? null,
           storageSizeGb: order.storageSizeGb,
           priceUsdCents: order.priceUsdCents,
           status: order.status,
@@ -169,26 +228,105 @@ router.get('/:userId/orders', async (req: Request, res: Response, next: NextFunc
 });
 
 /**
- * POST /api/users/login
- * Simple login - get or create user by email
+ * GET /api/users/:userId/balance
+ * Get the user's credit balance
  */
-router.post('/login', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/:userId/balance', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { email, name } = req.body;
+    const { userId } = req.params;
+    assertSelf(req, userId, Permissions.USERS_READ);
+    const balanceCents = await creditService.getBalance({ userId });
 
-    if (!email) {
-      throw new ValidationError('Email is required');
-    }
+    const response: IApiResponse = {
+      success: true,
+      data: {
+        userId,
+        balanceCents,
+        currency: 'usd',
+      },
+    };
 
-    const user = await userService.getOrCreateUser({ email, name });
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/users/:userId/balance/ledger
+ * Get the history of the user's credit balance, newest first
+ */
+router.get('/:userId/balance/ledger', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { userId } = req.params;
+    assertSelf(req, userId, Permissions.USERS_READ);
+    const pagination = parsePagination(req.query);
+
+    const { entries, total } = await creditService.listEntries(
+      { userId },
+      pagination
+    );
+
+    const response: IApiResponse = {
+      success: true,
+      data: entries.map(entry => creditService.formatEntryResponse(entry)),
+      meta: {
+        page: pagination.page,
+        pageSize: pagination.pageSize,
+        total,
+        totalPages: Math.ceil(total / pagination.pageSize),
+      },
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/users/:userId/wallets
+ * Get the verified wallets linked to a user
+ */
+router.get('/:userId/wallets', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { userId } = req.params;
+    assertSelf(req, userId);
+    const wallets = await userService.listWallets(userId);
+
+    const response: IApiResponse = {
+      success: true,
+      data: wallets.map(wallet => ({
+        address: wallet.address,
+        chainId: wallet.chainId,
+        isPrimary: wallet.isPrimary,
+        verifiedAt: wallet.verifiedAt,
+        lastUsedAt: wallet.lastUsedAt,
+      })),
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/users/:userId/wallets/:address/primary
+ * Make a linked wallet the primary one
+ */
+router.put('/:userId/wallets/:address/primary', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { userId, address } = req.params;
+    assertSelf(req, userId);
+    const wallet = await userService.setPrimaryWallet(userId, address);
 
     const response: IApiResponse = {
       success: true,
       data: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        walletAddress: user.walletAddress,
+        address: wallet.address,
+        chainId: wallet.chainId,
+        isPrimary: wallet.isPrimary,
       },
     };
 
@@ -198,5 +336,26 @@ router.post('/login', async (req: Request, res: Response, next: NextFunction) =>
   }
 });
 
+/**
+ * DELETE /api/users/:userId/wallets/:address
+ * Unlink a wallet
+ */
+router.delete('/:userId/wallets/:address', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { userId, address } = req.params;
+    assertSelf(req, userId);
+    await userService.removeWallet(userId, address);
+
+    const response: IApiResponse = {
+      success: true,
+      data: { removed: true },
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
 export const userController = router;
 export default userController;
\ No newline at end of file
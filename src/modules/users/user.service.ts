@@ -1,5 +1,6 @@
+import { UserRole } from '@prisma/client';
 import { prisma } from '../../common/database';
-import { isValidEmail,NotFoundError, ConflictError, ValidationError } from '../../common/utils';
+import { isValidEmail,NotFoundError, ConflictError, ValidationError, logger } from '../../common/utils';
 
 // ============================================
 // User Service
@@ -8,12 +9,11 @@ import { isValidEmail,NotFoundError, ConflictError, ValidationError } from '../.
 export interface CreateUserDto {
   email: string;
   name?: string;
-  walletAddress?: string;
 }
 
+// Wallet addresses are only set through signature verification (SIWE)
 export interface UpdateUserDto {
   name?: string;
-  walletAddress?: string;
 }
 
 export class UserService {
@@ -37,7 +37,6 @@ export class UserService {
       data: {
         email: data.email.toLowerCase(),
         name: data.name,
-        walletAddress: data.walletAddress,
       },
     });
   }
@@ -99,6 +98,27 @@ export class UserService {
     });
   }
 
+  /**
+   * Change a user's role
+   */
+  async updateUserRole(userId: string, role: UserRole, changedBy: string) {
+    const user = await this.getUserById(userId);
+
+    // Prevent an admin from locking themselves out
+    if (userId === changedBy && user.role === UserRole.ADMIN && role !== UserRole.ADMIN) {
+      throw new ValidationError('Admins cannot remove their own admin role');
+    }
+
+    const updated = await prisma.user.update({
+      where: { id: userId },
+      data: { role },
+    });
+
+    logger.info('User role changed', { userId, from: user.role, to: role, changedBy });
+
+    return updated;
+  }
+
   /**
    * Get all users
    */
@@ -138,6 +158,95 @@ export class UserService {
 
     return user;
   }
+
+  // ============================================
+  // Wallets
+  // ============================================
+
+  /**
+   * Get the verified wallets linked to a user
+   */
+  async listWallets(userId: string) {
+    return prisma.userWallet.findMany({
+      where: { userId },
+      orderBy: [{ isPrimary: 'desc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  /**
+   * Get a verified wallet of a user by address
+   */
+  async getUserWallet(userId: string, address: string) {
+    const wallet = await prisma.userWallet.findFirst({
+      where: {
+        userId,
+        address: { equals: address, mode: 'insensitive' },
+      },
+    });
+
+    if (!wallet) {
+      throw new NotFoundError('Wallet', address);
+    }
+
+    return wallet;
+  }
+
+  /**
+   * Make a linked wallet the primary one (mirrored on User.walletAddress)
+   */
+  async setPrimaryWallet(userId: string, address: string) {
+    const wallet = await this.getUserWallet(userId, address);
+
+    await prisma.$transaction([
+      prisma.userWallet.updateMany({
+        where: { userId, isPrimary: true },
+        data: { isPrimary: false },
+      }),
+      prisma.userWallet.update({
+        where: { id: wallet.id },
+        data: { isPrimary: true },
+      }),
+      prisma.user.update({
+        where: { id: userId },
+        data: { walletAddress: wallet.address },
+      }),
+    ]);
+
+    return { ...wallet, isPrimary: true };
+  }
+
+  /**
+   * Unlink a wallet. Promotes the oldest remaining wallet if the primary was removed.
+   */
+  async removeWallet(userId: string, address: string) {
+    const wallet = await this.getUserWallet(userId, address);
+    const user = await this.getUserById(userId);
+
+    const remaining = await prisma.userWallet.findMany({
+      where: { userId, id: { not: wallet.id } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    // Wallet-only accounts must keep at least one way to sign in
+    if (!user.email && remaining.length === 0) {
+      throw new ValidationError('Cannot remove the only sign-in method of this account');
+    }
+
+    const nextPrimary = wallet.isPrimary ? remaining[0] : undefined;
+
+    await prisma.$transaction([
+      prisma.userWallet.delete({ where: { id: wallet.id } }),
+      ...(nextPrimary
+        ? [prisma.userWallet.update({ where: { id: nextPrimary.id }, data: { isPrimary: true } })]
+        : []),
+      ...(wallet.isPrimary
+        ? [prisma.user.update({
+            where: { id: userId },
+            data: { walletAddress: nextPrimary?.address ?? null },
+          })]
+        : []),
+    ]);
+  }
 }
 
 export const userService = new UserService();
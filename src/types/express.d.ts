@@ -0,0 +1,20 @@
+import { IApiKeyPrincipal, IAuthUser } from '../common/interfaces';
+
+// ============================================
+// Express Request Augmentation
+// ============================================
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Authenticated user, set by the authenticate middleware */
+      user?: IAuthUser;
+      /** Session backing the current request's token */
+      sessionId?: string;
+      /** API key used instead of a session, if any */
+      apiKey?: IApiKeyPrincipal;
+    }
+  }
+}
+
+export {};
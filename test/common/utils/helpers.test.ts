@@ -0,0 +1,23 @@
+import { parsePagination } from '../../../src/common/utils/helpers';
+
+describe('parsePagination', () => {
+  it('defaults to the first page of 20', () => {
+    expect(parsePagination({})).toEqual({ page: 1, pageSize: 20 });
+  });
+
+  it('reads page and pageSize from the query string', () => {
+    expect(parsePagination({ page: '3', pageSize: '100' })).toEqual({ page: 3, pageSize: 100 });
+  });
+
+  it.each([
+    ['0', '20'],
+    ['-1', '20'],
+    ['abc', '20'],
+    ['1', '0'],
+    ['1', '101'],
+    ['1', '100000'],
+    ['1', 'abc'],
+  ])('rejects page %s with pageSize %s', (page, pageSize) => {
+    expect(() => parsePagination({ page, pageSize })).toThrow(expect.objectContaining({ code: 'VALIDATION_ERROR' }));
+  });
+});
@@ -0,0 +1,399 @@
+import { randomUUID } from 'crypto';
+import { Prisma } from '@prisma/client';
+
+// ============================================
+// In-memory Prisma
+// ============================================
+
+export type Row = Record<string, unknown> & { id: string };
+type Where = Record<string, unknown>;
+type OrderBy = Record<string, 'asc' | 'desc'> | Record<string, 'asc' | 'desc'>[];
+
+interface Relation {
+  table: string;
+  // Column holding the related id: on the related rows for lists, on this row for single records
+  foreignKey: string;
+  list: boolean;
+}
+
+interface TableOptions {
+  // Column defaults from the schema; functions are called for each new row
+  defaults?: Record<string, unknown>;
+  unique?: string[];
+  relations?: Record<string, Relation>;
+}
+
+interface FindArgs {
+  where?: Where;
+  include?: Record<string, unknown>;
+  orderBy?: OrderBy;
+  skip?: number;
+  take?: number;
+}
+
+/**
+ * The tables the services under test touch, with just enough of the schema
+ * for the queries they make
+ */
+const TABLES = {
+  user: {
+    defaults: { creditBalanceCents: 0 },
+  },
+  organization: {
+    defaults: { creditBalanceCents: 0 },
+    relations: {
+      members: { table: 'organizationMember', foreignKey: 'organizationId', list: true },
+    },
+  },
+  organizationMember: {},
+  order: {
+    defaults: { currency: 'usd', fxRate: '1' },
+    relations: {
+      organization: { table: 'organization', foreignKey: 'organizationId', list: false },
+      payments: { table: 'payment', foreignKey: 'orderId', list: true },
+      transactions: { table: 'blockchainTransaction', foreignKey: 'orderId', list: true },
+    },
+  },
+  orderStatusHistory: {},
+  payment: {
+    defaults: { currency: 'usd', method: 'STRIPE', refundedAmountCents: 0 },
+    relations: {
+      purchase: { table: 'purchase', foreignKey: 'purchaseId', list: false },
+    },
+  },
+  purchase: {},
+  blockchainTransaction: {},
+  refund: {
+    defaults: { currency: 'usd', status: 'PENDING', toCredit: false },
+    unique: ['stripeRefundId'],
+  },
+  creditLedgerEntry: {},
+  creditTopUp: {},
+  webhookEvent: {
+    defaults: { status: 'PROCESSING', attempts: 0, lastError: null },
+    unique: ['eventId'],
+  },
+  reconciliationRun: {
+    defaults: {
+      status: 'RUNNING',
+      checkedCount: 0,
+      repairedCount: 0,
+      unresolvedCount: 0,
+      findings: () => [],
+      error: null,
+      startedAt: () => new Date(),
+    },
+  },
+} satisfies Record<string, TableOptions>;
+
+type TableName = keyof typeof TABLES;
+
+/**
+ * A table that answers the subset of the Prisma client API the services use.
+ * Every call yields once before it runs, so concurrent calls interleave the
+ * way separate database round trips do, while each call itself is atomic,
+ * like a single conditional UPDATE.
+ */
+export class InMemoryTable {
+  readonly rows: Row[] = [];
+
+  constructor(
+    private readonly db: InMemoryPrisma,
+    private readonly options: TableOptions
+  ) {}
+
+  clear(): void {
+    this.rows.length = 0;
+  }
+
+  async create({ data, include }: { data: Record<string, unknown>; include?: Record<string, unknown> }) {
+    await tick();
+    const now = timestamp();
+    const defaults = Object.fromEntries(Object.entries(this.options.defaults ?? {})
+      .map(([field, value]) => [field, typeof value === 'function' ? value() : value]));
+    const row: Row = { id: randomUUID(), createdAt: now, updatedAt: now, ...defaults, ...defined(data) };
+
+    for (const field of this.options.unique ?? []) {
+      if (row[field] != null && this.rows.some(existing => existing[field] === row[field])) {
+        throw new Prisma.PrismaClientKnownRequestError(`Unique constraint failed on the fields: (\`${field}\`)`, {
+          code: 'P2002',
+          clientVersion: Prisma.prismaVersion.client,
+          meta: { target: [field] },
+        });
+      }
+    }
+
+    this.rows.push(row);
+    return this.output(row, include);
+  }
+
+  async findUnique(args: FindArgs) {
+    const [row] = await this.findMany(args);
+    return row ?? null;
+  }
+
+  async findUniqueOrThrow(args: FindArgs) {
+    const row = await this.findUnique(args);
+    if (!row) {
+      throw new Prisma.PrismaClientKnownRequestError('No record was found for a query', {
+        code: 'P2025',
+        clientVersion: Prisma.prismaVersion.client,
+      });
+    }
+    return row;
+  }
+
+  async findFirst(args: FindArgs = {}) {
+    return this.findUnique(args);
+  }
+
+  async findFirstOrThrow(args: FindArgs = {}) {
+    return this.findUniqueOrThrow(args);
+  }
+
+  async findMany(args: FindArgs = {}) {
+    await tick();
+    return this.select(args).map(row => this.output(row, args.include));
+  }
+
+  async count({ where }: { where?: Where } = {}) {
+    await tick();
+    return this.filter(where).length;
+  }
+
+  async update({ where, data, include }: { where: Where; data: Record<string, unknown>; include?: Record<string, unknown> }) {
+    await tick();
+    const [row] = this.filter(where);
+    if (!row) {
+      throw new Prisma.PrismaClientKnownRequestError('Record to update not found', {
+        code: 'P2025',
+        clientVersion: Prisma.prismaVersion.client,
+      });
+    }
+    apply(row, data);
+    return this.output(row, include);
+  }
+
+  async updateMany({ where, data }: { where?: Where; data: Record<string, unknown> }) {
+    await tick();
+    const rows = this.filter(where);
+    for (const row of rows) {
+      apply(row, data);
+    }
+    return { count: rows.length };
+  }
+
+  async deleteMany({ where }: { where?: Where } = {}) {
+    await tick();
+    const rows = this.filter(where);
+    for (const row of rows) {
+      this.rows.splice(this.rows.indexOf(row), 1);
+    }
+    return { count: rows.length };
+  }
+
+  /**
+   * Rows matching a where clause, in the given order and page
+   */
+  select({ where, orderBy, skip = 0, take }: FindArgs): Row[] {
+    const rows = this.filter(where);
+    for (const order of [orderBy ?? []].flat().reverse()) {
+      const [[field, direction]] = Object.entries(order);
+      rows.sort((a, b) => compare(a[field], b[field]) * (direction === 'desc' ? -1 : 1));
+    }
+    return rows.slice(skip, take === undefined ? undefined : skip + take);
+  }
+
+  matches(row: Row, where: Where = {}): boolean {
+    return Object.entries(where).every(([field, condition]) => {
+      if (condition === undefined) {
+        return true;
+      }
+      if (field === 'OR') {
+        return (condition as Where[]).some(clause => this.matches(row, clause));
+      }
+      if (field === 'AND') {
+        return [condition as Where | Where[]].flat().every(clause => this.matches(row, clause));
+      }
+      if (field === 'NOT') {
+        return ![condition as Where | Where[]].flat().some(clause => this.matches(row, clause));
+      }
+
+      const relation = this.options.relations?.[field];
+      if (relation) {
+        return this.matchesRelation(row, relation, condition as Where | null);
+      }
+
+      return matchesValue(row[field], condition);
+    });
+  }
+
+  private filter(where?: Where): Row[] {
+    return this.rows.filter(row => this.matches(row, where));
+  }
+
+  private matchesRelation(row: Row, relation: Relation, condition: Where | null): boolean {
+    const related = this.related(row, relation);
+
+    if (!relation.list) {
+      const [target] = related;
+      if (condition === null) {
+        return !target;
+      }
+      const { is, isNot, ...rest } = condition;
+      if (isNot !== undefined) {
+        return !(target ? this.db[relation.table as TableName].matches(target, isNot as Where) : isNot === null);
+      }
+      return !!target && this.db[relation.table as TableName].matches(target, (is ?? rest) as Where);
+    }
+
+    const table = this.db[relation.table as TableName];
+    const { some, every, none } = condition as { some?: Where; every?: Where; none?: Where };
+    return (some === undefined || related.some(target => table.matches(target, some)))
+      && (every === undefined || related.every(target => table.matches(target, every)))
+      && (none === undefined || !related.some(target => table.matches(target, none)));
+  }
+
+  private related(row: Row, relation: Relation): Row[] {
+    const table = this.db[relation.table as TableName];
+    return relation.list
+      ? table.rows.filter(target => target[relation.foreignKey] === row.id)
+      : table.rows.filter(target => target.id === row[relation.foreignKey]);
+  }
+
+  /**
+   * Copy a row out of the table, with the relations asked for
+   */
+  private output(row: Row, include?: Record<string, unknown>): Row {
+    const output: Row = { ...row };
+
+    for (const [field, args] of Object.entries(include ?? {})) {
+      const relation = this.options.relations?.[field];
+      if (!relation || !args) {
+        continue;
+      }
+
+      const table = this.db[relation.table as TableName];
+      const nested = typeof args === 'object' ? args as FindArgs : {};
+      const ids = new Set(this.related(row, relation).map(target => target.id));
+      const related = table.select({ ...nested, where: { ...nested.where, id: { in: [...ids] } } })
+        .map(target => table.output(target, nested.include));
+
+      output[field] = relation.list ? related : related[0] ?? null;
+    }
+
+    return output;
+  }
+}
+
+export type InMemoryPrisma = { [K in TableName]: InMemoryTable } & {
+  $transaction<T>(fn: (tx: InMemoryPrisma) => Promise<T>): Promise<T>;
+  clear(): void;
+};
+
+/**
+ * Create an empty database. Transactions run their callback against the same
+ * tables and are not rolled back when it throws.
+ */
+export function createInMemoryPrisma(): InMemoryPrisma {
+  const db = {
+    $transaction: <T>(fn: (tx: InMemoryPrisma) => Promise<T>) => fn(db),
+    clear: () => {
+      for (const name of Object.keys(TABLES) as TableName[]) {
+        db[name].clear();
+      }
+    },
+  } as InMemoryPrisma;
+
+  for (const [name, options] of Object.entries(TABLES)) {
+    db[name as TableName] = new InMemoryTable(db, options);
+  }
+
+  return db;
+}
+
+/**
+ * Wrap an empty database as the module src/common/database exports, for jest.mock
+ */
+export function createDatabaseModule() {
+  const prisma = createInMemoryPrisma();
+  return {
+    prisma,
+    withTransaction: <T>(fn: (tx: InMemoryPrisma) => Promise<T>) => prisma.$transaction(fn),
+  };
+}
+
+let lastTimestamp = 0;
+
+// Strictly increasing, so rows sort by creation even within a millisecond
+function timestamp(): Date {
+  lastTimestamp = Math.max(Date.now(), lastTimestamp + 1);
+  return new Date(lastTimestamp);
+}
+
+function tick(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+function defined(data: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+}
+
+function apply(row: Row, data: Record<string, unknown>): void {
+  for (const [field, value] of Object.entries(defined(data))) {
+    if (isObject(value) && 'increment' in value) {
+      row[field] = (row[field] as number) + (value.increment as number);
+    } else if (isObject(value) && 'decrement' in value) {
+      row[field] = (row[field] as number) - (value.decrement as number);
+    } else {
+      row[field] = value;
+    }
+  }
+  row.updatedAt = timestamp();
+}
+
+function matchesValue(value: unknown, condition: unknown): boolean {
+  if (!isObject(condition)) {
+    return equals(value, condition);
+  }
+
+  return Object.entries(condition).every(([operator, operand]) => {
+    switch (operator) {
+      case 'equals':
+        return equals(value, operand);
+      case 'not':
+        return !matchesValue(value, operand);
+      case 'in':
+        return (operand as unknown[]).some(item => equals(value, item));
+      case 'notIn':
+        return !(operand as unknown[]).some(item => equals(value, item));
+      case 'lt':
+        return value != null && compare(value, operand) < 0;
+      case 'lte':
+        return value != null && compare(value, operand) <= 0;
+      case 'gt':
+        return value != null && compare(value, operand) > 0;
+      case 'gte':
+        return value != null && compare(value, operand) >= 0;
+      default:
+        throw new Error(`Unsupported filter: ${operator}`);
+    }
+  });
+}
+
+function equals(value: unknown, other: unknown): boolean {
+  if (value instanceof Date && other instanceof Date) {
+    return value.getTime() === other.getTime();
+  }
+  return (value ?? null) === (other ?? null);
+}
+
+function compare(value: unknown, other: unknown): number {
+  const a = value instanceof Date ? value.getTime() : value as number | string;
+  const b = other instanceof Date ? other.getTime() : other as number | string;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !(value instanceof Date) && !Array.isArray(value);
+}
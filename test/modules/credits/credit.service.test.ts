@@ -0,0 +1,136 @@
+import { CreditEntryType, OrderStatus, PaymentMethod, PaymentStatus, RefundSource } from '@prisma/client';
+import { prisma, withTransaction } from '../../../src/common/database';
+import { IOrderResponse } from '../../../src/common/interfaces';
+import { creditService } from '../../../src/modules/credits/credit.service';
+import { orderExpiryService } from '../../../src/modules/orders/order-expiry.service';
+import { orderService } from '../../../src/modules/orders/order.service';
+import { refundService } from '../../../src/modules/payments/refund.service';
+import { InMemoryPrisma } from '../../helpers/in-memory-prisma';
+
+jest.mock('../../../src/common/database', () => jest.requireActual('../../helpers/in-memory-prisma').createDatabaseModule());
+
+const db = prisma as unknown as InMemoryPrisma;
+
+describe('CreditService', () => {
+  let userId: string;
+
+  beforeEach(async () => {
+    db.clear();
+    ({ id: userId } = await db.user.create({ data: { creditBalanceCents: 100 } }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const spend = (amountCents: number) => withTransaction(tx => creditService.post(tx, { userId }, {
+    type: CreditEntryType.ORDER_PAYMENT,
+    amountCents: -amountCents,
+  }));
+
+  describe('post', () => {
+    it('records the balance after each entry', async () => {
+      await spend(30);
+      const entry = await withTransaction(tx => creditService.post(tx, { userId }, {
+        type: CreditEntryType.TOP_UP,
+        amountCents: 50,
+      }));
+
+      expect(entry).toMatchObject({ userId, organizationId: null, amountCents: 50, balanceAfterCents: 120 });
+      expect(await creditService.getBalance({ userId })).toBe(120);
+      expect(db.creditLedgerEntry.rows.map(row => row.balanceAfterCents)).toEqual([70, 120]);
+    });
+
+    it('rejects spending more than the balance', async () => {
+      await expect(spend(101)).rejects.toMatchObject({ code: 'PAYMENT_ERROR', message: 'Insufficient credit' });
+
+      expect(await creditService.getBalance({ userId })).toBe(100);
+      expect(db.creditLedgerEntry.rows).toHaveLength(0);
+    });
+
+    it('lets only one of two concurrent spends through when the balance covers one', async () => {
+      const results = await Promise.allSettled([spend(60), spend(60)]);
+
+      expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+      expect(results.find(result => result.status === 'rejected'))
+        .toMatchObject({ reason: { code: 'PAYMENT_ERROR' } });
+      expect(await creditService.getBalance({ userId })).toBe(40);
+      expect(db.creditLedgerEntry.rows).toHaveLength(1);
+    });
+
+    it('spends from the organization balance, not the member\'s', async () => {
+      const { id: organizationId } = await db.organization.create({ data: { creditBalanceCents: 500 } });
+
+      await withTransaction(tx => creditService.post(tx, { userId, organizationId }, {
+        type: CreditEntryType.ORDER_PAYMENT,
+        amountCents: -200,
+      }));
+
+      expect(await creditService.getBalance({ userId, organizationId })).toBe(300);
+      expect(await creditService.getBalance({ userId })).toBe(100);
+    });
+  });
+
+  describe('order payments', () => {
+    const payWithCredit = async (amountCents: number) => {
+      const order = await db.order.create({ data: { userId, status: OrderStatus.PENDING_PAYMENT } });
+      const payment = await withTransaction(tx => creditService.createOrderPayment(tx, {
+        account: { userId },
+        orderId: order.id,
+        amountCents,
+        createdById: userId,
+      }));
+      return { order, payment };
+    };
+
+    it('holds the credit until the order is paid', async () => {
+      const { order, payment } = await payWithCredit(80);
+      expect(await creditService.getBalance({ userId })).toBe(20);
+
+      const settled = await withTransaction(tx => creditService.settleOrderPayments(tx, order.id));
+
+      expect(settled).toEqual([payment.id]);
+      expect(await prisma.payment.findUniqueOrThrow({ where: { id: payment.id } }))
+        .toMatchObject({ method: PaymentMethod.CREDIT, status: PaymentStatus.SUCCEEDED });
+      expect(await creditService.getBalance({ userId })).toBe(20);
+    });
+
+    it('returns the credit held for an order that was not paid', async () => {
+      const { order, payment } = await payWithCredit(80);
+
+      await withTransaction(tx => creditService.releaseOrderPayments(tx, order.id, 'Order cancelled'));
+
+      expect(await prisma.payment.findUniqueOrThrow({ where: { id: payment.id } }))
+        .toMatchObject({ status: PaymentStatus.CANCELLED });
+      expect(await creditService.getBalance({ userId })).toBe(100);
+      expect(db.creditLedgerEntry.rows.at(-1)).toMatchObject({
+        type: CreditEntryType.REFUND,
+        amountCents: 80,
+        balanceAfterCents: 100,
+        paymentId: payment.id,
+      });
+    });
+
+    it('returns a refunded credit payment to the balance', async () => {
+      jest.spyOn(orderExpiryService, 'releaseOrderStorage').mockResolvedValue(true);
+      jest.spyOn(orderService, 'getOrderById').mockImplementation(async (id) => ({ id }) as IOrderResponse);
+      const { order, payment } = await payWithCredit(80);
+      await db.payment.update({ where: { id: payment.id }, data: { status: PaymentStatus.SUCCEEDED } });
+      await db.order.update({ where: { id: order.id }, data: { status: OrderStatus.COMPLETED } });
+
+      const { refunds } = await refundService.refundOrder(order.id, { userId, isStaff: false }, {});
+
+      expect(refunds).toMatchObject([{ amountCents: 80, toCredit: true, source: RefundSource.CUSTOMER }]);
+      expect(await creditService.getBalance({ userId })).toBe(100);
+      expect(await prisma.payment.findUniqueOrThrow({ where: { id: payment.id } }))
+        .toMatchObject({ status: PaymentStatus.REFUNDED, refundedAmountCents: 80 });
+      expect(db.creditLedgerEntry.rows.at(-1)).toMatchObject({
+        type: CreditEntryType.REFUND,
+        amountCents: 80,
+        balanceAfterCents: 100,
+        paymentId: payment.id,
+        refundId: refunds[0].id,
+      });
+    });
+  });
+});
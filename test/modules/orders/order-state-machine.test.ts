@@ -0,0 +1,107 @@
+import { OrderActorType, OrderStatus } from '@prisma/client';
+import { prisma } from '../../../src/common/database';
+import { orderStateMachine } from '../../../src/modules/orders/order-state-machine';
+import { InMemoryPrisma } from '../../helpers/in-memory-prisma';
+
+jest.mock('../../../src/common/database', () => jest.requireActual('../../helpers/in-memory-prisma').createDatabaseModule());
+
+const db = prisma as unknown as InMemoryPrisma;
+const system = { actor: { type: OrderActorType.SYSTEM } };
+
+describe('OrderStateMachine', () => {
+  beforeEach(() => {
+    db.clear();
+  });
+
+  const createOrder = async (status: OrderStatus) => {
+    const { id } = await db.order.create({ data: { status } });
+    await orderStateMachine.recordCreated({ id, status }, system.actor);
+    return { id, status };
+  };
+
+  describe('canTransition', () => {
+    it('follows the payment and fulfillment path', () => {
+      const path = [
+        OrderStatus.PENDING_PAYMENT,
+        OrderStatus.PAYMENT_COMPLETED,
+        OrderStatus.BLOCKCHAIN_PENDING,
+        OrderStatus.BLOCKCHAIN_PROCESSING,
+        OrderStatus.BLOCKCHAIN_CONFIRMED,
+        OrderStatus.COMPLETED,
+      ];
+
+      for (let i = 1; i < path.length; i++) {
+        expect(orderStateMachine.canTransition(path[i - 1], path[i])).toBe(true);
+      }
+    });
+
+    it('rejects skipping payment and going backwards', () => {
+      expect(orderStateMachine.canTransition(OrderStatus.PENDING_PAYMENT, OrderStatus.COMPLETED)).toBe(false);
+      expect(orderStateMachine.canTransition(OrderStatus.PENDING_PAYMENT, OrderStatus.BLOCKCHAIN_PENDING)).toBe(false);
+      expect(orderStateMachine.canTransition(OrderStatus.COMPLETED, OrderStatus.PENDING_PAYMENT)).toBe(false);
+      expect(orderStateMachine.canTransition(OrderStatus.PAYMENT_COMPLETED, OrderStatus.CANCELLED)).toBe(false);
+    });
+
+    it('never leaves cancelled or refunded orders', () => {
+      for (const to of Object.values(OrderStatus)) {
+        expect(orderStateMachine.canTransition(OrderStatus.CANCELLED, to)).toBe(false);
+        expect(orderStateMachine.canTransition(OrderStatus.REFUNDED, to)).toBe(false);
+      }
+    });
+  });
+
+  describe('transition', () => {
+    it('updates the order and records the change with its actor', async () => {
+      const order = await createOrder(OrderStatus.PENDING_PAYMENT);
+
+      const updated = await orderStateMachine.transition(order.id, OrderStatus.PAYMENT_COMPLETED, {
+        actor: { type: OrderActorType.PAYMENT_PROVIDER, id: 'cs_test' },
+        reason: 'Checkout completed',
+        data: { statusMessage: 'Paid' },
+      });
+
+      expect(updated).toMatchObject({ status: OrderStatus.PAYMENT_COMPLETED, statusMessage: 'Paid' });
+      expect(await orderStateMachine.getHistory(order.id)).toMatchObject([
+        { fromStatus: null, toStatus: OrderStatus.PENDING_PAYMENT, actorType: OrderActorType.SYSTEM },
+        {
+          fromStatus: OrderStatus.PENDING_PAYMENT,
+          toStatus: OrderStatus.PAYMENT_COMPLETED,
+          actorType: OrderActorType.PAYMENT_PROVIDER,
+          actorId: 'cs_test',
+          reason: 'Checkout completed',
+        },
+      ]);
+    });
+
+    it('rejects transitions the state machine does not allow', async () => {
+      const order = await createOrder(OrderStatus.PENDING_PAYMENT);
+
+      await expect(orderStateMachine.transition(order.id, OrderStatus.COMPLETED, system))
+        .rejects.toMatchObject({ code: 'INVALID_STATE_TRANSITION' });
+
+      expect(await prisma.order.findUnique({ where: { id: order.id } }))
+        .toMatchObject({ status: OrderStatus.PENDING_PAYMENT });
+      expect(await orderStateMachine.getHistory(order.id)).toHaveLength(1);
+    });
+
+    it('rejects unknown orders', async () => {
+      await expect(orderStateMachine.transition('missing', OrderStatus.CANCELLED, system))
+        .rejects.toMatchObject({ code: 'NOT_FOUND' });
+    });
+
+    it('lets only one of two concurrent transitions from the same status through', async () => {
+      const order = await createOrder(OrderStatus.PENDING_PAYMENT);
+
+      const results = await Promise.allSettled([
+        orderStateMachine.transition(order.id, OrderStatus.PAYMENT_COMPLETED, system),
+        orderStateMachine.transition(order.id, OrderStatus.CANCELLED, system),
+      ]);
+
+      expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+      expect(results[1]).toMatchObject({ reason: { code: 'CONFLICT' } });
+      expect(await prisma.order.findUnique({ where: { id: order.id } }))
+        .toMatchObject({ status: OrderStatus.PAYMENT_COMPLETED });
+      expect(await orderStateMachine.getHistory(order.id)).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import Stripe from 'stripe';
+import { OrderStatus, PaymentStatus, ReconciliationRunStatus } from '@prisma/client';
+import { prisma } from '../../../src/common/database';
+import { config } from '../../../src/config';
+import { blockchainService } from '../../../src/modules/blockchain/blockchain.service';
+import { paymentGateway } from '../../../src/modules/payments/gateways';
+import { paymentService } from '../../../src/modules/payments/payment.service';
+import { reconciliationService } from '../../../src/modules/payments/reconciliation.service';
+import { InMemoryPrisma } from '../../helpers/in-memory-prisma';
+
+jest.mock('../../../src/common/database', () => jest.requireActual('../../helpers/in-memory-prisma').createDatabaseModule());
+
+const db = prisma as unknown as InMemoryPrisma;
+const MINUTE = 60 * 1000;
+
+const session = (id: string, status: Stripe.Checkout.Session.Status, paymentStatus = 'paid') => ({
+  object: 'checkout.session',
+  id,
+  status,
+  payment_status: paymentStatus,
+}) as Stripe.Checkout.Session;
+
+describe('ReconciliationService', () => {
+  let retrieveCheckoutSession: jest.SpyInstance;
+  let applyCheckoutSession: jest.SpyInstance;
+
+  beforeEach(() => {
+    db.clear();
+    retrieveCheckoutSession = jest.spyOn(paymentGateway, 'retrieveCheckoutSession');
+    // Complete the payments of the session as the webhook handler would
+    applyCheckoutSession = jest.spyOn(paymentService, 'applyCheckoutSession').mockImplementation(async ({ id }) => {
+      const purchases = await db.purchase.findMany({ where: { stripeSessionId: id } });
+      await db.payment.updateMany({
+        where: { OR: [{ stripeSessionId: id }, { purchaseId: { in: purchases.map(purchase => purchase.id) } }] },
+        data: { status: PaymentStatus.SUCCEEDED },
+      });
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  // A payment last touched before the reconciliation cutoff
+  const createStalePayment = (data: Record<string, unknown>) => db.payment.create({
+    data: {
+      orderId: 'order-1',
+      amountCents: 1000,
+      status: PaymentStatus.PENDING,
+      createdAt: new Date(Date.now() - (config.reconciliation.staleMinutes + 1) * MINUTE),
+      ...data,
+    },
+  });
+
+  describe('runReconciliation', () => {
+    it('completes payments whose webhook was lost', async () => {
+      const payment = await createStalePayment({ stripeSessionId: 'cs_1' });
+      retrieveCheckoutSession.mockResolvedValue(session('cs_1', 'complete'));
+
+      const run = await reconciliationService.runReconciliation('staff-1');
+
+      expect(run).toMatchObject({
+        status: ReconciliationRunStatus.COMPLETED,
+        triggeredById: 'staff-1',
+        checkedCount: 1,
+        repairedCount: 1,
+        unresolvedCount: 0,
+        findings: [{ target: 'PAYMENT', id: payment.id, gatewayStatus: 'complete', action: 'MARKED_PAID', resolved: true }],
+      });
+      expect(await db.payment.findUnique({ where: { id: payment.id } }))
+        .toMatchObject({ status: PaymentStatus.SUCCEEDED });
+    });
+
+    it('leaves payments the gateway has not settled and recent ones alone', async () => {
+      await createStalePayment({ stripeSessionId: 'cs_1' });
+      await createStalePayment({ stripeSessionId: 'cs_2', createdAt: new Date() });
+      retrieveCheckoutSession.mockResolvedValue(session('cs_1', 'open', 'unpaid'));
+
+      const run = await reconciliationService.runReconciliation();
+
+      expect(run).toMatchObject({ checkedCount: 1, repairedCount: 0, unresolvedCount: 0, findings: [] });
+      expect(retrieveCheckoutSession).toHaveBeenCalledTimes(1);
+      expect(applyCheckoutSession).not.toHaveBeenCalled();
+    });
+
+    it('checks the shared session of a cart purchase once', async () => {
+      const purchase = await db.purchase.create({ data: { stripeSessionId: 'cs_cart' } });
+      await createStalePayment({ purchaseId: purchase.id, orderId: 'order-1' });
+      await createStalePayment({ purchaseId: purchase.id, orderId: 'order-2' });
+      retrieveCheckoutSession.mockResolvedValue(session('cs_cart', 'complete'));
+
+      const run = await reconciliationService.runReconciliation();
+
+      expect(retrieveCheckoutSession).toHaveBeenCalledTimes(1);
+      expect(run).toMatchObject({ checkedCount: 2, repairedCount: 1 });
+      expect(db.payment.rows.map(payment => payment.status)).toEqual([PaymentStatus.SUCCEEDED, PaymentStatus.SUCCEEDED]);
+    });
+
+    it('reports payments it could not check for staff to look at', async () => {
+      const payment = await createStalePayment({ stripeSessionId: 'cs_1' });
+      retrieveCheckoutSession.mockRejectedValue(new Error('Gateway unavailable'));
+
+      const run = await reconciliationService.runReconciliation();
+
+      expect(run).toMatchObject({
+        status: ReconciliationRunStatus.COMPLETED,
+        repairedCount: 0,
+        unresolvedCount: 1,
+        findings: [{ id: payment.id, action: 'NONE', resolved: false, message: 'Gateway unavailable' }],
+      });
+    });
+
+    it('starts fulfillment of paid orders that were never sent to their provider', async () => {
+      const processOrder = jest.spyOn(blockchainService, 'processOrder').mockResolvedValue({ success: true, data: { txId: 'tx-1' } });
+      const stale = new Date(Date.now() - (config.reconciliation.staleMinutes + 1) * MINUTE);
+      const unsent = await db.order.create({ data: { status: OrderStatus.PAYMENT_COMPLETED, updatedAt: stale } });
+      const sent = await db.order.create({ data: { status: OrderStatus.PAYMENT_COMPLETED, updatedAt: stale } });
+      await db.blockchainTransaction.create({ data: { orderId: sent.id } });
+
+      const run = await reconciliationService.runReconciliation();
+
+      expect(processOrder).toHaveBeenCalledTimes(1);
+      expect(processOrder).toHaveBeenCalledWith(unsent.id);
+      expect(run).toMatchObject({
+        repairedCount: 1,
+        findings: [{ target: 'ORDER', id: unsent.id, action: 'FULFILLMENT_STARTED', resolved: true }],
+      });
+    });
+
+    it('does not start while another run is in progress', async () => {
+      await db.reconciliationRun.create({ data: {} });
+
+      await expect(reconciliationService.runReconciliation()).rejects.toMatchObject({ code: 'CONFLICT' });
+    });
+
+    it('takes over from a run that was abandoned', async () => {
+      await db.reconciliationRun.create({ data: { startedAt: new Date(Date.now() - 31 * MINUTE) } });
+
+      await expect(reconciliationService.runReconciliation())
+        .resolves.toMatchObject({ status: ReconciliationRunStatus.COMPLETED });
+    });
+  });
+});
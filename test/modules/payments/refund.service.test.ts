@@ -0,0 +1,198 @@
+import Stripe from 'stripe';
+import { OrderStatus, PaymentStatus, RefundSource, RefundStatus } from '@prisma/client';
+import { prisma } from '../../../src/common/database';
+import { IOrderResponse } from '../../../src/common/interfaces';
+import { config } from '../../../src/config';
+import { orderExpiryService } from '../../../src/modules/orders/order-expiry.service';
+import { orderService } from '../../../src/modules/orders/order.service';
+import { paymentGateway } from '../../../src/modules/payments/gateways';
+import { refundService } from '../../../src/modules/payments/refund.service';
+import { InMemoryPrisma } from '../../helpers/in-memory-prisma';
+
+jest.mock('../../../src/common/database', () => jest.requireActual('../../helpers/in-memory-prisma').createDatabaseModule());
+
+const db = prisma as unknown as InMemoryPrisma;
+const DAY = 24 * 60 * 60 * 1000;
+const customer = { userId: 'user-1', isStaff: false };
+const staff = { userId: 'staff-1', isStaff: true };
+
+describe('RefundService', () => {
+  let createRefund: jest.SpyInstance;
+  let releaseStorage: jest.SpyInstance;
+
+  beforeEach(() => {
+    db.clear();
+    // The policy depends on how much of the term has passed
+    jest.spyOn(Date, 'now').mockReturnValue(Date.parse('2026-06-01T00:00:00Z'));
+
+    let refunds = 0;
+    createRefund = jest.spyOn(paymentGateway, 'createRefund').mockImplementation(async (params) => ({
+      id: `re_${++refunds}`,
+      amount: params.amount,
+      status: 'succeeded',
+    }) as Stripe.Refund);
+    releaseStorage = jest.spyOn(orderExpiryService, 'releaseOrderStorage').mockResolvedValue(true);
+    jest.spyOn(orderService, 'getOrderById').mockImplementation(async (id) => ({ id }) as IOrderResponse);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  /**
+   * A completed order that has used `usedDays` of a 100-day term, paid for
+   * with an initial payment and a newer renewal
+   */
+  const createOrder = async (usedDays: number) => {
+    const now = Date.now();
+    const order = await db.order.create({
+      data: {
+        userId: customer.userId,
+        status: OrderStatus.COMPLETED,
+        allocatedAt: new Date(now - usedDays * DAY),
+        expiresAt: new Date(now + (100 - usedDays) * DAY),
+      },
+    });
+    const initial = await db.payment.create({
+      data: { orderId: order.id, amountCents: 6000, status: PaymentStatus.SUCCEEDED, stripePaymentIntentId: 'pi_initial' },
+    });
+    const renewal = await db.payment.create({
+      data: { orderId: order.id, amountCents: 4000, status: PaymentStatus.SUCCEEDED, stripePaymentIntentId: 'pi_renewal' },
+    });
+    return { order, initial, renewal };
+  };
+
+  describe('quoteRefund', () => {
+    it('refunds everything within the full refund window', async () => {
+      const { order } = await createOrder(config.refunds.fullRefundDays - 1);
+
+      expect(await refundService.quoteRefund(order.id)).toMatchObject({
+        refundableCents: 10000,
+        amountCents: 10000,
+        policy: 'FULL',
+      });
+    });
+
+    it('refunds the unused share of the term after the window', async () => {
+      const { order } = await createOrder(30);
+
+      expect(await refundService.quoteRefund(order.id)).toMatchObject({
+        refundableCents: 10000,
+        amountCents: 7000,
+        usedPercent: 30,
+        policy: 'PRORATED',
+      });
+    });
+
+    it('refunds nothing once most of the term is used', async () => {
+      const { order } = await createOrder(config.refunds.maxUsedPercent);
+
+      expect(await refundService.quoteRefund(order.id)).toMatchObject({ amountCents: 0, policy: 'NONE' });
+    });
+
+    it('leaves out what has been refunded already', async () => {
+      const { order, renewal } = await createOrder(0);
+      await db.payment.update({
+        where: { id: renewal.id },
+        data: { refundedAmountCents: 4000, status: PaymentStatus.REFUNDED },
+      });
+
+      expect(await refundService.quoteRefund(order.id)).toMatchObject({ refundableCents: 6000, amountCents: 6000 });
+    });
+  });
+
+  describe('refundOrder', () => {
+    it('refunds the newest payment first and ends the order', async () => {
+      const { order, initial, renewal } = await createOrder(30);
+
+      const { refunds } = await refundService.refundOrder(order.id, customer, { reason: 'No longer needed' });
+
+      expect(refunds).toMatchObject([
+        { paymentId: renewal.id, amountCents: 4000, status: RefundStatus.SUCCEEDED, source: RefundSource.CUSTOMER },
+        { paymentId: initial.id, amountCents: 3000, status: RefundStatus.SUCCEEDED, source: RefundSource.CUSTOMER },
+      ]);
+      expect(createRefund.mock.calls.map(([params]) => [params.payment_intent, params.amount])).toEqual([
+        ['pi_renewal', 4000],
+        ['pi_initial', 3000],
+      ]);
+      expect(await db.payment.findMany({ orderBy: { createdAt: 'asc' } })).toMatchObject([
+        { refundedAmountCents: 3000, status: PaymentStatus.PARTIALLY_REFUNDED },
+        { refundedAmountCents: 4000, status: PaymentStatus.REFUNDED },
+      ]);
+      expect(await db.order.findUnique({ where: { id: order.id } })).toMatchObject({ status: OrderStatus.REFUNDED });
+      expect(releaseStorage).toHaveBeenCalledWith(order.id);
+    });
+
+    it('rejects refunds the policy no longer allows', async () => {
+      const { order } = await createOrder(config.refunds.maxUsedPercent);
+
+      await expect(refundService.refundOrder(order.id, customer, {}))
+        .rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+
+      expect(createRefund).not.toHaveBeenCalled();
+      expect(await db.order.findUnique({ where: { id: order.id } })).toMatchObject({ status: OrderStatus.COMPLETED });
+    });
+
+    it('only lets staff choose the amount, up to what is refundable', async () => {
+      const { order } = await createOrder(0);
+
+      await expect(refundService.refundOrder(order.id, customer, { amountCents: 100 }))
+        .rejects.toMatchObject({ code: 'FORBIDDEN' });
+      await expect(refundService.refundOrder(order.id, staff, { amountCents: 10001 }))
+        .rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+
+      expect(createRefund).not.toHaveBeenCalled();
+    });
+
+    it('does not refund orders of other customers', async () => {
+      const { order } = await createOrder(0);
+
+      await expect(refundService.refundOrder(order.id, { userId: 'user-2', isStaff: false }, {}))
+        .rejects.toMatchObject({ code: 'NOT_FOUND' });
+
+      expect(createRefund).not.toHaveBeenCalled();
+    });
+
+    it('lets staff refund part of an order without ending it', async () => {
+      const { order, renewal } = await createOrder(0);
+
+      const { refunds } = await refundService.refundOrder(order.id, staff, { amountCents: 1500, reason: 'Goodwill' });
+
+      expect(refunds).toMatchObject([{ paymentId: renewal.id, amountCents: 1500, source: RefundSource.STAFF }]);
+      expect(await db.order.findUnique({ where: { id: order.id } })).toMatchObject({ status: OrderStatus.COMPLETED });
+      expect(await db.orderStatusHistory.findMany()).toMatchObject([
+        { fromStatus: OrderStatus.COMPLETED, toStatus: OrderStatus.COMPLETED, actorId: staff.userId, reason: 'Goodwill' },
+      ]);
+      expect(releaseStorage).not.toHaveBeenCalled();
+    });
+
+    it('ends the order before any money moves', async () => {
+      const { order } = await createOrder(0);
+      const statuses: unknown[] = [];
+      createRefund.mockImplementation(async (params) => {
+        statuses.push((await db.order.findUnique({ where: { id: order.id } }))?.status);
+        return { id: `re_${statuses.length}`, amount: params.amount, status: 'succeeded' } as Stripe.Refund;
+      });
+
+      await refundService.refundOrder(order.id, customer, {});
+
+      expect(statuses).toEqual([OrderStatus.REFUNDED, OrderStatus.REFUNDED]);
+    });
+
+    it('records a failed refund on the ended order', async () => {
+      const { order } = await createOrder(0);
+      createRefund.mockRejectedValueOnce(new Error('card_declined'));
+
+      await expect(refundService.refundOrder(order.id, customer, {}))
+        .rejects.toMatchObject({ code: 'PAYMENT_ERROR' });
+
+      expect(await db.refund.findMany()).toMatchObject([{ amountCents: 4000, status: RefundStatus.FAILED }]);
+      expect(await db.payment.findMany()).toMatchObject([
+        { refundedAmountCents: 0, status: PaymentStatus.SUCCEEDED },
+        { refundedAmountCents: 0, status: PaymentStatus.SUCCEEDED },
+      ]);
+      expect(await db.order.findUnique({ where: { id: order.id } })).toMatchObject({ status: OrderStatus.REFUNDED });
+      expect(releaseStorage).toHaveBeenCalledWith(order.id);
+    });
+  });
+});
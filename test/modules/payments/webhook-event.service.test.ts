@@ -0,0 +1,152 @@
+import Stripe from 'stripe';
+import { WebhookEventStatus } from '@prisma/client';
+import { prisma } from '../../../src/common/database';
+import { paymentGateway } from '../../../src/modules/payments/gateways';
+import { paymentService } from '../../../src/modules/payments/payment.service';
+import { refundService } from '../../../src/modules/payments/refund.service';
+import { webhookEventService } from '../../../src/modules/payments/webhook-event.service';
+import { InMemoryPrisma } from '../../helpers/in-memory-prisma';
+
+jest.mock('../../../src/common/database', () => jest.requireActual('../../helpers/in-memory-prisma').createDatabaseModule());
+
+const db = prisma as unknown as InMemoryPrisma;
+const MINUTE = 60 * 1000;
+
+const stripeEvent = (id: string, type: string) => ({
+  id,
+  type,
+  data: { object: { id: `ch_${id}` } },
+}) as unknown as Stripe.Event;
+
+describe('WebhookEventService', () => {
+  beforeEach(() => {
+    db.clear();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('claim', () => {
+    it('stores a new event for processing', async () => {
+      const claimed = await webhookEventService.claim(stripeEvent('evt_1', 'charge.refunded'));
+
+      expect(claimed).toMatchObject({
+        eventId: 'evt_1',
+        type: 'charge.refunded',
+        status: WebhookEventStatus.PROCESSING,
+        attempts: 1,
+      });
+    });
+
+    it('skips events that were processed or are being processed', async () => {
+      const processed = await webhookEventService.claim(stripeEvent('evt_1', 'charge.refunded'));
+      await webhookEventService.markProcessed(processed!.id, true);
+      await webhookEventService.claim(stripeEvent('evt_2', 'charge.refunded'));
+
+      expect(await webhookEventService.claim(stripeEvent('evt_1', 'charge.refunded'))).toBeNull();
+      expect(await webhookEventService.claim(stripeEvent('evt_2', 'charge.refunded'))).toBeNull();
+      expect(db.webhookEvent.rows).toHaveLength(2);
+    });
+
+    it('lets only one of two concurrent deliveries process an event', async () => {
+      const results = await Promise.all([
+        webhookEventService.claim(stripeEvent('evt_1', 'charge.refunded')),
+        webhookEventService.claim(stripeEvent('evt_1', 'charge.refunded')),
+      ]);
+
+      expect(results.filter(Boolean)).toHaveLength(1);
+      expect(db.webhookEvent.rows).toMatchObject([{ eventId: 'evt_1', attempts: 1 }]);
+    });
+
+    it('retries events that failed', async () => {
+      const failed = await webhookEventService.claim(stripeEvent('evt_1', 'charge.refunded'));
+      await webhookEventService.markFailed(failed!.id, new Error('Database unavailable'));
+
+      expect(await webhookEventService.claim(stripeEvent('evt_1', 'charge.refunded'))).toMatchObject({
+        id: failed!.id,
+        status: WebhookEventStatus.PROCESSING,
+        attempts: 2,
+        lastError: 'Database unavailable',
+      });
+    });
+
+    it('takes over events whose processing was abandoned', async () => {
+      const abandoned = await webhookEventService.claim(stripeEvent('evt_1', 'charge.refunded'));
+      db.webhookEvent.rows[0].updatedAt = new Date(Date.now() - 10 * MINUTE);
+
+      expect(await webhookEventService.claim(stripeEvent('evt_1', 'charge.refunded')))
+        .toMatchObject({ id: abandoned!.id, attempts: 2 });
+    });
+  });
+
+  describe('handleWebhook', () => {
+    it('handles an event delivered twice once', async () => {
+      const event = stripeEvent('evt_1', 'charge.refunded');
+      jest.spyOn(paymentGateway, 'constructWebhookEvent').mockReturnValue(event);
+      const handleChargeRefunded = jest.spyOn(refundService, 'handleChargeRefunded').mockResolvedValue();
+
+      const first = await paymentService.handleWebhook('{}', 'signature');
+      const second = await paymentService.handleWebhook('{}', 'signature');
+
+      expect(first).toEqual({ success: true, data: { handled: true, eventType: 'charge.refunded' } });
+      expect(second).toEqual({ success: true, data: { handled: false, eventType: 'charge.refunded' } });
+      expect(handleChargeRefunded).toHaveBeenCalledTimes(1);
+      expect(db.webhookEvent.rows).toMatchObject([{ status: WebhookEventStatus.PROCESSED, attempts: 1 }]);
+    });
+
+    it('records a failed event so it is retried', async () => {
+      jest.spyOn(paymentGateway, 'constructWebhookEvent').mockReturnValue(stripeEvent('evt_1', 'charge.refunded'));
+      jest.spyOn(refundService, 'handleChargeRefunded').mockRejectedValue(new Error('Database unavailable'));
+
+      const result = await paymentService.handleWebhook('{}', 'signature');
+
+      expect(result).toMatchObject({ success: false, error: { code: 'WEBHOOK_FAILED' } });
+      expect(db.webhookEvent.rows).toMatchObject([
+        { status: WebhookEventStatus.FAILED, lastError: 'Database unavailable' },
+      ]);
+    });
+  });
+
+  describe('replayWebhookEvent', () => {
+    it('processes a failed event again from its stored payload', async () => {
+      const stored = await webhookEventService.claim(stripeEvent('evt_1', 'charge.refunded'));
+      await webhookEventService.markFailed(stored!.id, new Error('Database unavailable'));
+      const handleChargeRefunded = jest.spyOn(refundService, 'handleChargeRefunded').mockResolvedValue();
+
+      const result = await paymentService.replayWebhookEvent(stored!.id);
+
+      expect(result).toEqual({ success: true, data: { handled: true, eventType: 'charge.refunded' } });
+      expect(handleChargeRefunded).toHaveBeenCalledWith({ id: 'ch_evt_1' });
+      expect(await webhookEventService.getEvent(stored!.id)).toMatchObject({
+        status: WebhookEventStatus.PROCESSED,
+        attempts: 2,
+        lastError: null,
+      });
+    });
+
+    it('marks events nothing handles as ignored', async () => {
+      const stored = await webhookEventService.claim(stripeEvent('evt_1', 'customer.created'));
+      await webhookEventService.markFailed(stored!.id, new Error('Database unavailable'));
+
+      await paymentService.replayWebhookEvent(stored!.id);
+
+      expect(await webhookEventService.getEvent(stored!.id)).toMatchObject({ status: WebhookEventStatus.IGNORED });
+    });
+
+    it('does not replay events that were processed', async () => {
+      const stored = await webhookEventService.claim(stripeEvent('evt_1', 'charge.refunded'));
+      await webhookEventService.markProcessed(stored!.id, true);
+      const handleChargeRefunded = jest.spyOn(refundService, 'handleChargeRefunded').mockResolvedValue();
+
+      const result = await paymentService.replayWebhookEvent(stored!.id);
+
+      expect(result).toMatchObject({ success: false, error: { code: 'WEBHOOK_EVENT_NOT_REPLAYABLE' } });
+      expect(handleChargeRefunded).not.toHaveBeenCalled();
+    });
+
+    it('rejects unknown events', async () => {
+      await expect(paymentService.replayWebhookEvent('missing')).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { config } from '../../../src/config';
+import { taxService } from '../../../src/modules/tax/tax.service';
+
+describe('TaxService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('includedTax', () => {
+    it('extracts the tax included in a gross amount', () => {
+      expect(taxService.includedTax(1190, 19)).toBe(190);
+      expect(taxService.includedTax(1200, 20)).toBe(200);
+      expect(taxService.includedTax(1130, 13)).toBe(130);
+    });
+
+    it('rounds to the nearest cent', () => {
+      // 999 * 20 / 120 = 166.5
+      expect(taxService.includedTax(999, 20)).toBe(167);
+      // 1000 * 21 / 121 = 173.55
+      expect(taxService.includedTax(1000, 21)).toBe(174);
+      // 1 * 8.1 / 108.1 = 0.07
+      expect(taxService.includedTax(1, 8.1)).toBe(0);
+    });
+
+    it('is zero without a rate', () => {
+      expect(taxService.includedTax(1190, 0)).toBe(0);
+    });
+  });
+
+  describe('getTreatment', () => {
+    it('charges the region rate, then the country rate', async () => {
+      const ontario = await taxService.getTreatment({ country: 'CA', region: 'ON', vatId: null });
+      const alberta = await taxService.getTreatment({ country: 'CA', region: 'AB', vatId: null });
+
+      expect(ontario).toMatchObject({ name: 'HST', ratePercent: 13, reverseCharge: false });
+      expect(alberta).toMatchObject({ name: 'GST', ratePercent: 5, reverseCharge: false });
+    });
+
+    it('falls back to the default rate for countries without one', async () => {
+      const treatment = await taxService.getTreatment({ country: 'US', region: null, vatId: null });
+
+      expect(treatment.ratePercent).toBe(config.tax.defaultRatePercent);
+      expect(treatment.reverseCharge).toBe(false);
+    });
+
+    it('reverse charges EU businesses in another member state', async () => {
+      jest.replaceProperty(config.tax, 'sellerCountry', 'IE');
+
+      const treatment = await taxService.getTreatment({ country: 'DE', region: null, vatId: 'DE123456789' });
+
+      expect(treatment).toMatchObject({
+        country: 'DE',
+        vatId: 'DE123456789',
+        ratePercent: 0,
+        includedRatePercent: 19,
+        reverseCharge: true,
+      });
+      // The customer pays the price without the VAT it includes
+      expect(taxService.chargeAmount(1190, treatment)).toBe(1000);
+    });
+
+    it('charges VAT to businesses in the seller\'s own member state', async () => {
+      jest.replaceProperty(config.tax, 'sellerCountry', 'IE');
+
+      const treatment = await taxService.getTreatment({ country: 'IE', region: null, vatId: 'IE1234567T' });
+
+      expect(treatment).toMatchObject({ ratePercent: 23, reverseCharge: false });
+      expect(taxService.chargeAmount(1230, treatment)).toBe(1230);
+    });
+
+    it('charges VAT to EU consumers', async () => {
+      jest.replaceProperty(config.tax, 'sellerCountry', 'IE');
+
+      const treatment = await taxService.getTreatment({ country: 'DE', region: null, vatId: null });
+
+      expect(treatment).toMatchObject({ ratePercent: 19, reverseCharge: false });
+      expect(taxService.chargeAmount(1190, treatment)).toBe(1190);
+    });
+  });
+
+  describe('validateBillingDetails', () => {
+    it('normalizes valid VAT IDs', () => {
+      const result = taxService.validateBillingDetails({ country: 'de', vatId: 'de 123.456.789' });
+
+      expect(result).toMatchObject({ success: true, data: { country: 'DE', vatId: 'DE123456789' } });
+    });
+
+    it('rejects VAT IDs that do not match their member state', () => {
+      const result = taxService.validateBillingDetails({ country: 'DE', vatId: 'DE12345' });
+
+      expect(result.success).toBe(false);
+      expect(!result.success && result.error).toMatchObject({
+        code: 'INVALID_VAT_ID',
+        details: { expectedPrefix: 'DE' },
+      });
+    });
+
+    it('expects the EL prefix for Greece', () => {
+      const result = taxService.validateBillingDetails({ country: 'GR', vatId: 'GR123456789' });
+
+      expect(!result.success && result.error).toMatchObject({
+        code: 'INVALID_VAT_ID',
+        details: { expectedPrefix: 'EL' },
+      });
+      expect(taxService.validateBillingDetails({ country: 'GR', vatId: 'EL123456789' }).success).toBe(true);
+    });
+
+    it('requires a country with a VAT ID', () => {
+      const result = taxService.validateBillingDetails({ vatId: 'DE123456789' });
+
+      expect(!result.success && result.error.code).toBe('BILLING_COUNTRY_REQUIRED');
+    });
+
+    it('rejects malformed countries and regions', () => {
+      expect(taxService.validateBillingDetails({ country: 'DEU' }))
+        .toMatchObject({ success: false, error: { code: 'INVALID_BILLING_COUNTRY' } });
+      expect(taxService.validateBillingDetails({ country: 'CA', region: 'ON-1' }))
+        .toMatchObject({ success: false, error: { code: 'INVALID_BILLING_REGION' } });
+    });
+  });
+});